@@ -5,16 +5,27 @@ import { TransformHandlerService } from './services/transform-handler.service';
 import { LoadHandlerService } from './services/load-handler.service';
 import { FilterHandlerService } from './services/filter-handler.service';
 import { JoinHandlerService } from './services/join-handler.service';
+import { AggregateHandlerService } from './services/aggregate-handler.service';
+import { DedupeHandlerService } from './services/dedupe-handler.service';
+import { SyncHandlerService } from './services/sync-handler.service';
+import { MultiExtractHandlerService } from './services/multi-extract-handler.service';
+import { MultiLoadHandlerService } from './services/multi-load-handler.service';
+import { CloudConnectorSourceHandlerService } from './services/cloud-connector-source-handler.service';
+import { CloudConnectorSinkHandlerService } from './services/cloud-connector-sink-handler.service';
 import { ActivitiesController } from './activities.controller';
 import { ConnectorClientService } from './handlers/connector-client.service';
 import { DataTransformService } from './handlers/data-transform.service';
 import { ExecutionStateService } from '../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../executions/services/step-output-store.service';
+import { ChunkedDatasetService } from './datasets/chunked-dataset.service';
+import { QuarantineService } from '../quarantine/services/quarantine.service';
 import { PrismaService } from '../prisma.service';
 import { AggregatorsModule } from '../aggregators/aggregators.module';
 import { AIModule } from '../ai/ai.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
-  imports: [AggregatorsModule, AIModule],
+  imports: [AggregatorsModule, AIModule, StorageModule],
   controllers: [ActivitiesController],
   providers: [
     ActivityExecutorService,
@@ -23,9 +34,19 @@ import { AIModule } from '../ai/ai.module';
     LoadHandlerService,
     FilterHandlerService,
     JoinHandlerService,
+    AggregateHandlerService,
+    DedupeHandlerService,
+    SyncHandlerService,
+    MultiExtractHandlerService,
+    MultiLoadHandlerService,
+    CloudConnectorSourceHandlerService,
+    CloudConnectorSinkHandlerService,
     ConnectorClientService,
     DataTransformService,
     ExecutionStateService,
+    StepOutputStoreService,
+    ChunkedDatasetService,
+    QuarantineService,
     PrismaService,
   ],
   exports: [
@@ -35,6 +56,14 @@ import { AIModule } from '../ai/ai.module';
     LoadHandlerService,
     FilterHandlerService,
     JoinHandlerService,
+    AggregateHandlerService,
+    DedupeHandlerService,
+    SyncHandlerService,
+    MultiExtractHandlerService,
+    MultiLoadHandlerService,
+    CloudConnectorSourceHandlerService,
+    CloudConnectorSinkHandlerService,
+    ChunkedDatasetService,
   ],
 })
 export class ActivitiesModule {}
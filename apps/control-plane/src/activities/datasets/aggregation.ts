@@ -0,0 +1,241 @@
+import {
+  AggregateConfig,
+  AggregateFunction,
+  AggregateMeasure,
+  AggregateWindow,
+} from '../../workflows/entities/workflow-definition.types';
+import { compareValues, timestampOf } from './values';
+
+const UNIT_MS: Record<Exclude<AggregateWindow['unit'], 'month'>, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+// The epoch was a Thursday; weeks start on the following Monday
+const WEEK_OFFSET_MS = 4 * UNIT_MS.day;
+
+interface Group {
+  keys: any[];
+  window?: { start: number; end: number };
+  accumulators: Accumulator[];
+}
+
+interface Accumulator {
+  add(value: any, order: number): void;
+  result(): any;
+}
+
+/**
+ * Groups rows and folds each group's measures as rows arrive, so only the
+ * groups are held in memory. Nulls are ignored by every function except a
+ * count without a column, as in SQL; an empty sum, avg, min or max is null.
+ */
+export class GroupedAggregation {
+  private readonly groups = new Map<string, Group>();
+  private readonly groupBy: string[];
+  private arrived = 0;
+  /** Windowed rows whose timestamp is missing or unparseable */
+  skipped = 0;
+
+  constructor(private readonly config: AggregateConfig) {
+    this.groupBy = config.groupBy ?? [];
+  }
+
+  add(rows: any[]) {
+    const { window, aggregates } = this.config;
+
+    for (const row of rows) {
+      const arrival = this.arrived++;
+      let bucket: Group['window'];
+      let order = arrival;
+
+      if (window) {
+        // Rows with a missing or unparseable timestamp have no window
+        const time = timestampOf(row[window.column]);
+        if (time === null) {
+          this.skipped++;
+          continue;
+        }
+        bucket = windowOf(time, window);
+        // first and last follow the timestamp in windowed aggregations
+        order = time;
+      }
+
+      const keys = this.groupBy.map(column => row[column] ?? null);
+      const id = JSON.stringify([bucket?.start ?? null, ...keys.map(keyOf)]);
+      let group = this.groups.get(id);
+      if (!group) {
+        group = { keys, window: bucket, accumulators: aggregates.map(measure => accumulatorFor(measure)) };
+        this.groups.set(id, group);
+      }
+
+      aggregates.forEach((measure, i) => {
+        group!.accumulators[i].add(measure.column === undefined ? row : row[measure.column], order);
+      });
+    }
+  }
+
+  /** One row per group, by window and then by first appearance */
+  results(): any[] {
+    const groups = [...this.groups.values()];
+    if (this.config.window) {
+      groups.sort((a, b) => a.window!.start - b.window!.start);
+    }
+
+    return groups.map(group => {
+      const row: any = {};
+      this.groupBy.forEach((column, i) => { row[column] = group.keys[i]; });
+      if (group.window) {
+        row.window_start = new Date(group.window.start).toISOString();
+        row.window_end = new Date(group.window.end).toISOString();
+      }
+      this.config.aggregates.forEach((measure, i) => { row[measure.as] = group.accumulators[i].result(); });
+      return row;
+    });
+  }
+}
+
+/**
+ * Lists what is wrong with an aggregate config
+ */
+export function validateAggregateConfig(config: Record<string, any>): string[] {
+  const errors: string[] = [];
+  const functions: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max', 'countDistinct', 'first', 'last'];
+
+  if (!config.inputActivityId) errors.push('inputActivityId is required');
+  if (config.groupBy !== undefined && !(Array.isArray(config.groupBy) && config.groupBy.every(isName))) {
+    errors.push('groupBy must be an array of column names');
+  }
+
+  if (!Array.isArray(config.aggregates) || config.aggregates.length === 0) {
+    errors.push('aggregates is required and must be a non-empty array');
+  } else {
+    const outputs = new Set<string>(Array.isArray(config.groupBy) ? config.groupBy : []);
+    if (config.window) outputs.add('window_start').add('window_end');
+
+    config.aggregates.forEach((measure: any, i: number) => {
+      if (!functions.includes(measure?.function)) {
+        errors.push(`aggregates[${i}].function must be one of: ${functions.join(', ')}`);
+      } else if (measure.function !== 'count' && !isName(measure.column)) {
+        errors.push(`aggregates[${i}].column is required for ${measure.function}`);
+      }
+      if (!isName(measure?.as)) {
+        errors.push(`aggregates[${i}].as is required`);
+      } else if (outputs.has(measure.as)) {
+        errors.push(`aggregates[${i}].as "${measure.as}" is already an output column`);
+      } else {
+        outputs.add(measure.as);
+      }
+    });
+  }
+
+  if (config.window !== undefined) {
+    const { column, unit, every } = config.window ?? {};
+    if (!isName(column)) errors.push('window.column is required');
+    if (!['second', 'minute', 'hour', 'day', 'week', 'month'].includes(unit)) {
+      errors.push('window.unit must be one of: second, minute, hour, day, week, month');
+    }
+    if (every !== undefined && !(Number.isInteger(every) && every > 0)) {
+      errors.push('window.every must be a positive integer');
+    }
+  }
+
+  return errors;
+}
+
+function accumulatorFor(measure: AggregateMeasure): Accumulator {
+  const column = measure.column;
+  switch (measure.function) {
+    case 'count': {
+      let count = 0;
+      return {
+        add: value => { if (value !== null && value !== undefined) count++; },
+        result: () => count,
+      };
+    }
+    case 'countDistinct': {
+      const seen = new Set<string>();
+      return {
+        add: value => { if (value !== null && value !== undefined) seen.add(keyOf(value)); },
+        result: () => seen.size,
+      };
+    }
+    case 'sum':
+    case 'avg': {
+      let sum = 0;
+      let count = 0;
+      return {
+        add: value => {
+          if (value === null || value === undefined) return;
+          sum += numberOf(value, column!);
+          count++;
+        },
+        result: () => count === 0 ? null : measure.function === 'sum' ? sum : sum / count,
+      };
+    }
+    case 'min':
+    case 'max': {
+      let best: any = null;
+      const sign = measure.function === 'min' ? -1 : 1;
+      return {
+        add: value => {
+          if (value === null || value === undefined) return;
+          if (best === null || compareValues(value, best) * sign > 0) best = value;
+        },
+        result: () => best,
+      };
+    }
+    case 'first':
+    case 'last': {
+      let picked: { value: any; order: number } | null = null;
+      const later = measure.function === 'last';
+      return {
+        add: (value, order) => {
+          if (value === null || value === undefined) return;
+          // Ties keep the earlier arrival for first and the later one for last
+          if (!picked || (later ? order >= picked.order : order < picked.order)) picked = { value, order };
+        },
+        result: () => picked?.value ?? null,
+      };
+    }
+  }
+}
+
+function windowOf(time: number, window: AggregateWindow): { start: number; end: number } {
+  const every = window.every ?? 1;
+
+  if (window.unit === 'month') {
+    const date = new Date(time);
+    const month = date.getUTCFullYear() * 12 + date.getUTCMonth();
+    const first = month - (((month % every) + every) % every);
+    return {
+      start: Date.UTC(Math.floor(first / 12), first % 12, 1),
+      end: Date.UTC(Math.floor((first + every) / 12), (first + every) % 12, 1),
+    };
+  }
+
+  const size = UNIT_MS[window.unit] * every;
+  const offset = window.unit === 'week' ? WEEK_OFFSET_MS : 0;
+  const start = Math.floor((time - offset) / size) * size + offset;
+  return { start, end: start + size };
+}
+
+// Drivers hand numeric and bigint columns over as strings
+function numberOf(value: any, column: string): number {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(number)) {
+    throw new Error(`Column "${column}" has a non-numeric value: ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+// Group keys and distinct values compare by type and value
+function keyOf(value: any): string {
+  return value instanceof Date ? `d:${value.toISOString()}` : JSON.stringify(value) ?? 'null';
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChunkedDatasetService } from './chunked-dataset.service';
+import { CHUNKED_DATASET_FORMAT } from './chunked-dataset.types';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+
+describe('ChunkedDatasetService', () => {
+  let service: ChunkedDatasetService;
+
+  const mockOutputStore = {
+    saveChunk: jest.fn(),
+    load: jest.fn(),
+  };
+
+  const context = { tenantId: 'tenant-1', executionId: 'exec-1', stepId: 'extract', retryCount: 0 };
+  const rows = (from: number, count: number) => Array.from({ length: count }, (_, i) => ({ id: from + i }));
+
+  beforeEach(async () => {
+    process.env.DATASET_CHUNK_ROWS = '3';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChunkedDatasetService,
+        { provide: StepOutputStoreService, useValue: mockOutputStore },
+      ],
+    }).compile();
+
+    service = module.get<ChunkedDatasetService>(ChunkedDatasetService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete process.env.DATASET_CHUNK_ROWS;
+  });
+
+  describe('createWriter', () => {
+    it('should return a plain array when the rows fit in one chunk', async () => {
+      const writer = service.createWriter(context);
+      await writer.write(rows(0, 2));
+
+      const result = await writer.finish({ columns: ['id'] });
+
+      expect(result).toEqual(rows(0, 2));
+      expect(mockOutputStore.saveChunk).not.toHaveBeenCalled();
+    });
+
+    it('should flush full chunks as rows arrive and return a manifest', async () => {
+      mockOutputStore.saveChunk.mockImplementation(async (_location, index) => `blob://chunk-${index}`);
+      const writer = service.createWriter({ ...context, retryCount: 1 });
+
+      await writer.write(rows(0, 4));
+      expect(mockOutputStore.saveChunk).toHaveBeenCalledTimes(1);
+      await writer.write(rows(4, 3));
+
+      const result = await writer.finish({ columns: ['id'] });
+
+      expect(mockOutputStore.saveChunk).toHaveBeenCalledTimes(3);
+      expect(mockOutputStore.saveChunk).toHaveBeenCalledWith(
+        { tenantId: 'tenant-1', executionId: 'exec-1', stepId: 'extract', attempt: 2 },
+        2,
+        rows(6, 1),
+      );
+      expect(result).toEqual({
+        format: CHUNKED_DATASET_FORMAT,
+        chunks: [
+          { ref: 'blob://chunk-0', rows: 3 },
+          { ref: 'blob://chunk-1', rows: 3 },
+          { ref: 'blob://chunk-2', rows: 1 },
+        ],
+        rowCount: 7,
+        columns: ['id'],
+      });
+    });
+  });
+
+  describe('resolve', () => {
+    it('should unwrap { data } outputs and rethrow source errors', () => {
+      expect(service.resolve({ data: rows(0, 1) })).toEqual(rows(0, 1));
+      expect(() => service.resolve({ data: { error: 'boom' } })).toThrow('Source data error: boom');
+      expect(() => service.resolve('nope')).toThrow('Input must be an array of rows or a chunked dataset');
+    });
+  });
+
+  describe('batches', () => {
+    const manifest = {
+      format: CHUNKED_DATASET_FORMAT,
+      chunks: [
+        { ref: 'blob://chunk-0', rows: 3 },
+        { ref: 'blob://chunk-1', rows: 2 },
+      ],
+      rowCount: 5,
+    } as const;
+
+    it('should load chunks one at a time and re-slice them to the batch size', async () => {
+      mockOutputStore.load
+        .mockResolvedValueOnce(rows(0, 3))
+        .mockResolvedValueOnce(rows(3, 2));
+
+      const batches: any[][] = [];
+      for await (const batch of service.batches(manifest as any, 2)) {
+        batches.push(batch);
+      }
+
+      expect(batches).toEqual([rows(0, 2), rows(2, 1), rows(3, 2)]);
+      expect(mockOutputStore.load).toHaveBeenNthCalledWith(1, 'blob://chunk-0');
+      expect(mockOutputStore.load).toHaveBeenNthCalledWith(2, 'blob://chunk-1');
+    });
+
+    it('should read a whole manifest with readAll', async () => {
+      mockOutputStore.load
+        .mockResolvedValueOnce(rows(0, 3))
+        .mockResolvedValueOnce(rows(3, 2));
+
+      await expect(service.readAll(manifest as any)).resolves.toEqual(rows(0, 5));
+    });
+  });
+});
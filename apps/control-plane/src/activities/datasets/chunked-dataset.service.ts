@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { StepOutputStoreService, StepOutputLocation } from '../../executions/services/step-output-store.service';
+import { ExecutionContext } from '../entities/activity-result.types';
+import { ChunkedDataset, CHUNKED_DATASET_FORMAT, DatasetChunkRef, isChunkedDataset } from './chunked-dataset.types';
+
+const DEFAULT_CHUNK_ROWS = 5000;
+
+type DatasetMetadata = Pick<ChunkedDataset, 'columns' | '_sourceMetadata'>;
+
+/**
+ * Accumulates rows and flushes them to storage a chunk at a time, so a producer
+ * never holds more than one chunk in memory.
+ */
+export class DatasetWriter {
+  private buffer: any[] = [];
+  private readonly chunks: DatasetChunkRef[] = [];
+  private totalRows = 0;
+
+  constructor(
+    private readonly outputStore: StepOutputStoreService,
+    private readonly location: StepOutputLocation,
+    private readonly chunkRows: number,
+  ) {}
+
+  get rowCount(): number {
+    return this.totalRows;
+  }
+
+  async write(rows: any[]) {
+    for (const row of rows) this.buffer.push(row);
+    this.totalRows += rows.length;
+
+    while (this.buffer.length >= this.chunkRows) {
+      await this.flush(this.buffer.splice(0, this.chunkRows));
+    }
+  }
+
+  /**
+   * Datasets that fit in a single chunk come back as a plain array, so small
+   * outputs keep the shape every consumer already understands.
+   */
+  async finish(metadata: DatasetMetadata = {}): Promise<any[] | ChunkedDataset> {
+    if (this.chunks.length === 0) {
+      const rows = this.buffer;
+      this.buffer = [];
+      return rows;
+    }
+
+    if (this.buffer.length > 0) {
+      await this.flush(this.buffer);
+      this.buffer = [];
+    }
+
+    return {
+      format: CHUNKED_DATASET_FORMAT,
+      chunks: this.chunks,
+      rowCount: this.totalRows,
+      ...metadata,
+    };
+  }
+
+  private async flush(rows: any[]) {
+    const ref = await this.outputStore.saveChunk(this.location, this.chunks.length, rows);
+    this.chunks.push({ ref, rows: rows.length });
+  }
+}
+
+@Injectable()
+export class ChunkedDatasetService {
+  private readonly chunkRows = parseInt(process.env.DATASET_CHUNK_ROWS || String(DEFAULT_CHUNK_ROWS));
+
+  constructor(private readonly outputStore: StepOutputStoreService) {}
+
+  /**
+   * Steps producing several datasets pass a name per dataset to keep their chunks apart
+   */
+  createWriter(
+    context: Pick<ExecutionContext, 'tenantId' | 'executionId' | 'stepId' | 'retryCount'>,
+    dataset?: string,
+  ): DatasetWriter {
+    return new DatasetWriter(
+      this.outputStore,
+      {
+        tenantId: context.tenantId,
+        executionId: context.executionId,
+        stepId: context.stepId,
+        attempt: context.retryCount + 1,
+        ...(dataset && { dataset }),
+      },
+      this.chunkRows,
+    );
+  }
+
+  isChunked(input: any): input is ChunkedDataset {
+    return isChunkedDataset(input);
+  }
+
+  /**
+   * Unwraps a step output into rows or a chunked dataset. Accepts plain arrays,
+   * `{ data: [...] }` wrappers and manifests; source errors are rethrown.
+   */
+  resolve(input: any): any[] | ChunkedDataset {
+    if (Array.isArray(input) || isChunkedDataset(input)) return input;
+
+    if (input && typeof input === 'object') {
+      if (input.error) throw new Error(`Source data error: ${input.error}`);
+      if (input.data && !Array.isArray(input.data) && input.data.error) {
+        throw new Error(`Source data error: ${input.data.error}`);
+      }
+      if (Array.isArray(input.data) || isChunkedDataset(input.data)) return input.data;
+    }
+
+    throw new Error('Input must be an array of rows or a chunked dataset');
+  }
+
+  rowCount(dataset: any[] | ChunkedDataset): number {
+    return Array.isArray(dataset) ? dataset.length : dataset.rowCount;
+  }
+
+  /**
+   * Yields the rows of a dataset in batches. Chunked datasets are read one chunk
+   * at a time; batchSize re-slices them, otherwise each chunk is one batch.
+   */
+  async *batches(dataset: any[] | ChunkedDataset, batchSize?: number): AsyncGenerator<any[]> {
+    if (Array.isArray(dataset)) {
+      const size = batchSize || dataset.length || 1;
+      for (let i = 0; i < dataset.length; i += size) {
+        yield dataset.slice(i, i + size);
+      }
+      return;
+    }
+
+    for (const chunk of dataset.chunks) {
+      const rows: any[] = await this.outputStore.load(chunk.ref);
+      if (!batchSize) {
+        yield rows;
+        continue;
+      }
+      for (let i = 0; i < rows.length; i += batchSize) {
+        yield rows.slice(i, i + batchSize);
+      }
+    }
+  }
+
+  /**
+   * Loads a whole dataset into memory - only for consumers that need every row at once.
+   */
+  async readAll(dataset: any[] | ChunkedDataset): Promise<any[]> {
+    if (Array.isArray(dataset)) return dataset;
+
+    const rows: any[] = [];
+    for await (const batch of this.batches(dataset)) {
+      for (const row of batch) rows.push(row);
+    }
+    return rows;
+  }
+}
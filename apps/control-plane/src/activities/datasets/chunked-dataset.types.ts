@@ -0,0 +1,47 @@
+// Marks a step output as a manifest of stored chunks rather than inline rows
+export const CHUNKED_DATASET_FORMAT = 'chunked-dataset/v1';
+
+export interface DatasetChunkRef {
+  ref: string;   // outputRef-style value: storage URI or inline JSON
+  rows: number;
+}
+
+/**
+ * Step output for datasets too large to hold in memory. Producers write rows
+ * chunk by chunk and consumers read them back one chunk at a time.
+ */
+export interface ChunkedDataset {
+  format: typeof CHUNKED_DATASET_FORMAT;
+  chunks: DatasetChunkRef[];
+  rowCount: number;
+  columns?: string[];
+  _sourceMetadata?: {
+    tableName?: string;
+    columns?: string[];
+    database?: string;
+  };
+}
+
+export const isChunkedDataset = (value: any): value is ChunkedDataset =>
+  !!value && typeof value === 'object' && value.format === CHUNKED_DATASET_FORMAT && Array.isArray(value.chunks);
+
+// Marks a step output holding one dataset per table
+export const MULTI_DATASET_FORMAT = 'multi-dataset/v1';
+
+export interface TableDataset {
+  table: string;
+  rowCount: number;
+  columns?: string[];
+  data: any[] | ChunkedDataset;
+}
+
+/**
+ * Step output of multi-extract: a dataset per source table, each inline or chunked.
+ */
+export interface MultiDataset {
+  format: typeof MULTI_DATASET_FORMAT;
+  datasets: TableDataset[];
+}
+
+export const isMultiDataset = (value: any): value is MultiDataset =>
+  !!value && typeof value === 'object' && value.format === MULTI_DATASET_FORMAT && Array.isArray(value.datasets);
@@ -0,0 +1,128 @@
+import { DedupeConfig } from '../../workflows/entities/workflow-definition.types';
+import { compareValues } from './values';
+
+type Position = { order: any; arrival: number };
+
+interface Survivor {
+  row: any;
+  position: Position;
+  /** merge only: the position each field's value came from */
+  fields?: Map<string, Position>;
+}
+
+/**
+ * Keeps one row per key. Without orderBy, "first" streams: a key's first row
+ * is passed on as soon as it arrives and only the keys seen are remembered.
+ * Every other rule holds one survivor per key until the input ends. Keys
+ * compare by type and value, and null keys are equal to each other.
+ */
+export class Deduplicator {
+  private readonly seen = new Set<string>();
+  private readonly survivors = new Map<string, Survivor>();
+  private arrived = 0;
+  duplicates = 0;
+
+  constructor(private readonly config: DedupeConfig) {}
+
+  get streaming(): boolean {
+    return this.config.survivorship === 'first' && !this.config.orderBy;
+  }
+
+  /**
+   * Takes a batch; in streaming mode returns the rows that survive it
+   */
+  add(rows: any[]): any[] {
+    const passed: any[] = [];
+
+    for (const row of rows) {
+      const key = JSON.stringify(this.config.keys.map(column => valueKey(row[column])));
+      const position = { order: this.config.orderBy ? row[this.config.orderBy] ?? null : null, arrival: this.arrived++ };
+
+      if (this.streaming) {
+        if (this.seen.has(key)) {
+          this.duplicates++;
+        } else {
+          this.seen.add(key);
+          passed.push(row);
+        }
+        continue;
+      }
+
+      const survivor = this.survivors.get(key);
+      if (!survivor) {
+        this.survivors.set(key, this.config.survivorship === 'merge'
+          ? { row: { ...row }, position, fields: new Map(Object.keys(row).map(column => [column, position])) }
+          : { row, position });
+        continue;
+      }
+
+      this.duplicates++;
+      if (this.config.survivorship === 'merge') {
+        mergeInto(survivor, row, position);
+      } else if (this.config.survivorship === 'last' ? !before(position, survivor.position) : before(position, survivor.position)) {
+        survivor.row = row;
+        survivor.position = position;
+      }
+    }
+
+    return passed;
+  }
+
+  /** Survivors of the non-streaming rules, in order of each key's first row */
+  results(): any[] {
+    return [...this.survivors.values()].map(survivor => survivor.row);
+  }
+}
+
+/**
+ * Lists what is wrong with a dedupe config
+ */
+export function validateDedupeConfig(config: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!config.inputActivityId) errors.push('inputActivityId is required');
+  if (!Array.isArray(config.keys) || config.keys.length === 0 || !config.keys.every(isName)) {
+    errors.push('keys is required and must be a non-empty array of column names');
+  }
+  if (!['first', 'last', 'merge'].includes(config.survivorship)) {
+    errors.push('survivorship must be one of: first, last, merge');
+  }
+  if (config.orderBy !== undefined && !isName(config.orderBy)) {
+    errors.push('orderBy must be a column name');
+  }
+
+  return errors;
+}
+
+// Each field takes the latest non-null value; nulls never overwrite
+function mergeInto(survivor: Survivor, row: any, position: Position) {
+  for (const [column, value] of Object.entries(row)) {
+    if (value === null || value === undefined) continue;
+    const current = survivor.fields!.get(column);
+    const currentValue = survivor.row[column];
+    if (!current || currentValue === null || currentValue === undefined || !before(position, current)) {
+      survivor.row[column] = value;
+      survivor.fields!.set(column, position);
+    }
+  }
+}
+
+// Rows without an orderBy value sort first; ties go by arrival
+function before(a: Position, b: Position): boolean {
+  if (a.order !== null && b.order !== null) {
+    const comparison = compareValues(a.order, b.order);
+    if (comparison !== 0) return comparison < 0;
+  } else if (a.order !== b.order) {
+    return a.order === null;
+  }
+  return a.arrival < b.arrival;
+}
+
+function valueKey(value: any): any {
+  if (value === undefined) return null;
+  return value instanceof Date ? { date: value.toISOString() } : value;
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
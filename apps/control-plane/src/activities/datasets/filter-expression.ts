@@ -0,0 +1,249 @@
+import {
+  FilterCondition,
+  FilterExpression,
+  FilterOperator,
+} from '../../workflows/entities/workflow-definition.types';
+import { compareValues, timestampOf } from './values';
+
+export type RowPredicate = (row: any) => boolean;
+
+const OPERATORS: FilterOperator[] = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'notIn',
+  'isNull', 'isNotNull', 'contains', 'startsWith', 'endsWith', 'regex',
+];
+const TEXT_OPERATORS: FilterOperator[] = ['contains', 'startsWith', 'endsWith', 'regex'];
+
+// "now" or "today", optionally shifted, e.g. "today-7d" or "now+30m"
+const RELATIVE_DATE = /^(now|today)(?:([+-])(\d+)([smhdw]))?$/;
+const RELATIVE_UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Lists what is wrong with a filter config. Exactly one of expression or the
+ * JavaScript condition is allowed.
+ */
+export function validateFilterConfig(config: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!config.inputActivityId) errors.push('inputActivityId is required');
+  if (config.expression !== undefined && config.condition !== undefined) {
+    errors.push('expression and condition cannot both be set');
+  } else if (config.expression !== undefined) {
+    errors.push(...validateFilterExpression(config.expression));
+  } else if (typeof config.condition !== 'string' || config.condition.trim() === '') {
+    errors.push('expression or condition is required');
+  }
+
+  return errors;
+}
+
+/**
+ * Lists what is wrong with a filter expression, naming each problem by its
+ * path, e.g. "expression.and[1].value"
+ */
+export function validateFilterExpression(expression: any, path = 'expression'): string[] {
+  if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+    return [`${path} must be a condition or an and, or or not group`];
+  }
+
+  const groups = ['and', 'or', 'not'].filter(key => key in expression);
+  if (groups.length > 1 || (groups.length === 1 && 'field' in expression)) {
+    return [`${path} must have exactly one of field, and, or, not`];
+  }
+
+  if (groups[0] === 'not') {
+    return validateFilterExpression(expression.not, `${path}.not`);
+  }
+  if (groups.length === 1) {
+    const group = groups[0];
+    const members = expression[group];
+    if (!Array.isArray(members) || members.length === 0) {
+      return [`${path}.${group} must be a non-empty array`];
+    }
+    return members.flatMap((member: any, i: number) => validateFilterExpression(member, `${path}.${group}[${i}]`));
+  }
+
+  return validateCondition(expression, path);
+}
+
+/**
+ * Turns an expression into a row predicate. Fields that are null or missing
+ * fail every operator except isNull, as in SQL, so neq and notIn never match
+ * them either. Relative dates are resolved once, against now.
+ */
+export function compileFilterExpression(expression: FilterExpression, now = new Date()): RowPredicate {
+  if ('and' in expression) {
+    const members = expression.and.map(member => compileFilterExpression(member, now));
+    return row => members.every(matches => matches(row));
+  }
+  if ('or' in expression) {
+    const members = expression.or.map(member => compileFilterExpression(member, now));
+    return row => members.some(matches => matches(row));
+  }
+  if ('not' in expression) {
+    const member = compileFilterExpression(expression.not, now);
+    return row => !member(row);
+  }
+  return compileCondition(expression, now);
+}
+
+function validateCondition(condition: Record<string, any>, path: string): string[] {
+  const errors: string[] = [];
+  const { field, operator, value, type } = condition;
+
+  if (typeof field !== 'string' || field.length === 0) errors.push(`${path}.field is required`);
+  if (!OPERATORS.includes(operator)) {
+    errors.push(`${path}.operator must be one of: ${OPERATORS.join(', ')}`);
+    return errors;
+  }
+  if (type !== undefined && type !== 'date') errors.push(`${path}.type must be date`);
+  if (type === 'date' && TEXT_OPERATORS.includes(operator)) {
+    errors.push(`${path}.type date cannot be used with ${operator}`);
+  }
+  if (condition.caseInsensitive !== undefined && typeof condition.caseInsensitive !== 'boolean') {
+    errors.push(`${path}.caseInsensitive must be a boolean`);
+  }
+
+  const values = operator === 'between' || operator === 'in' || operator === 'notIn' ? value : [value];
+  switch (operator) {
+    case 'isNull':
+    case 'isNotNull':
+      if (value !== undefined) errors.push(`${path}.value is not allowed for ${operator}`);
+      return errors;
+    case 'between':
+      if (!Array.isArray(value) || value.length !== 2) {
+        errors.push(`${path}.value must be a [low, high] pair for between`);
+        return errors;
+      }
+      break;
+    case 'in':
+    case 'notIn':
+      if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`${path}.value must be a non-empty array for ${operator}`);
+        return errors;
+      }
+      break;
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith':
+    case 'regex':
+      if (typeof value !== 'string') {
+        errors.push(`${path}.value must be a string for ${operator}`);
+      } else if (operator === 'regex') {
+        try {
+          new RegExp(value);
+        } catch (error) {
+          errors.push(`${path}.value is not a valid regex: ${error.message}`);
+        }
+      }
+      return errors;
+  }
+
+  if (values.some((item: any) => item === null || item === undefined || typeof item === 'object')) {
+    errors.push(`${path}.value must be a string, number or boolean for ${operator}; use isNull to match nulls`);
+  } else if (type === 'date') {
+    const unparseable = values.find((item: any) => dateOf(item, new Date()) === null);
+    if (unparseable !== undefined) errors.push(`${path}.value ${JSON.stringify(unparseable)} is not a date`);
+  }
+
+  return errors;
+}
+
+function compileCondition(condition: FilterCondition, now: Date): RowPredicate {
+  const { field, operator, caseInsensitive } = condition;
+
+  if (operator === 'isNull') return row => isMissing(row[field]);
+  if (operator === 'isNotNull') return row => !isMissing(row[field]);
+
+  if (operator === 'regex') {
+    const pattern = new RegExp(condition.value, caseInsensitive ? 'i' : '');
+    return row => !isMissing(row[field]) && pattern.test(String(row[field]));
+  }
+
+  // Field and compared values go through the same normalization
+  const normalize = condition.type === 'date'
+    ? (value: any) => dateOf(value, now)
+    : (value: any) => caseInsensitive && typeof value === 'string' ? value.toLowerCase() : value;
+  const test = matcherFor(operator, condition.value, normalize);
+
+  return row => {
+    if (isMissing(row[field])) return false;
+    const value = normalize(row[field]);
+    return value !== null && test(value);
+  };
+}
+
+function matcherFor(operator: FilterOperator, expected: any, normalize: (value: any) => any): (value: any) => boolean {
+  switch (operator) {
+    case 'eq': {
+      const target = normalize(expected);
+      return value => compareValues(value, target) === 0;
+    }
+    case 'neq': {
+      const target = normalize(expected);
+      return value => compareValues(value, target) !== 0;
+    }
+    case 'gt': {
+      const target = normalize(expected);
+      return value => compareValues(value, target) > 0;
+    }
+    case 'gte': {
+      const target = normalize(expected);
+      return value => compareValues(value, target) >= 0;
+    }
+    case 'lt': {
+      const target = normalize(expected);
+      return value => compareValues(value, target) < 0;
+    }
+    case 'lte': {
+      const target = normalize(expected);
+      return value => compareValues(value, target) <= 0;
+    }
+    case 'between': {
+      const [low, high] = expected.map(normalize);
+      return value => compareValues(value, low) >= 0 && compareValues(value, high) <= 0;
+    }
+    case 'in':
+    case 'notIn': {
+      const targets = expected.map(normalize);
+      const wanted = operator === 'in';
+      return value => targets.some((target: any) => compareValues(value, target) === 0) === wanted;
+    }
+    case 'contains': {
+      const target = normalize(expected);
+      return value => String(value).includes(target);
+    }
+    case 'startsWith': {
+      const target = normalize(expected);
+      return value => String(value).startsWith(target);
+    }
+    case 'endsWith': {
+      const target = normalize(expected);
+      return value => String(value).endsWith(target);
+    }
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+// Relative dates count from now; "today" is midnight UTC
+function dateOf(value: any, now: Date): number | null {
+  const relative = typeof value === 'string' ? RELATIVE_DATE.exec(value.trim()) : null;
+  if (!relative) return timestampOf(value);
+
+  const [, anchor, sign, amount, unit] = relative;
+  const base = anchor === 'today'
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    : now.getTime();
+  const shift = sign ? Number(amount) * RELATIVE_UNIT_MS[unit] * (sign === '-' ? -1 : 1) : 0;
+  return base + shift;
+}
+
+function isMissing(value: any): boolean {
+  return value === null || value === undefined;
+}
@@ -0,0 +1,271 @@
+import { createReadStream, createWriteStream, WriteStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { JoinType } from '../../workflows/entities/workflow-definition.types';
+
+export interface JoinSpec {
+  joinType: JoinType;
+  /** Key columns of each side, paired by position */
+  leftKey: string[];
+  rightKey: string[];
+  /** Prepended to columns both sides have, other than shared keys */
+  leftPrefix: string;
+  rightPrefix: string;
+}
+
+export interface HashJoinOptions {
+  /** Rows of the right side held in memory; past this both sides are partitioned to disk */
+  maxMemoryRows: number;
+  spillDir?: string;
+}
+
+type Rows = AsyncIterable<any[]>;
+type Emit = (rows: any[]) => Promise<void>;
+
+// Partitions are read back one at a time; each should fit maxMemoryRows
+const MAX_PARTITIONS = 64;
+const EMIT_ROWS = 1000;
+
+/**
+ * Shapes joined rows. Every output row has the same columns: those of the
+ * left side, then those of the right, with the side missing from an outer
+ * join row set to null. A key column both sides name alike appears once;
+ * other columns both sides have are prefixed per side.
+ */
+export class JoinRowBuilder {
+  private readonly sharedKeys: Set<string>;
+  private readonly leftNames: Map<string, string>;
+  private readonly rightNames: Map<string, string>;
+
+  constructor(spec: JoinSpec, leftColumns: string[], rightColumns: string[]) {
+    this.sharedKeys = new Set(spec.leftKey.filter((column, i) => spec.rightKey[i] === column));
+    const right = new Set(rightColumns);
+    const left = new Set(leftColumns);
+    const collides = (column: string, other: Set<string>) => other.has(column) && !this.sharedKeys.has(column);
+
+    this.leftNames = new Map(leftColumns.map(column => [column, collides(column, right) ? `${spec.leftPrefix}${column}` : column]));
+    this.rightNames = new Map(rightColumns
+      .filter(column => !this.sharedKeys.has(column))
+      .map(column => [column, collides(column, left) ? `${spec.rightPrefix}${column}` : column]));
+  }
+
+  columns(): string[] {
+    return [...this.leftNames.values(), ...this.rightNames.values()];
+  }
+
+  matched(left: any, right: any): any {
+    const row: any = {};
+    for (const [column, name] of this.leftNames) row[name] = left[column] ?? null;
+    for (const [column, name] of this.rightNames) row[name] = right[column] ?? null;
+    return row;
+  }
+
+  leftOnly(left: any): any {
+    const row: any = {};
+    for (const [column, name] of this.leftNames) row[name] = left[column] ?? null;
+    for (const name of this.rightNames.values()) row[name] = null;
+    return row;
+  }
+
+  rightOnly(right: any): any {
+    const row: any = {};
+    for (const [column, name] of this.leftNames) {
+      row[name] = this.sharedKeys.has(column) ? right[column] ?? null : null;
+    }
+    for (const [column, name] of this.rightNames) row[name] = right[column] ?? null;
+    return row;
+  }
+}
+
+/**
+ * Key of a row as a string, or null when any key column is null: as in SQL,
+ * null keys match nothing. Values compare as strings so 1 and "1" match.
+ */
+export function joinKeyOf(row: any, columns: string[]): string | null {
+  const values: string[] = [];
+  for (const column of columns) {
+    const value = row[column];
+    if (value === null || value === undefined) {
+      return null;
+    }
+    values.push(value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value));
+  }
+  return JSON.stringify(values);
+}
+
+/**
+ * Hash join with the right side as the build side. When the right side has
+ * more rows than fit in memory, both sides are first partitioned by key hash
+ * into files (a grace hash join) and the partitions joined one at a time;
+ * output is then grouped by partition rather than in left order.
+ */
+export class HashJoin {
+  constructor(
+    private readonly spec: JoinSpec,
+    private readonly rows: JoinRowBuilder,
+    private readonly options: HashJoinOptions,
+  ) {}
+
+  async run(left: Rows, right: Rows, rightRowCount: number, emit: Emit): Promise<{ spilled: boolean; partitions: number }> {
+    if (rightRowCount <= this.options.maxMemoryRows) {
+      await this.joinInMemory(left, right, emit);
+      return { spilled: false, partitions: 1 };
+    }
+
+    const partitions = Math.min(MAX_PARTITIONS, Math.ceil(rightRowCount / this.options.maxMemoryRows) * 2);
+    await this.joinSpilled(left, right, partitions, emit);
+    return { spilled: true, partitions };
+  }
+
+  private async joinInMemory(left: Rows, right: Rows, emit: Emit) {
+    const { joinType, leftKey, rightKey } = this.spec;
+    const table = new Map<string, { row: any; matched: boolean }[]>();
+    const unkeyed: any[] = [];
+
+    for await (const batch of right) {
+      for (const row of batch) {
+        const key = joinKeyOf(row, rightKey);
+        if (key === null) {
+          unkeyed.push(row);
+          continue;
+        }
+        const entries = table.get(key);
+        if (entries) {
+          entries.push({ row, matched: false });
+        } else {
+          table.set(key, [{ row, matched: false }]);
+        }
+      }
+    }
+
+    for await (const batch of left) {
+      const out: any[] = [];
+      for (const row of batch) {
+        const key = joinKeyOf(row, leftKey);
+        const matches = key === null ? undefined : table.get(key);
+
+        if (joinType === 'semi' || joinType === 'anti') {
+          if (!!matches === (joinType === 'semi')) out.push(row);
+        } else if (matches) {
+          for (const match of matches) {
+            match.matched = true;
+            out.push(this.rows.matched(row, match.row));
+          }
+        } else if (joinType === 'left' || joinType === 'full') {
+          out.push(this.rows.leftOnly(row));
+        }
+      }
+      if (out.length > 0) await emit(out);
+    }
+
+    if (joinType === 'right' || joinType === 'full') {
+      let out = unkeyed.map(row => this.rows.rightOnly(row));
+      for (const entries of table.values()) {
+        for (const entry of entries) {
+          if (!entry.matched) out.push(this.rows.rightOnly(entry.row));
+          if (out.length >= EMIT_ROWS) {
+            await emit(out);
+            out = [];
+          }
+        }
+      }
+      if (out.length > 0) await emit(out);
+    }
+  }
+
+  private async joinSpilled(left: Rows, right: Rows, partitions: number, emit: Emit) {
+    const { joinType, leftKey, rightKey } = this.spec;
+    const dir = await mkdtemp(join(this.options.spillDir ?? tmpdir(), 'join-'));
+    try {
+      // Rows without a key match nothing, so they are settled while partitioning
+      const rightFiles = await this.partition(right, rightKey, new SpillFiles(dir, 'right', partitions), async rows => {
+        if (joinType === 'right' || joinType === 'full') await emit(rows.map(row => this.rows.rightOnly(row)));
+      });
+      const leftFiles = await this.partition(left, leftKey, new SpillFiles(dir, 'left', partitions), async rows => {
+        if (joinType === 'anti') await emit(rows);
+        if (joinType === 'left' || joinType === 'full') await emit(rows.map(row => this.rows.leftOnly(row)));
+      });
+
+      for (let i = 0; i < partitions; i++) {
+        await this.joinInMemory(leftFiles.read(i), rightFiles.read(i), emit);
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private async partition(rows: Rows, key: string[], files: SpillFiles, unkeyed: Emit): Promise<SpillFiles> {
+    try {
+      for await (const batch of rows) {
+        const withoutKey: any[] = [];
+        for (const row of batch) {
+          const value = joinKeyOf(row, key);
+          if (value === null) {
+            withoutKey.push(row);
+          } else {
+            await files.write(hashOf(value) % files.count, row);
+          }
+        }
+        if (withoutKey.length > 0) await unkeyed(withoutKey);
+      }
+    } finally {
+      await files.close();
+    }
+    return files;
+  }
+}
+
+/**
+ * One JSON-lines file per partition
+ */
+class SpillFiles {
+  private readonly streams: WriteStream[];
+
+  constructor(private readonly dir: string, private readonly side: string, readonly count: number) {
+    this.streams = Array.from({ length: count }, (_, i) => createWriteStream(this.path(i)));
+  }
+
+  async write(partition: number, row: any) {
+    if (!this.streams[partition].write(`${JSON.stringify(row)}\n`)) {
+      await once(this.streams[partition], 'drain');
+    }
+  }
+
+  async close() {
+    await Promise.all(this.streams.map(stream => new Promise<void>((resolve, reject) => {
+      stream.once('error', reject);
+      stream.end(resolve);
+    })));
+  }
+
+  async *read(partition: number): AsyncGenerator<any[]> {
+    const lines = createInterface({ input: createReadStream(this.path(partition)), crlfDelay: Infinity });
+    let batch: any[] = [];
+    for await (const line of lines) {
+      if (!line) continue;
+      batch.push(JSON.parse(line));
+      if (batch.length >= EMIT_ROWS) {
+        yield batch;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) yield batch;
+  }
+
+  private path(partition: number): string {
+    return join(this.dir, `${this.side}-${partition}.jsonl`);
+  }
+}
+
+// FNV-1a; only needs to spread keys evenly across partitions
+function hashOf(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
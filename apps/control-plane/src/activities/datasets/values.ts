@@ -0,0 +1,27 @@
+/**
+ * Milliseconds since the epoch of a Date, epoch milliseconds or a date
+ * string; null for anything else
+ */
+export function timestampOf(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * Orders values of one column: numbers, dates and numeric strings by value,
+ * anything else as text
+ */
+export function compareValues(a: any, b: any): number {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (typeof x === 'number' && typeof y === 'number') return x - y;
+  return String(x) < String(y) ? -1 : String(x) > String(y) ? 1 : 0;
+}
+
+function comparable(value: any): number | string {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -3,9 +3,12 @@ export interface ActivityExecutionRequest {
   tenantId: string;
   activityId: string;
   stepId: string;
-  activityType: 'extract' | 'transform' | 'load' | 'filter' | 'join';
+  activityType: 'extract' | 'transform' | 'load' | 'filter' | 'join' | 'aggregate' | 'dedupe' | 'sync' | 'multi-extract' | 'multi-load'
+    | 'cloud-connector-source' | 'cloud-connector-sink';
   config: Record<string, any>;
   inputs?: Record<string, any>;
+  retryCount?: number;
+  maxRetries?: number;
 }
 
 export interface ActivityExecutionResult {
@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConnectorClientService } from './connector-client.service';
+import { ConnectionFactoryService, QueryDataInput } from '../../aggregators/connections/connection-factory.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('ConnectorClientService', () => {
+  let service: ConnectorClientService;
+
+  // Rows of the table, read in id order as the keyset asks
+  const table = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: `row-${i + 1}` }));
+
+  const handler = {
+    queryData: jest.fn(async (_config, _credentials, input: QueryDataInput) => {
+      const after = input.keyset?.after?.[0];
+      const rows = table
+        .filter(row => after === undefined || row.id > after)
+        .slice(0, input.limit)
+        .map(row => Object.fromEntries(Object.entries(row).filter(([column]) => input.columns?.includes(column) ?? true)));
+      return { rows, rowCount: rows.length, columns: input.columns ?? ['id', 'name'] };
+    }),
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'customers',
+    stepId: 'extract',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  const instance = (primaryKey: boolean) => ({
+    aggregatorId: 'agg-postgres',
+    discoveredSchema: {
+      tables: [{ name: 'customers', columns: [{ name: 'id', type: 'integer', nullable: false, primaryKey }] }],
+    },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConnectorClientService,
+        { provide: ConnectionFactoryService, useValue: { getHandler: jest.fn().mockResolvedValue(handler) } },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ConnectorClientService>(ConnectorClientService);
+  });
+
+  it('should page by the discovered primary key, after the last row read', async () => {
+    const batches: any[][] = [];
+
+    const total = await service.streamQuery(
+      instance(true),
+      { table: 'customers', columns: ['name'] },
+      context,
+      async rows => { batches.push(rows); },
+      2,
+    );
+
+    expect(total).toBe(5);
+    expect(batches).toEqual([
+      [{ name: 'row-1' }, { name: 'row-2' }],
+      [{ name: 'row-3' }, { name: 'row-4' }],
+      [{ name: 'row-5' }],
+    ]);
+    // The key is read to page by, but only the requested columns are handed on
+    expect(handler.queryData.mock.calls.map(([, , input]) => [input.columns, input.keyset, input.offset])).toEqual([
+      [['name', 'id'], { after: undefined }, undefined],
+      [['name', 'id'], { after: [2] }, undefined],
+      [['name', 'id'], { after: [4] }, undefined],
+    ]);
+    expect(handler.queryData.mock.calls[0][2].orderBy).toEqual([{ column: 'id', direction: 'asc' }]);
+  });
+
+  it('should refuse to read past one page without a unique key', async () => {
+    const onBatch = jest.fn();
+
+    await expect(
+      service.streamQuery(instance(false), { table: 'customers' }, context, onBatch, 2),
+    ).rejects.toThrow('needs a unique key to page by');
+    expect(onBatch).not.toHaveBeenCalled();
+
+    // A result that fits in one page needs no key
+    await expect(
+      service.streamQuery(instance(false), { table: 'customers' }, context, onBatch, 10),
+    ).resolves.toBe(5);
+    expect(onBatch).toHaveBeenCalledTimes(1);
+  });
+});
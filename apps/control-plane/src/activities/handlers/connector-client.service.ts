@@ -1,21 +1,49 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ExecutionContext } from '../entities/activity-result.types';
-import { ConnectionFactoryService, ConnectionHandler } from '../../aggregators/connections/connection-factory.service';
+import {
+  ConnectionFactoryService,
+  ConnectionHandler,
+  LoadCommitMode,
+  LoadDataInput,
+  LoadDataResult,
+  LoadSession,
+  QueryFilter,
+  QueryOrderBy,
+  ReadChangesInput,
+  ReadChangesResult,
+} from '../../aggregators/connections/connection-factory.service';
+import { parseOrderBy } from '../../aggregators/connections/select-query.builder';
+import { SchemaTable } from '../../aggregators/schema-diff';
 import { PrismaService } from '../../prisma.service';
 
 interface QueryRequest {
   table: string;
-  columns: string[];
+  columns?: string[];
+  filters?: QueryFilter[];
   where?: string;
   limit?: number;
-  orderBy?: string;
+  offset?: number;
+  /** Structured ordering, or an "a, b DESC" string */
+  orderBy?: string | QueryOrderBy[];
+  /** Unique columns streamQuery pages by; defaults to the table's discovered primary key */
+  key?: string[];
+  keyset?: { after?: any[] };
 }
 
 interface QueryResult {
   data: any[];
   rowCount: number;
+  columns: string[];
 }
 
+interface ResolvedConnection {
+  handler: ConnectionHandler;
+  connectionConfig: Record<string, any>;
+  credentials: Record<string, string>;
+}
+
+const DEFAULT_PAGE_SIZE = 1000;
+
 @Injectable()
 export class ConnectorClientService {
   private readonly logger = new Logger(ConnectorClientService.name);
@@ -30,65 +58,134 @@ export class ConnectorClientService {
     query: QueryRequest,
     context: ExecutionContext
   ): Promise<QueryResult> {
-    // For now, simulate query execution
-    // TODO: Integrate with actual aggregator connectors
+    const { handler, connectionConfig, credentials } = await this.resolveConnection(instance);
+
+    if (typeof handler.queryData !== 'function') {
+      throw new Error(`Aggregator "${instance.aggregator?.name || instance.aggregatorId}" does not support extract queries`);
+    }
+
     this.logger.log(
-      `Executing query on ${instance.aggregator.name}: ` +
-      `SELECT ${query.columns.join(', ')} FROM ${query.table}` +
-      (query.where ? ` WHERE ${query.where}` : '') +
-      (query.limit ? ` LIMIT ${query.limit}` : '')
+      `Executing query on ${instance.aggregator?.name}: ` +
+      `SELECT ${query.columns?.length ? query.columns.join(', ') : '*'} FROM ${query.table}` +
+      (query.filters?.length ? ` (${query.filters.length} filter(s))` : '') +
+      (query.limit ? ` LIMIT ${query.limit}` : '') +
+      (query.offset ? ` OFFSET ${query.offset}` : '') +
+      ` [execution ${context.executionId}]`
     );
 
-    // Mock data for development
-    const mockData = this.generateMockData(query);
-    
+    const result = await handler.queryData(connectionConfig, credentials, {
+      tableName: query.table,
+      columns: query.columns,
+      filters: query.filters,
+      where: query.where,
+      orderBy: typeof query.orderBy === 'string' ? parseOrderBy(query.orderBy) : query.orderBy,
+      keyset: query.keyset,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
     return {
-      data: mockData,
-      rowCount: mockData.length,
+      data: result.rows,
+      rowCount: result.rowCount,
+      columns: result.columns,
     };
   }
 
+  /**
+   * Pages through a query, handing each page to onBatch before the next one is
+   * fetched so only one page is held at a time. Each page starts after the last
+   * row of the one before in orderBy-then-key order, so rows are neither read
+   * twice nor skipped and no page rescans the rows before it. Reads that need
+   * more than one page fail without a unique key. Returns the number of rows read.
+   */
+  async streamQuery(
+    instance: any,
+    query: QueryRequest,
+    context: ExecutionContext,
+    onBatch: (rows: any[]) => Promise<void>,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<number> {
+    if (query.limit !== undefined && query.limit <= pageSize) {
+      const page = await this.executeQuery(instance, query, context);
+      if (page.data.length > 0) await onBatch(page.data);
+      return page.data.length;
+    }
+
+    const key = query.key?.length ? query.key : this.primaryKeyOf(instance, query.table);
+    if (!key) {
+      // One row more than a page tells whether a second page would be needed
+      const page = await this.executeQuery(instance, { ...query, limit: pageSize + 1 }, context);
+      if (page.data.length > pageSize) {
+        throw new Error(
+          `Reading "${query.table}" takes more than one page of ${pageSize} rows, which needs a unique key to page by: ` +
+          'set keyColumns, or discover the schema of the aggregator instance so its primary key is known'
+        );
+      }
+      if (page.data.length > 0) await onBatch(page.data);
+      return page.data.length;
+    }
+
+    const orderBy = this.pagingOrder(query.orderBy, key);
+    // The ordering values of each page's last row are read even when not projected
+    const columns = query.columns?.filter(column => column !== '*') ?? [];
+    const hidden = columns.length > 0 ? orderBy.map(order => order.column).filter(column => !columns.includes(column)) : [];
+
+    let total = 0;
+    let after: any[] | undefined;
+
+    for (;;) {
+      const limit = query.limit !== undefined ? Math.min(pageSize, query.limit - total) : pageSize;
+      if (limit <= 0) break;
+
+      const page = await this.executeQuery(instance, {
+        ...query,
+        columns: hidden.length > 0 ? [...columns, ...hidden] : query.columns,
+        orderBy,
+        keyset: { after },
+        limit,
+        offset: after ? undefined : query.offset,
+      }, context);
+      if (page.data.length === 0) break;
+
+      const last = page.data[page.data.length - 1];
+      after = orderBy.map(order => last[order.column]);
+
+      await onBatch(hidden.length > 0 ? page.data.map(row => omit(row, hidden)) : page.data);
+      total += page.data.length;
+      if (page.data.length < limit) break;
+    }
+
+    return total;
+  }
+
+  // The requested order, made unique by the key columns it does not already sort by
+  private pagingOrder(orderBy: QueryRequest['orderBy'], key: string[]): QueryOrderBy[] {
+    const ordering = typeof orderBy === 'string' ? parseOrderBy(orderBy) : [...(orderBy ?? [])];
+    for (const column of key) {
+      if (!ordering.some(order => order.column === column)) ordering.push({ column, direction: 'asc' });
+    }
+    return ordering;
+  }
+
+  private primaryKeyOf(instance: any, table: string): string[] | undefined {
+    const tables = (instance.discoveredSchema as { tables?: SchemaTable[] } | null)?.tables ?? [];
+    const found = tables.find(candidate => candidate.name === table);
+    const key = found?.columns.filter(column => column.primaryKey).map(column => column.name) ?? [];
+    return key.length > 0 ? key : undefined;
+  }
+
   async loadData(
     instance: any,
     data: any[],
     config: any,
     context: ExecutionContext
-  ): Promise<{ rowsLoaded: number; errors?: any[] }> {
+  ): Promise<LoadDataResult> {
     try {
-      // Get the aggregator instance ID (it's stored in aggregatorId on the instance)
+      const { handler, connectionConfig, credentials } = await this.resolveConnection(instance);
       const aggregatorId = instance.aggregatorId || instance.aggregator?.id;
-      
-      if (!aggregatorId) {
-        throw new Error('Aggregator ID not found in instance');
-      }
 
-      // Get the connection handler for this aggregator type
-      const handler = await this.connectionFactory.getHandler(aggregatorId);
-
-      // Get credentials from the instance's credential record
-      // The instance has a credential property from the Prisma include
-      let credentials: Record<string, string> = {};
-      let connectionConfig: Record<string, any> = {};
-
-      if (instance.credential) {
-        // Build credentials from the stored credential record
-        credentials = {
-          host: instance.credential.host,
-          port: String(instance.credential.port || ''),
-          database: instance.credential.database,
-          username: instance.credential.usernameHint,
-          // Note: Actual password would need to be fetched from vault in production
-          // For now, we'll check if it's in connectionParams
-        };
-      }
-
-      // Get connection details from connectionParams
-      if (instance.connectionParams) {
-        connectionConfig = instance.connectionParams as Record<string, any>;
-        // Also check for connectionString in params
-        if (connectionConfig.connectionString) {
-          credentials.connectionString = connectionConfig.connectionString;
-        }
+      if (typeof handler.loadData !== 'function') {
+        throw new Error(`Aggregator "${instance.aggregator?.name || aggregatorId}" does not support loading data`);
       }
 
       this.logger.log(
@@ -99,22 +196,13 @@ export class ConnectorClientService {
       const result = await handler.loadData(
         connectionConfig,
         credentials,
-        {
-          tableName: config.table,
-          data: data,
-          mode: config.mode || 'insert',
-          conflictKey: config.conflictKey ? 
-            (Array.isArray(config.conflictKey) ? config.conflictKey : [config.conflictKey]) : 
-            undefined,
-          conflictResolution: config.conflictResolution,
-          // Auto-create table if it doesn't exist (default: true)
-          autoCreateTable: config.autoCreateTable !== false,
-        }
+        { ...this.toLoadInput(config), data }
       );
 
       return {
         rowsLoaded: result.rowsLoaded,
         errors: result.errors,
+        schemaChanges: result.schemaChanges,
       };
     } catch (error: any) {
       this.logger.error(`Load data failed: ${error.message}`, error.stack);
@@ -122,31 +210,123 @@ export class ConnectorClientService {
     }
   }
 
-  private generateMockData(query: QueryRequest): any[] {
-    // Generate realistic mock data based on table and columns
-    const data = [];
-    const rows = Math.min(query.limit || 10, 100); // Cap at 100 for mock
-
-    for (let i = 0; i < rows; i++) {
-      const row: any = {};
-      for (const column of query.columns) {
-        if (column.includes('id')) {
-          row[column] = i + 1;
-        } else if (column.includes('email')) {
-          row[column] = `user${i + 1}@example.com`;
-        } else if (column.includes('name')) {
-          row[column] = `User ${i + 1}`;
-        } else if (column.includes('created') || column.includes('date')) {
-          row[column] = new Date().toISOString();
-        } else if (column.includes('amount') || column.includes('price')) {
-          row[column] = Math.random() * 1000;
-        } else {
-          row[column] = `value_${i + 1}`;
-        }
-      }
-      data.push(row);
+  /**
+   * Opens a load that spans several batches under config.commitMode. Handlers
+   * without load sessions can still take per-batch loads through loadData.
+   */
+  async beginLoad(
+    instance: any,
+    config: any,
+    context: ExecutionContext
+  ): Promise<LoadSession> {
+    const { handler, connectionConfig, credentials } = await this.resolveConnection(instance);
+    const aggregatorName = instance.aggregator?.name || instance.aggregatorId;
+    const commitMode: LoadCommitMode = config.commitMode || 'batch';
+    const input = this.toLoadInput(config);
+
+    this.logger.log(
+      `Opening ${commitMode} load to table "${config.table}" on ${aggregatorName} [execution ${context.executionId}]`
+    );
+
+    if (typeof handler.beginLoad === 'function') {
+      return handler.beginLoad(connectionConfig, credentials, { ...input, commitMode });
+    }
+    if (commitMode !== 'batch' || typeof handler.loadData !== 'function') {
+      throw new Error(`Aggregator "${aggregatorName}" does not support ${commitMode} loads`);
     }
 
-    return data;
+    // Every loadData call starts afresh, so only the first one may empty the table
+    let written = false;
+    return {
+      write: async (data, rowOffset) => {
+        const mode = written && input.mode === 'create' ? 'insert' : input.mode;
+        written = true;
+        const result = await handler.loadData(connectionConfig, credentials, { ...input, mode, data });
+        return {
+          rowsLoaded: result.rowsLoaded,
+          errors: result.errors?.map(error => ({ ...error, row: error.row + rowOffset })),
+          schemaChanges: result.schemaChanges,
+        };
+      },
+      commit: async () => {},
+      rollback: async () => {},
+    };
+  }
+
+  private toLoadInput(config: any): Omit<LoadDataInput, 'data'> {
+    return {
+      tableName: config.table,
+      mode: config.mode || 'insert',
+      conflictKey: config.conflictKey ?
+        (Array.isArray(config.conflictKey) ? config.conflictKey : [config.conflictKey]) :
+        undefined,
+      conflictResolution: config.conflictResolution,
+      // Auto-create table if it doesn't exist (default: true)
+      autoCreateTable: config.autoCreateTable !== false,
+      // Adding and widening columns changes the destination, so it is opt-in
+      autoEvolve: config.autoEvolve === true,
+    };
   }
+
+  /**
+   * Reads committed row changes (CDC) from a database aggregator
+   */
+  async readChanges(
+    instance: any,
+    input: ReadChangesInput,
+    context: ExecutionContext
+  ): Promise<ReadChangesResult> {
+    const { handler, connectionConfig, credentials } = await this.resolveConnection(instance);
+
+    if (typeof handler.readChanges !== 'function') {
+      throw new Error(`Aggregator "${instance.aggregator?.name || instance.aggregatorId}" does not support change capture`);
+    }
+
+    this.logger.log(
+      `Reading changes of ${input.tables.join(', ')} on ${instance.aggregator?.name} ` +
+      `from ${input.position ?? 'the current position'} [execution ${context.executionId}]`
+    );
+
+    return handler.readChanges(connectionConfig, credentials, input);
+  }
+
+  /**
+   * Resolves the connection handler of an aggregator instance together with the
+   * connection config and credentials it needs.
+   */
+  private async resolveConnection(instance: any): Promise<ResolvedConnection> {
+    // Get the aggregator instance ID (it's stored in aggregatorId on the instance)
+    const aggregatorId = instance.aggregatorId || instance.aggregator?.id;
+
+    if (!aggregatorId) {
+      throw new Error('Aggregator ID not found in instance');
+    }
+
+    // Get the connection handler for this aggregator type
+    const handler = await this.connectionFactory.getHandler(aggregatorId);
+
+    // Get connection details from connectionParams
+    const connectionConfig = (instance.connectionParams || {}) as Record<string, any>;
+
+    // Build credentials from the stored credential record
+    // TODO: Fetch actual password from Vault using credential.vaultPath
+    const credentials: Record<string, string> = {
+      ...(instance.credential ? {
+        host: instance.credential.host,
+        port: String(instance.credential.port || ''),
+        database: instance.credential.database,
+        username: instance.credential.usernameHint,
+      } : {}),
+      // Connection string and secrets may be stored in connectionParams
+      ...connectionConfig,
+    };
+
+    return { handler, connectionConfig, credentials };
+  }
+}
+
+function omit(row: Record<string, any>, columns: string[]): Record<string, any> {
+  const rest = { ...row };
+  for (const column of columns) delete rest[column];
+  return rest;
 }
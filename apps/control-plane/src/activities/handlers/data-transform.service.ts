@@ -6,6 +6,9 @@ interface TransformContext {
   activityId: string;
 }
 
+/** Receives rows the transform code hands to reject() instead of returning */
+export type TransformRejectHandler = (row: any, error: string, rule?: string, index?: number) => void;
+
 @Injectable()
 export class DataTransformService {
   private readonly logger = new Logger(DataTransformService.name);
@@ -13,7 +16,8 @@ export class DataTransformService {
   async transform(
     data: any[],
     code: string,
-    context: TransformContext
+    context: TransformContext,
+    onReject?: TransformRejectHandler
   ): Promise<any> {
     // Create secure VM for JavaScript execution
     const vm = new VM({
@@ -30,6 +34,10 @@ export class DataTransformService {
         lodash: require('lodash'),
         // Read-only access to context
         context: { ...context },
+        // reject(row, error, rule?, index?) sets a row aside for quarantine
+        reject: (row: any, error: any, rule?: string, index?: number) => {
+          onReject?.(row, typeof error?.message === 'string' ? error.message : String(error), rule, index);
+        },
       },
     });
 
@@ -4,7 +4,17 @@ import { ExtractHandlerService } from './extract-handler.service';
 import { TransformHandlerService } from './transform-handler.service';
 import { LoadHandlerService } from './load-handler.service';
 import { FilterHandlerService } from './filter-handler.service';
-import { JoinHandlerService } from './join-handler.service';
+import { JoinHandlerService, parseJoinConfig } from './join-handler.service';
+import { AggregateHandlerService } from './aggregate-handler.service';
+import { DedupeHandlerService } from './dedupe-handler.service';
+import { validateAggregateConfig } from '../datasets/aggregation';
+import { validateDedupeConfig } from '../datasets/deduplication';
+import { validateFilterConfig } from '../datasets/filter-expression';
+import { SyncHandlerService } from './sync-handler.service';
+import { MultiExtractHandlerService } from './multi-extract-handler.service';
+import { MultiLoadHandlerService } from './multi-load-handler.service';
+import { CloudConnectorSourceHandlerService } from './cloud-connector-source-handler.service';
+import { CloudConnectorSinkHandlerService } from './cloud-connector-sink-handler.service';
 
 @Injectable()
 export class ActivityExecutorService {
@@ -16,6 +26,13 @@ export class ActivityExecutorService {
     private readonly loadHandler: LoadHandlerService,
     private readonly filterHandler: FilterHandlerService,
     private readonly joinHandler: JoinHandlerService,
+    private readonly aggregateHandler: AggregateHandlerService,
+    private readonly dedupeHandler: DedupeHandlerService,
+    private readonly syncHandler: SyncHandlerService,
+    private readonly multiExtractHandler: MultiExtractHandlerService,
+    private readonly multiLoadHandler: MultiLoadHandlerService,
+    private readonly cloudSourceHandler: CloudConnectorSourceHandlerService,
+    private readonly cloudSinkHandler: CloudConnectorSinkHandlerService,
   ) {}
 
   async executeActivity(request: ActivityExecutionRequest): Promise<ActivityExecutionResult> {
@@ -25,8 +42,8 @@ export class ActivityExecutorService {
       activityId: request.activityId,
       stepId: request.stepId,
       startTime: new Date(),
-      retryCount: 0,
-      maxRetries: 3,
+      retryCount: request.retryCount ?? 0,
+      maxRetries: request.maxRetries ?? 3,
     };
 
     this.logger.log(
@@ -71,6 +88,20 @@ export class ActivityExecutorService {
         return this.filterHandler.execute(context, config as any, inputs);
       case 'join':
         return this.joinHandler.execute(context, config as any, inputs);
+      case 'aggregate':
+        return this.aggregateHandler.execute(context, config as any, inputs);
+      case 'dedupe':
+        return this.dedupeHandler.execute(context, config as any, inputs);
+      case 'sync':
+        return this.syncHandler.execute(context, config as any, inputs);
+      case 'multi-extract':
+        return this.multiExtractHandler.execute(context, config as any, inputs);
+      case 'multi-load':
+        return this.multiLoadHandler.execute(context, config as any, inputs);
+      case 'cloud-connector-source':
+        return this.cloudSourceHandler.execute(context, config as any, inputs);
+      case 'cloud-connector-sink':
+        return this.cloudSinkHandler.execute(context, config as any, inputs);
       default:
         throw new Error(`Unknown activity type: ${type}`);
     }
@@ -104,20 +135,65 @@ export class ActivityExecutorService {
         if (!config.mode || !['insert', 'upsert', 'create'].includes(config.mode)) {
           errors.push('mode must be one of: insert, upsert, create');
         }
+        errors.push(...validateCommitConfig(config));
         break;
 
       case 'filter':
-        if (!config.condition) errors.push('condition is required');
-        if (!config.inputActivityId) errors.push('inputActivityId is required');
+        errors.push(...validateFilterConfig(config));
         break;
 
-      case 'join':
-        if (!config.leftActivityId) errors.push('leftActivityId is required');
-        if (!config.rightActivityId) errors.push('rightActivityId is required');
-        if (!config.joinKey) errors.push('joinKey is required');
-        if (!config.type || !['inner', 'left', 'right', 'full'].includes(config.type)) {
-          errors.push('type must be one of: inner, left, right, full');
+      case 'sync':
+        if (!config.aggregatorInstanceId) errors.push('aggregatorInstanceId is required');
+        if (!config.tables || !Array.isArray(config.tables) || config.tables.length === 0) {
+          errors.push('tables is required and must be a non-empty array');
+        }
+        break;
+
+      case 'multi-extract':
+        if (!config.aggregatorInstanceId) errors.push('aggregatorInstanceId is required');
+        if (!config.tablePattern && (!Array.isArray(config.tables) || config.tables.length === 0)) {
+          errors.push('tables or tablePattern is required');
+        }
+        break;
+
+      case 'multi-load':
+        if (!config.aggregatorInstanceId) errors.push('aggregatorInstanceId is required');
+        if (!config.mode || !['insert', 'upsert', 'create'].includes(config.mode)) {
+          errors.push('mode must be one of: insert, upsert, create');
+        }
+        errors.push(...validateCommitConfig(config));
+        break;
+
+      case 'cloud-connector-source':
+        if (!config.aggregatorInstanceId) errors.push('aggregatorInstanceId is required');
+        if (!config.resource) errors.push('resource is required');
+        if (!config.operation || !['query', 'scan'].includes(config.operation)) {
+          errors.push('operation must be one of: query, scan');
         }
+        if (config.operation === 'query' && !config.query) errors.push('query is required for the query operation');
+        break;
+
+      case 'cloud-connector-sink':
+        if (!config.aggregatorInstanceId) errors.push('aggregatorInstanceId is required');
+        if (!config.resource) errors.push('resource is required');
+        if (!config.mode || !['insert', 'upsert', 'update'].includes(config.mode)) {
+          errors.push('mode must be one of: insert, upsert, update');
+        }
+        if (config.mode && config.mode !== 'insert' && !config.keyField) {
+          errors.push(`keyField is required for ${config.mode} mode`);
+        }
+        break;
+
+      case 'join':
+        errors.push(...parseJoinConfig(config).errors);
+        break;
+
+      case 'aggregate':
+        errors.push(...validateAggregateConfig(config));
+        break;
+
+      case 'dedupe':
+        errors.push(...validateDedupeConfig(config));
         break;
 
       default:
@@ -130,3 +206,14 @@ export class ActivityExecutorService {
     };
   }
 }
+
+function validateCommitConfig(config: Record<string, any>): string[] {
+  const errors: string[] = [];
+  if (config.commitMode && !['batch', 'transaction', 'staging'].includes(config.commitMode)) {
+    errors.push('commitMode must be one of: batch, transaction, staging');
+  }
+  if (config.errorThreshold !== undefined && !(Number.isInteger(config.errorThreshold) && config.errorThreshold >= 0)) {
+    errors.push('errorThreshold must be a non-negative integer');
+  }
+  return errors;
+}
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AggregateHandlerService } from './aggregate-handler.service';
+import { validateAggregateConfig } from '../datasets/aggregation';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+
+describe('AggregateHandlerService', () => {
+  let service: AggregateHandlerService;
+
+  const mockStateService = {
+    logEvent: jest.fn(),
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'daily-revenue',
+    stepId: 'aggregate',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  const orders = [
+    { id: 1, region: 'eu', total: '10.50', customer: 'ada', placed_at: '2024-03-01T09:00:00Z' },
+    { id: 2, region: 'us', total: 20, customer: 'bob', placed_at: '2024-03-01T23:30:00Z' },
+    { id: 3, region: 'eu', total: 5, customer: 'ada', placed_at: '2024-03-01T08:00:00Z' },
+    { id: 4, region: 'eu', total: null, customer: 'eve', placed_at: '2024-03-02T10:00:00Z' },
+    { id: 5, region: 'eu', total: 7, customer: 'ada', placed_at: 'not a date' },
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AggregateHandlerService,
+        ChunkedDatasetService,
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: StepOutputStoreService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AggregateHandlerService>(AggregateHandlerService);
+  });
+
+  it('should compute daily revenue per region', async () => {
+    const result = await service.execute(context, {
+      inputActivityId: 'orders',
+      groupBy: ['region'],
+      window: { column: 'placed_at', unit: 'day' },
+      aggregates: [
+        { function: 'sum', column: 'total', as: 'revenue' },
+        { function: 'count', as: 'orders' },
+        { function: 'count', column: 'total', as: 'priced' },
+        { function: 'countDistinct', column: 'customer', as: 'customers' },
+        { function: 'first', column: 'id', as: 'first_order' },
+        { function: 'avg', column: 'total', as: 'average' },
+      ],
+    }, { orders });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      {
+        region: 'eu', window_start: '2024-03-01T00:00:00.000Z', window_end: '2024-03-02T00:00:00.000Z',
+        revenue: 15.5, orders: 2, priced: 2, customers: 1, first_order: 3, average: 7.75,
+      },
+      {
+        region: 'us', window_start: '2024-03-01T00:00:00.000Z', window_end: '2024-03-02T00:00:00.000Z',
+        revenue: 20, orders: 1, priced: 1, customers: 1, first_order: 2, average: 20,
+      },
+      {
+        region: 'eu', window_start: '2024-03-02T00:00:00.000Z', window_end: '2024-03-03T00:00:00.000Z',
+        revenue: null, orders: 1, priced: 0, customers: 1, first_order: 4, average: null,
+      },
+    ]);
+    expect(result.metadata?.rowsSkipped).toBe(1);
+  });
+
+  it('should summarize all rows as one group without groupBy', async () => {
+    const result = await service.execute(context, {
+      inputActivityId: 'orders',
+      aggregates: [
+        { function: 'min', column: 'total', as: 'smallest' },
+        { function: 'max', column: 'total', as: 'largest' },
+        { function: 'last', column: 'customer', as: 'last_customer' },
+      ],
+    }, { orders });
+
+    expect(result.data).toEqual([{ smallest: 5, largest: 20, last_customer: 'ada' }]);
+  });
+
+  it('should fail on values that cannot be summed', async () => {
+    const result = await service.execute(context, {
+      inputActivityId: 'orders',
+      aggregates: [{ function: 'sum', column: 'customer', as: 'nonsense' }],
+    }, { orders });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Column "customer" has a non-numeric value: "ada"');
+  });
+
+  it('should list config errors', () => {
+    expect(validateAggregateConfig({
+      inputActivityId: 'orders',
+      groupBy: ['region'],
+      aggregates: [{ function: 'median', column: 'total', as: 'm' }, { function: 'sum', as: 'region' }],
+      window: { column: 'placed_at', unit: 'fortnight' },
+    })).toEqual([
+      'aggregates[0].function must be one of: count, sum, avg, min, max, countDistinct, first, last',
+      'aggregates[1].column is required for sum',
+      'aggregates[1].as "region" is already an output column',
+      'window.unit must be one of: second, minute, hour, day, week, month',
+    ]);
+  });
+});
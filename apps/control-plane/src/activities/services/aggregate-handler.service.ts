@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { BaseActivityHandler } from '../handlers/base-activity.handler';
+import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { GroupedAggregation, validateAggregateConfig } from '../datasets/aggregation';
+import { AggregateConfig } from '../../workflows/entities/workflow-definition.types';
+
+@Injectable()
+export class AggregateHandlerService extends BaseActivityHandler {
+  constructor(
+    private readonly datasets: ChunkedDatasetService,
+    stateService: ExecutionStateService,
+  ) {
+    super(stateService);
+  }
+
+  async execute(
+    context: ExecutionContext,
+    config: AggregateConfig,
+    inputs?: Record<string, any>
+  ): Promise<ActivityExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      const errors = validateAggregateConfig(config);
+      if (errors.length > 0) {
+        throw new Error(`Invalid aggregate config: ${errors.join('; ')}`);
+      }
+      if (!inputs || inputs[config.inputActivityId] === undefined) {
+        throw new Error(`Aggregate input "${config.inputActivityId}" is missing; it must be a step this aggregate depends on`);
+      }
+
+      await this.logActivityStart(context.executionId, context.activityId, config);
+
+      // Only the groups are held in memory; chunked datasets are read one chunk at a time
+      const dataset = this.datasets.resolve(inputs[config.inputActivityId]);
+      const aggregation = new GroupedAggregation(config);
+      for await (const batch of this.datasets.batches(dataset)) {
+        aggregation.add(batch);
+      }
+
+      const rows = aggregation.results();
+      const writer = this.datasets.isChunked(dataset) ? this.datasets.createWriter(context) : null;
+      if (writer) {
+        await writer.write(rows);
+      }
+      const aggregated = writer ? await writer.finish() : rows;
+
+      const duration = Date.now() - startTime;
+
+      const activityResult: ActivityExecutionResult = {
+        success: true,
+        data: aggregated,
+        metadata: {
+          rowsProcessed: this.datasets.rowCount(dataset),
+          groups: rows.length,
+          ...(aggregation.skipped > 0 && {
+            rowsSkipped: aggregation.skipped,
+            warnings: [`${aggregation.skipped} rows have no valid "${config.window!.column}" timestamp and were left out`],
+          }),
+          durationMs: duration,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, activityResult, duration);
+
+      return activityResult;
+
+    } catch (error) {
+      this.logger.error(`Aggregate activity failed: ${error.message}`, error.stack);
+
+      const duration = Date.now() - startTime;
+      const result: ActivityExecutionResult = {
+        success: false,
+        error: {
+          code: 'AGGREGATE_ERROR',
+          message: error.message,
+          retryable: false,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+      return result;
+    }
+  }
+}
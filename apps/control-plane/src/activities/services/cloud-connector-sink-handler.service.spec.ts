@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CloudConnectorSinkHandlerService } from './cloud-connector-sink-handler.service';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { SDKExecutionService } from '../../ai/sdk-execution.service';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('CloudConnectorSinkHandlerService', () => {
+  let service: CloudConnectorSinkHandlerService;
+
+  const mockSdkExecution = {
+    executeMethod: jest.fn(),
+  };
+
+  const mockPrismaService = {
+    aggregatorInstance: {
+      findFirst: jest.fn(),
+    },
+    aggregator: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'contacts',
+    stepId: 'write-contacts',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  const contacts = { data: [{ email: 'a@x.io' }, { email: 'b@x.io' }, { email: 'c@x.io' }] };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CloudConnectorSinkHandlerService,
+        ChunkedDatasetService,
+        { provide: SDKExecutionService, useValue: mockSdkExecution },
+        { provide: ConnectorClientService, useValue: { loadData: jest.fn() } },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ExecutionStateService, useValue: { logEvent: jest.fn() } },
+        { provide: StepOutputStoreService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CloudConnectorSinkHandlerService>(CloudConnectorSinkHandlerService);
+    mockPrismaService.aggregatorInstance.findFirst.mockResolvedValue({ id: 'instance-1', aggregatorId: 'sdk-salesforce' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send the input to the SDK in batches', async () => {
+    mockSdkExecution.executeMethod.mockResolvedValue({ success: true, data: {} });
+
+    const result = await service.execute(
+      context,
+      { aggregatorInstanceId: 'instance-1', resource: 'Contact', mode: 'upsert', keyField: 'Email', batchSize: 2 },
+      { hubspot: contacts },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ rowsProcessed: 3, rowsLoaded: 3, rowsFailed: 0 });
+    expect(mockSdkExecution.executeMethod.mock.calls.map(call => [call[0].method, call[0].params.data.length])).toEqual([
+      ['upsert', 2],
+      ['upsert', 1],
+    ]);
+    expect(mockSdkExecution.executeMethod.mock.calls[0][0].params).toEqual(expect.objectContaining({ resource: 'Contact', keyField: 'Email' }));
+  });
+
+  it('should keep writing after a batch fails', async () => {
+    mockSdkExecution.executeMethod
+      .mockResolvedValueOnce({ success: false, error: 'INVALID_FIELD: Email' })
+      .mockResolvedValueOnce({ success: true, data: {} });
+
+    const result = await service.execute(
+      context,
+      { aggregatorInstanceId: 'instance-1', resource: 'Contact', mode: 'insert', batchSize: 2 },
+      { hubspot: contacts },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual(expect.objectContaining({
+      code: 'CLOUD_SINK_PARTIAL_FAILURE',
+      details: [{ batch: 1, error: 'INVALID_FIELD: Email' }],
+    }));
+    expect(result.data).toEqual({ rowsProcessed: 3, rowsLoaded: 1, rowsFailed: 2 });
+    expect(mockSdkExecution.executeMethod.mock.calls[0][0].method).toBe('create');
+  });
+});
@@ -0,0 +1,250 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseActivityHandler } from '../handlers/base-activity.handler';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { PrismaService } from '../../prisma.service';
+import { SDKExecutionService, SDKConfig } from '../../ai/sdk-execution.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+
+interface CloudConnectorSinkConfig {
+  aggregatorInstanceId: string;
+  /** API object to write, e.g. "Contact" */
+  resource: string;
+  mode: 'insert' | 'upsert' | 'update';
+  /** Records sent per API call, default 100 */
+  batchSize?: number;
+  /** Field that identifies existing records for upsert and update */
+  keyField?: string;
+  /** SDK method to call, defaults to create, upsert or update by mode */
+  sdkMethod?: string;
+  sdkConfig?: {
+    baseUrl?: string;
+    apiKey?: string;
+    bearerToken?: string;
+    timeout?: number;
+  };
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const SDK_METHOD_BY_MODE: Record<CloudConnectorSinkConfig['mode'], string> = {
+  insert: 'create',
+  upsert: 'upsert',
+  update: 'update',
+};
+
+@Injectable()
+export class CloudConnectorSinkHandlerService extends BaseActivityHandler {
+
+  constructor(
+    private readonly connectorClient: ConnectorClientService,
+    private readonly prisma: PrismaService,
+    private readonly sdkExecutionService: SDKExecutionService,
+    private readonly datasets: ChunkedDatasetService,
+    stateService: ExecutionStateService,
+  ) {
+    super(stateService);
+  }
+
+  /**
+   * Writes the input dataset to a SaaS resource in batches. A failing batch
+   * does not stop the rest; the step fails afterwards with the batch errors.
+   */
+  async execute(
+    context: ExecutionContext,
+    config: CloudConnectorSinkConfig,
+    inputs?: Record<string, any>
+  ): Promise<ActivityExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      if (!inputs || Object.keys(inputs).length === 0) {
+        throw new Error('Cloud connector sink requires input data');
+      }
+      if (config.mode !== 'insert' && !config.keyField) {
+        throw new Error(`keyField is required for ${config.mode} mode`);
+      }
+
+      const instance = await this.getInstance(config.aggregatorInstanceId, context.tenantId);
+
+      await this.logActivityStart(context.executionId, context.activityId, config);
+
+      const dataset = this.datasets.resolve(Object.values(inputs)[0]);
+      const isSDK = await this.isSDKAggregator(instance.aggregatorId);
+      if (!isSDK && config.mode === 'update') {
+        throw new Error(`Aggregator "${instance.aggregator?.name || instance.aggregatorId}" does not support update mode`);
+      }
+
+      const batchSize = config.batchSize || DEFAULT_BATCH_SIZE;
+      let batchNumber = 0;
+      let rowsProcessed = 0;
+      let rowsLoaded = 0;
+      let rowsFailed = 0;
+      const errors: { batch: number; error: string }[] = [];
+
+      for await (const batch of this.datasets.batches(dataset, batchSize)) {
+        batchNumber++;
+        rowsProcessed += batch.length;
+
+        try {
+          const loaded = isSDK
+            ? await this.writeSDKBatch(instance.aggregatorId, batch, config, context)
+            : await this.writeHandlerBatch(instance, batch, config, context);
+
+          rowsLoaded += loaded.rowsLoaded;
+          rowsFailed += batch.length - loaded.rowsLoaded;
+          errors.push(...loaded.errors.map(error => ({ batch: batchNumber, error })));
+        } catch (error) {
+          rowsFailed += batch.length;
+          errors.push({ batch: batchNumber, error: error.message });
+        }
+      }
+
+      const duration = Date.now() - startTime;
+      const summary = { rowsProcessed, rowsLoaded, rowsFailed };
+
+      const activityResult: ActivityExecutionResult = {
+        success: errors.length === 0,
+        data: summary,
+        error: errors.length > 0 ? {
+          code: 'CLOUD_SINK_PARTIAL_FAILURE',
+          message: `${rowsFailed} of ${rowsProcessed} records failed to write to ${config.resource}`,
+          details: errors,
+          retryable: false,
+        } : undefined,
+        metadata: {
+          rowsProcessed,
+          durationMs: duration,
+          aggregatorType: isSDK ? 'SDK' : instance.aggregator?.category,
+          batches: batchNumber,
+          warnings: errors.length > 0 ? [`${errors.length} batch error(s)`] : undefined,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, activityResult, duration);
+      return activityResult;
+
+    } catch (error) {
+      this.logger.error(`Cloud connector sink failed: ${error.message}`, error.stack);
+
+      const duration = Date.now() - startTime;
+      const result: ActivityExecutionResult = {
+        success: false,
+        error: {
+          code: 'CLOUD_SINK_ERROR',
+          message: error.message,
+          retryable: false,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+      return result;
+    }
+  }
+
+  /**
+   * Sends one batch to the SDK. Per-record failures are read from the
+   * response's errors array when the SDK reports them.
+   */
+  private async writeSDKBatch(
+    aggregatorId: string,
+    batch: any[],
+    config: CloudConnectorSinkConfig,
+    context: ExecutionContext
+  ): Promise<{ rowsLoaded: number; errors: string[] }> {
+    const method = config.sdkMethod || SDK_METHOD_BY_MODE[config.mode];
+
+    const sdkResult = await this.sdkExecutionService.executeMethod({
+      tenantId: context.tenantId,
+      aggregatorId,
+      method,
+      params: {
+        resource: config.resource,
+        data: batch,
+        mode: config.mode,
+        keyField: config.keyField,
+      },
+      config: config.sdkConfig as SDKConfig,
+    });
+
+    if (!sdkResult.success) {
+      throw new Error(sdkResult.error || `${method} failed`);
+    }
+
+    const recordErrors: any[] = Array.isArray(sdkResult.data?.errors) ? sdkResult.data.errors : [];
+    return {
+      rowsLoaded: batch.length - Math.min(recordErrors.length, batch.length),
+      errors: recordErrors.map(error => typeof error === 'string' ? error : error?.message ?? JSON.stringify(error)),
+    };
+  }
+
+  private async writeHandlerBatch(
+    instance: any,
+    batch: any[],
+    config: CloudConnectorSinkConfig,
+    context: ExecutionContext
+  ): Promise<{ rowsLoaded: number; errors: string[] }> {
+    const loaded = await this.connectorClient.loadData(
+      instance,
+      batch,
+      {
+        table: config.resource,
+        mode: config.mode,
+        conflictKey: config.keyField,
+        autoCreateTable: false,
+      },
+      context
+    );
+
+    return {
+      rowsLoaded: loaded.rowsLoaded,
+      errors: (loaded.errors ?? []).map(error => error.error ?? String(error)),
+    };
+  }
+
+  /**
+   * Check if an aggregator is an AI SDK
+   */
+  private async isSDKAggregator(aggregatorId: string): Promise<boolean> {
+    if (aggregatorId.startsWith('sdk-')) {
+      return true;
+    }
+
+    const aggregator = await this.prisma.aggregator.findUnique({
+      where: { id: aggregatorId },
+      select: { sdkRef: true },
+    });
+    return !!aggregator?.sdkRef;
+  }
+
+  private async getInstance(instanceId: string, tenantId: string) {
+    const instance = await this.prisma.aggregatorInstance.findFirst({
+      where: { id: instanceId, tenantId },
+      include: {
+        aggregator: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            category: true,
+          },
+        },
+        credential: {
+          select: {
+            id: true,
+            host: true,
+            port: true,
+            database: true,
+            usernameHint: true,
+          },
+        },
+      },
+    });
+
+    if (!instance) {
+      throw new NotFoundException(`Aggregator instance with ID "${instanceId}" not found for tenant "${tenantId}"`);
+    }
+    return instance;
+  }
+}
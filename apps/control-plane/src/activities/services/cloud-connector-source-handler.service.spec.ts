@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CloudConnectorSourceHandlerService } from './cloud-connector-source-handler.service';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { SDKExecutionService } from '../../ai/sdk-execution.service';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('CloudConnectorSourceHandlerService', () => {
+  let service: CloudConnectorSourceHandlerService;
+
+  const mockSdkExecution = {
+    executeMethod: jest.fn(),
+  };
+
+  const mockConnectorClient = {
+    streamQuery: jest.fn(),
+  };
+
+  const mockPrismaService = {
+    aggregatorInstance: {
+      findFirst: jest.fn(),
+    },
+    aggregator: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'contacts',
+    stepId: 'read-contacts',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CloudConnectorSourceHandlerService,
+        ChunkedDatasetService,
+        { provide: SDKExecutionService, useValue: mockSdkExecution },
+        { provide: ConnectorClientService, useValue: mockConnectorClient },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ExecutionStateService, useValue: { logEvent: jest.fn() } },
+        { provide: StepOutputStoreService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CloudConnectorSourceHandlerService>(CloudConnectorSourceHandlerService);
+    mockPrismaService.aggregatorInstance.findFirst.mockResolvedValue({ id: 'instance-1', aggregatorId: 'sdk-hubspot' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should follow the SDK page cursor until the last page', async () => {
+    mockSdkExecution.executeMethod
+      .mockResolvedValueOnce({ success: true, data: { results: [{ id: 1 }, { id: 2 }], paging: { next: { after: '2' } } } })
+      .mockResolvedValueOnce({ success: true, data: { results: [{ id: 3 }] } });
+
+    const result = await service.execute(context, { aggregatorInstanceId: 'instance-1', resource: 'contacts', operation: 'scan', pageSize: 2 });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(expect.objectContaining({ data: [{ id: 1 }, { id: 2 }, { id: 3 }], rowCount: 3 }));
+    expect(result.metadata?.pages).toBe(2);
+    expect(mockSdkExecution.executeMethod.mock.calls.map(call => call[0].params)).toEqual([
+      expect.objectContaining({ resource: 'contacts', limit: 2, cursor: undefined }),
+      expect.objectContaining({ resource: 'contacts', limit: 2, cursor: '2' }),
+    ]);
+  });
+
+  it('should page by offset when the SDK returns plain arrays', async () => {
+    mockSdkExecution.executeMethod
+      .mockResolvedValueOnce({ success: true, data: [{ id: 1 }, { id: 2 }] })
+      .mockResolvedValueOnce({ success: true, data: [{ id: 3 }, { id: 4 }] })
+      .mockResolvedValueOnce({ success: true, data: [] });
+
+    const result = await service.execute(context, { aggregatorInstanceId: 'instance-1', resource: 'contacts', operation: 'scan', pageSize: 2 });
+
+    expect(result.data.rowCount).toBe(4);
+    expect(mockSdkExecution.executeMethod.mock.calls.map(call => call[0].params.offset)).toEqual([0, 2, 4]);
+  });
+
+  it('should fail when the SDK ignores the offset', async () => {
+    mockSdkExecution.executeMethod.mockResolvedValue({ success: true, data: [{ id: 1 }, { id: 2 }] });
+
+    const result = await service.execute(context, { aggregatorInstanceId: 'instance-1', resource: 'contacts', operation: 'scan', pageSize: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('ignored the page offset');
+  });
+
+  it('should read through the connection handler for non-SDK aggregators', async () => {
+    mockPrismaService.aggregatorInstance.findFirst.mockResolvedValue({ id: 'instance-2', aggregatorId: 'agg-postgres' });
+    mockPrismaService.aggregator.findUnique.mockResolvedValue({ sdkRef: null });
+    mockConnectorClient.streamQuery.mockImplementation(async (_instance, _query, _context, onBatch) => {
+      await onBatch([{ id: 1 }]);
+      return 1;
+    });
+
+    const result = await service.execute(context, {
+      aggregatorInstanceId: 'instance-2', resource: 'accounts', operation: 'query', query: "status = 'active'", pageSize: 50, maxPages: 10,
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockConnectorClient.streamQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      { table: 'accounts', where: "status = 'active'", limit: 501 },
+      context,
+      expect.any(Function),
+      50,
+    );
+  });
+
+  it('should fail rather than drop records when the default page cap is reached', async () => {
+    mockSdkExecution.executeMethod.mockImplementation(async ({ params }) => ({
+      success: true,
+      data: { results: [{ id: params.offset }], paging: { next: { after: String(params.offset + 1) } } },
+    }));
+
+    const result = await service.execute(context, { aggregatorInstanceId: 'instance-1', resource: 'contacts', operation: 'scan', pageSize: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('set maxPages or limit');
+    expect(mockSdkExecution.executeMethod).toHaveBeenCalledTimes(1000);
+  });
+
+  it('should flag a read cut short by an explicit maxPages as truncated', async () => {
+    mockPrismaService.aggregatorInstance.findFirst.mockResolvedValue({ id: 'instance-2', aggregatorId: 'agg-postgres' });
+    mockPrismaService.aggregator.findUnique.mockResolvedValue({ sdkRef: null });
+    mockConnectorClient.streamQuery.mockImplementation(async (_instance, _query, _context, onBatch) => {
+      await onBatch([{ id: 1 }, { id: 2 }]);
+      await onBatch([{ id: 3 }, { id: 4 }]);
+      await onBatch([{ id: 5 }]);
+      return 5;
+    });
+
+    const result = await service.execute(context, {
+      aggregatorInstanceId: 'instance-2', resource: 'accounts', operation: 'scan', pageSize: 2, maxPages: 2,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.rowCount).toBe(4);
+    expect(result.metadata).toEqual(expect.objectContaining({ pages: 2, truncated: true }));
+  });
+});
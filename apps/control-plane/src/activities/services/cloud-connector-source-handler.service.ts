@@ -0,0 +1,345 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseActivityHandler } from '../handlers/base-activity.handler';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { PrismaService } from '../../prisma.service';
+import { SDKExecutionService, SDKConfig } from '../../ai/sdk-execution.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+
+interface CloudConnectorSourceConfig {
+  aggregatorInstanceId: string;
+  /** API object to read, e.g. "contacts" or "Account" */
+  resource: string;
+  /** query runs the connector's query language, scan lists every record */
+  operation: 'query' | 'scan';
+  query?: string;
+  /** Records requested per page */
+  pageSize?: number;
+  /** Stop after this many pages; without it (or limit) hitting the default 1000 fails the step */
+  maxPages?: number;
+  /** Stop after this many records */
+  limit?: number;
+  /** SDK method to call, defaults to the operation name */
+  sdkMethod?: string;
+  sdkConfig?: {
+    baseUrl?: string;
+    apiKey?: string;
+    bearerToken?: string;
+    timeout?: number;
+  };
+}
+
+interface ReadResult {
+  pages: number;
+  /** True when the page cap stopped the read before the API ran out of records */
+  truncated: boolean;
+}
+
+interface SourcePage {
+  rows: any[];
+  /** Cursor for the next page; undefined when the API did not return one */
+  cursor?: string;
+  /** False when the API flags this as the last page */
+  hasMore?: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_MAX_PAGES = 1000;
+
+@Injectable()
+export class CloudConnectorSourceHandlerService extends BaseActivityHandler {
+
+  constructor(
+    private readonly connectorClient: ConnectorClientService,
+    private readonly prisma: PrismaService,
+    private readonly sdkExecutionService: SDKExecutionService,
+    private readonly datasets: ChunkedDatasetService,
+    stateService: ExecutionStateService,
+  ) {
+    super(stateService);
+  }
+
+  /**
+   * Reads every page of a SaaS resource into a dataset. AI SDK aggregators are
+   * paged by cursor (or offset when the SDK returns none); other aggregators
+   * go through their connection handler.
+   */
+  async execute(
+    context: ExecutionContext,
+    config: CloudConnectorSourceConfig,
+    inputs?: Record<string, any>
+  ): Promise<ActivityExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      if (config.operation === 'query' && !config.query) {
+        throw new Error('query is required for the query operation');
+      }
+
+      const instance = await this.getInstance(config.aggregatorInstanceId, context.tenantId);
+
+      await this.logActivityStart(context.executionId, context.activityId, config);
+
+      const isSDK = await this.isSDKAggregator(instance.aggregatorId);
+      const writer = this.datasets.createWriter(context);
+      let columns: string[] | undefined;
+      const onPage = async (rows: any[]) => {
+        columns ??= rows.length > 0 ? Object.keys(rows[0]) : undefined;
+        await writer.write(rows);
+      };
+
+      const { pages, truncated } = isSDK
+        ? await this.readSDKPages(instance.aggregatorId, config, context, onPage)
+        : await this.readHandlerPages(instance, config, context, onPage);
+
+      if (truncated) {
+        // A cap the user chose is a deliberate sample; the default one silently drops data
+        if (config.maxPages === undefined && config.limit === undefined) {
+          throw new Error(
+            `${config.resource} has more than ${DEFAULT_MAX_PAGES} pages; set maxPages or limit to read a bounded part of it`,
+          );
+        }
+        this.logger.warn(`Stopped reading ${config.resource} after maxPages (${config.maxPages ?? DEFAULT_MAX_PAGES}) pages`);
+      }
+
+      const sourceMetadata = { tableName: config.resource, columns };
+      const data = await writer.finish({ columns, _sourceMetadata: sourceMetadata });
+      const rowCount = writer.rowCount;
+      const duration = Date.now() - startTime;
+
+      const activityResult: ActivityExecutionResult = {
+        success: true,
+        // Small results keep the wrapped shape; large ones are a chunked dataset manifest
+        data: this.datasets.isChunked(data) ? data : { data, rowCount, columns, _sourceMetadata: sourceMetadata },
+        metadata: {
+          rowsProcessed: rowCount,
+          durationMs: duration,
+          aggregatorType: isSDK ? 'SDK' : instance.aggregator?.category,
+          sourceTable: config.resource,
+          pages,
+          ...(truncated && { truncated }),
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, activityResult, duration);
+      return activityResult;
+
+    } catch (error) {
+      this.logger.error(`Cloud connector source failed: ${error.message}`, error.stack);
+
+      const duration = Date.now() - startTime;
+      const result: ActivityExecutionResult = {
+        success: false,
+        error: {
+          code: 'CLOUD_SOURCE_ERROR',
+          message: error.message,
+          retryable: this.isRetryableError(error),
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+      return result;
+    }
+  }
+
+  /**
+   * Calls the SDK method page by page until the API runs out of records, the
+   * limit is reached or maxPages pages have been read.
+   */
+  private async readSDKPages(
+    aggregatorId: string,
+    config: CloudConnectorSourceConfig,
+    context: ExecutionContext,
+    onPage: (rows: any[]) => Promise<void>
+  ): Promise<ReadResult> {
+    const method = config.sdkMethod || config.operation;
+    const pageSize = config.pageSize || DEFAULT_PAGE_SIZE;
+    const maxPages = config.maxPages || DEFAULT_MAX_PAGES;
+
+    this.logger.log(`Reading ${config.resource} via SDK ${aggregatorId}.${method}`);
+
+    let pages = 0;
+    let total = 0;
+    let cursor: string | undefined;
+    let firstRowOfPage: string | undefined;
+    let truncated = false;
+
+    for (;;) {
+      const limit = config.limit !== undefined ? Math.min(pageSize, config.limit - total) : pageSize;
+      if (limit <= 0) break;
+      if (pages >= maxPages) {
+        truncated = true;
+        break;
+      }
+
+      const sdkResult = await this.sdkExecutionService.executeMethod({
+        tenantId: context.tenantId,
+        aggregatorId,
+        method,
+        params: {
+          resource: config.resource,
+          query: config.query,
+          limit,
+          cursor,
+          offset: total,
+        },
+        config: config.sdkConfig as SDKConfig,
+      });
+
+      if (!sdkResult.success) {
+        throw new Error(`${method} failed on page ${pages + 1}: ${sdkResult.error || 'SDK call failed'}`);
+      }
+
+      const page = readPage(sdkResult.data);
+      pages++;
+      if (page.rows.length === 0) break;
+
+      const rows = page.rows.slice(0, limit);
+      await onPage(rows);
+      total += rows.length;
+
+      if (page.hasMore === false) break;
+      if (page.cursor !== undefined) {
+        // An API that hands back the same cursor would loop forever
+        if (page.cursor === cursor) {
+          throw new Error(`${method} returned the same page cursor twice: ${cursor}`);
+        }
+        cursor = page.cursor;
+      } else if (cursor !== undefined || page.rows.length < limit) {
+        // Cursor-paged APIs signal the last page by leaving the cursor out
+        break;
+      } else {
+        // Offset paging; an SDK that ignores the offset keeps returning the first page
+        const firstRow = JSON.stringify(rows[0]);
+        if (firstRow === firstRowOfPage) {
+          throw new Error(`${method} ignored the page offset and returned the same records again`);
+        }
+        firstRowOfPage = firstRow;
+      }
+    }
+
+    return { pages, truncated };
+  }
+
+  /**
+   * Reads through the aggregator's connection handler, paging by the table's key.
+   * One row past the page cap is requested to tell a full read from a truncated one.
+   */
+  private async readHandlerPages(
+    instance: any,
+    config: CloudConnectorSourceConfig,
+    context: ExecutionContext,
+    onPage: (rows: any[]) => Promise<void>
+  ): Promise<ReadResult> {
+    const pageSize = config.pageSize || DEFAULT_PAGE_SIZE;
+    const maxRows = (config.maxPages || DEFAULT_MAX_PAGES) * pageSize;
+    const capped = config.limit === undefined || config.limit > maxRows;
+    let pages = 0;
+    let total = 0;
+    let truncated = false;
+
+    await this.connectorClient.streamQuery(
+      instance,
+      {
+        table: config.resource,
+        where: config.operation === 'query' ? config.query : undefined,
+        limit: capped ? maxRows + 1 : config.limit,
+      },
+      context,
+      async rows => {
+        if (total + rows.length > maxRows) {
+          truncated = true;
+          rows = rows.slice(0, maxRows - total);
+          if (rows.length === 0) return;
+        }
+        pages++;
+        total += rows.length;
+        await onPage(rows);
+      },
+      pageSize
+    );
+
+    return { pages, truncated };
+  }
+
+  /**
+   * Check if an aggregator is an AI SDK
+   */
+  private async isSDKAggregator(aggregatorId: string): Promise<boolean> {
+    if (aggregatorId.startsWith('sdk-')) {
+      return true;
+    }
+
+    const aggregator = await this.prisma.aggregator.findUnique({
+      where: { id: aggregatorId },
+      select: { sdkRef: true },
+    });
+    return !!aggregator?.sdkRef;
+  }
+
+  private isRetryableError(error: any): boolean {
+    const retryableCodes = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'TIMEOUT'];
+    return retryableCodes.some(code => error.code === code || error.message?.includes(code));
+  }
+
+  private async getInstance(instanceId: string, tenantId: string) {
+    const instance = await this.prisma.aggregatorInstance.findFirst({
+      where: { id: instanceId, tenantId },
+      include: {
+        aggregator: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            category: true,
+          },
+        },
+        credential: {
+          select: {
+            id: true,
+            host: true,
+            port: true,
+            database: true,
+            usernameHint: true,
+          },
+        },
+      },
+    });
+
+    if (!instance) {
+      throw new NotFoundException(`Aggregator instance with ID "${instanceId}" not found for tenant "${tenantId}"`);
+    }
+    return instance;
+  }
+}
+
+/**
+ * Pulls the records and next-page cursor out of an SDK response. Understands
+ * plain arrays and the common envelopes: HubSpot's { results, paging.next.after },
+ * Salesforce's { records, nextRecordsUrl } and generic { data|items, nextCursor }.
+ */
+function readPage(response: any): SourcePage {
+  if (Array.isArray(response)) {
+    return { rows: response };
+  }
+  if (!response || typeof response !== 'object') {
+    return { rows: [] };
+  }
+
+  const rows = response.results ?? response.records ?? response.data ?? response.items ?? [];
+  const cursor = response.paging?.next?.after
+    ?? response.nextRecordsUrl
+    ?? response.nextCursor
+    ?? response.nextPageToken
+    ?? response.next_cursor
+    ?? undefined;
+
+  const hasMore = response.hasMore ?? response.has_more ?? (typeof response.done === 'boolean' ? !response.done : undefined);
+
+  return {
+    rows: Array.isArray(rows) ? rows : [rows],
+    cursor: cursor === null || cursor === undefined ? undefined : String(cursor),
+    hasMore: typeof hasMore === 'boolean' ? hasMore : undefined,
+  };
+}
@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DedupeHandlerService } from './dedupe-handler.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { CHUNKED_DATASET_FORMAT } from '../datasets/chunked-dataset.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+
+describe('DedupeHandlerService', () => {
+  let service: DedupeHandlerService;
+
+  const mockStateService = {
+    logEvent: jest.fn(),
+  };
+  const mockOutputStore = {
+    load: jest.fn(),
+    saveChunk: jest.fn(),
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'dedupe-contacts',
+    stepId: 'dedupe',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  const contacts = [
+    { email: 'ada@example.com', name: 'Ada', phone: null, updated_at: '2024-03-02' },
+    { email: 'bob@example.com', name: 'Bob', phone: '555-0100', updated_at: '2024-03-01' },
+    { email: 'ada@example.com', name: 'Ada L.', phone: '555-0199', updated_at: '2024-03-01' },
+    { email: 'ada@example.com', name: null, phone: '555-0142', updated_at: '2024-03-03' },
+  ];
+
+  const dedupe = (config: Record<string, any>, input: any = contacts) => service.execute(context, {
+    inputActivityId: 'contacts',
+    keys: ['email'],
+    ...config,
+  } as any, { contacts: input });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DedupeHandlerService,
+        ChunkedDatasetService,
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: StepOutputStoreService, useValue: mockOutputStore },
+      ],
+    }).compile();
+
+    service = module.get<DedupeHandlerService>(DedupeHandlerService);
+  });
+
+  it('should keep the first row of each key and report the duplicates removed', async () => {
+    const result = await dedupe({ survivorship: 'first' });
+
+    expect(result.data).toEqual([contacts[0], contacts[1]]);
+    expect(result.metadata?.duplicatesRemoved).toBe(2);
+  });
+
+  it('should keep the last row by the sort column', async () => {
+    const result = await dedupe({ survivorship: 'last', orderBy: 'updated_at' });
+
+    expect(result.data).toEqual([contacts[3], contacts[1]]);
+  });
+
+  it('should merge non-null fields with later values winning', async () => {
+    const result = await dedupe({ survivorship: 'merge', orderBy: 'updated_at' });
+
+    expect(result.data).toEqual([
+      { email: 'ada@example.com', name: 'Ada', phone: '555-0142', updated_at: '2024-03-03' },
+      contacts[1],
+    ]);
+  });
+
+  it('should stream chunked input through a dataset writer', async () => {
+    mockOutputStore.load
+      .mockResolvedValueOnce(contacts.slice(0, 2))
+      .mockResolvedValueOnce(contacts.slice(2));
+
+    const result = await dedupe({ survivorship: 'first' }, {
+      format: CHUNKED_DATASET_FORMAT,
+      chunks: [{ ref: 'chunk-0', rows: 2 }, { ref: 'chunk-1', rows: 2 }],
+      rowCount: 4,
+    });
+
+    expect(result.data).toEqual([contacts[0], contacts[1]]);
+    expect(result.metadata).toEqual(expect.objectContaining({ rowsProcessed: 4, duplicatesRemoved: 2 }));
+  });
+
+  it('should reject a config without keys', async () => {
+    const result = await dedupe({ keys: [], survivorship: 'newest' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe(
+      'Invalid dedupe config: keys is required and must be a non-empty array of column names; survivorship must be one of: first, last, merge'
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { BaseActivityHandler } from '../handlers/base-activity.handler';
+import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { Deduplicator, validateDedupeConfig } from '../datasets/deduplication';
+import { DedupeConfig } from '../../workflows/entities/workflow-definition.types';
+
+@Injectable()
+export class DedupeHandlerService extends BaseActivityHandler {
+  constructor(
+    private readonly datasets: ChunkedDatasetService,
+    stateService: ExecutionStateService,
+  ) {
+    super(stateService);
+  }
+
+  async execute(
+    context: ExecutionContext,
+    config: DedupeConfig,
+    inputs?: Record<string, any>
+  ): Promise<ActivityExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      const errors = validateDedupeConfig(config);
+      if (errors.length > 0) {
+        throw new Error(`Invalid dedupe config: ${errors.join('; ')}`);
+      }
+      if (!inputs || Object.keys(inputs).length === 0) {
+        throw new Error('Dedupe activity requires input data');
+      }
+
+      await this.logActivityStart(context.executionId, context.activityId, config);
+
+      // Chunked datasets are deduplicated one chunk at a time
+      const dataset = this.datasets.resolve(inputs[config.inputActivityId]);
+      const writer = this.datasets.isChunked(dataset) ? this.datasets.createWriter(context) : null;
+      const kept: any[] = [];
+      const keep = async (rows: any[]) => {
+        if (writer) {
+          await writer.write(rows);
+        } else {
+          for (const row of rows) kept.push(row);
+        }
+      };
+
+      const deduplicator = new Deduplicator(config);
+      for await (const batch of this.datasets.batches(dataset)) {
+        await keep(deduplicator.add(batch));
+      }
+      if (!deduplicator.streaming) {
+        await keep(deduplicator.results());
+      }
+
+      const dedupedData = writer ? await writer.finish() : kept;
+      const duration = Date.now() - startTime;
+
+      const activityResult: ActivityExecutionResult = {
+        success: true,
+        data: dedupedData,
+        metadata: {
+          rowsProcessed: this.datasets.rowCount(dataset),
+          duplicatesRemoved: deduplicator.duplicates,
+          survivorship: config.survivorship,
+          durationMs: duration,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, activityResult, duration);
+
+      return activityResult;
+
+    } catch (error) {
+      this.logger.error(`Dedupe activity failed: ${error.message}`, error.stack);
+
+      const duration = Date.now() - startTime;
+      const result: ActivityExecutionResult = {
+        success: false,
+        error: {
+          code: 'DEDUPE_ERROR',
+          message: error.message,
+          retryable: false,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+      return result;
+    }
+  }
+}
@@ -5,14 +5,25 @@ import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-
 import { ExecutionStateService } from '../../executions/services/execution-state.service';
 import { PrismaService } from '../../prisma.service';
 import { SDKExecutionService, SDKConfig } from '../../ai/sdk-execution.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { QueryFilter, QueryOrderBy } from '../../aggregators/connections/connection-factory.service';
+import { maxCursorValue } from '../../watermarks/services/watermark.service';
 
 interface ExtractConfig {
   aggregatorInstanceId: string;
   table?: string;
   columns?: string[];
+  /** Parameterized filters, ANDed together */
+  filters?: QueryFilter[];
   where?: string;
   limit?: number;
-  orderBy?: string;
+  orderBy?: string | QueryOrderBy[];
+  /** Rows fetched per page from the connector */
+  batchSize?: number;
+  /** Unique columns to page by; defaults to the discovered primary key */
+  keyColumns?: string[];
+  /** Incremental read; the highest cursor value read is reported as metadata.cursorValue */
+  incremental?: { cursorColumn: string };
   /**
    * SDK-specific configuration for AI SDK aggregators
    */
@@ -32,6 +43,7 @@ export class ExtractHandlerService extends BaseActivityHandler {
     private readonly connectorClient: ConnectorClientService,
     private readonly prisma: PrismaService,
     private readonly sdkExecutionService: SDKExecutionService,
+    private readonly datasets: ChunkedDatasetService,
     stateService: ExecutionStateService,
   ) {
     super(stateService);
@@ -69,27 +81,44 @@ export class ExtractHandlerService extends BaseActivityHandler {
       const query = {
         table: config.table,
         columns: config.columns,
+        filters: config.filters,
         where: config.where,
         limit: config.limit,
         orderBy: config.orderBy,
+        key: config.keyColumns,
       };
 
-      // Execute query via connector client
-      const result = await this.connectorClient.executeQuery(
+      // Stream pages from the connector into a dataset; large results end up chunked in storage
+      const writer = this.datasets.createWriter(context);
+      const cursorColumn = config.incremental?.cursorColumn;
+      let cursorValue: any;
+      let bytesTransferred = 0;
+      const rowCount = await this.connectorClient.streamQuery(
         instance,
         query,
-        context
+        context,
+        async rows => {
+          bytesTransferred += JSON.stringify(rows).length;
+          if (cursorColumn) {
+            for (const row of rows) cursorValue = maxCursorValue(cursorValue, row[cursorColumn]);
+          }
+          await writer.write(rows);
+        },
+        config.batchSize
       );
+      const data = await writer.finish({ columns: config.columns });
 
       const duration = Date.now() - startTime;
       
       const activityResult: ActivityExecutionResult = {
         success: true,
-        data: result.data,
+        data,
         metadata: {
-          rowsProcessed: result.rowCount || 0,
+          rowsProcessed: rowCount,
           durationMs: duration,
-          bytesTransferred: JSON.stringify(result.data).length,
+          bytesTransferred,
+          chunked: this.datasets.isChunked(data),
+          ...(cursorValue !== undefined && { cursorValue }),
         },
       };
 
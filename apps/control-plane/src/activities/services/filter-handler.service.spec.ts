@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FilterHandlerService } from './filter-handler.service';
+import { DataTransformService } from '../handlers/data-transform.service';
+import { compileFilterExpression, validateFilterConfig } from '../datasets/filter-expression';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { CHUNKED_DATASET_FORMAT } from '../datasets/chunked-dataset.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+import { FilterExpression } from '../../workflows/entities/workflow-definition.types';
+
+describe('FilterHandlerService', () => {
+  let service: FilterHandlerService;
+
+  const mockStateService = {
+    logEvent: jest.fn(),
+  };
+  const mockOutputStore = {
+    load: jest.fn(),
+    saveChunk: jest.fn(),
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'active-customers',
+    stepId: 'filter',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  const customers = [
+    { id: 1, name: 'Ada', country: 'UK', plan: 'pro', spend: '120.00', email: 'ada@example.com', signed_up: '2024-01-15' },
+    { id: 2, name: 'Bob', country: 'US', plan: 'free', spend: 0, email: 'bob@test.io', signed_up: '2024-02-20' },
+    { id: 3, name: 'Eve', country: 'us', plan: null, spend: 45, email: null, signed_up: '2023-11-02' },
+    { id: 4, name: 'Zed', country: 'DE', plan: 'pro', spend: 300, email: 'zed@example.com', signed_up: null },
+  ];
+
+  const filter = (config: Record<string, any>, input: any = customers) => service.execute(context, {
+    inputActivityId: 'customers',
+    ...config,
+  } as any, { customers: input });
+
+  const ids = (expression: FilterExpression, now?: Date) =>
+    customers.filter(compileFilterExpression(expression, now)).map(row => row.id);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FilterHandlerService,
+        DataTransformService,
+        ChunkedDatasetService,
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: StepOutputStoreService, useValue: mockOutputStore },
+      ],
+    }).compile();
+
+    service = module.get<FilterHandlerService>(FilterHandlerService);
+  });
+
+  it('should keep the rows matching an expression', async () => {
+    const result = await filter({
+      expression: {
+        and: [
+          { field: 'plan', operator: 'eq', value: 'pro' },
+          { or: [{ field: 'spend', operator: 'gt', value: 100 }, { field: 'country', operator: 'in', value: ['FR'] }] },
+        ],
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([customers[0], customers[3]]);
+    expect(result.metadata).toEqual(expect.objectContaining({ rowsProcessed: 4, rowsFiltered: 2 }));
+  });
+
+  it('should treat null fields as matching only isNull', () => {
+    expect(ids({ field: 'plan', operator: 'neq', value: 'pro' })).toEqual([2]);
+    expect(ids({ field: 'plan', operator: 'notIn', value: ['free'] })).toEqual([1, 4]);
+    expect(ids({ field: 'plan', operator: 'isNull' })).toEqual([3]);
+    expect(ids({ not: { field: 'email', operator: 'isNotNull' } })).toEqual([3]);
+  });
+
+  it('should match strings and patterns with optional case folding', () => {
+    expect(ids({ field: 'country', operator: 'eq', value: 'US' })).toEqual([2]);
+    expect(ids({ field: 'country', operator: 'eq', value: 'US', caseInsensitive: true })).toEqual([2, 3]);
+    expect(ids({ field: 'email', operator: 'endsWith', value: '@example.com' })).toEqual([1, 4]);
+    expect(ids({ field: 'name', operator: 'regex', value: '^[a-e]', caseInsensitive: true })).toEqual([1, 2, 3]);
+  });
+
+  it('should compare dates, including relative ones', () => {
+    const now = new Date('2024-03-01T12:00:00Z');
+
+    expect(ids({ field: 'signed_up', operator: 'between', value: ['2024-01-01', '2024-01-31'], type: 'date' })).toEqual([1]);
+    expect(ids({ field: 'signed_up', operator: 'gte', value: 'today-30d', type: 'date' }, now)).toEqual([2]);
+  });
+
+  it('should run a JavaScript condition once per row', async () => {
+    const result = await filter({ condition: 'row.spend > 40 && index > 0' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([customers[2], customers[3]]);
+  });
+
+  it('should filter chunked input through a dataset writer', async () => {
+    mockOutputStore.load
+      .mockResolvedValueOnce(customers.slice(0, 2))
+      .mockResolvedValueOnce(customers.slice(2));
+
+    const result = await filter({ expression: { field: 'plan', operator: 'eq', value: 'pro' } }, {
+      format: CHUNKED_DATASET_FORMAT,
+      chunks: [{ ref: 'chunk-0', rows: 2 }, { ref: 'chunk-1', rows: 2 }],
+      rowCount: 4,
+    });
+
+    expect(result.data).toEqual([customers[0], customers[3]]);
+    expect(result.metadata).toEqual(expect.objectContaining({ rowsProcessed: 4, rowsFiltered: 2 }));
+  });
+
+  it('should list config errors by path', () => {
+    expect(validateFilterConfig({
+      inputActivityId: 'customers',
+      expression: {
+        or: [
+          { field: 'plan', operator: 'like', value: 'p%' },
+          { field: 'spend', operator: 'between', value: [1] },
+          { field: 'name', operator: 'regex', value: '(' },
+          { field: 'plan', operator: 'eq', value: null },
+          { and: [] },
+        ],
+      },
+    })).toEqual([
+      'expression.or[0].operator must be one of: eq, neq, gt, gte, lt, lte, between, in, notIn, isNull, isNotNull, contains, startsWith, endsWith, regex',
+      'expression.or[1].value must be a [low, high] pair for between',
+      expect.stringMatching(/^expression\.or\[2\]\.value is not a valid regex: /),
+      'expression.or[3].value must be a string, number or boolean for eq; use isNull to match nulls',
+      'expression.or[4].and must be a non-empty array',
+    ]);
+    expect(validateFilterConfig({ inputActivityId: 'customers' })).toEqual(['expression or condition is required']);
+  });
+});
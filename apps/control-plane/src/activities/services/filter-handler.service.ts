@@ -3,16 +3,15 @@ import { BaseActivityHandler } from '../handlers/base-activity.handler';
 import { DataTransformService } from '../handlers/data-transform.service';
 import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
 import { ExecutionStateService } from '../../executions/services/execution-state.service';
-
-interface FilterConfig {
-  condition: string; // JavaScript expression returning boolean
-  inputActivityId: string;
-}
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { compileFilterExpression, validateFilterConfig } from '../datasets/filter-expression';
+import { FilterConfig } from '../../workflows/entities/workflow-definition.types';
 
 @Injectable()
 export class FilterHandlerService extends BaseActivityHandler {
   constructor(
     private readonly transformService: DataTransformService,
+    private readonly datasets: ChunkedDatasetService,
     stateService: ExecutionStateService,
   ) {
     super(stateService);
@@ -26,29 +25,40 @@ export class FilterHandlerService extends BaseActivityHandler {
     const startTime = Date.now();
 
     try {
+      const errors = validateFilterConfig(config);
+      if (errors.length > 0) {
+        throw new Error(`Invalid filter config: ${errors.join('; ')}`);
+      }
       if (!inputs || Object.keys(inputs).length === 0) {
         throw new Error('Filter activity requires input data');
       }
 
       await this.logActivityStart(context.executionId, context.activityId, config);
 
-      // Get input data
-      const inputData = inputs[config.inputActivityId];
-      if (!Array.isArray(inputData)) {
-        throw new Error('Filter input must be an array');
-      }
+      // Get input data - chunked datasets are filtered one chunk at a time
+      const dataset = this.datasets.resolve(inputs[config.inputActivityId]);
+      const writer = this.datasets.isChunked(dataset) ? this.datasets.createWriter(context) : null;
+      const kept: any[] = [];
+
+      // Expressions are evaluated in-process; a JavaScript condition runs in
+      // the sandbox once per batch, tested against each row
+      const matches = config.expression ? compileFilterExpression(config.expression) : null;
+
+      for await (const batch of this.datasets.batches(dataset)) {
+        const filteredBatch = matches
+          ? batch.filter(matches)
+          : await this.filterWithCondition(context, config.condition!, batch);
 
-      // Use transform service to evaluate condition
-      const result = await this.transformService.transform(
-        inputData,
-        `return ${config.condition}`,
-        {
-          executionId: context.executionId,
-          activityId: context.activityId,
+        if (writer) {
+          await writer.write(filteredBatch);
+        } else {
+          for (const row of filteredBatch) kept.push(row);
         }
-      );
+      }
 
-      const filteredData = Array.isArray(result) ? result : inputData.filter((item: any) => result.includes(item));
+      const filteredData = writer ? await writer.finish() : kept;
+      const rowsIn = this.datasets.rowCount(dataset);
+      const rowsOut = this.datasets.rowCount(filteredData);
 
       const duration = Date.now() - startTime;
       
@@ -56,8 +66,8 @@ export class FilterHandlerService extends BaseActivityHandler {
         success: true,
         data: filteredData,
         metadata: {
-          rowsProcessed: inputData.length,
-          rowsFiltered: inputData.length - filteredData.length,
+          rowsProcessed: rowsIn,
+          rowsFiltered: rowsIn - rowsOut,
           durationMs: duration,
         },
       };
@@ -83,4 +93,20 @@ export class FilterHandlerService extends BaseActivityHandler {
       return result;
     }
   }
+
+  private async filterWithCondition(context: ExecutionContext, condition: string, batch: any[]): Promise<any[]> {
+    const result = await this.transformService.transform(
+      batch,
+      `return input.filter(function (row, index) { return (${condition}); });`,
+      {
+        executionId: context.executionId,
+        activityId: context.activityId,
+      }
+    );
+
+    if (!Array.isArray(result)) {
+      throw new Error('Filter condition did not produce a list of rows');
+    }
+    return result;
+  }
 }
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JoinHandlerService, parseJoinConfig } from './join-handler.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+
+describe('JoinHandlerService', () => {
+  let service: JoinHandlerService;
+
+  const mockStateService = {
+    logEvent: jest.fn(),
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'join-orders',
+    stepId: 'join',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  const customers = [
+    { id: 1, region: 'eu', name: 'Ada' },
+    { id: 2, region: 'eu', name: 'Grace' },
+    { id: 1, region: 'us', name: 'Linus' },
+    { id: null, region: 'us', name: 'Nobody' },
+  ];
+  const orders = [
+    { order: 10, customer_id: 1, region: 'eu', name: 'Widgets' },
+    { order: 11, customer_id: 1, region: 'eu', name: 'Gears' },
+    { order: 12, customer_id: 3, region: 'eu', name: 'Bolts' },
+  ];
+  const inputs = { customers, orders };
+
+  const join = (config: Record<string, any>) => service.execute(context, {
+    leftActivityId: 'customers',
+    rightActivityId: 'orders',
+    joinType: 'inner',
+    leftKey: ['id', 'region'],
+    rightKey: ['customer_id', 'region'],
+    ...config,
+  } as any, inputs);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JoinHandlerService,
+        ChunkedDatasetService,
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: StepOutputStoreService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<JoinHandlerService>(JoinHandlerService);
+  });
+
+  it('should join on a composite key, keeping a shared key once and prefixing other collisions', async () => {
+    const result = await join({});
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      { id: 1, region: 'eu', left_name: 'Ada', order: 10, customer_id: 1, right_name: 'Widgets' },
+      { id: 1, region: 'eu', left_name: 'Ada', order: 11, customer_id: 1, right_name: 'Gears' },
+    ]);
+  });
+
+  it('should keep unmatched rows of both sides in a full outer join', async () => {
+    const result = await join({ joinType: 'full', leftPrefix: 'customer_', rightPrefix: 'order_' });
+
+    expect(result.data.map((row: any) => [row.customer_name, row.order_name, row.region])).toEqual([
+      ['Ada', 'Widgets', 'eu'],
+      ['Ada', 'Gears', 'eu'],
+      ['Grace', null, 'eu'],
+      ['Linus', null, 'us'],
+      ['Nobody', null, 'us'],
+      [null, 'Bolts', 'eu'],
+    ]);
+  });
+
+  it('should keep left rows with or without a match in semi and anti joins', async () => {
+    const semi = await join({ joinType: 'semi' });
+    const anti = await join({ joinType: 'anti' });
+
+    expect(semi.data).toEqual([customers[0]]);
+    expect(anti.data).toEqual(customers.slice(1));
+  });
+
+  it('should spill both sides to disk when the right side exceeds memory', async () => {
+    const inMemory = await join({ joinType: 'full' });
+    const spilled = await join({ joinType: 'full', maxMemoryRows: 1 });
+
+    expect(spilled.metadata?.spilledPartitions).toBe(6);
+    expect(sortRows(spilled.data)).toEqual(sortRows(inMemory.data));
+  });
+
+  it('should accept the legacy type and joinKey names', () => {
+    expect(parseJoinConfig({ leftActivityId: 'a', rightActivityId: 'b', type: 'left', joinKey: 'id' })).toEqual({
+      spec: { joinType: 'left', leftKey: ['id'], rightKey: ['id'], leftPrefix: 'left_', rightPrefix: 'right_' },
+      errors: [],
+    });
+    expect(parseJoinConfig({ leftActivityId: 'a', rightActivityId: 'b', joinType: 'cross', leftKey: ['a', 'b'], rightKey: 'a' }).errors).toEqual([
+      'joinType must be one of: inner, left, right, full, semi, anti',
+      'rightKey must name as many columns as leftKey',
+    ]);
+  });
+});
+
+function sortRows(rows: any[]): string[] {
+  return rows.map(row => JSON.stringify(row)).sort();
+}
@@ -2,18 +2,65 @@ import { Injectable, Logger } from '@nestjs/common';
 import { BaseActivityHandler } from '../handlers/base-activity.handler';
 import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
 import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { ChunkedDataset } from '../datasets/chunked-dataset.types';
+import { HashJoin, JoinRowBuilder, JoinSpec } from '../datasets/hash-join';
+import { JoinConfig, JoinType } from '../../workflows/entities/workflow-definition.types';
+
+const JOIN_TYPES: JoinType[] = ['inner', 'left', 'right', 'full', 'semi', 'anti'];
+const DEFAULT_MAX_MEMORY_ROWS = 100000;
+
+/**
+ * Reads a join config into a JoinSpec, listing everything wrong with it.
+ * Configs written before JoinConfig settled used `type` and `joinKey`; those
+ * names are still accepted.
+ */
+export function parseJoinConfig(config: Record<string, any>): { spec?: JoinSpec; errors: string[] } {
+  const errors: string[] = [];
+  const joinType = config.joinType ?? config.type;
+  const leftKey = toColumns(config.leftKey ?? config.joinKey);
+  const rightKey = config.rightKey !== undefined ? toColumns(config.rightKey) : leftKey;
+  const leftPrefix = config.leftPrefix ?? 'left_';
+  const rightPrefix = config.rightPrefix ?? 'right_';
+
+  if (!config.leftActivityId) errors.push('leftActivityId is required');
+  if (!config.rightActivityId) errors.push('rightActivityId is required');
+  if (!JOIN_TYPES.includes(joinType)) {
+    errors.push(`joinType must be one of: ${JOIN_TYPES.join(', ')}`);
+  }
+  if (!leftKey || leftKey.length === 0) {
+    errors.push('leftKey is required and must be a column name or a non-empty array of them');
+  } else if (!rightKey || rightKey.length !== leftKey.length) {
+    errors.push('rightKey must name as many columns as leftKey');
+  }
+  if (typeof leftPrefix !== 'string' || typeof rightPrefix !== 'string' || leftPrefix === rightPrefix) {
+    errors.push('leftPrefix and rightPrefix must be different strings');
+  }
+  if (config.maxMemoryRows !== undefined && !(Number.isInteger(config.maxMemoryRows) && config.maxMemoryRows > 0)) {
+    errors.push('maxMemoryRows must be a positive integer');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { spec: { joinType, leftKey: leftKey!, rightKey: rightKey!, leftPrefix, rightPrefix }, errors };
+}
 
-interface JoinConfig {
-  type: 'inner' | 'left' | 'right' | 'full';
-  leftActivityId: string;
-  rightActivityId: string;
-  joinKey: string | string[];
-  rightKey?: string | string[];
+function toColumns(key: unknown): string[] | null {
+  const columns = typeof key === 'string' ? [key] : key;
+  return Array.isArray(columns) && columns.every(column => typeof column === 'string' && column.length > 0)
+    ? columns
+    : null;
 }
 
 @Injectable()
 export class JoinHandlerService extends BaseActivityHandler {
-  constructor(stateService: ExecutionStateService) {
+  private readonly maxMemoryRows = parseInt(process.env.JOIN_MAX_MEMORY_ROWS || String(DEFAULT_MAX_MEMORY_ROWS));
+
+  constructor(
+    private readonly datasets: ChunkedDatasetService,
+    stateService: ExecutionStateService,
+  ) {
     super(stateService);
   }
 
@@ -25,34 +72,56 @@ export class JoinHandlerService extends BaseActivityHandler {
     const startTime = Date.now();
 
     try {
-      if (!inputs || Object.keys(inputs).length < 2) {
-        throw new Error('Join activity requires at least 2 input sources');
+      const { spec, errors } = parseJoinConfig(config);
+      if (!spec) {
+        throw new Error(`Invalid join config: ${errors.join('; ')}`);
       }
 
       await this.logActivityStart(context.executionId, context.activityId, config);
 
-      const leftData = inputs[config.leftActivityId];
-      const rightData = inputs[config.rightActivityId];
-
-      if (!Array.isArray(leftData) || !Array.isArray(rightData)) {
-        throw new Error('Both inputs must be arrays');
-      }
-
-      const joinedData = this.performJoin(
-        leftData,
-        rightData,
-        config.type,
-        config.joinKey,
-        config.rightKey || config.joinKey
+      const left = this.input(inputs, config.leftActivityId);
+      const right = this.input(inputs, config.rightActivityId);
+      const leftColumns = await this.columnsOf(left);
+      const rows = new JoinRowBuilder(spec, leftColumns, await this.columnsOf(right));
+
+      // Chunked inputs give a chunked output; the join itself never holds more than the build side
+      const writer = this.datasets.isChunked(left) || this.datasets.isChunked(right)
+        ? this.datasets.createWriter(context)
+        : null;
+      const joined: any[] = [];
+
+      const join = new HashJoin(spec, rows, {
+        maxMemoryRows: config.maxMemoryRows ?? this.maxMemoryRows,
+        spillDir: process.env.JOIN_SPILL_DIR,
+      });
+      const { spilled, partitions } = await join.run(
+        this.datasets.batches(left),
+        this.datasets.batches(right),
+        this.datasets.rowCount(right),
+        async batch => {
+          if (writer) {
+            await writer.write(batch);
+          } else {
+            for (const row of batch) joined.push(row);
+          }
+        },
       );
 
+      const leftOnly = spec.joinType === 'semi' || spec.joinType === 'anti';
+      const joinedData = writer
+        ? await writer.finish({ columns: leftOnly ? leftColumns : rows.columns() })
+        : joined;
+
       const duration = Date.now() - startTime;
 
       const activityResult: ActivityExecutionResult = {
         success: true,
         data: joinedData,
         metadata: {
-          rowsProcessed: leftData.length + rightData.length,
+          rowsProcessed: this.datasets.rowCount(left) + this.datasets.rowCount(right),
+          rowsJoined: this.datasets.rowCount(joinedData),
+          joinType: spec.joinType,
+          ...(spilled && { spilledPartitions: partitions }),
           durationMs: duration,
         },
       };
@@ -79,94 +148,28 @@ export class JoinHandlerService extends BaseActivityHandler {
     }
   }
 
-  private performJoin(
-    left: any[],
-    right: any[],
-    type: 'inner' | 'left' | 'right' | 'full',
-    leftKey: string | string[],
-    rightKey: string | string[]
-  ): any[] {
-    const result: any[] = [];
-
-    // Create lookup for right data
-    const rightLookup = new Map();
-    right.forEach((row) => {
-      const key = this.getJoinKey(row, rightKey);
-      if (!rightLookup.has(key)) {
-        rightLookup.set(key, []);
-      }
-      rightLookup.get(key).push(row);
-    });
-
-    // Perform join based on type
-    switch (type) {
-      case 'inner':
-        left.forEach((leftRow) => {
-          const key = this.getJoinKey(leftRow, leftKey);
-          const matches = rightLookup.get(key) || [];
-          matches.forEach((rightRow) => {
-            result.push({ ...leftRow, ...rightRow });
-          });
-        });
-        break;
-
-      case 'left':
-        left.forEach((leftRow) => {
-          const key = this.getJoinKey(leftRow, leftKey);
-          const matches = rightLookup.get(key);
-          if (matches && matches.length > 0) {
-            matches.forEach((rightRow) => {
-              result.push({ ...leftRow, ...rightRow });
-            });
-          } else {
-            result.push(leftRow);
-          }
-        });
-        break;
-
-      case 'right':
-        right.forEach((rightRow) => {
-          const key = this.getJoinKey(rightRow, rightKey);
-          const matches = left.filter((row) => this.getJoinKey(row, leftKey) === key);
-          if (matches.length > 0) {
-            matches.forEach((leftRow) => {
-              result.push({ ...leftRow, ...rightRow });
-            });
-          } else {
-            result.push(rightRow);
-          }
-        });
-        break;
-
-      case 'full':
-        left.forEach((leftRow) => {
-          const key = this.getJoinKey(leftRow, leftKey);
-          const matches = rightLookup.get(key);
-          if (matches && matches.length > 0) {
-            matches.forEach((rightRow) => {
-              result.push({ ...leftRow, ...rightRow });
-            });
-          } else {
-            result.push(leftRow);
-          }
-        });
-        right.forEach((rightRow) => {
-          const key = this.getJoinKey(rightRow, rightKey);
-          const matches = left.filter((row) => this.getJoinKey(row, leftKey) === key);
-          if (matches.length === 0) {
-            result.push(rightRow);
-          }
-        });
-        break;
+  private input(inputs: Record<string, any> | undefined, stepId: string): any[] | ChunkedDataset {
+    if (inputs?.[stepId] === undefined) {
+      throw new Error(`Join input "${stepId}" is missing; it must be a step this join depends on`);
     }
-
-    return result;
+    return this.datasets.resolve(inputs[stepId]);
   }
 
-  private getJoinKey(row: any, key: string | string[]): string {
-    if (typeof key === 'string') {
-      return String(row[key] || '');
+  /**
+   * Output columns depend on both sides' columns, so they are settled before
+   * the first row is joined; chunked datasets usually record them already
+   */
+  private async columnsOf(dataset: any[] | ChunkedDataset): Promise<string[]> {
+    if (this.datasets.isChunked(dataset) && dataset.columns?.length) {
+      return dataset.columns;
+    }
+
+    const columns = new Set<string>();
+    for await (const batch of this.datasets.batches(dataset)) {
+      for (const row of batch) {
+        for (const column of Object.keys(row)) columns.add(column);
+      }
     }
-    return key.map((k) => String(row[k] || '')).join('|');
+    return [...columns];
   }
 }
@@ -5,6 +5,10 @@ import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-
 import { ExecutionStateService } from '../../executions/services/execution-state.service';
 import { PrismaService } from '../../prisma.service';
 import { SDKExecutionService, SDKConfig } from '../../ai/sdk-execution.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { ChunkedDataset } from '../datasets/chunked-dataset.types';
+import { LoadCommitMode, LoadRowError, SchemaEvolution } from '../../aggregators/connections/connection-factory.service';
+import { QuarantineService, RejectedRow } from '../../quarantine/services/quarantine.service';
 
 interface LoadConfig {
   aggregatorInstanceId?: string;
@@ -22,6 +26,19 @@ interface LoadConfig {
    */
   mappingId?: string;
   batchSize?: number;
+  /** When loaded rows become visible, see LoadCommitMode; defaults to batch */
+  commitMode?: LoadCommitMode;
+  /**
+   * Rejected rows tolerated before the load stops and rolls back. Unset, a
+   * batch load writes everything and fails afterwards if any row was rejected,
+   * while transaction and staging loads tolerate none.
+   */
+  errorThreshold?: number;
+  /**
+   * Adds columns the rows bring and widens integer and varchar columns too
+   * small for them; every change is recorded as an execution event
+   */
+  autoEvolve?: boolean;
   /** 
    * Source metadata from previous activity to infer table name.
    * When table is not provided, it will be inferred from source metadata.
@@ -46,12 +63,23 @@ interface LoadConfig {
   };
 }
 
+interface MappingRule {
+  sourceField: string;
+  destinationField: string;
+  transform?: string;
+  transformConfig?: Record<string, any>;
+  nullable?: boolean;
+  defaultValue?: any;
+}
+
 @Injectable()
 export class LoadHandlerService extends BaseActivityHandler {
   constructor(
     private readonly connectorClient: ConnectorClientService,
     private readonly prisma: PrismaService,
     private readonly sdkExecutionService: SDKExecutionService,
+    private readonly datasets: ChunkedDatasetService,
+    private readonly quarantine: QuarantineService,
     stateService: ExecutionStateService,
   ) {
     super(stateService);
@@ -71,24 +99,8 @@ export class LoadHandlerService extends BaseActivityHandler {
 
       await this.logActivityStart(context.executionId, context.activityId, config);
 
-      // Get the first input
-      let inputData = Object.values(inputs)[0];
-
-      // Handle the case where input is wrapped in { data: [...] } or { error: ..., status: ... }
-      if (inputData && typeof inputData === 'object' && !Array.isArray(inputData)) {
-        // If the response has a 'data' property, use that
-        if ('data' in inputData) {
-          inputData = inputData.data;
-        }
-        // If the response has an 'error' property, the source failed
-        if ('error' in inputData) {
-          throw new Error(`Source activity failed: ${inputData.error}`);
-        }
-      }
-
-      if (!Array.isArray(inputData)) {
-        throw new Error('Load input must be an array');
-      }
+      // Get the first input - rows, a { data: [...] } wrapper or a chunked dataset
+      const dataset = this.datasets.resolve(Object.values(inputs)[0]);
 
       // DEBUG: Log config details
       this.logger.log(`[LOAD DEBUG] aggregatorInstanceId: ${config.aggregatorInstanceId}`);
@@ -102,7 +114,7 @@ export class LoadHandlerService extends BaseActivityHandler {
       if (isSDK) {
         // Handle AI SDK load - call SDK method to send data to external API
         return await this.executeSDKLoad(
-          inputData,
+          dataset,
           config,
           context,
           startTime
@@ -124,7 +136,7 @@ export class LoadHandlerService extends BaseActivityHandler {
 
       // Handle database load (original behavior)
       // Resolve the actual table name - this is the key fix for the "undefined" bug
-      const resolvedTableName = this.resolveTableName(config, inputData);
+      const resolvedTableName = this.resolveTableName(config, dataset);
       
       // Update config with resolved table name for connector client
       const loadConfig = {
@@ -132,53 +144,103 @@ export class LoadHandlerService extends BaseActivityHandler {
         table: resolvedTableName,
       };
 
-      // Apply stored mapping if mappingId is provided
-      let mappedData = inputData;
-      if (config.mappingId) {
-        mappedData = await this.applyStoredMapping(inputData, config.mappingId, context.tenantId);
-      }
-
-      // Apply column mappings if provided (takes precedence over stored mapping)
-      const dataToLoad = this.applyColumnMappings(mappedData, config.columnMappings);
+      // Resolve the stored mapping once; it is applied to every batch
+      const mappingRules = config.mappingId
+        ? await this.loadMappingRules(config.mappingId, context.tenantId)
+        : null;
 
-      // Load data in batches
+      // Load data in batches - chunked datasets are read one chunk at a time
       const batchSize = config.batchSize || 1000;
+      const commitMode = config.commitMode || 'batch';
+      const errorThreshold = config.errorThreshold ?? (commitMode === 'batch' ? undefined : 0);
+      let rowsProcessed = 0;
       let totalLoaded = 0;
-      const errors: any[] = [];
-
-      for (let i = 0; i < dataToLoad.length; i += batchSize) {
-        const batch = dataToLoad.slice(i, i + batchSize);
-        const result = await this.connectorClient.loadData(
-          instance,
-          batch,
-          loadConfig,
-          context
+      const errors: LoadRowError[] = [];
+      const mappingRejects: RejectedRow[] = [];
+      const loadRejects: RejectedRow[] = [];
+      const schemaChanges: SchemaEvolution[] = [];
+
+      const session = await this.connectorClient.beginLoad(instance, loadConfig, context);
+      try {
+        for await (const batch of this.datasets.batches(dataset, batchSize)) {
+          const mapped = mappingRules
+            ? this.applyMappingRules(batch, mappingRules)
+            : { rows: batch, sourceIndexes: undefined, rejected: [] };
+
+          // Apply column mappings if provided (takes precedence over stored mapping)
+          const batchToLoad = this.applyColumnMappings(mapped.rows, config.columnMappings);
+
+          const result = await session.write(batchToLoad, 0);
+          if (result.schemaChanges?.length) {
+            schemaChanges.push(...result.schemaChanges);
+            await this.logSchemaChanges(context, result.schemaChanges);
+          }
+
+          // Rejections are reported against the incoming rows, before any mapping
+          for (const rejection of mapped.rejected) {
+            mappingRejects.push({ ...rejection, rowIndex: rowsProcessed + rejection.rowIndex! });
+            errors.push({ row: rowsProcessed + rejection.rowIndex!, error: rejection.error });
+          }
+          for (const rowError of result.errors ?? []) {
+            const index = mapped.sourceIndexes?.[rowError.row] ?? rowError.row;
+            loadRejects.push({ row: batch[index], rowIndex: rowsProcessed + index, error: rowError.error, rule: violatedConstraint(rowError.error) });
+            errors.push({ row: rowsProcessed + index, error: rowError.error });
+          }
+
+          rowsProcessed += batch.length;
+          totalLoaded += result.rowsLoaded;
+
+          if (errorThreshold !== undefined && errors.length > errorThreshold) {
+            throw new LoadThresholdError(errorThreshold);
+          }
+        }
+        await session.commit();
+      } catch (error) {
+        await session.rollback().catch(rollbackError =>
+          this.logger.warn(`Rolling back load into "${resolvedTableName}" failed: ${rollbackError.message}`)
         );
+        if (!(error instanceof LoadThresholdError)) {
+          throw error;
+        }
 
-        totalLoaded += result.rowsLoaded;
-        if (result.errors) {
-          errors.push(...result.errors);
+        // Batches written so far stay committed only in batch mode; after a
+        // rollback nothing was loaded, so there is nothing to resubmit around
+        if (commitMode === 'batch') {
+          await this.quarantineRejects(context, mappingRejects, loadRejects);
         }
+        return this.failThreshold(context, startTime, error, {
+          commitMode,
+          rowsProcessed,
+          rowsLoaded: commitMode === 'batch' ? totalLoaded : 0,
+          rowsFailed: errors.length,
+          errors,
+        });
       }
 
+      await this.quarantineRejects(context, mappingRejects, loadRejects);
+
       const duration = Date.now() - startTime;
-      
+      const failed = errorThreshold === undefined && errors.length > 0;
+
       const activityResult: ActivityExecutionResult = {
-        success: errors.length === 0,
+        success: !failed,
         data: {
-          rowsProcessed: dataToLoad.length,
+          rowsProcessed,
           rowsLoaded: totalLoaded,
           rowsFailed: errors.length,
+          ...(errors.length > 0 && { errors }),
+          ...(schemaChanges.length > 0 && { schemaChanges }),
         },
-        error: errors.length > 0 ? {
+        error: failed ? {
           code: 'LOAD_PARTIAL_FAILURE',
           message: `${errors.length} rows failed to load`,
           details: errors,
           retryable: false,
         } : undefined,
         metadata: {
-          rowsProcessed: dataToLoad.length,
+          rowsProcessed,
           durationMs: duration,
+          commitMode,
           warnings: errors.length > 0 ? [`${errors.length} rows failed`] : undefined,
         },
       };
@@ -205,6 +267,57 @@ export class LoadHandlerService extends BaseActivityHandler {
     }
   }
 
+  /**
+   * One event per change; DDL is not undone when the load rolls back on MySQL,
+   * so it is recorded as it happens
+   */
+  private async logSchemaChanges(context: ExecutionContext, changes: SchemaEvolution[]) {
+    for (const change of changes) {
+      if (change.change === 'refused') {
+        this.logger.warn(`Not changing ${change.table}.${change.column} from ${change.from} to ${change.to}: ${change.reason}`);
+      }
+      await this.stateService.logEvent({
+        executionId: context.executionId,
+        timestamp: new Date(),
+        eventType: change.change === 'refused' ? 'SCHEMA_EVOLUTION_REFUSED' : 'SCHEMA_EVOLVED',
+        payload: { activityId: context.activityId, ...change },
+      });
+    }
+  }
+
+  private async quarantineRejects(context: ExecutionContext, mappingRejects: RejectedRow[], loadRejects: RejectedRow[]) {
+    await this.quarantine.add(context, 'MAPPING', mappingRejects);
+    await this.quarantine.add(context, 'LOAD', loadRejects);
+  }
+
+  private async failThreshold(
+    context: ExecutionContext,
+    startTime: number,
+    error: LoadThresholdError,
+    summary: { commitMode: LoadCommitMode; rowsProcessed: number; rowsLoaded: number; rowsFailed: number; errors: LoadRowError[] }
+  ): Promise<ActivityExecutionResult> {
+    const duration = Date.now() - startTime;
+    const result: ActivityExecutionResult = {
+      success: false,
+      data: summary,
+      error: {
+        code: 'LOAD_ERROR_THRESHOLD_EXCEEDED',
+        message: `${summary.rowsFailed} rows failed to load, more than the error threshold of ${error.threshold}` +
+          (summary.commitMode === 'batch' ? '' : '; the load was rolled back'),
+        details: summary,
+        retryable: false,
+      },
+      metadata: {
+        rowsProcessed: summary.rowsProcessed,
+        durationMs: duration,
+        commitMode: summary.commitMode,
+      },
+    };
+
+    await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+    return result;
+  }
+
   /**
    * Check if this is an SDK load
    * Checks:
@@ -231,7 +344,7 @@ export class LoadHandlerService extends BaseActivityHandler {
    * Execute load using AI SDK - sends data to external API
    */
   private async executeSDKLoad(
-    inputData: any[],
+    dataset: any[] | ChunkedDataset,
     config: LoadConfig,
     context: ExecutionContext,
     startTime: number
@@ -245,14 +358,16 @@ export class LoadHandlerService extends BaseActivityHandler {
     
     this.logger.log(`[LOAD DEBUG] SDK method resolution: sdkMethod=${config.sdkMethod}, method=${config.method}, sdkMethods=${JSON.stringify(config.sdkMethods)}, final=${method}`);
 
-    this.logger.log(`Executing SDK load: ${sdkId}.${method} with ${inputData.length} rows`);
+    const rowCount = this.datasets.rowCount(dataset);
+    this.logger.log(`Executing SDK load: ${sdkId}.${method} with ${rowCount} rows`);
 
     let totalLoaded = 0;
+    let batchNumber = 0;
     const errors: any[] = [];
 
     // Process data in batches
-    for (let i = 0; i < inputData.length; i += batchSize) {
-      const batch = inputData.slice(i, i + batchSize);
+    for await (const batch of this.datasets.batches(dataset, batchSize)) {
+      batchNumber++;
 
       try {
         // Prepare SDK params - wrap data in appropriate format
@@ -272,7 +387,7 @@ export class LoadHandlerService extends BaseActivityHandler {
 
         if (!sdkResult.success) {
           errors.push({
-            batch: Math.floor(i / batchSize) + 1,
+            batch: batchNumber,
             error: sdkResult.error,
           });
         } else {
@@ -282,7 +397,7 @@ export class LoadHandlerService extends BaseActivityHandler {
         }
       } catch (error: any) {
         errors.push({
-          batch: Math.floor(i / batchSize) + 1,
+          batch: batchNumber,
           error: error.message,
         });
       }
@@ -293,7 +408,7 @@ export class LoadHandlerService extends BaseActivityHandler {
     const activityResult: ActivityExecutionResult = {
       success: errors.length === 0,
       data: {
-        rowsProcessed: inputData.length,
+        rowsProcessed: rowCount,
         rowsLoaded: totalLoaded,
         rowsFailed: errors.length,
       },
@@ -304,7 +419,7 @@ export class LoadHandlerService extends BaseActivityHandler {
         retryable: false,
       } : undefined,
       metadata: {
-        rowsProcessed: inputData.length,
+        rowsProcessed: rowCount,
         durationMs: duration,
         aggregatorType: 'SDK',
         warnings: errors.length > 0 ? [`${errors.length} batches failed`] : undefined,
@@ -378,13 +493,12 @@ export class LoadHandlerService extends BaseActivityHandler {
   }
 
   /**
-   * Apply a stored field mapping to transform data
+   * Load the rules of a stored field mapping, or null when there is nothing to apply
    */
-  private async applyStoredMapping(
-    data: any[],
+  private async loadMappingRules(
     mappingId: string,
     tenantId: string
-  ): Promise<any[]> {
+  ): Promise<MappingRule[] | null> {
     // Load the mapping from database
     const mapping = await this.prisma.fieldMapping.findFirst({
       where: {
@@ -396,25 +510,40 @@ export class LoadHandlerService extends BaseActivityHandler {
 
     if (!mapping) {
       this.logger.warn(`Mapping "${mappingId}" not found or inactive, skipping mapping`);
-      return data;
+      return null;
     }
 
-    const rules = mapping.mappingRules as Array<{
-      sourceField: string;
-      destinationField: string;
-      transform?: string;
-      transformConfig?: Record<string, any>;
-      nullable?: boolean;
-      defaultValue?: any;
-    }>;
+    const rules = mapping.mappingRules as unknown as MappingRule[];
 
     if (!rules || rules.length === 0) {
       this.logger.warn(`Mapping "${mappingId}" has no rules, skipping mapping`);
-      return data;
+      return null;
     }
 
-    // Apply mapping rules to each row
-    const mappedData = data.map((row) => {
+    // Update last used timestamp
+    await this.prisma.fieldMapping.update({
+      where: { id: mappingId },
+      data: { lastUsedAt: new Date() },
+    });
+
+    this.logger.log(`Applying mapping "${mapping.name}" to loaded rows`);
+    return rules;
+  }
+
+  /**
+   * Apply stored mapping rules to a batch of rows. Rows that fail a rule are
+   * left out and returned as rejected; sourceIndexes maps each mapped row back
+   * to its position in the batch.
+   */
+  private applyMappingRules(
+    data: any[],
+    rules: MappingRule[]
+  ): { rows: any[]; sourceIndexes: number[]; rejected: RejectedRow[] } {
+    const rows: any[] = [];
+    const sourceIndexes: number[] = [];
+    const rejected: RejectedRow[] = [];
+
+    data.forEach((row, index) => {
       const mappedRow: any = {};
 
       for (const rule of rules) {
@@ -422,12 +551,21 @@ export class LoadHandlerService extends BaseActivityHandler {
         const sourceValue = this.getNestedValue(row, rule.sourceField);
 
         // Apply transformation
-        let value = this.applyTransformation(sourceValue, rule);
+        let value: any;
+        try {
+          value = this.applyTransformation(sourceValue, rule);
+        } catch (error) {
+          rejected.push({ row, rowIndex: index, error: error.message, rule: describeRule(rule) });
+          return;
+        }
 
         // Handle null values
         if (value === null || value === undefined) {
           if (rule.defaultValue !== undefined) {
             value = rule.defaultValue;
+          } else if (rule.nullable === false) {
+            rejected.push({ row, rowIndex: index, error: `${rule.destinationField} is required`, rule: describeRule(rule) });
+            return;
           }
         }
 
@@ -435,17 +573,11 @@ export class LoadHandlerService extends BaseActivityHandler {
         this.setNestedValue(mappedRow, rule.destinationField, value);
       }
 
-      return mappedRow;
+      rows.push(mappedRow);
+      sourceIndexes.push(index);
     });
 
-    // Update last used timestamp
-    await this.prisma.fieldMapping.update({
-      where: { id: mappingId },
-      data: { lastUsedAt: new Date() },
-    });
-
-    this.logger.log(`Applied mapping "${mapping.name}" to ${mappedData.length} rows`);
-    return mappedData;
+    return { rows, sourceIndexes, rejected };
   }
 
   /**
@@ -487,8 +619,13 @@ export class LoadHandlerService extends BaseActivityHandler {
         return String(value).toUpperCase();
       case 'lowercase':
         return String(value).toLowerCase();
-      case 'string-to-number':
-        return Number(value);
+      case 'string-to-number': {
+        const number = Number(value);
+        if (Number.isNaN(number)) {
+          throw new Error(`${JSON.stringify(value)} is not a number`);
+        }
+        return number;
+      }
       case 'number-to-string':
         return String(value);
       case 'boolean-to-string':
@@ -496,20 +633,23 @@ export class LoadHandlerService extends BaseActivityHandler {
       case 'json-stringify':
         return JSON.stringify(value);
       case 'json-parse':
-        try {
-          return JSON.parse(value);
-        } catch {
+        if (typeof value !== 'string') {
           return value;
         }
-      case 'date-format':
         try {
-          const date = new Date(value);
-          const format = rule.transformConfig?.format || 'ISO';
-          if (format === 'ISO') return date.toISOString();
-          return date.toLocaleDateString();
+          return JSON.parse(value);
         } catch {
-          return value;
+          throw new Error(`${JSON.stringify(value)} is not valid JSON`);
+        }
+      case 'date-format': {
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+          throw new Error(`${JSON.stringify(value)} is not a valid date`);
         }
+        const format = rule.transformConfig?.format || 'ISO';
+        if (format === 'ISO') return date.toISOString();
+        return date.toLocaleDateString();
+      }
       case 'number-format':
         try {
           const format = rule.transformConfig?.format || '0.00';
@@ -584,3 +724,24 @@ export class LoadHandlerService extends BaseActivityHandler {
     );
   }
 }
+
+class LoadThresholdError extends Error {
+  constructor(readonly threshold: number) {
+    super(`Error threshold of ${threshold} rows exceeded`);
+  }
+}
+
+function describeRule(rule: MappingRule): string {
+  return `${rule.transform || 'direct'}: ${rule.sourceField} -> ${rule.destinationField}`;
+}
+
+/**
+ * Name of the constraint a database error reports, e.g. "users_email_key" from
+ * PostgreSQL's 'violates unique constraint "users_email_key"' or MySQL's
+ * "for key 'users.email'"
+ */
+export function violatedConstraint(message: string): string | undefined {
+  return message.match(/constraint "([^"]+)"/)?.[1]
+    ?? message.match(/for key '([^']+)'/)?.[1]
+    ?? message.match(/(not-null) constraint/)?.[1];
+}
@@ -0,0 +1,177 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseActivityHandler } from '../handlers/base-activity.handler';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { PrismaService } from '../../prisma.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { MULTI_DATASET_FORMAT, MultiDataset, TableDataset } from '../datasets/chunked-dataset.types';
+
+interface MultiExtractConfig {
+  aggregatorInstanceId: string;
+  /** Explicit table list */
+  tables?: string[];
+  /** Glob matched against the instance's discovered tables, e.g. "sales_*" */
+  tablePattern?: string;
+  /** Globs of tables to leave out */
+  exclude?: string[];
+  /** Per-table row limit */
+  limit?: number;
+  /** Rows fetched per page from the connector */
+  batchSize?: number;
+}
+
+@Injectable()
+export class MultiExtractHandlerService extends BaseActivityHandler {
+
+  constructor(
+    private readonly connectorClient: ConnectorClientService,
+    private readonly prisma: PrismaService,
+    private readonly datasets: ChunkedDatasetService,
+    stateService: ExecutionStateService,
+  ) {
+    super(stateService);
+  }
+
+  /**
+   * Extracts every selected table of one aggregator instance into a dataset
+   * per table. Tables are read one after another; the first failing table
+   * fails the step.
+   */
+  async execute(
+    context: ExecutionContext,
+    config: MultiExtractConfig,
+    inputs?: Record<string, any>
+  ): Promise<ActivityExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      const instance = await this.getInstance(config.aggregatorInstanceId, context.tenantId);
+
+      await this.logActivityStart(context.executionId, context.activityId, config);
+
+      const tables = this.selectTables(config, instance.discoveredSchema as any);
+      this.logger.log(`Extracting ${tables.length} table(s) from ${instance.aggregator?.name}: ${tables.join(', ')}`);
+
+      const datasets: TableDataset[] = [];
+      for (const table of tables) {
+        const writer = this.datasets.createWriter(context, table);
+        let columns: string[] | undefined;
+
+        try {
+          await this.connectorClient.streamQuery(
+            instance,
+            { table, limit: config.limit },
+            context,
+            async rows => {
+              columns ??= rows.length > 0 ? Object.keys(rows[0]) : undefined;
+              await writer.write(rows);
+            },
+            config.batchSize
+          );
+        } catch (error) {
+          throw new Error(`Table "${table}": ${error.message}`);
+        }
+
+        datasets.push({
+          table,
+          rowCount: writer.rowCount,
+          columns,
+          data: await writer.finish({ columns, _sourceMetadata: { tableName: table, columns } }),
+        });
+      }
+
+      const output: MultiDataset = { format: MULTI_DATASET_FORMAT, datasets };
+      const duration = Date.now() - startTime;
+
+      const activityResult: ActivityExecutionResult = {
+        success: true,
+        data: output,
+        metadata: {
+          rowsProcessed: datasets.reduce((total, dataset) => total + dataset.rowCount, 0),
+          durationMs: duration,
+          tables: datasets.map(dataset => ({ table: dataset.table, rowCount: dataset.rowCount })),
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, activityResult, duration);
+      return activityResult;
+
+    } catch (error) {
+      this.logger.error(`Multi-extract activity failed: ${error.message}`, error.stack);
+
+      const duration = Date.now() - startTime;
+      const result: ActivityExecutionResult = {
+        success: false,
+        error: {
+          code: 'MULTI_EXTRACT_ERROR',
+          message: error.message,
+          retryable: false,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+      return result;
+    }
+  }
+
+  /**
+   * Resolves the configured tables, expanding tablePattern against the discovered schema
+   */
+  private selectTables(config: MultiExtractConfig, discoveredSchema: { tables?: { name: string }[] } | null): string[] {
+    let tables = config.tables ?? [];
+
+    if (config.tablePattern) {
+      if (!discoveredSchema?.tables) {
+        throw new Error('tablePattern needs a discovered schema - run schema discovery on the aggregator instance first');
+      }
+      const pattern = globToRegExp(config.tablePattern);
+      const matched = discoveredSchema.tables.map(table => table.name).filter(name => pattern.test(name));
+      tables = [...new Set([...tables, ...matched])];
+    }
+
+    const excluded = (config.exclude ?? []).map(globToRegExp);
+    tables = tables.filter(table => !excluded.some(pattern => pattern.test(table)));
+
+    if (tables.length === 0) {
+      throw new Error('No tables selected - set tables or a tablePattern that matches discovered tables');
+    }
+    return tables;
+  }
+
+  private async getInstance(instanceId: string, tenantId: string) {
+    const instance = await this.prisma.aggregatorInstance.findFirst({
+      where: { id: instanceId, tenantId },
+      include: {
+        aggregator: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            category: true,
+          },
+        },
+        credential: {
+          select: {
+            id: true,
+            host: true,
+            port: true,
+            database: true,
+            usernameHint: true,
+          },
+        },
+      },
+    });
+
+    if (!instance) {
+      throw new NotFoundException(`Aggregator instance with ID "${instanceId}" not found for tenant "${tenantId}"`);
+    }
+    return instance;
+  }
+}
+
+// "*" matches any run of characters and "?" a single one
+function globToRegExp(glob: string): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MultiLoadHandlerService } from './multi-load-handler.service';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { MULTI_DATASET_FORMAT } from '../datasets/chunked-dataset.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../../executions/services/step-output-store.service';
+import { PrismaService } from '../../prisma.service';
+import { QuarantineService } from '../../quarantine/services/quarantine.service';
+
+describe('MultiLoadHandlerService', () => {
+  let service: MultiLoadHandlerService;
+
+  // One session per beginLoad; write answers through loadData
+  const sessions: { table: string; config: any; writes: any[][]; commit: jest.Mock; rollback: jest.Mock }[] = [];
+  const loadData = jest.fn();
+  const mockConnectorClient = {
+    beginLoad: jest.fn(async (_instance, config) => {
+      const session = {
+        table: config.table,
+        config,
+        writes: [] as any[][],
+        write: jest.fn(async (rows: any[]) => {
+          session.writes.push(rows);
+          return loadData(rows, config);
+        }),
+        commit: jest.fn().mockResolvedValue(undefined),
+        rollback: jest.fn().mockResolvedValue(undefined),
+      };
+      sessions.push(session);
+      return session;
+    }),
+  };
+
+  const mockQuarantine = {
+    add: jest.fn(),
+  };
+
+  const mockPrismaService = {
+    aggregatorInstance: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockStateService = {
+    logEvent: jest.fn(),
+  };
+
+  const context = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    activityId: 'load-all',
+    stepId: 'load',
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 0,
+  };
+
+  const extracted = {
+    format: MULTI_DATASET_FORMAT,
+    datasets: [
+      { table: 'customers', rowCount: 2, data: [{ id: 1 }, { id: 2 }] },
+      { table: 'orders', rowCount: 1, data: [{ id: 10 }] },
+      { table: 'invoices', rowCount: 1, data: [{ id: 20 }] },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MultiLoadHandlerService,
+        ChunkedDatasetService,
+        { provide: ConnectorClientService, useValue: mockConnectorClient },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: QuarantineService, useValue: mockQuarantine },
+        { provide: StepOutputStoreService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<MultiLoadHandlerService>(MultiLoadHandlerService);
+    mockPrismaService.aggregatorInstance.findFirst.mockResolvedValue({ id: 'instance-2', aggregatorId: 'agg-postgres' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    sessions.length = 0;
+  });
+
+  it('should load each dataset into its destination table', async () => {
+    loadData.mockImplementation(async rows => ({ rowsLoaded: rows.length }));
+
+    const result = await service.execute(
+      context,
+      { aggregatorInstanceId: 'instance-2', mode: 'upsert', conflictKey: { customers: 'id' }, tableMapping: { orders: 'sales_orders' }, tablePrefix: 'stg_' },
+      { extract: extracted },
+    );
+
+    expect(result.success).toBe(true);
+    expect(sessions.map(session => session.config)).toEqual([
+      expect.objectContaining({ table: 'stg_customers', conflictKey: 'id' }),
+      expect.objectContaining({ table: 'sales_orders', conflictKey: undefined }),
+      expect.objectContaining({ table: 'stg_invoices' }),
+    ]);
+    expect(result.data).toEqual(expect.objectContaining({ rowsProcessed: 4, rowsLoaded: 4, rowsFailed: 0 }));
+  });
+
+  it('should keep loading after a table fails and report results per table', async () => {
+    loadData
+      .mockResolvedValueOnce({ rowsLoaded: 1, errors: [{ row: 1, error: 'duplicate key value violates unique constraint "customers_pkey"' }] })
+      .mockRejectedValueOnce(new Error('relation "orders" does not exist'))
+      .mockResolvedValueOnce({ rowsLoaded: 1 });
+
+    const result = await service.execute(context, { aggregatorInstanceId: 'instance-2', mode: 'insert' }, { extract: extracted });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual(expect.objectContaining({
+      code: 'MULTI_LOAD_PARTIAL_FAILURE',
+      message: '2 of 3 tables failed to load: customers, orders',
+    }));
+    expect(result.data.tables).toEqual([
+      expect.objectContaining({ table: 'customers', status: 'partial', rowsLoaded: 1, rowsFailed: 1 }),
+      expect.objectContaining({ table: 'orders', status: 'failed', rowsLoaded: 0, rowsFailed: 1, error: 'relation "orders" does not exist' }),
+      expect.objectContaining({ table: 'invoices', status: 'loaded', rowsLoaded: 1 }),
+    ]);
+    // Batch loads keep what they wrote, so their rejects are kept for resubmission
+    expect(mockQuarantine.add).toHaveBeenCalledWith(context, 'LOAD', [
+      { row: { id: 2 }, rowIndex: 1, error: expect.stringContaining('duplicate key'), rule: 'customers_pkey' },
+    ]);
+  });
+
+  it('should write every batch of a table through one session and commit it once', async () => {
+    loadData.mockImplementation(async rows => ({ rowsLoaded: rows.length }));
+    const customers = Array.from({ length: 5 }, (_, i) => ({ id: i + 1 }));
+
+    const result = await service.execute(
+      context,
+      { aggregatorInstanceId: 'instance-2', mode: 'create', batchSize: 2, commitMode: 'transaction' },
+      { extract: { format: MULTI_DATASET_FORMAT, datasets: [{ table: 'customers', rowCount: 5, data: customers }] } },
+    );
+
+    expect(result.success).toBe(true);
+    // A session per load would empty the table again for every batch
+    expect(mockConnectorClient.beginLoad).toHaveBeenCalledTimes(1);
+    expect(sessions[0].config).toEqual(expect.objectContaining({ table: 'customers', mode: 'create', commitMode: 'transaction' }));
+    expect(sessions[0].writes).toEqual([customers.slice(0, 2), customers.slice(2, 4), customers.slice(4)]);
+    expect(sessions[0].commit).toHaveBeenCalledTimes(1);
+    expect(result.data.tables[0]).toEqual(expect.objectContaining({ status: 'loaded', rowsProcessed: 5, rowsLoaded: 5 }));
+  });
+
+  it('should roll a table back once it has more rejects than the threshold', async () => {
+    loadData.mockResolvedValue({ rowsLoaded: 0, errors: [{ row: 0, error: 'null value in column "id" violates not-null constraint' }] });
+
+    const result = await service.execute(
+      context,
+      { aggregatorInstanceId: 'instance-2', mode: 'insert', commitMode: 'staging', tables: ['customers'] },
+      { extract: extracted },
+    );
+
+    expect(result.success).toBe(false);
+    expect(sessions[0].rollback).toHaveBeenCalled();
+    expect(sessions[0].commit).not.toHaveBeenCalled();
+    expect(result.data.tables[0]).toEqual(expect.objectContaining({
+      status: 'failed',
+      rowsLoaded: 0,
+      rowsFailed: 2,
+      error: '1 rows failed to load, more than the error threshold of 0',
+    }));
+    expect(mockQuarantine.add).not.toHaveBeenCalled();
+  });
+
+  it('should name single datasets after their source table', async () => {
+    loadData.mockResolvedValue({ rowsLoaded: 1 });
+
+    await service.execute(
+      context,
+      { aggregatorInstanceId: 'instance-2', mode: 'insert' },
+      { source: { data: [{ id: 1 }], _sourceMetadata: { tableName: 'products' } } },
+    );
+
+    expect(mockConnectorClient.beginLoad).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ table: 'products' }),
+      context,
+    );
+    expect(sessions[0].writes).toEqual([[{ id: 1 }]]);
+  });
+});
@@ -0,0 +1,269 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseActivityHandler } from '../handlers/base-activity.handler';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { PrismaService } from '../../prisma.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { TableDataset, isMultiDataset } from '../datasets/chunked-dataset.types';
+import { LoadCommitMode, LoadSession } from '../../aggregators/connections/connection-factory.service';
+import { QuarantineService, RejectedRow } from '../../quarantine/services/quarantine.service';
+import { violatedConstraint } from './load-handler.service';
+
+interface MultiLoadConfig {
+  aggregatorInstanceId: string;
+  mode: 'insert' | 'upsert' | 'create';
+  /** One key for every table, or keys per source table */
+  conflictKey?: string | string[] | Record<string, string | string[]>;
+  conflictResolution?: 'replace' | 'merge' | 'skip';
+  /** Destination table per source table; unmapped tables keep their name */
+  tableMapping?: Record<string, string>;
+  /** Prepended to destination names that are not mapped explicitly */
+  tablePrefix?: string;
+  /** Only load these source tables */
+  tables?: string[];
+  batchSize?: number;
+  /** When each table's rows become visible, see LoadCommitMode; defaults to batch */
+  commitMode?: LoadCommitMode;
+  /**
+   * Rejected rows tolerated per table before its load stops and rolls back;
+   * unset, batch loads tolerate any and transaction and staging loads none
+   */
+  errorThreshold?: number;
+}
+
+export interface TableLoadResult {
+  table: string;
+  destination: string;
+  status: 'loaded' | 'partial' | 'failed';
+  rowsProcessed: number;
+  rowsLoaded: number;
+  rowsFailed: number;
+  error?: string;
+}
+
+@Injectable()
+export class MultiLoadHandlerService extends BaseActivityHandler {
+
+  constructor(
+    private readonly connectorClient: ConnectorClientService,
+    private readonly prisma: PrismaService,
+    private readonly datasets: ChunkedDatasetService,
+    private readonly quarantine: QuarantineService,
+    stateService: ExecutionStateService,
+  ) {
+    super(stateService);
+  }
+
+  /**
+   * Loads each input dataset into its destination table. A failing table does
+   * not stop the others; the step fails afterwards with a result per table.
+   */
+  async execute(
+    context: ExecutionContext,
+    config: MultiLoadConfig,
+    inputs?: Record<string, any>
+  ): Promise<ActivityExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      if (!inputs || Object.keys(inputs).length === 0) {
+        throw new Error('Multi-load activity requires input data');
+      }
+
+      const instance = await this.getInstance(config.aggregatorInstanceId, context.tenantId);
+
+      await this.logActivityStart(context.executionId, context.activityId, config);
+
+      let tableDatasets = this.collectDatasets(inputs);
+      if (config.tables) {
+        tableDatasets = tableDatasets.filter(dataset => config.tables!.includes(dataset.table));
+      }
+      if (tableDatasets.length === 0) {
+        throw new Error('No table datasets found in the inputs');
+      }
+
+      const results: TableLoadResult[] = [];
+      for (const dataset of tableDatasets) {
+        results.push(await this.loadTable(instance, dataset, config, context));
+      }
+
+      const duration = Date.now() - startTime;
+      const failed = results.filter(result => result.status !== 'loaded');
+      const rowsProcessed = results.reduce((total, result) => total + result.rowsProcessed, 0);
+      const summary = {
+        tables: results,
+        rowsProcessed,
+        rowsLoaded: results.reduce((total, result) => total + result.rowsLoaded, 0),
+        rowsFailed: results.reduce((total, result) => total + result.rowsFailed, 0),
+      };
+
+      const activityResult: ActivityExecutionResult = {
+        success: failed.length === 0,
+        data: summary,
+        error: failed.length > 0 ? {
+          code: 'MULTI_LOAD_PARTIAL_FAILURE',
+          message: `${failed.length} of ${results.length} tables failed to load: ${failed.map(result => result.table).join(', ')}`,
+          details: summary,
+          retryable: false,
+        } : undefined,
+        metadata: {
+          rowsProcessed,
+          durationMs: duration,
+          warnings: failed.length > 0 ? failed.map(result => `${result.table}: ${result.error}`) : undefined,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, activityResult, duration);
+      return activityResult;
+
+    } catch (error) {
+      this.logger.error(`Multi-load activity failed: ${error.message}`, error.stack);
+
+      const duration = Date.now() - startTime;
+      const result: ActivityExecutionResult = {
+        success: false,
+        error: {
+          code: 'MULTI_LOAD_ERROR',
+          message: error.message,
+          retryable: false,
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+      return result;
+    }
+  }
+
+  /**
+   * Datasets by source table: multi-extract outputs contribute all their tables,
+   * single datasets the table recorded in their source metadata
+   */
+  private collectDatasets(inputs: Record<string, any>): TableDataset[] {
+    const datasets: TableDataset[] = [];
+
+    for (const [stepId, input] of Object.entries(inputs)) {
+      if (isMultiDataset(input)) {
+        datasets.push(...input.datasets);
+        continue;
+      }
+
+      const data = this.datasets.resolve(input);
+      const table = input?._sourceMetadata?.tableName ?? (data as any)._sourceMetadata?.tableName;
+      if (!table) {
+        throw new Error(`Input from step "${stepId}" does not name its source table`);
+      }
+      datasets.push({ table, rowCount: this.datasets.rowCount(data), data });
+    }
+    return datasets;
+  }
+
+  private async loadTable(
+    instance: any,
+    dataset: TableDataset,
+    config: MultiLoadConfig,
+    context: ExecutionContext
+  ): Promise<TableLoadResult> {
+    const destination = config.tableMapping?.[dataset.table] ?? `${config.tablePrefix ?? ''}${dataset.table.split('.').pop()}`;
+    const conflictKey = config.conflictKey && typeof config.conflictKey === 'object' && !Array.isArray(config.conflictKey)
+      ? config.conflictKey[dataset.table]
+      : config.conflictKey;
+    const result: TableLoadResult = {
+      table: dataset.table,
+      destination,
+      status: 'loaded',
+      rowsProcessed: 0,
+      rowsLoaded: 0,
+      rowsFailed: 0,
+    };
+
+    // One session per table, so a create load empties the table once and the commit mode spans every batch
+    const commitMode = config.commitMode || 'batch';
+    const errorThreshold = config.errorThreshold ?? (commitMode === 'batch' ? undefined : 0);
+    const rejects: RejectedRow[] = [];
+    let session: LoadSession | undefined;
+    try {
+      session = await this.connectorClient.beginLoad(
+        instance,
+        {
+          table: destination,
+          mode: config.mode,
+          conflictKey,
+          conflictResolution: config.conflictResolution,
+          commitMode,
+        },
+        context
+      );
+      for await (const batch of this.datasets.batches(dataset.data, config.batchSize || 1000)) {
+        const loaded = await session.write(batch, 0);
+
+        for (const rowError of loaded.errors ?? []) {
+          rejects.push({ row: batch[rowError.row], rowIndex: result.rowsProcessed + rowError.row, error: rowError.error, rule: violatedConstraint(rowError.error) });
+        }
+        result.rowsProcessed += batch.length;
+        result.rowsLoaded += loaded.rowsLoaded;
+        result.rowsFailed += loaded.errors?.length ?? 0;
+        if (loaded.errors?.length && !result.error) {
+          result.error = loaded.errors[0].error;
+        }
+
+        if (errorThreshold !== undefined && result.rowsFailed > errorThreshold) {
+          throw new Error(`${result.rowsFailed} rows failed to load, more than the error threshold of ${errorThreshold}`);
+        }
+      }
+      await session.commit();
+    } catch (error) {
+      await session?.rollback().catch(rollbackError =>
+        this.logger.warn(`Rolling back load into "${destination}" failed: ${rollbackError.message}`)
+      );
+      result.error = error.message;
+      if (commitMode === 'batch') {
+        // The rest of this table is skipped; batches already written stay
+        result.rowsFailed += dataset.rowCount - result.rowsProcessed;
+      } else {
+        result.rowsLoaded = 0;
+        result.rowsFailed = dataset.rowCount;
+      }
+    }
+
+    // Rejects are kept for resubmission unless the rows around them were rolled back
+    if (!result.error || commitMode === 'batch') {
+      await this.quarantine.add(context, 'LOAD', rejects);
+    }
+
+    if (result.rowsFailed > 0 || result.error) {
+      result.status = result.rowsLoaded > 0 ? 'partial' : 'failed';
+    }
+    return result;
+  }
+
+  private async getInstance(instanceId: string, tenantId: string) {
+    const instance = await this.prisma.aggregatorInstance.findFirst({
+      where: { id: instanceId, tenantId },
+      include: {
+        aggregator: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            category: true,
+          },
+        },
+        credential: {
+          select: {
+            id: true,
+            host: true,
+            port: true,
+            database: true,
+            usernameHint: true,
+          },
+        },
+      },
+    });
+
+    if (!instance) {
+      throw new NotFoundException(`Aggregator instance with ID "${instanceId}" not found for tenant "${tenantId}"`);
+    }
+    return instance;
+  }
+}
@@ -0,0 +1,148 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { BaseActivityHandler } from '../handlers/base-activity.handler';
+import { ConnectorClientService } from '../handlers/connector-client.service';
+import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { PrismaService } from '../../prisma.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+
+interface SyncConfig {
+  aggregatorInstanceId: string;
+  /** Captured tables, optionally schema-qualified */
+  tables: string[];
+  /** Changes read per run; the rest are picked up by the next run */
+  maxEvents?: number;
+  slotName?: string;
+  publicationName?: string;
+  serverId?: number;
+  /** Position to resume after, set by the dispatcher from the stored watermark */
+  position?: string;
+  /** Stable id of the change stream, set by the dispatcher; names the slot and derives the server id */
+  streamId?: string;
+}
+
+// Columns of the emitted change events
+const CHANGE_EVENT_COLUMNS = ['operation', 'schema', 'table', 'before', 'after', 'position', 'committedAt'];
+
+@Injectable()
+export class SyncHandlerService extends BaseActivityHandler {
+
+  constructor(
+    private readonly connectorClient: ConnectorClientService,
+    private readonly prisma: PrismaService,
+    private readonly datasets: ChunkedDatasetService,
+    stateService: ExecutionStateService,
+  ) {
+    super(stateService);
+  }
+
+  /**
+   * Reads the insert/update/delete events committed since the last confirmed
+   * position. The position reached is reported as metadata.position and only
+   * becomes the next starting point once the downstream loads commit.
+   */
+  async execute(
+    context: ExecutionContext,
+    config: SyncConfig,
+    inputs?: Record<string, any>
+  ): Promise<ActivityExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      const instance = await this.getInstance(config.aggregatorInstanceId, context.tenantId);
+
+      await this.logActivityStart(context.executionId, context.activityId, config);
+
+      const streamName = `sync_${(config.streamId ?? context.activityId).toLowerCase().replace(/[^a-z0-9_]/g, '_')}`.slice(0, 63);
+      const result = await this.connectorClient.readChanges(
+        instance,
+        {
+          tables: config.tables,
+          position: config.position,
+          maxEvents: config.maxEvents,
+          slotName: config.slotName ?? streamName,
+          publicationName: config.publicationName ?? streamName,
+          serverId: config.serverId ?? this.deriveServerId(streamName),
+        },
+        context,
+      );
+
+      const writer = this.datasets.createWriter(context);
+      await writer.write(result.events);
+      const data = await writer.finish({ columns: CHANGE_EVENT_COLUMNS });
+
+      const duration = Date.now() - startTime;
+      const count = (operation: string) => result.events.filter(event => event.operation === operation).length;
+
+      const activityResult: ActivityExecutionResult = {
+        success: true,
+        data,
+        metadata: {
+          rowsProcessed: result.events.length,
+          durationMs: duration,
+          inserts: count('insert'),
+          updates: count('update'),
+          deletes: count('delete'),
+          hasMore: result.hasMore,
+          chunked: this.datasets.isChunked(data),
+          ...(result.position !== undefined && { position: result.position }),
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, activityResult, duration);
+      return activityResult;
+
+    } catch (error) {
+      this.logger.error(`Sync activity failed: ${error.message}`, error.stack);
+
+      const duration = Date.now() - startTime;
+      const result: ActivityExecutionResult = {
+        success: false,
+        error: {
+          code: 'SYNC_ERROR',
+          message: error.message,
+          retryable: /ECONNRESET|ECONNREFUSED|ETIMEDOUT|PROTOCOL_CONNECTION_LOST/.test(error.message),
+        },
+      };
+
+      await this.logActivityComplete(context.executionId, context.activityId, result, duration);
+      return result;
+    }
+  }
+
+  // MySQL replicas need a server id that no other replica of the source uses
+  private deriveServerId(streamName: string): number {
+    return 100000 + (createHash('sha1').update(streamName).digest().readUInt32BE(0) % 2000000000);
+  }
+
+  private async getInstance(instanceId: string, tenantId: string) {
+    const instance = await this.prisma.aggregatorInstance.findFirst({
+      where: { id: instanceId, tenantId },
+      include: {
+        aggregator: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            category: true,
+          },
+        },
+        credential: {
+          select: {
+            id: true,
+            host: true,
+            port: true,
+            database: true,
+            usernameHint: true,
+          },
+        },
+      },
+    });
+
+    if (!instance) {
+      throw new NotFoundException(`Aggregator instance with ID "${instanceId}" not found for tenant "${tenantId}"`);
+    }
+    return instance;
+  }
+}
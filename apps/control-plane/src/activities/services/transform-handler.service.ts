@@ -4,6 +4,8 @@ import { DataTransformService } from '../handlers/data-transform.service';
 import { ExecutionContext, ActivityExecutionResult } from '../entities/activity-result.types';
 import { ExecutionStateService } from '../../executions/services/execution-state.service';
 import { PrismaService } from '../../prisma.service';
+import { ChunkedDatasetService } from '../datasets/chunked-dataset.service';
+import { QuarantineService, RejectedRow } from '../../quarantine/services/quarantine.service';
 
 interface TransformConfig {
   /** JavaScript transformation code */
@@ -18,11 +20,12 @@ export class TransformHandlerService extends BaseActivityHandler {
   constructor(
     private readonly transformService: DataTransformService,
     private readonly prisma: PrismaService,
+    private readonly datasets: ChunkedDatasetService,
+    private readonly quarantine: QuarantineService,
     stateService: ExecutionStateService,
   ) {
     super(stateService);
   }
- REPLACE
 
   async execute(
     context: ExecutionContext,
@@ -38,41 +41,16 @@ export class TransformHandlerService extends BaseActivityHandler {
 
       await this.logActivityStart(context.executionId, context.activityId, config);
 
-      // Get the first input (for single input transforms)
+      // Get the first input (for single input transforms). Besides arrays, rows may
+      // arrive wrapped as { data: [...] } or as a chunked dataset manifest; a single
+      // object is treated as one row.
       const inputData = Object.values(inputs)[0];
-      
-      // Handle different input formats:
-      // 1. Direct array: [{}, {}, ...]
-      // 2. Wrapped object with data property: { data: [...], columns: [...] }
-      // 3. Object with error (from failed source): { error: "..." } or { data: { error: "...", status: "failed" } }
-      let dataArray: any[];
-      
-      if (Array.isArray(inputData)) {
-        dataArray = inputData;
-      } else if (inputData && typeof inputData === 'object') {
-        // Check if it's a wrapped response with data property
-        if (Array.isArray(inputData.data)) {
-          // Check for nested error in data - this is common from mini-connector-source
-          if (inputData.data.error || (inputData.data.data && inputData.data.data.error)) {
-            const nestedError = inputData.data.error || inputData.data.data.error;
-            throw new Error(`Source data error: ${nestedError}`);
-          }
-          dataArray = inputData.data;
-        } else if (inputData.error) {
-          // This is an error response from source - propagate the error
-          throw new Error(`Source data error: ${inputData.error}`);
-        } else if (inputData.data && inputData.data.error) {
-          // Error is nested in data property - propagate it
-          throw new Error(`Source data error: ${inputData.data.error}`);
-        } else {
-          // Single object - wrap in array
-          dataArray = [inputData];
-        }
-      } else {
-        throw new Error('Transform input must be an array or object with data property');
-      }
+      const dataset = inputData && typeof inputData === 'object' && !Array.isArray(inputData)
+        && !this.datasets.isChunked(inputData) && !('data' in inputData) && !inputData.error
+        ? [inputData]
+        : this.datasets.resolve(inputData);
 
-      if (dataArray.length === 0) {
+      if (this.datasets.rowCount(dataset) === 0) {
         throw new Error('Transform input has no data to process');
       }
 
@@ -99,15 +77,36 @@ export class TransformHandlerService extends BaseActivityHandler {
         );
       }
 
-      // Execute transformation
-      const result = await this.transformService.transform(
-        dataArray,
-        transformCode,
-        {
-          executionId: context.executionId,
-          activityId: context.activityId,
+      const transformContext = {
+        executionId: context.executionId,
+        activityId: context.activityId,
+      };
+
+      // Rows the code rejects are quarantined; indexes count across chunks
+      const rejected: RejectedRow[] = [];
+      let rowOffset = 0;
+      const onReject = (row: any, error: string, rule?: string, index?: number) => {
+        rejected.push({ row, error, rule, rowIndex: index !== undefined ? rowOffset + index : undefined });
+      };
+
+      // Chunked datasets are transformed chunk by chunk - the code sees one chunk as `input`
+      let result: any;
+      if (this.datasets.isChunked(dataset)) {
+        const writer = this.datasets.createWriter(context);
+        for await (const batch of this.datasets.batches(dataset)) {
+          const transformed = await this.transformService.transform(batch, transformCode, transformContext, onReject);
+          if (!Array.isArray(transformed)) {
+            throw new Error('Transform code must return an array when the input is a chunked dataset');
+          }
+          await writer.write(transformed);
+          rowOffset += batch.length;
         }
-      );
+        result = await writer.finish();
+      } else {
+        result = await this.transformService.transform(dataset, transformCode, transformContext, onReject);
+      }
+
+      await this.quarantine.add(context, 'TRANSFORM', rejected);
 
       const duration = Date.now() - startTime;
       
@@ -115,8 +114,10 @@ export class TransformHandlerService extends BaseActivityHandler {
         success: true,
         data: result,
         metadata: {
-          rowsProcessed: Array.isArray(result) ? result.length : 1,
+          rowsProcessed: Array.isArray(result) || this.datasets.isChunked(result) ? this.datasets.rowCount(result) : 1,
+          rowsRejected: rejected.length,
           durationMs: duration,
+          warnings: rejected.length > 0 ? [`${rejected.length} rows rejected and quarantined`] : undefined,
         },
       };
 
@@ -185,7 +186,9 @@ export class TransformHandlerService extends BaseActivityHandler {
 
   /**
    * Generate transformation code from mappingRules
-   * This creates JavaScript code that applies field-by-field transformations
+   * This creates JavaScript code that applies field-by-field transformations.
+   * A row whose values cannot be converted, or that leaves a non-nullable field
+   * empty, is handed to reject() with the rule that failed and left out.
    */
   private generateTransformFromMappingRules(mappingRules: any[]): string {
     if (!mappingRules || mappingRules.length === 0) {
@@ -212,40 +215,64 @@ export class TransformHandlerService extends BaseActivityHandler {
           valueExpr = `String(${valueExpr || '""'}).toLowerCase()`;
           break;
         case 'string-to-number':
-          valueExpr = `${valueExpr} !== undefined && ${valueExpr} !== null ? Number(${valueExpr}) : ${defaultValue}`;
+          valueExpr = `present(${valueExpr}) ? toNumber(${valueExpr}) : ${defaultValue}`;
           break;
         case 'number-to-string':
-          valueExpr = `${valueExpr} !== undefined && ${valueExpr} !== null ? String(${valueExpr}) : ${defaultValue}`;
+          valueExpr = `present(${valueExpr}) ? String(${valueExpr}) : ${defaultValue}`;
           break;
         case 'boolean-to-string':
-          valueExpr = `${valueExpr} !== undefined && ${valueExpr} !== null ? String(${valueExpr}) : ${defaultValue}`;
+          valueExpr = `present(${valueExpr}) ? String(${valueExpr}) : ${defaultValue}`;
           break;
         case 'json-stringify':
-          valueExpr = `${valueExpr} !== undefined && ${valueExpr} !== null ? JSON.stringify(${valueExpr}) : ${defaultValue}`;
+          valueExpr = `present(${valueExpr}) ? JSON.stringify(${valueExpr}) : ${defaultValue}`;
           break;
         case 'json-parse':
-          valueExpr = `${valueExpr} !== undefined && ${valueExpr} !== null && typeof ${valueExpr} === 'string' ? JSON.parse(${valueExpr}) : ${defaultValue}`;
+          valueExpr = `present(${valueExpr}) && typeof ${valueExpr} === 'string' ? JSON.parse(${valueExpr}) : ${defaultValue}`;
           break;
         case 'date-format':
-          valueExpr = `${valueExpr} !== undefined && ${valueExpr} !== null ? new Date(${valueExpr}).toISOString() : ${defaultValue}`;
+          valueExpr = `present(${valueExpr}) ? toDate(${valueExpr}) : ${defaultValue}`;
           break;
         case 'direct':
         case undefined:
         case null:
         default:
           // Keep as is, just check for null/undefined
-          valueExpr = `${valueExpr} !== undefined && ${valueExpr} !== null ? ${valueExpr} : ${defaultValue}`;
+          valueExpr = `present(${valueExpr}) ? ${valueExpr} : ${defaultValue}`;
           break;
       }
 
-      transformations.push(`      ${destField}: ${valueExpr}`);
+      const target = `mapped[${JSON.stringify(destField)}]`;
+      const ruleName = JSON.stringify(`${transform || 'direct'}: ${sourceField} -> ${destField}`);
+      transformations.push(`      rule = ${ruleName};`);
+      transformations.push(`      ${target} = ${valueExpr};`);
+      if (rule.nullable === false) {
+        transformations.push(`      if (!present(${target})) throw new Error(${JSON.stringify(`${destField} is required`)});`);
+      }
     }
 
-    const code = `return input.map(row => {
-  return {
-${transformations.join(',\n')}
-  };
-});`;
+    const code = `const present = value => value !== undefined && value !== null;
+const toNumber = value => {
+  const number = Number(value);
+  if (Number.isNaN(number)) throw new Error(JSON.stringify(value) + ' is not a number');
+  return number;
+};
+const toDate = value => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(JSON.stringify(value) + ' is not a valid date');
+  return date.toISOString();
+};
+const output = [];
+input.forEach((row, index) => {
+  let rule;
+  try {
+    const mapped = {};
+${transformations.join('\n')}
+    output.push(mapped);
+  } catch (error) {
+    reject(row, error, rule, index);
+  }
+});
+return output;`;
 
     return code;
   }
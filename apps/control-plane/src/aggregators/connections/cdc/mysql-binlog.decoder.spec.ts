@@ -0,0 +1,107 @@
+import { BinlogColumn, MySqlBinlogDecoder, parseBinlogPosition } from './mysql-binlog.decoder';
+
+// Builds a binlog event: 19 byte header followed by the body, no checksum
+const event = (type: number, body: Buffer, nextPosition: number) => {
+  const header = Buffer.alloc(19);
+  header.writeUInt32LE(1714521600, 0); // 2024-05-01T00:00:00Z
+  header.writeUInt8(type, 4);
+  header.writeUInt32LE(1, 5);
+  header.writeUInt32LE(19 + body.length, 9);
+  header.writeUInt32LE(nextPosition, 13);
+  return Buffer.concat([header, body]);
+};
+
+const tableId = (id: number) => { const b = Buffer.alloc(6); b.writeUIntLE(id, 0, 6); return b; };
+const int32 = (value: number) => { const b = Buffer.alloc(4); b.writeInt32LE(value); return b; };
+const varchar = (value: string) => Buffer.concat([Buffer.from([Buffer.byteLength(value)]), Buffer.from(value)]);
+
+// orders (id INT, customer VARCHAR(100), total DECIMAL(10,2))
+const tableMap = (id: number, table: string) => event(19, Buffer.concat([
+  tableId(id), Buffer.from([0, 0]),
+  Buffer.from([4]), Buffer.from('shop\0'),
+  Buffer.from([table.length]), Buffer.from(`${table}\0`),
+  Buffer.from([3, 3, 15, 246]),
+  Buffer.from([4, 100, 0, 10, 2]),
+  Buffer.from([0x06]),
+]), 300);
+
+const rowsHeader = (id: number, update = false) => Buffer.concat([
+  tableId(id), Buffer.from([0, 0]), Buffer.from([2, 0]), Buffer.from([3, 0x07]), update ? Buffer.from([0x07]) : Buffer.alloc(0),
+]);
+
+// DECIMAL(10,2) 1234.50 and -1.50 in MySQL's binary decimal format
+const amount = Buffer.from([0x80, 0x00, 0x04, 0xd2, 0x32]);
+const negativeAmount = Buffer.from([0x7f, 0xff, 0xff, 0xfe, 0xcd]);
+
+const columns: BinlogColumn[] = [
+  { name: 'id', dataType: 'int', unsigned: false },
+  { name: 'customer', dataType: 'varchar', unsigned: false },
+  { name: 'total', dataType: 'decimal', unsigned: false },
+];
+
+describe('MySqlBinlogDecoder', () => {
+  const createDecoder = () => new MySqlBinlogDecoder(new Map([['shop.orders', columns]]), 'binlog.000007', 4, false);
+
+  it('should turn row events into change events once the transaction commits', () => {
+    const decoder = createDecoder();
+
+    decoder.decode(tableMap(42, 'orders'));
+    decoder.decode(event(30, Buffer.concat([rowsHeader(42), Buffer.from([0]), int32(7), varchar('Ada'), amount]), 400));
+    decoder.decode(event(31, Buffer.concat([
+      rowsHeader(42, true),
+      Buffer.from([0]), int32(7), varchar('Ada'), amount,
+      Buffer.from([0x02]), int32(7), negativeAmount,
+    ]), 500));
+    decoder.decode(event(32, Buffer.concat([rowsHeader(42), Buffer.from([0]), int32(8), varchar('Bob'), amount]), 600));
+
+    expect(decoder.committed).toHaveLength(0);
+    expect(decoder.committedPosition).toBe('binlog.000007:4');
+
+    decoder.decode(event(16, Buffer.alloc(8), 631));
+
+    expect(decoder.committedPosition).toBe('binlog.000007:631');
+    expect(decoder.committed).toEqual([
+      {
+        operation: 'insert',
+        schema: 'shop',
+        table: 'orders',
+        before: null,
+        after: { id: 7, customer: 'Ada', total: '1234.50' },
+        position: 'binlog.000007:631',
+        committedAt: '2024-05-01T00:00:00.000Z',
+      },
+      expect.objectContaining({
+        operation: 'update',
+        before: { id: 7, customer: 'Ada', total: '1234.50' },
+        after: { id: 7, customer: null, total: '-1.50' },
+      }),
+      expect.objectContaining({ operation: 'delete', before: { id: 8, customer: 'Bob', total: '1234.50' }, after: null }),
+    ]);
+  });
+
+  it('should skip tables that are not captured and follow rotations', () => {
+    const decoder = createDecoder();
+
+    decoder.decode(tableMap(43, 'audit_log'));
+    decoder.decode(event(30, Buffer.concat([rowsHeader(43), Buffer.from([0]), int32(1), varchar('x'), amount]), 400));
+    decoder.decode(event(16, Buffer.alloc(8), 431));
+
+    const rotate = Buffer.concat([Buffer.alloc(8), Buffer.from('binlog.000008')]);
+    rotate.writeBigUInt64LE(4n, 0);
+    decoder.decode(event(4, rotate, 0));
+
+    expect(decoder.committed).toHaveLength(0);
+    expect(decoder.committedPosition).toBe('binlog.000008:4');
+  });
+
+  it('should refuse compressed transaction payloads', () => {
+    expect(() => createDecoder().decode(event(40, Buffer.alloc(4), 100))).toThrow('binlog_transaction_compression');
+  });
+});
+
+describe('parseBinlogPosition', () => {
+  it('should split file and offset', () => {
+    expect(parseBinlogPosition('mysql-bin.000042:1234')).toEqual({ file: 'mysql-bin.000042', offset: 1234 });
+    expect(() => parseBinlogPosition('0/16B3748')).toThrow('Invalid binlog position');
+  });
+});
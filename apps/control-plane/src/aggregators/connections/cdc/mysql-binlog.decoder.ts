@@ -0,0 +1,646 @@
+import { ChangeEvent } from '../connection-factory.service';
+
+/** Column layout of a captured table, in ordinal order, from information_schema */
+export interface BinlogColumn {
+  name: string;
+  /** DATA_TYPE, e.g. int, varchar, blob */
+  dataType: string;
+  unsigned: boolean;
+  /** Labels of ENUM and SET columns */
+  values?: string[];
+  /** Character set of text columns */
+  charset?: string;
+}
+
+interface TableMap {
+  schema: string;
+  table: string;
+  types: number[];
+  metadata: number[];
+}
+
+// Binlog event types (libbinlogevents/include/binlog_event.h)
+const QUERY_EVENT = 2;
+const ROTATE_EVENT = 4;
+const XID_EVENT = 16;
+const TABLE_MAP_EVENT = 19;
+const WRITE_ROWS_EVENT_V1 = 23;
+const UPDATE_ROWS_EVENT_V1 = 24;
+const DELETE_ROWS_EVENT_V1 = 25;
+const WRITE_ROWS_EVENT = 30;
+const UPDATE_ROWS_EVENT = 31;
+const DELETE_ROWS_EVENT = 32;
+const PARTIAL_UPDATE_ROWS_EVENT = 39;
+const TRANSACTION_PAYLOAD_EVENT = 40;
+
+// Column types (include/field_types.h)
+const TYPE_DECIMAL = 0;
+const TYPE_TINY = 1;
+const TYPE_SHORT = 2;
+const TYPE_LONG = 3;
+const TYPE_FLOAT = 4;
+const TYPE_DOUBLE = 5;
+const TYPE_TIMESTAMP = 7;
+const TYPE_LONGLONG = 8;
+const TYPE_INT24 = 9;
+const TYPE_DATE = 10;
+const TYPE_TIME = 11;
+const TYPE_DATETIME = 12;
+const TYPE_YEAR = 13;
+const TYPE_VARCHAR = 15;
+const TYPE_BIT = 16;
+const TYPE_TIMESTAMP2 = 17;
+const TYPE_DATETIME2 = 18;
+const TYPE_TIME2 = 19;
+const TYPE_JSON = 245;
+const TYPE_NEWDECIMAL = 246;
+const TYPE_ENUM = 247;
+const TYPE_SET = 248;
+const TYPE_BLOB = 252;
+const TYPE_VAR_STRING = 253;
+const TYPE_STRING = 254;
+const TYPE_GEOMETRY = 255;
+
+const EVENT_HEADER_LENGTH = 19;
+const CHECKSUM_LENGTH = 4;
+const BINARY_DATA_TYPES = ['binary', 'varbinary', 'tinyblob', 'blob', 'mediumblob', 'longblob', 'geometry', 'point', 'linestring', 'polygon'];
+
+/**
+ * Parses "binlog.000042:1234" into its file and offset
+ */
+export function parseBinlogPosition(position: string): { file: string; offset: number } {
+  const separator = position.lastIndexOf(':');
+  const offset = Number(position.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(offset) || offset < 4) {
+    throw new Error(`Invalid binlog position "${position}", expected file:offset`);
+  }
+  return { file: position.slice(0, separator), offset };
+}
+
+/**
+ * Decodes raw binlog events of a ROW format binlog into change events.
+ *
+ * Row events only carry column types, so names and signedness come from the
+ * table layouts passed in; tables without a layout are skipped. Changes are
+ * held back until their transaction's XID (or COMMIT) event is decoded.
+ */
+export class MySqlBinlogDecoder {
+  private readonly tableMaps = new Map<string, TableMap>();
+  private pending: ChangeEvent[] = [];
+
+  /** Events of transactions whose commit has been decoded */
+  readonly committed: ChangeEvent[] = [];
+  /** Position after the last committed transaction - where the next read resumes */
+  committedPosition: string;
+
+  constructor(
+    private readonly tables: Map<string, BinlogColumn[]>,
+    private file: string,
+    offset: number,
+    private readonly checksum: boolean,
+  ) {
+    this.committedPosition = `${file}:${offset}`;
+  }
+
+  decode(event: Buffer): void {
+    const eventType = event.readUInt8(4);
+    const nextPosition = event.readUInt32LE(13);
+    const timestamp = event.readUInt32LE(0);
+    const reader = new EventReader(event.subarray(EVENT_HEADER_LENGTH, event.length - (this.checksum ? CHECKSUM_LENGTH : 0)));
+
+    switch (eventType) {
+      case ROTATE_EVENT: {
+        const offset = Number(reader.uint64());
+        this.file = reader.rest().toString('utf8');
+        if (this.pending.length === 0) {
+          this.committedPosition = `${this.file}:${offset}`;
+        }
+        return;
+      }
+      case TABLE_MAP_EVENT:
+        this.readTableMap(reader);
+        return;
+      case WRITE_ROWS_EVENT_V1:
+      case UPDATE_ROWS_EVENT_V1:
+      case DELETE_ROWS_EVENT_V1:
+      case WRITE_ROWS_EVENT:
+      case UPDATE_ROWS_EVENT:
+      case DELETE_ROWS_EVENT:
+        this.readRows(reader, eventType, `${this.file}:${nextPosition}`);
+        return;
+      case XID_EVENT:
+        this.commit(nextPosition, timestamp);
+        return;
+      case QUERY_EVENT: {
+        // Non-transactional tables end with COMMIT instead of an XID; DDL commits implicitly
+        const query = this.readQuery(reader).trim().toUpperCase();
+        if (query === 'ROLLBACK') {
+          this.pending = [];
+        }
+        if (query === 'COMMIT' || query === 'ROLLBACK' || (query !== 'BEGIN' && this.pending.length === 0)) {
+          this.commit(nextPosition, timestamp);
+        }
+        return;
+      }
+      case PARTIAL_UPDATE_ROWS_EVENT:
+        throw new Error('Partial JSON updates are not supported; set binlog_row_value_options to an empty value');
+      case TRANSACTION_PAYLOAD_EVENT:
+        throw new Error('Compressed transactions are not supported; disable binlog_transaction_compression');
+      default:
+        // Format description, GTID, heartbeat and other bookkeeping events
+        return;
+    }
+  }
+
+  private commit(nextPosition: number, timestamp: number) {
+    const committedAt = new Date(timestamp * 1000).toISOString();
+    const position = `${this.file}:${nextPosition}`;
+    for (const event of this.pending) {
+      this.committed.push({ ...event, position, committedAt });
+    }
+    this.pending = [];
+    this.committedPosition = position;
+  }
+
+  private readQuery(reader: EventReader): string {
+    reader.skip(8); // thread id, execution time
+    const schemaLength = reader.uint8();
+    reader.skip(2); // error code
+    const statusLength = reader.uint16();
+    reader.skip(statusLength + schemaLength + 1);
+    return reader.rest().toString('utf8');
+  }
+
+  private readTableMap(reader: EventReader) {
+    const tableId = reader.tableId();
+    reader.skip(2); // flags
+    const schema = reader.bytes(reader.uint8()).toString('utf8');
+    reader.skip(1);
+    const table = reader.bytes(reader.uint8()).toString('utf8');
+    reader.skip(1);
+
+    const columnCount = reader.lengthEncoded();
+    const types = Array.from(reader.bytes(columnCount));
+    const metadataReader = new EventReader(reader.bytes(reader.lengthEncoded()));
+    const metadata = types.map(type => readColumnMetadata(metadataReader, type));
+
+    this.tableMaps.set(tableId, { schema, table, types, metadata });
+  }
+
+  private readRows(reader: EventReader, eventType: number, position: string) {
+    const tableMap = this.tableMaps.get(reader.tableId());
+    reader.skip(2); // flags
+    if (eventType >= WRITE_ROWS_EVENT) {
+      reader.skip(reader.uint16() - 2); // extra data, length includes itself
+    }
+    if (!tableMap) {
+      throw new Error('Binlog row event without a preceding table map');
+    }
+
+    const columns = this.tables.get(`${tableMap.schema}.${tableMap.table}`);
+    if (!columns) return;
+    if (columns.length !== tableMap.types.length) {
+      throw new Error(
+        `Table ${tableMap.schema}.${tableMap.table} has ${columns.length} columns but the binlog has ${tableMap.types.length}; ` +
+        'the table changed after these changes were logged',
+      );
+    }
+
+    const columnCount = reader.lengthEncoded();
+    const present = reader.bitmap(columnCount);
+    const isUpdate = eventType === UPDATE_ROWS_EVENT || eventType === UPDATE_ROWS_EVENT_V1;
+    const presentAfter = isUpdate ? reader.bitmap(columnCount) : present;
+
+    while (reader.remaining() > 0) {
+      const image = this.readImage(reader, tableMap, columns, present);
+      const event = { schema: tableMap.schema, table: tableMap.table, position };
+
+      if (isUpdate) {
+        this.pending.push({ ...event, operation: 'update', before: image, after: this.readImage(reader, tableMap, columns, presentAfter) });
+      } else if (eventType === DELETE_ROWS_EVENT || eventType === DELETE_ROWS_EVENT_V1) {
+        this.pending.push({ ...event, operation: 'delete', before: image, after: null });
+      } else {
+        this.pending.push({ ...event, operation: 'insert', before: null, after: image });
+      }
+    }
+  }
+
+  private readImage(reader: EventReader, tableMap: TableMap, columns: BinlogColumn[], present: boolean[]): Record<string, any> {
+    const nulls = reader.bitmap(present.filter(Boolean).length);
+    const row: Record<string, any> = {};
+    let nullIndex = 0;
+
+    for (let i = 0; i < columns.length; i++) {
+      if (!present[i]) continue;
+      row[columns[i].name] = nulls[nullIndex++] ? null : readValue(reader, tableMap.types[i], tableMap.metadata[i], columns[i]);
+    }
+    return row;
+  }
+}
+
+function readColumnMetadata(reader: EventReader, type: number): number {
+  switch (type) {
+    case TYPE_FLOAT:
+    case TYPE_DOUBLE:
+    case TYPE_BLOB:
+    case TYPE_GEOMETRY:
+    case TYPE_JSON:
+    case TYPE_TIMESTAMP2:
+    case TYPE_DATETIME2:
+    case TYPE_TIME2:
+      return reader.uint8();
+    case TYPE_VARCHAR:
+    case TYPE_VAR_STRING:
+    case TYPE_BIT:
+      return reader.uint16();
+    case TYPE_NEWDECIMAL:
+    case TYPE_STRING:
+    case TYPE_ENUM:
+    case TYPE_SET:
+      // Two bytes, most significant first: precision/scale or real type/length
+      return (reader.uint8() << 8) | reader.uint8();
+    default:
+      return 0;
+  }
+}
+
+function readValue(reader: EventReader, type: number, metadata: number, column: BinlogColumn): any {
+  switch (type) {
+    case TYPE_TINY:
+      return column.unsigned ? reader.uint8() : reader.int8();
+    case TYPE_SHORT:
+      return column.unsigned ? reader.uint16() : reader.int16();
+    case TYPE_INT24: {
+      const value = reader.uintLE(3);
+      return !column.unsigned && value & 0x800000 ? value - 0x1000000 : value;
+    }
+    case TYPE_LONG:
+      return column.unsigned ? reader.uint32() : reader.int32();
+    case TYPE_LONGLONG:
+      return toSafeNumber(column.unsigned ? reader.uint64() : reader.int64());
+    case TYPE_FLOAT:
+      return reader.float();
+    case TYPE_DOUBLE:
+      return reader.double();
+    case TYPE_NEWDECIMAL:
+      return readDecimal(reader, metadata >> 8, metadata & 0xff);
+    case TYPE_YEAR: {
+      const year = reader.uint8();
+      return year === 0 ? 0 : 1900 + year;
+    }
+    case TYPE_DATE: {
+      const value = reader.uintLE(3);
+      return `${pad(value >> 9, 4)}-${pad((value >> 5) & 0x0f, 2)}-${pad(value & 0x1f, 2)}`;
+    }
+    case TYPE_TIME: {
+      const value = reader.uintLE(3);
+      return `${pad(Math.floor(value / 10000), 2)}:${pad(Math.floor(value / 100) % 100, 2)}:${pad(value % 100, 2)}`;
+    }
+    case TYPE_TIME2:
+      return readTime2(reader, metadata);
+    case TYPE_TIMESTAMP:
+      return new Date(reader.uint32() * 1000);
+    case TYPE_TIMESTAMP2: {
+      const seconds = reader.uintBE(4);
+      const micros = readFraction(reader, metadata);
+      return new Date(seconds * 1000 + Math.floor(micros / 1000));
+    }
+    case TYPE_DATETIME: {
+      const value = String(reader.uint64()).padStart(14, '0');
+      return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)} ${value.slice(8, 10)}:${value.slice(10, 12)}:${value.slice(12, 14)}`;
+    }
+    case TYPE_DATETIME2:
+      return readDatetime2(reader, metadata);
+    case TYPE_VARCHAR:
+    case TYPE_VAR_STRING:
+      return toText(reader.bytes(metadata < 256 ? reader.uint8() : reader.uint16()), column);
+    case TYPE_STRING:
+    case TYPE_ENUM:
+    case TYPE_SET:
+      return readString(reader, metadata, column);
+    case TYPE_BIT: {
+      const length = (metadata >> 8) + ((metadata & 0xff) > 0 ? 1 : 0);
+      return toSafeNumber(BigInt(`0x${reader.bytes(length).toString('hex') || '0'}`));
+    }
+    case TYPE_BLOB:
+    case TYPE_GEOMETRY:
+      return toText(reader.bytes(reader.uintLE(metadata)), column);
+    case TYPE_JSON:
+      return parseJsonBinary(reader.bytes(reader.uintLE(metadata)));
+    case TYPE_DECIMAL:
+    default:
+      throw new Error(`Unsupported binlog column type ${type} for column ${column.name}`);
+  }
+}
+
+// CHAR, ENUM and SET all arrive as MYSQL_TYPE_STRING with the real type in the metadata
+function readString(reader: EventReader, metadata: number, column: BinlogColumn): any {
+  const realType = metadata >> 8;
+
+  if (realType === TYPE_ENUM) {
+    const index = reader.uintLE(metadata & 0xff);
+    return index === 0 ? '' : column.values?.[index - 1] ?? index;
+  }
+  if (realType === TYPE_SET) {
+    const mask = reader.uintLE(metadata & 0xff);
+    return (column.values ?? []).filter((_, i) => mask & (1 << i)).join(',');
+  }
+
+  // Lengths above 255 borrow two bits from the real type byte
+  const maxLength = (((metadata >> 4) & 0x300) ^ 0x300) + (metadata & 0xff);
+  return toText(reader.bytes(maxLength > 255 ? reader.uint16() : reader.uint8()), column);
+}
+
+function readDatetime2(reader: EventReader, fsp: number): string {
+  // 1 sign bit, 17 bits year*13+month, 5 day, 5 hour, 6 minute, 6 second
+  const value = reader.uintBE(5) - 0x8000000000;
+  const yearMonth = Math.floor(value / 2 ** 22) & 0x1ffff;
+  const day = Math.floor(value / 2 ** 17) & 0x1f;
+  const hour = Math.floor(value / 2 ** 12) & 0x1f;
+  const minute = Math.floor(value / 2 ** 6) & 0x3f;
+  const second = value & 0x3f;
+
+  const date = `${pad(Math.floor(yearMonth / 13), 4)}-${pad(yearMonth % 13, 2)}-${pad(day, 2)}`;
+  return `${date} ${pad(hour, 2)}:${pad(minute, 2)}:${pad(second, 2)}${formatFraction(readFraction(reader, fsp), fsp)}`;
+}
+
+function readTime2(reader: EventReader, fsp: number): string {
+  // Integer and fractional part form one big-endian number offset by its sign bit
+  const fractionBytes = (fsp + 1) >> 1;
+  const length = 3 + fractionBytes;
+  const packed = reader.uintBE(length) - 2 ** (length * 8 - 1);
+  const magnitude = Math.abs(packed);
+  const fraction = magnitude % 2 ** (fractionBytes * 8);
+  const value = Math.floor(magnitude / 2 ** (fractionBytes * 8));
+
+  const micros = fraction * [1, 10000, 100, 1][fractionBytes];
+  const hours = (value >> 12) & 0x3ff;
+  return `${packed < 0 ? '-' : ''}${pad(hours, 2)}:${pad((value >> 6) & 0x3f, 2)}:${pad(value & 0x3f, 2)}${formatFraction(micros, fsp)}`;
+}
+
+// Fractional seconds take (fsp + 1) / 2 bytes; returns microseconds
+function readFraction(reader: EventReader, fsp: number): number {
+  const length = (fsp + 1) >> 1;
+  if (length === 0) return 0;
+  return reader.uintBE(length) * [1, 10000, 100, 1][length];
+}
+
+function formatFraction(micros: number, fsp: number): string {
+  return fsp > 0 ? `.${pad(micros, 6).slice(0, fsp)}` : '';
+}
+
+const DIGITS_PER_INTEGER = 9;
+const BYTES_FOR_DIGITS = [0, 1, 1, 2, 2, 3, 3, 4, 4, 4];
+
+/**
+ * Reads a DECIMAL in MySQL's binary format: groups of nine digits stored as
+ * big-endian integers, with the sign in the inverted top bit.
+ */
+function readDecimal(reader: EventReader, precision: number, scale: number): string {
+  const integerDigits = precision - scale;
+  const integerGroups = Math.floor(integerDigits / DIGITS_PER_INTEGER);
+  const integerLeading = integerDigits % DIGITS_PER_INTEGER;
+  const fractionGroups = Math.floor(scale / DIGITS_PER_INTEGER);
+  const fractionTrailing = scale % DIGITS_PER_INTEGER;
+  const size = BYTES_FOR_DIGITS[integerLeading] + integerGroups * 4 + fractionGroups * 4 + BYTES_FOR_DIGITS[fractionTrailing];
+
+  const buffer = Buffer.from(reader.bytes(size));
+  const positive = (buffer[0] & 0x80) !== 0;
+  buffer[0] ^= 0x80;
+  if (!positive) {
+    for (let i = 0; i < buffer.length; i++) buffer[i] = ~buffer[i] & 0xff;
+  }
+
+  let offset = 0;
+  const group = (bytes: number, digits: number, padded: boolean) => {
+    const value = bytes > 0 ? buffer.readUIntBE(offset, bytes) : 0;
+    offset += bytes;
+    return padded ? pad(value, digits) : String(value);
+  };
+
+  let integerPart = integerLeading > 0 ? group(BYTES_FOR_DIGITS[integerLeading], integerLeading, false) : '';
+  for (let i = 0; i < integerGroups; i++) integerPart += group(4, DIGITS_PER_INTEGER, integerPart !== '');
+  integerPart = integerPart.replace(/^0+(?=\d)/, '') || '0';
+
+  let fractionPart = '';
+  for (let i = 0; i < fractionGroups; i++) fractionPart += group(4, DIGITS_PER_INTEGER, true);
+  if (fractionTrailing > 0) fractionPart += group(BYTES_FOR_DIGITS[fractionTrailing], fractionTrailing, true);
+
+  return `${positive ? '' : '-'}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+}
+
+// JSON values are stored in MySQL's binary JSON format (sql-common/json_binary.h)
+const JSON_SMALL_OBJECT = 0x00;
+const JSON_LARGE_OBJECT = 0x01;
+const JSON_SMALL_ARRAY = 0x02;
+const JSON_LARGE_ARRAY = 0x03;
+const JSON_LITERAL = 0x04;
+const JSON_INT16 = 0x05;
+const JSON_UINT16 = 0x06;
+const JSON_INT32 = 0x07;
+const JSON_UINT32 = 0x08;
+const JSON_INT64 = 0x09;
+const JSON_UINT64 = 0x0a;
+const JSON_DOUBLE = 0x0b;
+const JSON_STRING = 0x0c;
+const JSON_OPAQUE = 0x0f;
+
+function parseJsonBinary(buffer: Buffer): any {
+  if (buffer.length === 0) return null;
+  return parseJsonValue(buffer[0], buffer, 1);
+}
+
+function parseJsonValue(type: number, buffer: Buffer, offset: number): any {
+  switch (type) {
+    case JSON_SMALL_OBJECT:
+    case JSON_LARGE_OBJECT:
+    case JSON_SMALL_ARRAY:
+    case JSON_LARGE_ARRAY:
+      return parseJsonContainer(
+        buffer.subarray(offset),
+        type === JSON_LARGE_OBJECT || type === JSON_LARGE_ARRAY,
+        type === JSON_SMALL_OBJECT || type === JSON_LARGE_OBJECT,
+      );
+    case JSON_LITERAL:
+      return buffer[offset] === 1 ? true : buffer[offset] === 2 ? false : null;
+    case JSON_INT16:
+      return buffer.readInt16LE(offset);
+    case JSON_UINT16:
+      return buffer.readUInt16LE(offset);
+    case JSON_INT32:
+      return buffer.readInt32LE(offset);
+    case JSON_UINT32:
+      return buffer.readUInt32LE(offset);
+    case JSON_INT64:
+      return toSafeNumber(buffer.readBigInt64LE(offset));
+    case JSON_UINT64:
+      return toSafeNumber(buffer.readBigUInt64LE(offset));
+    case JSON_DOUBLE:
+      return buffer.readDoubleLE(offset);
+    case JSON_STRING: {
+      const { value: length, next } = readVariableLength(buffer, offset);
+      return buffer.toString('utf8', next, next + length);
+    }
+    case JSON_OPAQUE: {
+      const opaqueType = buffer[offset];
+      const { value: length, next } = readVariableLength(buffer, offset + 1);
+      const data = buffer.subarray(next, next + length);
+      if (opaqueType === TYPE_NEWDECIMAL) {
+        return readDecimal(new EventReader(data.subarray(2)), data[0], data[1]);
+      }
+      // Temporal and other opaque values are passed on as their raw bytes
+      return data.toString('base64');
+    }
+    default:
+      throw new Error(`Unsupported JSON value type ${type}`);
+  }
+}
+
+function parseJsonContainer(buffer: Buffer, large: boolean, isObject: boolean): any {
+  const width = large ? 4 : 2;
+  const read = (offset: number) => (large ? buffer.readUInt32LE(offset) : buffer.readUInt16LE(offset));
+  const count = read(0);
+  const keyEntries = 2 * width;
+  const valueEntries = keyEntries + (isObject ? count * (width + 2) : 0);
+
+  const values: any[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = valueEntries + i * (1 + width);
+    const type = buffer[entry];
+    // Literals and small integers are stored in the entry itself
+    const inlined = type === JSON_LITERAL || type === JSON_INT16 || type === JSON_UINT16 ||
+      (large && (type === JSON_INT32 || type === JSON_UINT32));
+    values.push(parseJsonValue(type, buffer, inlined ? entry + 1 : read(entry + 1)));
+  }
+  if (!isObject) return values;
+
+  const object: Record<string, any> = {};
+  for (let i = 0; i < count; i++) {
+    const entry = keyEntries + i * (width + 2);
+    const keyOffset = read(entry);
+    object[buffer.toString('utf8', keyOffset, keyOffset + buffer.readUInt16LE(entry + width))] = values[i];
+  }
+  return object;
+}
+
+// Seven bits per byte, least significant first, high bit set on all but the last
+function readVariableLength(buffer: Buffer, offset: number): { value: number; next: number } {
+  let value = 0;
+  for (let shift = 0; ; shift += 7) {
+    const byte = buffer[offset++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return { value, next: offset };
+  }
+}
+
+function toText(bytes: Buffer, column: BinlogColumn): string | Buffer {
+  if (BINARY_DATA_TYPES.includes(column.dataType)) {
+    return Buffer.from(bytes);
+  }
+  return bytes.toString(column.charset === 'latin1' ? 'latin1' : column.charset === 'ascii' ? 'ascii' : 'utf8');
+}
+
+function toSafeNumber(value: bigint): number | string {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value.toString();
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Little-endian reader over one event body
+ */
+class EventReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  skip(length: number) {
+    this.offset += length;
+  }
+
+  bytes(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Binlog event ended unexpectedly');
+    }
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  rest(): Buffer {
+    return this.bytes(this.remaining());
+  }
+
+  uint8(): number {
+    return this.bytes(1).readUInt8(0);
+  }
+
+  int8(): number {
+    return this.bytes(1).readInt8(0);
+  }
+
+  uint16(): number {
+    return this.bytes(2).readUInt16LE(0);
+  }
+
+  int16(): number {
+    return this.bytes(2).readInt16LE(0);
+  }
+
+  uint32(): number {
+    return this.bytes(4).readUInt32LE(0);
+  }
+
+  int32(): number {
+    return this.bytes(4).readInt32LE(0);
+  }
+
+  uint64(): bigint {
+    return this.bytes(8).readBigUInt64LE(0);
+  }
+
+  int64(): bigint {
+    return this.bytes(8).readBigInt64LE(0);
+  }
+
+  float(): number {
+    return this.bytes(4).readFloatLE(0);
+  }
+
+  double(): number {
+    return this.bytes(8).readDoubleLE(0);
+  }
+
+  uintLE(length: number): number {
+    return length === 0 ? 0 : this.bytes(length).readUIntLE(0, length);
+  }
+
+  uintBE(length: number): number {
+    return length === 0 ? 0 : this.bytes(length).readUIntBE(0, length);
+  }
+
+  // Table ids are six bytes wide; kept as a string key
+  tableId(): string {
+    return String(this.uintLE(6));
+  }
+
+  lengthEncoded(): number {
+    const first = this.uint8();
+    if (first < 0xfb) return first;
+    if (first === 0xfc) return this.uint16();
+    if (first === 0xfd) return this.uintLE(3);
+    if (first === 0xfe) return Number(this.uint64());
+    throw new Error(`Invalid length-encoded integer prefix ${first}`);
+  }
+
+  bitmap(bits: number): boolean[] {
+    const bytes = this.bytes((bits + 7) >> 3);
+    return Array.from({ length: bits }, (_, i) => (bytes[i >> 3] & (1 << (i & 7))) !== 0);
+  }
+}
@@ -0,0 +1,89 @@
+const COM_BINLOG_DUMP = 0x12;
+// Ask the server for EOF at the end of the binlog instead of waiting for new events
+const BINLOG_DUMP_NON_BLOCK = 0x01;
+
+export interface BinlogDumpOptions {
+  file: string;
+  offset: number;
+  serverId: number;
+  /** Receives each raw event; returning false stops the dump */
+  onEvent: (event: Buffer) => boolean;
+}
+
+/**
+ * Streams binlog events over a mysql2 connection by queueing a COM_BINLOG_DUMP
+ * command on it. mysql2's own binlog stream drops the bodies of row events,
+ * so the command hands the raw events to the caller instead.
+ *
+ * Resolves at the end of the binlog or once onEvent returns false; the
+ * connection is left mid-dump in that case and must be destroyed.
+ */
+export function dumpBinlog(connection: any, options: BinlogDumpOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      if (error) reject(error);
+      else resolve();
+    };
+
+    connection.addCommand({
+      started: false,
+
+      // Called by mysql2 for every packet while the command is current; returns true when done
+      execute(packet: any, conn: any): boolean {
+        if (!this.started) {
+          this.started = true;
+          conn._resetSequenceId();
+          conn.writePacket(buildDumpPacket(options));
+          return false;
+        }
+        if (settled) {
+          return false;
+        }
+        if (packet.isError()) {
+          settle(packet.asError(conn.clientEncoding));
+          return true;
+        }
+        if (packet.isEOF()) {
+          settle();
+          return true;
+        }
+
+        // Every event packet starts with an OK byte
+        const keepReading = options.onEvent(packet.buffer.subarray(packet.offset + 1, packet.end));
+        if (!keepReading) {
+          settle();
+        }
+        return false;
+      },
+
+      // Connection errors are reported here
+      onResult(error?: Error) {
+        settle(error);
+      },
+    });
+  });
+}
+
+// Duck-types the packet interface mysql2's writePacket expects
+function buildDumpPacket(options: BinlogDumpOptions) {
+  const filename = Buffer.from(options.file, 'utf8');
+  const buffer = Buffer.alloc(4 + 11 + filename.length);
+  let offset = 4;
+  offset = buffer.writeUInt8(COM_BINLOG_DUMP, offset);
+  offset = buffer.writeUInt32LE(options.offset, offset);
+  offset = buffer.writeUInt16LE(BINLOG_DUMP_NON_BLOCK, offset);
+  offset = buffer.writeUInt32LE(options.serverId, offset);
+  filename.copy(buffer, offset);
+
+  return {
+    buffer,
+    length: () => buffer.length,
+    writeHeader(sequenceId: number) {
+      buffer.writeUIntLE(buffer.length - 4, 0, 3);
+      buffer.writeUInt8(sequenceId, 3);
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { PgOutputDecoder, formatLsn } from './pgoutput.decoder';
+
+// Builders for pgoutput protocol messages
+const uint8 = (value: number) => Buffer.from([value]);
+const uint16 = (value: number) => { const b = Buffer.alloc(2); b.writeUInt16BE(value); return b; };
+const uint32 = (value: number) => { const b = Buffer.alloc(4); b.writeUInt32BE(value); return b; };
+const int64 = (value: bigint) => { const b = Buffer.alloc(8); b.writeBigInt64BE(value); return b; };
+const cstring = (value: string) => Buffer.from(`${value}\0`);
+const char = (value: string) => Buffer.from(value);
+
+const tuple = (...values: (string | null)[]) => Buffer.concat([
+  uint16(values.length),
+  ...values.map(value =>
+    value === null ? char('n') : Buffer.concat([char('t'), uint32(Buffer.byteLength(value)), Buffer.from(value)]),
+  ),
+]);
+
+const relation = Buffer.concat([
+  char('R'), uint32(16384), cstring('public'), cstring('customers'), uint8(0x66), uint16(3),
+  uint8(1), cstring('id'), uint32(23), uint32(0xffffffff),
+  uint8(0), cstring('email'), uint32(25), uint32(0xffffffff),
+  uint8(0), cstring('active'), uint32(16), uint32(0xffffffff),
+]);
+
+// 2024-05-01T00:00:00Z in microseconds since 2000-01-01
+const committedAt = BigInt(Date.UTC(2024, 4, 1) - Date.UTC(2000, 0, 1)) * 1000n;
+
+describe('PgOutputDecoder', () => {
+  // Converts the integer and boolean columns like pg's text parsers would
+  const parseText = (typeOid: number, text: string) =>
+    typeOid === 23 ? Number(text) : typeOid === 16 ? text === 't' : text;
+
+  it('should decode a committed transaction into change events with before and after images', () => {
+    const decoder = new PgOutputDecoder(parseText);
+
+    decoder.decode(Buffer.concat([char('B'), int64(0x16b3748n), int64(committedAt), uint32(731)]));
+    decoder.decode(relation);
+    decoder.decode(Buffer.concat([char('I'), uint32(16384), char('N'), tuple('1', 'ada@example.com', 't')]));
+    decoder.decode(Buffer.concat([
+      char('U'), uint32(16384),
+      char('O'), tuple('1', 'ada@example.com', 't'),
+      char('N'), tuple('1', 'ada@lovelace.dev', 't'),
+    ]));
+    decoder.decode(Buffer.concat([char('D'), uint32(16384), char('K'), tuple('2', null, null)]));
+
+    // Nothing is released before the commit
+    expect(decoder.committed).toHaveLength(0);
+
+    decoder.decode(Buffer.concat([char('C'), uint8(0), int64(0x16b3748n), int64(0x16b3780n), int64(committedAt)]));
+
+    expect(decoder.committedPosition).toBe('0/16B3780');
+    expect(decoder.committed).toEqual([
+      expect.objectContaining({ operation: 'insert', before: null, after: { id: 1, email: 'ada@example.com', active: true } }),
+      expect.objectContaining({
+        operation: 'update',
+        before: { id: 1, email: 'ada@example.com', active: true },
+        after: { id: 1, email: 'ada@lovelace.dev', active: true },
+      }),
+      // Key tuples only carry the replica identity columns
+      expect.objectContaining({ operation: 'delete', before: { id: 2 }, after: null }),
+    ]);
+    expect(decoder.committed[0]).toEqual(expect.objectContaining({
+      schema: 'public',
+      table: 'customers',
+      position: '0/16B3748',
+      committedAt: '2024-05-01T00:00:00.000Z',
+    }));
+  });
+
+  it('should leave unchanged TOASTed values out of the row', () => {
+    const decoder = new PgOutputDecoder(parseText);
+    decoder.decode(Buffer.concat([char('B'), int64(1n), int64(committedAt), uint32(1)]));
+    decoder.decode(relation);
+    decoder.decode(Buffer.concat([
+      char('U'), uint32(16384), char('N'),
+      uint16(3), char('t'), uint32(1), Buffer.from('1'), char('u'), char('t'), uint32(1), Buffer.from('f'),
+    ]));
+    decoder.decode(Buffer.concat([char('C'), uint8(0), int64(1n), int64(2n), int64(committedAt)]));
+
+    expect(decoder.committed[0].after).toEqual({ id: 1, active: false });
+  });
+
+  it('should reject row messages for relations it has not seen', () => {
+    const decoder = new PgOutputDecoder();
+    decoder.decode(Buffer.concat([char('B'), int64(1n), int64(committedAt), uint32(1)]));
+
+    expect(() => decoder.decode(Buffer.concat([char('I'), uint32(99), char('N'), tuple('1')]))).toThrow('unknown relation 99');
+  });
+
+  it('should format LSNs like pg_lsn', () => {
+    expect(formatLsn(0x1000000a0n)).toBe('1/A0');
+  });
+});
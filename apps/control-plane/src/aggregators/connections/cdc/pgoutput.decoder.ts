@@ -0,0 +1,213 @@
+import { ChangeEvent } from '../connection-factory.service';
+
+/** Converts the text representation of a column value for its type oid */
+export type PgTextParser = (typeOid: number, text: string) => any;
+
+interface RelationColumn {
+  name: string;
+  typeOid: number;
+  key: boolean;
+}
+
+interface Relation {
+  schema: string;
+  table: string;
+  columns: RelationColumn[];
+}
+
+// PostgreSQL timestamps count microseconds from 2000-01-01
+const PG_EPOCH_MS = Date.UTC(2000, 0, 1);
+
+/**
+ * Formats a 64-bit WAL location the way PostgreSQL prints pg_lsn values
+ */
+export function formatLsn(lsn: bigint): string {
+  return `${(lsn >> 32n).toString(16).toUpperCase()}/${(lsn & 0xffffffffn).toString(16).toUpperCase()}`;
+}
+
+/**
+ * Decodes pgoutput (protocol version 1) messages, as returned by
+ * pg_logical_slot_peek_binary_changes, into row change events.
+ *
+ * Row messages refer to the Relation message sent before a table's first
+ * change in the session, so one decoder must see every message of a read in order.
+ */
+export class PgOutputDecoder {
+  private readonly relations = new Map<number, Relation>();
+  private transaction: { position: string; committedAt: string } | null = null;
+  private pending: ChangeEvent[] = [];
+
+  /** Events of transactions whose Commit has been decoded */
+  readonly committed: ChangeEvent[] = [];
+  /** End of the last committed transaction - where the next read resumes */
+  committedPosition?: string;
+
+  constructor(private readonly parseText: PgTextParser = (_typeOid, text) => text) {}
+
+  decode(message: Buffer): void {
+    const reader = new MessageReader(message);
+    const type = String.fromCharCode(reader.uint8());
+
+    switch (type) {
+      case 'B': {
+        const finalLsn = reader.int64();
+        const committedAt = reader.int64();
+        this.transaction = { position: formatLsn(finalLsn), committedAt: toTimestamp(committedAt) };
+        this.pending = [];
+        return;
+      }
+      case 'C': {
+        reader.uint8(); // flags
+        reader.int64(); // commit LSN
+        const endLsn = reader.int64();
+        this.committed.push(...this.pending);
+        this.pending = [];
+        this.transaction = null;
+        this.committedPosition = formatLsn(endLsn);
+        return;
+      }
+      case 'R': {
+        const relationId = reader.uint32();
+        const schema = reader.cstring() || 'pg_catalog';
+        const table = reader.cstring();
+        reader.uint8(); // replica identity setting
+        const columnCount = reader.uint16();
+        const columns: RelationColumn[] = [];
+        for (let i = 0; i < columnCount; i++) {
+          const flags = reader.uint8();
+          const name = reader.cstring();
+          const typeOid = reader.uint32();
+          reader.uint32(); // type modifier
+          columns.push({ name, typeOid, key: (flags & 1) === 1 });
+        }
+        this.relations.set(relationId, { schema, table, columns });
+        return;
+      }
+      case 'I': {
+        const relation = this.relation(reader.uint32());
+        reader.uint8(); // 'N'
+        this.push(relation, 'insert', null, this.readTuple(reader, relation));
+        return;
+      }
+      case 'U': {
+        const relation = this.relation(reader.uint32());
+        let before: Record<string, any> | null = null;
+        const marker = String.fromCharCode(reader.uint8());
+        if (marker === 'K' || marker === 'O') {
+          before = this.readTuple(reader, relation, marker === 'K');
+          reader.uint8(); // 'N'
+        }
+        this.push(relation, 'update', before, this.readTuple(reader, relation));
+        return;
+      }
+      case 'D': {
+        const relation = this.relation(reader.uint32());
+        const marker = String.fromCharCode(reader.uint8());
+        this.push(relation, 'delete', this.readTuple(reader, relation, marker === 'K'), null);
+        return;
+      }
+      // Truncate, type, origin and logical messages carry no row images
+      case 'T':
+      case 'Y':
+      case 'O':
+      case 'M':
+        return;
+      default:
+        throw new Error(`Unsupported pgoutput message type "${type}"`);
+    }
+  }
+
+  private relation(relationId: number): Relation {
+    const relation = this.relations.get(relationId);
+    if (!relation) {
+      throw new Error(`pgoutput row message for unknown relation ${relationId}`);
+    }
+    return relation;
+  }
+
+  private push(
+    relation: Relation,
+    operation: ChangeEvent['operation'],
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+  ) {
+    if (!this.transaction) {
+      throw new Error('pgoutput row message outside of a transaction');
+    }
+    this.pending.push({
+      operation,
+      schema: relation.schema,
+      table: relation.table,
+      before,
+      after,
+      position: this.transaction.position,
+      committedAt: this.transaction.committedAt,
+    });
+  }
+
+  // Key tuples only carry values for the replica identity columns
+  private readTuple(reader: MessageReader, relation: Relation, keyOnly = false): Record<string, any> {
+    const row: Record<string, any> = {};
+    const columnCount = reader.uint16();
+
+    for (let i = 0; i < columnCount; i++) {
+      const column = relation.columns[i];
+      const kind = String.fromCharCode(reader.uint8());
+
+      if (kind === 'n') {
+        if (!keyOnly || column.key) row[column.name] = null;
+      } else if (kind === 't') {
+        row[column.name] = this.parseText(column.typeOid, reader.bytes(reader.uint32()).toString('utf8'));
+      } else if (kind !== 'u') {
+        // 'u' is an unchanged TOASTed value the server did not send
+        throw new Error(`Unsupported pgoutput tuple value kind "${kind}"`);
+      }
+    }
+    return row;
+  }
+}
+
+function toTimestamp(microseconds: bigint): string {
+  return new Date(PG_EPOCH_MS + Number(microseconds / 1000n)).toISOString();
+}
+
+class MessageReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  uint8(): number {
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  uint16(): number {
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  int64(): bigint {
+    const value = this.buffer.readBigInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(length: number): Buffer {
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  cstring(): string {
+    const end = this.buffer.indexOf(0, this.offset);
+    const value = this.buffer.toString('utf8', this.offset, end);
+    this.offset = end + 1;
+    return value;
+  }
+}
@@ -25,17 +25,152 @@ export interface LoadDataInput {
   conflictKey?: string[];
   conflictResolution?: 'replace' | 'merge' | 'skip';
   autoCreateTable?: boolean;
+  /** Adds columns the data brings and widens columns too small for it */
+  autoEvolve?: boolean;
 }
 
 export interface LoadDataResult {
   rowsLoaded: number;
-  errors?: Array<{ row: number; error: string }>;
+  /** Rows that were skipped, by index in the loaded data */
+  errors?: LoadRowError[];
+  /** Changes autoEvolve made, or refused to make, to the target table */
+  schemaChanges?: SchemaEvolution[];
+}
+
+/**
+ * One change to a load's target table. Columns are only ever added or
+ * widened; a change that could lose data is refused and the rows that need it
+ * fail as usual.
+ */
+export interface SchemaEvolution {
+  table: string;
+  column: string;
+  change: 'column-added' | 'column-widened' | 'refused';
+  /** Type of the existing column */
+  from?: string;
+  /** Type the data needs */
+  to: string;
+  /** The DDL that was run */
+  statement?: string;
+  /** Why a change was refused */
+  reason?: string;
+}
+
+export interface LoadRowError {
+  row: number;
+  error: string;
+}
+
+/**
+ * How a multi-batch load becomes visible:
+ * - batch: every batch commits on its own (default)
+ * - transaction: one transaction around the whole load, rolled back on failure
+ * - staging: rows go to a staging table that is merged into the target in one
+ *   transaction at the end; create loads refuse targets referenced by foreign keys
+ */
+export type LoadCommitMode = 'batch' | 'transaction' | 'staging';
+
+export interface LoadSessionInput extends Omit<LoadDataInput, 'data'> {
+  commitMode: LoadCommitMode;
+}
+
+/**
+ * An open load spanning several batches. Rows that fail are skipped and
+ * reported; nothing is guaranteed visible before commit().
+ */
+export interface LoadSession {
+  /** Writes a batch; rowOffset is the index of its first row in the whole load */
+  write(data: any[], rowOffset: number): Promise<LoadDataResult>;
+  commit(): Promise<void>;
+  /** Discards everything not yet committed and closes the connection */
+  rollback(): Promise<void>;
+}
+
+export type QueryFilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'notIn' | 'like' | 'isNull' | 'isNotNull';
+
+export interface QueryFilter {
+  column: string;
+  operator: QueryFilterOperator;
+  /** Bound as a query parameter - never interpolated into the SQL */
+  value?: any;
+}
+
+export interface QueryOrderBy {
+  column: string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface QueryDataInput {
+  tableName: string;
+  /** Columns to project; empty or ['*'] selects every column */
+  columns?: string[];
+  filters?: QueryFilter[];
+  /**
+   * Raw WHERE clause written by the workflow author, ANDed with the filters.
+   * Kept for existing definitions - prefer filters, which are parameterized.
+   */
+  where?: string;
+  orderBy?: QueryOrderBy[];
+  /**
+   * Keyset paging over orderBy: NULLs sort first ascending and last descending
+   * on every dialect, and with after, the orderBy values of the last row read,
+   * only the rows sorting after it are returned
+   */
+  keyset?: { after?: any[] };
+  limit?: number;
+  offset?: number;
+}
+
+export interface QueryDataResult {
+  rows: Record<string, any>[];
+  rowCount: number;
+  columns: string[];
+}
+
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+
+export interface ChangeEvent {
+  operation: ChangeOperation;
+  schema: string;
+  table: string;
+  /** Row before the change; key columns only unless the source logs full row images */
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  /** Source position of the transaction - a PostgreSQL LSN or a MySQL binlog file:offset */
+  position: string;
+  committedAt?: string;
+}
+
+export interface ReadChangesInput {
+  /** Captured tables, optionally schema-qualified */
+  tables: string[];
+  /** Resume after this position; omitted starts at the source's current position */
+  position?: string;
+  maxEvents?: number;
+  /** PostgreSQL replication slot and publication, created when missing */
+  slotName?: string;
+  publicationName?: string;
+  /** MySQL replica server id, must be unique among the server's replicas */
+  serverId?: number;
+}
+
+export interface ReadChangesResult {
+  events: ChangeEvent[];
+  /** Position to resume from; only ever covers fully read transactions */
+  position?: string;
+  /** More changes were pending when maxEvents was reached */
+  hasMore: boolean;
 }
 
 export interface ConnectionHandler extends ConnectionTester {
   discoverSchema(config: Record<string, any>, credentials: Record<string, string>): Promise<SchemaDiscoveryResult>;
   previewTable(config: Record<string, any>, credentials: Record<string, string>, tableName: string, limit?: number): Promise<TablePreviewResult>;
+  queryData(config: Record<string, any>, credentials: Record<string, string>, input: QueryDataInput): Promise<QueryDataResult>;
   loadData(config: Record<string, any>, credentials: Record<string, string>, input: LoadDataInput): Promise<LoadDataResult>;
+  beginLoad?(config: Record<string, any>, credentials: Record<string, string>, input: LoadSessionInput): Promise<LoadSession>;
+  readChanges?(config: Record<string, any>, credentials: Record<string, string>, input: ReadChangesInput): Promise<ReadChangesResult>;
 }
 
 export interface SchemaDiscoveryResult {
@@ -1,4 +1,11 @@
-import { ConnectionHandler, SchemaDiscoveryResult, TablePreviewResult, LoadDataInput, LoadDataResult } from '../connection-factory.service';
+import { ConnectionHandler, SchemaDiscoveryResult, TablePreviewResult, LoadDataInput, LoadDataResult, LoadSession, LoadSessionInput, QueryDataInput, QueryDataResult, ReadChangesInput, ReadChangesResult } from '../connection-factory.service';
+import { buildSelectQuery } from '../select-query.builder';
+import { BinlogColumn, MySqlBinlogDecoder, parseBinlogPosition } from '../cdc/mysql-binlog.decoder';
+import { dumpBinlog } from '../cdc/mysql-binlog.reader';
+import { SqlLoadSession } from '../load-session';
+import { TableColumn } from '../schema-evolution';
+
+const DEFAULT_MAX_CHANGES = 10000;
 
 export class MySQLConnection implements ConnectionHandler {
   async test(config: Record<string, any>, credentials: Record<string, string>): Promise<any> {
@@ -194,6 +201,183 @@ export class MySQLConnection implements ConnectionHandler {
     }
   }
 
+  async queryData(
+    config: Record<string, any>,
+    credentials: Record<string, string>,
+    input: QueryDataInput
+  ): Promise<QueryDataResult> {
+    const host = config.host || credentials.host;
+    const port = config.port || credentials.port || 3306;
+    const user = credentials.username || credentials.user;
+    const password = credentials.password;
+    const database = config.database || credentials.database;
+
+    // Build before connecting so invalid input never opens a connection
+    const { sql, params } = buildSelectQuery(input, 'mysql');
+
+    const mysql = await import('mysql2/promise');
+    const connection = await mysql.createConnection({
+      host,
+      port,
+      user,
+      password,
+      database,
+      flags: ['READONLY'],
+      connectTimeout: 30000,
+      multipleStatements: false,
+    });
+
+    try {
+      const [rows, fields] = await connection.query(sql, params);
+      const data = rows as Record<string, any>[];
+
+      return {
+        rows: data,
+        rowCount: data.length,
+        columns: (fields || []).map((field: any) => field.name),
+      };
+    } catch (error: any) {
+      throw new Error(`MySQL query failed: ${error.message}`);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Reads committed row changes from the binlog, which must use ROW format.
+   * Resumes after input.position (file:offset); without one it starts at the
+   * server's current binlog position, so the first run only records where to
+   * begin. Before images hold every column only with binlog_row_image=FULL.
+   */
+  async readChanges(
+    config: Record<string, any>,
+    credentials: Record<string, string>,
+    input: ReadChangesInput
+  ): Promise<ReadChangesResult> {
+    if (!input.tables?.length) {
+      throw new Error('Change capture requires at least one table');
+    }
+    if (!input.serverId) {
+      throw new Error('Change capture requires a replica server id');
+    }
+    const maxEvents = input.maxEvents ?? DEFAULT_MAX_CHANGES;
+
+    const host = config.host || credentials.host;
+    const port = config.port || credentials.port || 3306;
+    const user = credentials.username || credentials.user;
+    const password = credentials.password;
+    const database = config.database || credentials.database;
+
+    const mysql = await import('mysql2/promise');
+    const connection = await mysql.createConnection({
+      host,
+      port,
+      user,
+      password,
+      database,
+      connectTimeout: 30000,
+      multipleStatements: false,
+    });
+
+    try {
+      const [settings] = await connection.query(
+        'SELECT @@global.binlog_format AS format, @@global.binlog_checksum AS checksum'
+      );
+      const { format, checksum } = (settings as any[])[0];
+      if (format !== 'ROW') {
+        throw new Error(`binlog_format is ${format}, change capture requires ROW`);
+      }
+
+      const start = input.position ? parseBinlogPosition(input.position) : await this.currentBinlogPosition(connection);
+      const tables = await this.loadBinlogColumns(connection, database, input.tables);
+
+      // Tells the server this client handles the checksums it writes
+      await connection.query('SET @master_binlog_checksum = @@global.binlog_checksum');
+
+      const decoder = new MySqlBinlogDecoder(tables, start.file, start.offset, checksum !== 'NONE');
+      let hasMore = false;
+      await dumpBinlog((connection as any).connection, {
+        file: start.file,
+        offset: start.offset,
+        serverId: input.serverId,
+        onEvent: event => {
+          decoder.decode(event);
+          hasMore = decoder.committed.length >= maxEvents;
+          return !hasMore;
+        },
+      });
+
+      return {
+        events: decoder.committed,
+        position: decoder.committedPosition,
+        hasMore,
+      };
+    } catch (error: any) {
+      throw new Error(`MySQL change capture failed: ${error.message}`);
+    } finally {
+      // A dump stopped early leaves the connection unusable
+      connection.destroy();
+    }
+  }
+
+  private async currentBinlogPosition(connection: any): Promise<{ file: string; offset: number }> {
+    let rows: any[];
+    try {
+      // MySQL 8.2 renamed SHOW MASTER STATUS
+      [rows] = await connection.query('SHOW BINARY LOG STATUS');
+    } catch {
+      [rows] = await connection.query('SHOW MASTER STATUS');
+    }
+    if (!rows.length) {
+      throw new Error('Binary logging is disabled on this server');
+    }
+    return { file: rows[0].File, offset: Number(rows[0].Position) };
+  }
+
+  /**
+   * Binlog row events carry no column names, so they are read from
+   * information_schema in ordinal order
+   */
+  private async loadBinlogColumns(connection: any, database: string, tables: string[]): Promise<Map<string, BinlogColumn[]>> {
+    const qualified = tables.map(table => {
+      const [schema, name] = table.includes('.') ? table.split('.') : [database, table];
+      return { schema, name };
+    });
+
+    const [rows] = await connection.query(
+      `SELECT TABLE_SCHEMA AS tableSchema, TABLE_NAME AS tableName, COLUMN_NAME AS columnName,
+              DATA_TYPE AS dataType, COLUMN_TYPE AS columnType, CHARACTER_SET_NAME AS charset
+       FROM information_schema.COLUMNS
+       WHERE ${qualified.map(() => '(TABLE_SCHEMA = ? AND TABLE_NAME = ?)').join(' OR ')}
+       ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION`,
+      qualified.flatMap(table => [table.schema, table.name]),
+    );
+
+    const columns = new Map<string, BinlogColumn[]>();
+    for (const row of rows as any[]) {
+      const key = `${row.tableSchema}.${row.tableName}`;
+      const dataType = String(row.dataType).toLowerCase();
+      const columnType = String(row.columnType);
+      if (!columns.has(key)) columns.set(key, []);
+      columns.get(key)!.push({
+        name: row.columnName,
+        dataType,
+        unsigned: /unsigned/i.test(columnType),
+        values: dataType === 'enum' || dataType === 'set'
+          ? Array.from(columnType.matchAll(/'((?:[^']|'')*)'/g), match => match[1].replace(/''/g, "'"))
+          : undefined,
+        charset: row.charset || undefined,
+      });
+    }
+
+    for (const table of qualified) {
+      if (!columns.has(`${table.schema}.${table.name}`)) {
+        throw new Error(`Table ${table.schema}.${table.name} not found`);
+      }
+    }
+    return columns;
+  }
+
   /**
    * Infer MySQL column type from JavaScript value
    */
@@ -266,11 +450,73 @@ export class MySQLConnection implements ConnectionHandler {
     return true; // Table was created
   }
 
+  /**
+   * Tables with a foreign key to the given table, for staging loads
+   */
+  private async referencingTables(connection: any, database: string, tableName: string): Promise<string[]> {
+    const [rows] = await connection.execute(
+      `SELECT DISTINCT TABLE_NAME
+       FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+       WHERE REFERENCED_TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME = ?`,
+      [database, tableName]
+    );
+
+    return (rows as any[]).map(row => row.TABLE_NAME);
+  }
+
+  /**
+   * Columns of a table with everything MODIFY COLUMN has to restate, for load
+   * autoEvolve
+   */
+  private async describeTable(connection: any, database: string, tableName: string): Promise<TableColumn[]> {
+    const [rows] = await connection.execute(
+      `SELECT COLUMN_NAME, DATA_TYPE, CHARACTER_MAXIMUM_LENGTH, IS_NULLABLE, COLUMN_TYPE, COLUMN_DEFAULT,
+              EXTRA, CHARACTER_SET_NAME, COLLATION_NAME, COLUMN_COMMENT
+       FROM INFORMATION_SCHEMA.COLUMNS
+       WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+       ORDER BY ORDINAL_POSITION`,
+      [database, tableName]
+    );
+
+    return (rows as any[]).map(row => ({
+      name: row.COLUMN_NAME,
+      dataType: row.DATA_TYPE,
+      maxLength: row.CHARACTER_MAXIMUM_LENGTH === null ? null : Number(row.CHARACTER_MAXIMUM_LENGTH),
+      nullable: row.IS_NULLABLE === 'YES',
+      columnType: row.COLUMN_TYPE,
+      defaultValue: row.COLUMN_DEFAULT,
+      extra: row.EXTRA,
+      charset: row.CHARACTER_SET_NAME,
+      collation: row.COLLATION_NAME,
+      comment: row.COLUMN_COMMENT,
+    }));
+  }
+
   async loadData(
     config: Record<string, any>,
     credentials: Record<string, string>,
     input: LoadDataInput
   ): Promise<LoadDataResult> {
+    if (!input.data || input.data.length === 0) {
+      return { rowsLoaded: 0 };
+    }
+
+    const session = await this.beginLoad(config, credentials, { ...input, commitMode: 'batch' });
+    try {
+      const result = await session.write(input.data, 0);
+      await session.commit();
+      return result;
+    } catch (error: any) {
+      await session.rollback().catch(() => {});
+      throw new Error(`MySQL load data failed: ${error.message}`);
+    }
+  }
+
+  async beginLoad(
+    config: Record<string, any>,
+    credentials: Record<string, string>,
+    input: LoadSessionInput
+  ): Promise<LoadSession> {
     const host = config.host || credentials.host;
     const port = config.port || credentials.port || 3306;
     const user = credentials.username || credentials.user;
@@ -287,153 +533,18 @@ export class MySQLConnection implements ConnectionHandler {
       connectTimeout: 60000, // Longer timeout for bulk inserts
     });
 
-    const { tableName, data, mode, conflictKey, conflictResolution, autoCreateTable } = input;
-
-    // Validate table name to prevent SQL injection
-    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
-      await connection.end();
-      throw new Error('Invalid table name');
-    }
-
-    if (!data || data.length === 0) {
-      await connection.end();
-      return { rowsLoaded: 0 };
-    }
-
     try {
-      // Get columns from the first row
-      const columns = Object.keys(data[0]);
-      if (columns.length === 0) {
-        return { rowsLoaded: 0 };
-      }
-
-      // Auto-create table if it doesn't exist (if enabled)
-      const tableCreated = autoCreateTable ? await this.createTableIfNotExists(connection, database, tableName, data) : false;
-      if (tableCreated) {
-        console.log(`[MySQL] Auto-created table "${tableName}" based on source data schema`);
-      }
-
-      const errors: Array<{ row: number; error: string }> = [];
-      let rowsLoaded = 0;
-
-      if (mode === 'insert') {
-        // Simple INSERT for each row
-        for (let i = 0; i < data.length; i++) {
-          const row = data[i];
-          const columnNames = columns.map(col => `\`${col}\``).join(', ');
-          const placeholders = columns.map((_, idx) => '?').join(', ');
-          const values = columns.map(col => row[col]);
-
-          const query = `INSERT INTO \`${tableName}\` (${columnNames}) VALUES (${placeholders})`;
-
-          try {
-            await connection.execute(query, values);
-            rowsLoaded++;
-          } catch (err: any) {
-            errors.push({
-              row: i,
-              error: err.message,
-            });
-          }
-        }
-      } else if (mode === 'upsert' && conflictKey && conflictKey.length > 0) {
-        // UPSERT (INSERT ... ON DUPLICATE KEY UPDATE)
-        const conflictColumns = conflictKey.map(col => `\`${col}\``).join(', ');
-
-        for (let i = 0; i < data.length; i++) {
-          const row = data[i];
-          const columnNames = columns.map(col => `\`${col}\``).join(', ');
-          const placeholders = columns.map((_, idx) => '?').join(', ');
-          const values = columns.map(col => row[col]);
-
-          // Build ON DUPLICATE KEY UPDATE clause
-          let updateClause = '';
-          if (conflictResolution === 'replace') {
-            // Replace all non-conflict columns
-            const nonConflictCols = columns.filter(col => !conflictKey.includes(col));
-            updateClause = nonConflictCols.map(col => `\`${col}\` = VALUES(\`${col}\`)`).join(', ');
-          } else if (conflictResolution === 'merge') {
-            // Skip on conflict (no update)
-            updateClause = '';
-          } else {
-            // Default: skip
-            updateClause = '';
-          }
-
-          const query = conflictResolution === 'merge' || conflictResolution === 'skip'
-            ? `INSERT INTO \`${tableName}\` (${columnNames}) VALUES (${placeholders}) ON DUPLICATE KEY UPDATE \`${conflictKey[0]}\` = \`${conflictKey[0]}\``
-            : `INSERT INTO \`${tableName}\` (${columnNames}) VALUES (${placeholders}) ON DUPLICATE KEY UPDATE ${updateClause}`;
-
-          try {
-            await connection.execute(query, values);
-            rowsLoaded++;
-          } catch (err: any) {
-            errors.push({
-              row: i,
-              error: err.message,
-            });
-          }
-        }
-      } else if (mode === 'create') {
-        // CREATE mode - truncate table first then insert
-        try {
-          await connection.execute(`TRUNCATE TABLE \`${tableName}\``);
-        } catch (err: any) {
-          // Table might not exist or can't be truncated, continue with insert
-        }
-
-        // Batch insert for better performance
-        const batchSize = 100;
-        for (let i = 0; i < data.length; i += batchSize) {
-          const batch = data.slice(i, i + batchSize);
-          const columnNames = columns.map(col => `\`${col}\``).join(', ');
-
-          const valueStrings: string[] = [];
-          const allValues: any[] = [];
-
-          for (let j = 0; j < batch.length; j++) {
-            const row = batch[j];
-            const placeholders = columns.map((_, idx) => '?').join(', ');
-            valueStrings.push(`(${placeholders})`);
-            columns.forEach(col => allValues.push(row[col]));
-          }
-
-          const query = `INSERT INTO \`${tableName}\` (${columnNames}) VALUES ${valueStrings.join(', ')}`;
-
-          try {
-            await connection.execute(query, allValues);
-            rowsLoaded += batch.length;
-          } catch (err: any) {
-            // If batch fails, try individual inserts
-            for (let k = 0; k < batch.length; k++) {
-              const row = batch[k];
-              const colNames = columns.map(col => `\`${col}\``).join(', ');
-              const placeholders = columns.map((_, idx) => '?').join(', ');
-              const values = columns.map(col => row[col]);
-
-              try {
-                await connection.execute(`INSERT INTO \`${tableName}\` (${colNames}) VALUES (${placeholders})`, values);
-                rowsLoaded++;
-              } catch (rowErr: any) {
-                errors.push({
-                  row: i + k,
-                  error: rowErr.message,
-                });
-              }
-            }
-          }
-        }
-      }
-
-      await connection.end();
-
-      return {
-        rowsLoaded,
-        errors: errors.length > 0 ? errors : undefined,
-      };
+      // Multi-statement transactions use query; execute would prepare START TRANSACTION and friends
+      return new SqlLoadSession('mysql', (sql, params) => params ? connection.execute(sql, params) : connection.query(sql), input, {
+        createTableIfNotExists: (tableName, data) => this.createTableIfNotExists(connection, database, tableName, data),
+        describeTable: tableName => this.describeTable(connection, database, tableName),
+        inferColumnType: value => this.inferMySqlType(value),
+        referencingTables: tableName => this.referencingTables(connection, database, tableName),
+        close: () => connection.end(),
+      });
     } catch (error: any) {
       await connection.end();
-      throw new Error(`MySQL load data failed: ${error.message}`);
+      throw error;
     }
   }
 }
@@ -1,4 +1,13 @@
-import { ConnectionHandler, SchemaDiscoveryResult, TablePreviewResult, LoadDataInput, LoadDataResult } from '../connection-factory.service';
+import type { Client as PgClient } from 'pg';
+import { ConnectionHandler, SchemaDiscoveryResult, TablePreviewResult, LoadDataInput, LoadDataResult, LoadSession, LoadSessionInput, QueryDataInput, QueryDataResult, ReadChangesInput, ReadChangesResult } from '../connection-factory.service';
+import { buildSelectQuery, quoteTableName } from '../select-query.builder';
+import { PgOutputDecoder } from '../cdc/pgoutput.decoder';
+import { SqlLoadSession } from '../load-session';
+import { TableColumn } from '../schema-evolution';
+
+// Replication slot names are restricted to lower case letters, digits and underscores
+const SLOT_NAME_PATTERN = /^[a-z0-9_]{1,63}$/;
+const DEFAULT_MAX_CHANGES = 10000;
 
 export class PostgreSQLConnection implements ConnectionHandler {
   async test(config: Record<string, any>, credentials: Record<string, string>): Promise<any> {
@@ -225,6 +234,152 @@ export class PostgreSQLConnection implements ConnectionHandler {
     }
   }
 
+  async queryData(
+    config: Record<string, any>,
+    credentials: Record<string, string>,
+    input: QueryDataInput
+  ): Promise<QueryDataResult> {
+    let connectionString = credentials.connectionString || config.connectionString;
+
+    if (!connectionString) {
+      const host = config.host || credentials.host;
+      const port = config.port || credentials.port || 5432;
+      const database = config.database || credentials.database;
+      const user = credentials.username || credentials.user;
+      const password = credentials.password;
+
+      connectionString = `postgresql://${user}:${encodeURIComponent(password)}@${host}:${port}/${database}`;
+      if (config.ssl || credentials.ssl) {
+        connectionString += '?sslmode=require';
+      }
+    }
+
+    // Build before connecting so invalid input never opens a connection
+    const { sql, params } = buildSelectQuery(input, 'postgresql');
+
+    const { Client } = await import('pg');
+    const client = new Client({
+      connectionString,
+      connectionTimeoutMillis: 30000,
+      query_timeout: 300000,
+    });
+
+    try {
+      await client.connect();
+      const result = await client.query(sql, params);
+      await client.end();
+
+      return {
+        rows: result.rows,
+        rowCount: result.rows.length,
+        columns: result.fields.map(field => field.name),
+      };
+    } catch (error: any) {
+      await client.end().catch(() => {});
+      throw new Error(`PostgreSQL query failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reads committed row changes from a logical replication slot through the
+   * pgoutput plugin. The slot is first advanced to input.position, so changes
+   * are only discarded once the caller hands their position back. Updates and
+   * deletes carry full before images only for tables with REPLICA IDENTITY FULL.
+   */
+  async readChanges(
+    config: Record<string, any>,
+    credentials: Record<string, string>,
+    input: ReadChangesInput
+  ): Promise<ReadChangesResult> {
+    const { slotName, publicationName } = input;
+    if (!slotName || !SLOT_NAME_PATTERN.test(slotName)) {
+      throw new Error(`Invalid replication slot name: ${slotName}`);
+    }
+    if (!publicationName || !SLOT_NAME_PATTERN.test(publicationName)) {
+      throw new Error(`Invalid publication name: ${publicationName}`);
+    }
+    if (!input.tables?.length) {
+      throw new Error('Change capture requires at least one table');
+    }
+    const maxEvents = input.maxEvents ?? DEFAULT_MAX_CHANGES;
+
+    let connectionString = credentials.connectionString || config.connectionString;
+
+    if (!connectionString) {
+      const host = config.host || credentials.host;
+      const port = config.port || credentials.port || 5432;
+      const database = config.database || credentials.database;
+      const user = credentials.username || credentials.user;
+      const password = credentials.password;
+
+      connectionString = `postgresql://${user}:${encodeURIComponent(password)}@${host}:${port}/${database}`;
+      if (config.ssl || credentials.ssl) {
+        connectionString += '?sslmode=require';
+      }
+    }
+
+    const { Client, types } = await import('pg');
+    const client = new Client({
+      connectionString,
+      connectionTimeoutMillis: 30000,
+      query_timeout: 300000,
+    });
+
+    try {
+      await client.connect();
+      await this.ensureReplicationSlot(client, slotName, publicationName, input.tables);
+
+      if (input.position) {
+        // Confirms everything up to the position; a slot never moves backwards
+        await client.query('SELECT pg_replication_slot_advance($1, $2::pg_lsn)', [slotName, input.position]);
+      }
+
+      // Peeking leaves the slot in place until the next run confirms the position
+      const result = await client.query(
+        "SELECT data FROM pg_logical_slot_peek_binary_changes($1, NULL, $2, 'proto_version', '1', 'publication_names', $3)",
+        [slotName, maxEvents, publicationName],
+      );
+      await client.end();
+
+      const decoder = new PgOutputDecoder((typeOid, text) => types.getTypeParser(typeOid, 'text')(text));
+      for (const row of result.rows) {
+        decoder.decode(row.data);
+      }
+
+      // The publication may cover more tables than this read asked for
+      const captured = new Set(input.tables.map(table => (table.includes('.') ? table : `public.${table}`)));
+      const events = decoder.committed.filter(event => captured.has(`${event.schema}.${event.table}`));
+
+      return {
+        events,
+        position: decoder.committedPosition ?? input.position,
+        hasMore: result.rows.length >= maxEvents,
+      };
+    } catch (error: any) {
+      await client.end().catch(() => {});
+      throw new Error(`PostgreSQL change capture failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Creates the publication and the pgoutput slot on first use. An existing
+   * publication is left as it is, so its table list can be managed by the DBA.
+   */
+  private async ensureReplicationSlot(client: PgClient, slotName: string, publicationName: string, tables: string[]) {
+    const publication = await client.query('SELECT 1 FROM pg_publication WHERE pubname = $1', [publicationName]);
+    if (publication.rowCount === 0) {
+      const tableList = tables.map(table => quoteTableName(table, 'postgresql')).join(', ');
+      await client.query(`CREATE PUBLICATION "${publicationName}" FOR TABLE ${tableList}`);
+    }
+
+    const slot = await client.query('SELECT plugin FROM pg_replication_slots WHERE slot_name = $1', [slotName]);
+    if (slot.rowCount === 0) {
+      await client.query("SELECT pg_create_logical_replication_slot($1, 'pgoutput')", [slotName]);
+    } else if (slot.rows[0].plugin !== 'pgoutput') {
+      throw new Error(`Replication slot "${slotName}" uses the ${slot.rows[0].plugin} plugin, expected pgoutput`);
+    }
+  }
+
   /**
    * Infer PostgreSQL column type from JavaScript value
    */
@@ -300,11 +455,68 @@ export class PostgreSQLConnection implements ConnectionHandler {
     return true; // Table was created
   }
 
+  /**
+   * Tables with a foreign key to the given table in the public schema, for staging loads
+   */
+  private async referencingTables(client: any, tableName: string): Promise<string[]> {
+    const result = await client.query(
+      `SELECT DISTINCT referencing.relname AS name
+       FROM pg_constraint c
+       JOIN pg_class referenced ON referenced.oid = c.confrelid
+       JOIN pg_class referencing ON referencing.oid = c.conrelid
+       WHERE c.contype = 'f' AND referenced.relname = $1
+         AND referenced.relnamespace = 'public'::regnamespace`,
+      [tableName]
+    );
+
+    return result.rows.map((row: any) => row.name);
+  }
+
+  /**
+   * Columns of a table in the public schema, for load autoEvolve
+   */
+  private async describeTable(client: any, tableName: string): Promise<TableColumn[]> {
+    const result = await client.query(
+      `SELECT column_name, data_type, character_maximum_length, is_nullable
+       FROM information_schema.columns
+       WHERE table_schema = 'public' AND table_name = $1
+       ORDER BY ordinal_position`,
+      [tableName]
+    );
+
+    return result.rows.map((row: any) => ({
+      name: row.column_name,
+      dataType: row.data_type,
+      maxLength: row.character_maximum_length,
+      nullable: row.is_nullable === 'YES',
+    }));
+  }
+
   async loadData(
     config: Record<string, any>,
     credentials: Record<string, string>,
     input: LoadDataInput
   ): Promise<LoadDataResult> {
+    if (!input.data || input.data.length === 0) {
+      return { rowsLoaded: 0 };
+    }
+
+    const session = await this.beginLoad(config, credentials, { ...input, commitMode: 'batch' });
+    try {
+      const result = await session.write(input.data, 0);
+      await session.commit();
+      return result;
+    } catch (error: any) {
+      await session.rollback().catch(() => {});
+      throw new Error(`PostgreSQL load data failed: ${error.message}`);
+    }
+  }
+
+  async beginLoad(
+    config: Record<string, any>,
+    credentials: Record<string, string>,
+    input: LoadSessionInput
+  ): Promise<LoadSession> {
     let connectionString = credentials.connectionString || config.connectionString;
 
     if (!connectionString) {
@@ -327,153 +539,15 @@ export class PostgreSQLConnection implements ConnectionHandler {
       query_timeout: 60000, // Longer timeout for bulk inserts
     });
 
-    const { tableName, data, mode, conflictKey, conflictResolution, autoCreateTable } = input;
-
-    // Validate table name to prevent SQL injection
-    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
-      throw new Error('Invalid table name');
-    }
-
-    if (!data || data.length === 0) {
-      return { rowsLoaded: 0 };
-    }
-
     try {
       await client.connect();
-
-      // Get columns from the first row
-      const columns = Object.keys(data[0]);
-      if (columns.length === 0) {
-        return { rowsLoaded: 0 };
-      }
-
-      // Auto-create table if it doesn't exist (if enabled)
-      const tableCreated = autoCreateTable ? await this.createTableIfNotExists(client, tableName, data) : false;
-      if (tableCreated) {
-        console.log(`[PostgreSQL] Auto-created table "${tableName}" based on source data schema`);
-      }
-
-      const errors: Array<{ row: number; error: string }> = [];
-      let rowsLoaded = 0;
-
-      if (mode === 'insert') {
-        // Simple INSERT for each row
-        for (let i = 0; i < data.length; i++) {
-          const row = data[i];
-          const columnNames = columns.map(col => `"${col}"`).join(', ');
-          const placeholders = columns.map((_, idx) => `$${idx + 1}`).join(', ');
-          const values = columns.map(col => row[col]);
-
-          const query = `INSERT INTO "${tableName}" (${columnNames}) VALUES (${placeholders})`;
-
-          try {
-            await client.query(query, values);
-            rowsLoaded++;
-          } catch (err: any) {
-            errors.push({
-              row: i,
-              error: err.message,
-            });
-          }
-        }
-      } else if (mode === 'upsert' && conflictKey && conflictKey.length > 0) {
-        // UPSERT (INSERT ... ON CONFLICT)
-        const conflictColumns = conflictKey.map(col => `"${col}"`).join(', ');
-        
-        for (let i = 0; i < data.length; i++) {
-          const row = data[i];
-          const columnNames = columns.map(col => `"${col}"`).join(', ');
-          const placeholders = columns.map((_, idx) => `$${idx + 1}`).join(', ');
-          const values = columns.map(col => row[col]);
-
-          // Build ON CONFLICT clause
-          let updateClause = '';
-          if (conflictResolution === 'replace') {
-            // Replace all non-conflict columns
-            const nonConflictCols = columns.filter(col => !conflictKey.includes(col));
-            updateClause = nonConflictCols.map(col => `"${col}" = EXCLUDED."${col}"`).join(', ');
-          } else if (conflictResolution === 'merge') {
-            // Skip on conflict
-            updateClause = 'DO NOTHING';
-          } else {
-            // Default: skip
-            updateClause = 'DO NOTHING';
-          }
-
-          const query = `
-            INSERT INTO "${tableName}" (${columnNames}) 
-            VALUES (${placeholders}) 
-            ON CONFLICT (${conflictColumns}) 
-            ${updateClause !== 'DO NOTHING' ? `DO UPDATE SET ${updateClause}` : updateClause}
-          `;
-
-          try {
-            await client.query(query, values);
-            rowsLoaded++;
-          } catch (err: any) {
-            errors.push({
-              row: i,
-              error: err.message,
-            });
-          }
-        }
-      } else if (mode === 'create') {
-        // CREATE mode - truncate table first then insert
-        try {
-          await client.query(`TRUNCATE TABLE "${tableName}" RESTART IDENTITY CASCADE`);
-        } catch (err: any) {
-          // Table might not exist or can't be truncated, continue with insert
-        }
-
-        // Batch insert for better performance
-        const batchSize = 100;
-        for (let i = 0; i < data.length; i += batchSize) {
-          const batch = data.slice(i, i + batchSize);
-          const columnNames = columns.map(col => `"${col}"`).join(', ');
-
-          const valueStrings: string[] = [];
-          const allValues: any[] = [];
-          
-          for (let j = 0; j < batch.length; j++) {
-            const row = batch[j];
-            const placeholders = columns.map((_, idx) => `$${allValues.length + idx + 1}`).join(', ');
-            valueStrings.push(`(${placeholders})`);
-            columns.forEach(col => allValues.push(row[col]));
-          }
-
-          const query = `INSERT INTO "${tableName}" (${columnNames}) VALUES ${valueStrings.join(', ')}`;
-
-          try {
-            await client.query(query, allValues);
-            rowsLoaded += batch.length;
-          } catch (err: any) {
-            // If batch fails, try individual inserts
-            for (let k = 0; k < batch.length; k++) {
-              const row = batch[k];
-              const colNames = columns.map(col => `"${col}"`).join(', ');
-              const placeholders = columns.map((_, idx) => `$${idx + 1}`).join(', ');
-              const values = columns.map(col => row[col]);
-
-              try {
-                await client.query(`INSERT INTO "${tableName}" (${colNames}) VALUES (${placeholders})`, values);
-                rowsLoaded++;
-              } catch (rowErr: any) {
-                errors.push({
-                  row: i + k,
-                  error: rowErr.message,
-                });
-              }
-            }
-          }
-        }
-      }
-
-      await client.end();
-
-      return {
-        rowsLoaded,
-        errors: errors.length > 0 ? errors : undefined,
-      };
+      return new SqlLoadSession('postgresql', (sql, params) => client.query(sql, params), input, {
+        createTableIfNotExists: (tableName, data) => this.createTableIfNotExists(client, tableName, data),
+        describeTable: tableName => this.describeTable(client, tableName),
+        inferColumnType: value => this.inferPostgresType(value),
+        referencingTables: tableName => this.referencingTables(client, tableName),
+        close: () => client.end(),
+      });
     } catch (error: any) {
       await client.end().catch(() => {});
       throw new Error(`PostgreSQL load data failed: ${error.message}`);
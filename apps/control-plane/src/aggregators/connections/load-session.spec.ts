@@ -0,0 +1,181 @@
+import { SqlLoadSession } from './load-session';
+import { LoadSessionInput } from './connection-factory.service';
+
+describe('SqlLoadSession', () => {
+  // Records every statement; rows with a null email violate a NOT NULL constraint
+  const createDatabase = () => {
+    const statements: string[] = [];
+    const execute = jest.fn(async (sql: string, params?: any[]) => {
+      statements.push(sql);
+      if (sql.startsWith('INSERT INTO') && params?.includes(null)) {
+        throw new Error('null value in column "email" violates not-null constraint');
+      }
+    });
+    const hooks = {
+      createTableIfNotExists: jest.fn().mockResolvedValue(false),
+      describeTable: jest.fn().mockResolvedValue([
+        { name: 'id', dataType: 'integer', nullable: false },
+        { name: 'email', dataType: 'character varying', maxLength: 20, nullable: true },
+      ]),
+      inferColumnType: jest.fn((value: any) => typeof value === 'number' ? 'INTEGER' : 'TEXT'),
+      referencingTables: jest.fn().mockResolvedValue([]),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    return { statements, execute, hooks };
+  };
+
+  const input = (overrides: Partial<LoadSessionInput> = {}): LoadSessionInput => ({
+    tableName: 'customers',
+    mode: 'insert',
+    commitMode: 'transaction',
+    ...overrides,
+  });
+
+  const rows = [
+    { id: 1, email: 'ada@example.com' },
+    { id: 2, email: null },
+    { id: 3, email: 'bob@example.com' },
+  ];
+
+  it('should report rejected rows by their index in the whole load', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession('postgresql', db.execute, input(), db.hooks);
+
+    await session.write([{ id: 0, email: 'x@example.com' }], 0);
+    const result = await session.write(rows, 1);
+    await session.commit();
+
+    expect(result).toEqual({
+      rowsLoaded: 2,
+      errors: [{ row: 2, error: 'null value in column "email" violates not-null constraint' }],
+    });
+    // One transaction; failed statements are undone through a savepoint
+    expect(db.statements.filter(sql => sql === 'BEGIN')).toHaveLength(1);
+    expect(db.statements).toContain('ROLLBACK TO SAVEPOINT load_rows');
+    expect(db.statements[db.statements.length - 1]).toBe('COMMIT');
+    expect(db.hooks.close).toHaveBeenCalled();
+  });
+
+  it('should roll the whole transaction back', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession('mysql', db.execute, input({ mode: 'create' }), db.hooks);
+
+    await session.write(rows.slice(0, 1), 0);
+    await session.rollback();
+
+    expect(db.statements).toEqual([
+      'START TRANSACTION',
+      'DELETE FROM `customers`',
+      'INSERT INTO `customers` (`id`, `email`) VALUES (?, ?)',
+      'ROLLBACK',
+    ]);
+  });
+
+  it('should commit each batch on its own in batch mode', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession('postgresql', db.execute, input({ commitMode: 'batch', mode: 'upsert', conflictKey: ['id'], conflictResolution: 'replace' }), db.hooks);
+
+    await session.write(rows.slice(0, 1), 0);
+    await session.write(rows.slice(2), 1);
+
+    expect(db.statements.filter(sql => sql === 'COMMIT')).toHaveLength(2);
+    expect(db.statements).toContain(
+      'INSERT INTO "customers" ("id", "email") VALUES ($1, $2) ON CONFLICT ("id") DO UPDATE SET "email" = EXCLUDED."email"',
+    );
+  });
+
+  it('should merge the staged rows into the target in one transaction on commit', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession('mysql', db.execute, input({ commitMode: 'staging', mode: 'create' }), db.hooks);
+
+    await session.write(rows.slice(0, 1), 0);
+    await session.commit();
+
+    const staging = db.statements[0].match(/CREATE TABLE `(customers__stg_\w+)` LIKE `customers`/)?.[1];
+    expect(staging).toBeDefined();
+    expect(db.statements.slice(1)).toEqual([
+      `INSERT INTO \`${staging}\` (\`id\`, \`email\`) VALUES (?, ?)`,
+      'START TRANSACTION',
+      'DELETE FROM `customers`',
+      `INSERT INTO \`customers\` (\`id\`, \`email\`) SELECT * FROM (SELECT \`id\`, \`email\` FROM \`${staging}\`) AS staged`,
+      'COMMIT',
+      `DROP TABLE \`${staging}\``,
+    ]);
+  });
+
+  it('should upsert staged rows without touching the target\'s other rows', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession(
+      'postgresql', db.execute, input({ commitMode: 'staging', mode: 'upsert', conflictKey: ['id'], conflictResolution: 'replace' }), db.hooks,
+    );
+
+    await session.write(rows.slice(0, 1), 0);
+    await session.commit();
+
+    expect(db.statements.some(sql => sql.startsWith('DELETE'))).toBe(false);
+    expect(db.statements).toContainEqual(expect.stringMatching(
+      /^INSERT INTO "customers" \("id", "email"\) OVERRIDING SYSTEM VALUE SELECT "id", "email" FROM "customers__stg_\w+" ON CONFLICT \("id"\) DO UPDATE SET "email" = EXCLUDED."email"$/,
+    ));
+    expect(db.hooks.referencingTables).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a staging create load into a table other tables reference', async () => {
+    const db = createDatabase();
+    db.hooks.referencingTables.mockResolvedValue(['orders']);
+    const session = new SqlLoadSession('postgresql', db.execute, input({ commitMode: 'staging', mode: 'create' }), db.hooks);
+
+    await expect(session.write(rows.slice(0, 1), 0)).rejects.toThrow(
+      'A staging create load deletes every row of "customers", which "orders" reference by foreign key; use a transaction load instead',
+    );
+    expect(db.hooks.referencingTables).toHaveBeenCalledWith('customers');
+    expect(db.statements).toEqual([]);
+  });
+
+  it('should drop the staging table on rollback', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession('postgresql', db.execute, input({ commitMode: 'staging' }), db.hooks);
+
+    await session.write(rows.slice(0, 1), 0);
+    await session.rollback();
+
+    expect(db.statements[0]).toMatch(/^CREATE TABLE "customers__stg_\w+" \(LIKE "customers" INCLUDING DEFAULTS INCLUDING IDENTITY INCLUDING INDEXES\)$/);
+    expect(db.statements.some(sql => / "customers" /.test(sql) && sql.startsWith('INSERT'))).toBe(false);
+    expect(db.statements[db.statements.length - 1]).toMatch(/^DROP TABLE IF EXISTS "customers__stg_\w+"$/);
+  });
+
+  it('should add and widen columns before the load transaction opens', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession('postgresql', db.execute, input({ autoEvolve: true }), db.hooks);
+
+    const result = await session.write([
+      { id: 1, email: 'a-rather-long-address@example.com', score: 3 },
+      { id: 2, email: 'ada@example.com', score: 7 },
+    ], 0);
+    await session.commit();
+
+    expect(db.statements.slice(0, 3)).toEqual([
+      'ALTER TABLE "customers" ALTER COLUMN "email" TYPE VARCHAR(40)',
+      'ALTER TABLE "customers" ADD COLUMN "score" INTEGER',
+      'BEGIN',
+    ]);
+    expect(db.statements[3]).toBe('SAVEPOINT load_rows');
+    expect(db.statements[4]).toBe('INSERT INTO "customers" ("id", "email", "score") VALUES ($1, $2, $3), ($4, $5, $6)');
+    expect(result.schemaChanges?.map(change => change.change)).toEqual(['column-widened', 'column-added']);
+  });
+
+  it('should fail a MySQL transaction load when a later batch needs new columns', async () => {
+    const db = createDatabase();
+    const session = new SqlLoadSession('mysql', db.execute, input({ autoEvolve: true }), db.hooks);
+
+    await session.write(rows.slice(0, 1), 0);
+
+    await expect(session.write([{ id: 4, email: 'eve@example.com', score: 1 }], 1))
+      .rejects.toThrow('Cannot change "score" of table "customers" after a transaction load has started');
+    expect(db.statements.some(sql => sql.startsWith('ALTER TABLE'))).toBe(false);
+  });
+
+  it('should refuse upserts without a conflict key', () => {
+    const db = createDatabase();
+    expect(() => new SqlLoadSession('mysql', db.execute, input({ mode: 'upsert' }), db.hooks)).toThrow('conflictKey');
+  });
+});
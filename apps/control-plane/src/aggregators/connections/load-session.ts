@@ -0,0 +1,370 @@
+import { Logger } from '@nestjs/common';
+import { LoadDataResult, LoadRowError, LoadSession, LoadSessionInput, SchemaEvolution } from './connection-factory.service';
+import { SqlDialect } from './select-query.builder';
+import { TableColumn, planSchemaEvolution, rowColumns } from './schema-evolution';
+
+/** Runs one statement on the session's connection */
+export type SqlExecutor = (sql: string, params?: any[]) => Promise<unknown>;
+
+export interface SqlLoadSessionHooks {
+  /** Creates the target table from sample rows when it does not exist */
+  createTableIfNotExists(tableName: string, data: any[]): Promise<boolean>;
+  /** Columns of the target table; empty when it does not exist */
+  describeTable(tableName: string): Promise<TableColumn[]>;
+  /** Column type for a new column, as createTableIfNotExists would pick it */
+  inferColumnType(value: any): string;
+  /** Tables with a foreign key to the target table, itself included */
+  referencingTables(tableName: string): Promise<string[]>;
+  /** Closes the underlying connection */
+  close(): Promise<void>;
+}
+
+// Both drivers cap a statement at 65535 bound parameters
+const MAX_STATEMENT_PARAMS = 60000;
+const MAX_STATEMENT_ROWS = 500;
+
+/**
+ * Load session over a single MySQL or PostgreSQL connection.
+ *
+ * Each batch is first written with multi-row statements; when one fails, its
+ * rows are retried one by one so a bad row is reported with its index instead
+ * of sinking its neighbours. Inside a PostgreSQL transaction every attempt runs
+ * under a savepoint, since one failed statement would abort the transaction;
+ * MySQL rolls back the failed statement on its own.
+ *
+ * With autoEvolve, every batch is checked against the target's columns first.
+ * A staging table takes the target's columns up front, and MySQL commits on
+ * DDL, so staging loads and MySQL transaction loads fail when a later batch
+ * needs a change the first one did not.
+ *
+ * Staging loads collect only the loaded rows and merge them into the target in
+ * one transaction on commit, so rows other writers add meanwhile are kept and
+ * the target keeps its foreign keys and triggers. Create loads delete every
+ * target row in that transaction, so they refuse targets that other tables
+ * reference by foreign key.
+ */
+export class SqlLoadSession implements LoadSession {
+  private readonly logger = new Logger(SqlLoadSession.name);
+  private started = false;
+  private inTransaction = false;
+  private stagingTable?: string;
+  private columns?: TableColumn[];
+  private readonly written = new Set<string>();
+  private readonly refused = new Set<string>();
+
+  constructor(
+    private readonly dialect: SqlDialect,
+    private readonly execute: SqlExecutor,
+    private readonly input: LoadSessionInput,
+    private readonly hooks: SqlLoadSessionHooks,
+  ) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(input.tableName)) {
+      throw new Error('Invalid table name');
+    }
+    if (input.mode === 'upsert' && !input.conflictKey?.length) {
+      throw new Error('upsert mode requires a conflictKey');
+    }
+  }
+
+  async write(data: any[], rowOffset: number): Promise<LoadDataResult> {
+    if (!data || data.length === 0 || Object.keys(data[0]).length === 0) {
+      return { rowsLoaded: 0 };
+    }
+    const schemaChanges = !this.started
+      ? await this.start(data)
+      : this.input.autoEvolve ? await this.evolve(data) : [];
+
+    const result = await this.load(data, rowOffset);
+    return schemaChanges.length > 0 ? { ...result, schemaChanges } : result;
+  }
+
+  private async load(data: any[], rowOffset: number): Promise<LoadDataResult> {
+    if (this.input.commitMode !== 'batch') {
+      return this.writeRows(data, rowOffset);
+    }
+
+    await this.begin();
+    try {
+      const result = await this.writeRows(data, rowOffset);
+      await this.execute('COMMIT');
+      this.inTransaction = false;
+      return result;
+    } catch (error) {
+      await this.execute('ROLLBACK').catch(() => {});
+      this.inTransaction = false;
+      throw error;
+    }
+  }
+
+  async commit(): Promise<void> {
+    try {
+      if (this.inTransaction) {
+        await this.execute('COMMIT');
+        this.inTransaction = false;
+      }
+      if (this.stagingTable) {
+        await this.mergeStagingTable(this.stagingTable);
+        this.stagingTable = undefined;
+      }
+    } catch (error) {
+      await this.rollback().catch(() => {});
+      throw error;
+    }
+    await this.hooks.close();
+  }
+
+  async rollback(): Promise<void> {
+    try {
+      if (this.inTransaction) {
+        await this.execute('ROLLBACK');
+        this.inTransaction = false;
+      }
+      if (this.stagingTable) {
+        await this.execute(`DROP TABLE IF EXISTS ${this.quote(this.stagingTable)}`);
+        this.stagingTable = undefined;
+      }
+    } finally {
+      await this.hooks.close();
+    }
+  }
+
+  /**
+   * Prepares the destination on the first batch: creates or evolves the
+   * table, sets up staging and opens the load transaction. DDL runs before
+   * BEGIN because MySQL commits implicitly on it.
+   */
+  private async start(data: any[]): Promise<SchemaEvolution[]> {
+    this.started = true;
+    const { tableName, mode, commitMode, autoCreateTable, autoEvolve } = this.input;
+
+    if (autoCreateTable && await this.hooks.createTableIfNotExists(tableName, data)) {
+      this.logger.log(`Auto-created ${this.label} table "${tableName}" based on source data schema`);
+    }
+    const schemaChanges = autoEvolve ? await this.evolve(data) : [];
+
+    if (commitMode === 'staging') {
+      if (mode === 'create') {
+        const referencing = await this.hooks.referencingTables(tableName);
+        if (referencing.length > 0) {
+          throw new Error(
+            `A staging create load deletes every row of "${tableName}", which ` +
+            `${referencing.map(table => `"${table}"`).join(', ')} reference by foreign key; use a transaction load instead`
+          );
+        }
+      }
+      this.stagingTable = `${tableName.slice(0, 40)}__stg_${Date.now().toString(36)}`;
+      await this.createStagingTable(this.stagingTable);
+      return schemaChanges;
+    }
+
+    if (commitMode === 'transaction') {
+      await this.begin();
+    }
+
+    if (mode === 'create') {
+      if (commitMode === 'transaction') {
+        // TRUNCATE cannot be rolled back in MySQL
+        await this.execute(`DELETE FROM ${this.quote(tableName)}`);
+      } else {
+        try {
+          await this.execute(this.dialect === 'postgresql'
+            ? `TRUNCATE TABLE ${this.quote(tableName)} RESTART IDENTITY CASCADE`
+            : `TRUNCATE TABLE ${this.quote(tableName)}`);
+        } catch {
+          // Table might not exist or can't be truncated, continue with insert
+        }
+      }
+    }
+    return schemaChanges;
+  }
+
+  /**
+   * Adds and widens target columns for a batch. Refusals are reported once per
+   * column and type; the rows behind them fail on insert as they would have.
+   */
+  private async evolve(data: any[]): Promise<SchemaEvolution[]> {
+    const { tableName, commitMode } = this.input;
+    this.columns ??= await this.hooks.describeTable(tableName);
+    if (this.columns.length === 0) {
+      // No table to evolve; the insert reports that
+      return [];
+    }
+
+    const changes = planSchemaEvolution(this.dialect, tableName, this.columns, data, value => this.hooks.inferColumnType(value))
+      .filter(change => change.change !== 'refused' || !this.refused.has(`${change.column}:${change.to}`));
+    const ddl = changes.filter(change => change.statement);
+
+    if (ddl.length > 0 && (this.stagingTable || (this.inTransaction && this.dialect === 'mysql'))) {
+      throw new Error(
+        `Cannot change ${ddl.map(change => `"${change.column}"`).join(', ')} of table "${tableName}" ` +
+        `after a ${commitMode} load has started; the first batch must bring every column`
+      );
+    }
+
+    for (const change of ddl) {
+      await this.execute(change.statement!);
+      this.logger.log(`Evolved ${this.label} table "${tableName}": ${change.statement}`);
+    }
+    for (const change of changes.filter(change => change.change === 'refused')) {
+      this.refused.add(`${change.column}:${change.to}`);
+    }
+    if (ddl.length > 0) {
+      this.columns = await this.hooks.describeTable(tableName);
+    }
+    return changes;
+  }
+
+  private get label(): string {
+    return this.dialect === 'mysql' ? 'MySQL' : 'PostgreSQL';
+  }
+
+  private async begin() {
+    await this.execute(this.dialect === 'mysql' ? 'START TRANSACTION' : 'BEGIN');
+    this.inTransaction = true;
+  }
+
+  private async writeRows(data: any[], rowOffset: number): Promise<LoadDataResult> {
+    // Evolving loads take every key of the batch; otherwise the first row sets the columns
+    const columns = this.input.autoEvolve ? rowColumns(data) : Object.keys(data[0]);
+    columns.forEach(column => this.written.add(column));
+    const rowsPerStatement = Math.max(1, Math.min(MAX_STATEMENT_ROWS, Math.floor(MAX_STATEMENT_PARAMS / columns.length)));
+    const errors: LoadRowError[] = [];
+    let rowsLoaded = 0;
+
+    for (let start = 0; start < data.length; start += rowsPerStatement) {
+      const rows = data.slice(start, start + rowsPerStatement);
+      try {
+        await this.attempt(this.insertStatement(columns, rows));
+        rowsLoaded += rows.length;
+        continue;
+      } catch (error) {
+        if (isFatal(error)) throw error;
+        if (rows.length === 1) {
+          errors.push({ row: rowOffset + start, error: error.message });
+          continue;
+        }
+      }
+
+      for (let i = 0; i < rows.length; i++) {
+        try {
+          await this.attempt(this.insertStatement(columns, [rows[i]]));
+          rowsLoaded++;
+        } catch (error) {
+          if (isFatal(error)) throw error;
+          errors.push({ row: rowOffset + start + i, error: error.message });
+        }
+      }
+    }
+
+    return { rowsLoaded, errors: errors.length > 0 ? errors : undefined };
+  }
+
+  private async attempt(statement: { sql: string; params: any[] }) {
+    if (!this.inTransaction || this.dialect !== 'postgresql') {
+      await this.execute(statement.sql, statement.params);
+      return;
+    }
+
+    await this.execute('SAVEPOINT load_rows');
+    try {
+      await this.execute(statement.sql, statement.params);
+    } catch (error) {
+      await this.execute('ROLLBACK TO SAVEPOINT load_rows');
+      throw error;
+    }
+    await this.execute('RELEASE SAVEPOINT load_rows');
+  }
+
+  private insertStatement(columns: string[], rows: any[]): { sql: string; params: any[] } {
+    const params: any[] = [];
+    const tuples = rows.map(row => `(${columns.map(column => {
+      params.push(row[column] ?? null);
+      return this.dialect === 'postgresql' ? `$${params.length}` : '?';
+    }).join(', ')})`);
+
+    const table = this.quote(this.stagingTable ?? this.input.tableName);
+    const columnList = columns.map(column => this.quote(column)).join(', ');
+    const sql = `INSERT INTO ${table} (${columnList}) VALUES ${tuples.join(', ')}${this.conflictClause(columns)}`;
+    return { sql, params };
+  }
+
+  /**
+   * Upsert clause for the given columns. MySQL reads the new values from a
+   * derived table when merging staged rows, since VALUES() only sees a VALUES list.
+   */
+  private conflictClause(columns: string[], source?: string): string {
+    const { mode, conflictKey, conflictResolution } = this.input;
+    if (mode !== 'upsert') {
+      return '';
+    }
+
+    const keys = conflictKey!;
+    const updated = conflictResolution === 'replace' ? columns.filter(column => !keys.includes(column)) : [];
+
+    if (this.dialect === 'postgresql') {
+      const target = keys.map(key => this.quote(key)).join(', ');
+      return updated.length > 0
+        ? ` ON CONFLICT (${target}) DO UPDATE SET ${updated.map(column => `${this.quote(column)} = EXCLUDED.${this.quote(column)}`).join(', ')}`
+        : ` ON CONFLICT (${target}) DO NOTHING`;
+    }
+
+    // MySQL has no DO NOTHING; assigning the key to itself keeps the existing row
+    const value = (column: string) => source ? `${source}.${this.quote(column)}` : `VALUES(${this.quote(column)})`;
+    return updated.length > 0
+      ? ` ON DUPLICATE KEY UPDATE ${updated.map(column => `${this.quote(column)} = ${value(column)}`).join(', ')}`
+      : ` ON DUPLICATE KEY UPDATE ${this.quote(keys[0])} = ${this.quote(keys[0])}`;
+  }
+
+  /**
+   * Creates an empty table with the target's columns, keys and defaults, so
+   * staged upserts already collapse rows that share a key
+   */
+  private async createStagingTable(stagingTable: string) {
+    const target = this.quote(this.input.tableName);
+    const staging = this.quote(stagingTable);
+
+    await this.execute(this.dialect === 'postgresql'
+      ? `CREATE TABLE ${staging} (LIKE ${target} INCLUDING DEFAULTS INCLUDING IDENTITY INCLUDING INDEXES)`
+      : `CREATE TABLE ${staging} LIKE ${target}`);
+  }
+
+  /**
+   * Moves the staged rows into the target in one transaction, as the load's
+   * own statements would have written them; create loads first delete the
+   * target's rows. Only the loaded columns are copied, so the target fills the
+   * others from its own defaults and sequences. The staging table is dropped
+   * after COMMIT since MySQL commits on DDL.
+   */
+  private async mergeStagingTable(stagingTable: string) {
+    const target = this.quote(this.input.tableName);
+    const staging = this.quote(stagingTable);
+    const columns = [...this.written];
+    const columnList = columns.map(column => this.quote(column)).join(', ');
+
+    await this.begin();
+    if (this.input.mode === 'create') {
+      await this.execute(`DELETE FROM ${target}`);
+    }
+    if (columns.length > 0) {
+      await this.execute(this.dialect === 'postgresql'
+        ? `INSERT INTO ${target} (${columnList}) OVERRIDING SYSTEM VALUE SELECT ${columnList} FROM ${staging}${this.conflictClause(columns)}`
+        : `INSERT INTO ${target} (${columnList}) SELECT * FROM (SELECT ${columnList} FROM ${staging}) AS staged${this.conflictClause(columns, 'staged')}`);
+    }
+    await this.execute('COMMIT');
+    this.inTransaction = false;
+    await this.execute(`DROP TABLE ${staging}`);
+  }
+
+  private quote(identifier: string): string {
+    return this.dialect === 'postgresql'
+      ? `"${identifier.replace(/"/g, '""')}"`
+      : `\`${identifier.replace(/`/g, '``')}\``;
+  }
+}
+
+// The connection or the whole transaction is gone; retrying row by row would only repeat it
+function isFatal(error: any): boolean {
+  return error.errno === 1213 // MySQL deadlock, which rolls back the transaction
+    || ['ECONNRESET', 'EPIPE', 'PROTOCOL_CONNECTION_LOST'].includes(error.code)
+    || /Connection terminated/i.test(error.message);
+}
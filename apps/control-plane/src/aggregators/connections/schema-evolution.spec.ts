@@ -0,0 +1,52 @@
+import { planSchemaEvolution, TableColumn } from './schema-evolution';
+
+describe('planSchemaEvolution', () => {
+  const inferType = (value: any) => typeof value === 'number' ? 'INT' : 'VARCHAR(255)';
+
+  it('should move integer columns to the narrowest wider type', () => {
+    const columns: TableColumn[] = [
+      { name: 'id', dataType: 'int', columnType: 'int unsigned', nullable: false, extra: 'auto_increment' },
+      { name: 'views', dataType: 'smallint', columnType: 'smallint', nullable: true, defaultValue: '0' },
+    ];
+
+    expect(planSchemaEvolution('mysql', 'pages', columns, [{ id: 3_000_000_000, views: 9_000_000 }], inferType)).toEqual([
+      {
+        table: 'pages',
+        column: 'views',
+        change: 'column-widened',
+        from: 'smallint',
+        to: 'INT',
+        statement: 'ALTER TABLE `pages` MODIFY COLUMN `views` INT NULL DEFAULT 0',
+      },
+    ]);
+    expect(planSchemaEvolution('mysql', 'pages', columns, [{ id: 5_000_000_000 }], inferType)[0].statement)
+      .toBe('ALTER TABLE `pages` MODIFY COLUMN `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT');
+  });
+
+  it('should size new varchar columns and restate the character set when widening', () => {
+    const columns: TableColumn[] = [
+      { name: 'name', dataType: 'varchar', columnType: 'varchar(10)', maxLength: 10, nullable: false, charset: 'utf8mb4', collation: 'utf8mb4_bin' },
+    ];
+    const bio = 'x'.repeat(300);
+
+    expect(planSchemaEvolution('mysql', 'people', columns, [{ name: 'Grace Hopper!', bio }], inferType).map(change => change.statement)).toEqual([
+      'ALTER TABLE `people` MODIFY COLUMN `name` VARCHAR(20) CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL',
+      'ALTER TABLE `people` ADD COLUMN `bio` VARCHAR(300)',
+    ]);
+  });
+
+  it('should refuse changes that could lose data', () => {
+    const columns: TableColumn[] = [
+      { name: 'qty', dataType: 'integer', nullable: true },
+      { name: 'code', dataType: 'character', maxLength: 2, nullable: true },
+      { name: 'note', dataType: 'text', nullable: true },
+    ];
+
+    const changes = planSchemaEvolution('postgresql', 'items', columns, [{ qty: 1.5, code: 'ABC', note: 'fine' }], inferType);
+
+    expect(changes.map(change => [change.column, change.change, change.statement])).toEqual([
+      ['qty', 'refused', undefined],
+      ['code', 'refused', undefined],
+    ]);
+  });
+});
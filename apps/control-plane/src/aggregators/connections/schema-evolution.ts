@@ -0,0 +1,220 @@
+import { SchemaEvolution } from './connection-factory.service';
+import { SqlDialect } from './select-query.builder';
+
+/** A column of the load target, as read from information_schema.columns */
+export interface TableColumn {
+  name: string;
+  /** data_type, e.g. integer, character varying, int, varchar */
+  dataType: string;
+  maxLength?: number | null;
+  nullable: boolean;
+  /** MySQL only: the full column_type, e.g. "int unsigned" */
+  columnType?: string;
+  defaultValue?: string | null;
+  extra?: string;
+  charset?: string | null;
+  collation?: string | null;
+  comment?: string | null;
+}
+
+// Integer types by width; a column only ever moves to a wider one
+const INTEGER_TYPES: Record<SqlDialect, { name: string; bits: number }[]> = {
+  postgresql: [
+    { name: 'smallint', bits: 16 },
+    { name: 'integer', bits: 32 },
+    { name: 'bigint', bits: 64 },
+  ],
+  mysql: [
+    { name: 'tinyint', bits: 8 },
+    { name: 'smallint', bits: 16 },
+    { name: 'mediumint', bits: 24 },
+    { name: 'int', bits: 32 },
+    { name: 'bigint', bits: 64 },
+  ],
+};
+
+const VARCHAR_TYPES = ['character varying', 'varchar'];
+const CHAR_TYPES = ['character', 'char'];
+
+// MySQL rows hold 65535 bytes, which is 16383 utf8mb4 characters
+const MAX_VARCHAR_LENGTH: Record<SqlDialect, number> = { postgresql: 10485760, mysql: 16383 };
+
+/**
+ * Works out the DDL that lets the target table take a batch: columns the
+ * batch brings are added, integer columns move to a wider integer type and
+ * varchar columns to a longer length. Everything else that does not fit is
+ * refused rather than converted, since that could lose data already loaded.
+ * inferType gives the type of a new column from a sample value, the same way
+ * autoCreateTable does.
+ */
+export function planSchemaEvolution(
+  dialect: SqlDialect,
+  tableName: string,
+  columns: TableColumn[],
+  data: any[],
+  inferType: (value: any) => string,
+): SchemaEvolution[] {
+  const existing = new Map(columns.map(column => [column.name, column]));
+  const table = quote(tableName, dialect);
+  const changes: SchemaEvolution[] = [];
+
+  for (const name of rowColumns(data)) {
+    const values = data.map(row => row[name]).filter(value => value !== null && value !== undefined);
+    const column = existing.get(name);
+
+    if (!column) {
+      const type = fitNewColumn(dialect, inferType(values[0]), values);
+      changes.push({
+        table: tableName,
+        column: name,
+        change: 'column-added',
+        to: type,
+        statement: `ALTER TABLE ${table} ADD COLUMN ${quote(name, dialect)} ${type}`,
+      });
+      continue;
+    }
+
+    const change = widenColumn(dialect, column, values);
+    if (!change) {
+      continue;
+    }
+    if ('reason' in change) {
+      changes.push({ table: tableName, column: name, change: 'refused', from: typeOf(column), to: change.to, reason: change.reason });
+      continue;
+    }
+
+    const definition = dialect === 'postgresql'
+      ? { sql: `ALTER TABLE ${table} ALTER COLUMN ${quote(name, dialect)} TYPE ${change.type}` }
+      : mysqlModify(table, column, change.type);
+    changes.push('reason' in definition
+      ? { table: tableName, column: name, change: 'refused', from: typeOf(column), to: change.type, reason: definition.reason }
+      : { table: tableName, column: name, change: 'column-widened', from: typeOf(column), to: change.type, statement: definition.sql });
+  }
+
+  return changes;
+}
+
+/** Keys of all rows, in order of first appearance; rows need not share keys */
+export function rowColumns(data: any[]): string[] {
+  const names = new Set<string>();
+  for (const row of data) {
+    for (const key of Object.keys(row ?? {})) {
+      names.add(key);
+    }
+  }
+  return [...names];
+}
+
+function fitNewColumn(dialect: SqlDialect, inferred: string, values: any[]): string {
+  const length = /^varchar\((\d+)\)$/i.exec(inferred);
+  const needed = longestString(values);
+  if (!length || needed <= Number(length[1])) {
+    return inferred;
+  }
+  return needed <= MAX_VARCHAR_LENGTH[dialect] ? `VARCHAR(${needed})` : 'TEXT';
+}
+
+function widenColumn(
+  dialect: SqlDialect,
+  column: TableColumn,
+  values: any[],
+): { type: string } | { to: string; reason: string } | null {
+  const dataType = column.dataType.toLowerCase();
+  const integers = INTEGER_TYPES[dialect];
+  const current = integers.find(type => type.name === dataType);
+
+  // MySQL booleans are tinyint(1); they are not widened into numbers
+  if (current && !/^tinyint\(1\)/i.test(column.columnType ?? '')) {
+    const numbers = values.filter(value => typeof value === 'number');
+    if (numbers.some(value => !Number.isInteger(value))) {
+      return { to: 'decimal', reason: 'fractional values do not fit an integer column and it is not converted to a decimal type' };
+    }
+    const unsigned = /unsigned/i.test(column.columnType ?? '');
+    if (unsigned && numbers.some(value => value < 0)) {
+      return { to: `${dataType} signed`, reason: 'negative values do not fit an unsigned column' };
+    }
+
+    const fits = (bits: number) => numbers.every(value => unsigned
+      ? value <= 2 ** bits - 1
+      : value >= -(2 ** (bits - 1)) && value <= 2 ** (bits - 1) - 1);
+    if (fits(current.bits)) {
+      return null;
+    }
+    const wider = integers.find(type => type.bits > current.bits && fits(type.bits));
+    if (!wider) {
+      return { to: 'numeric', reason: 'values exceed the widest integer type' };
+    }
+    return { type: `${wider.name.toUpperCase()}${unsigned ? ' UNSIGNED' : ''}` };
+  }
+
+  const isVarchar = VARCHAR_TYPES.includes(dataType);
+  if (!isVarchar && !CHAR_TYPES.includes(dataType)) {
+    return null;
+  }
+  const needed = longestString(values);
+  if (!column.maxLength || needed <= column.maxLength) {
+    return null;
+  }
+  if (!isVarchar) {
+    return { to: `varchar(${needed})`, reason: 'fixed-length columns are not converted to varchar' };
+  }
+  if (needed > MAX_VARCHAR_LENGTH[dialect]) {
+    return { to: `varchar(${needed})`, reason: `values are longer than the longest varchar (${MAX_VARCHAR_LENGTH[dialect]})` };
+  }
+  // Leave headroom so a column does not grow one character per load
+  return { type: `VARCHAR(${Math.min(Math.max(needed, column.maxLength * 2), MAX_VARCHAR_LENGTH[dialect])})` };
+}
+
+/**
+ * MODIFY COLUMN replaces the whole column definition, so nullability, the
+ * default, character set, AUTO_INCREMENT and the comment are restated. Columns
+ * with expression defaults or ON UPDATE clauses are left alone.
+ */
+function mysqlModify(table: string, column: TableColumn, type: string): { sql: string } | { reason: string } {
+  const extra = column.extra ?? '';
+  if (/DEFAULT_GENERATED|on update/i.test(extra)) {
+    return { reason: 'the column has an expression default that cannot be restated' };
+  }
+
+  let definition = type;
+  if (column.charset && column.collation && /^\w+$/.test(column.charset) && /^\w+$/.test(column.collation)) {
+    definition += ` CHARACTER SET ${column.charset} COLLATE ${column.collation}`;
+  }
+  definition += column.nullable ? ' NULL' : ' NOT NULL';
+  if (column.defaultValue !== null && column.defaultValue !== undefined) {
+    if (/int$/i.test(column.dataType) && !/^-?\d+$/.test(column.defaultValue)) {
+      return { reason: 'the column default cannot be restated' };
+    }
+    definition += ` DEFAULT ${/int$/i.test(column.dataType) ? column.defaultValue : literal(column.defaultValue)}`;
+  }
+  if (/auto_increment/i.test(extra)) {
+    definition += ' AUTO_INCREMENT';
+  }
+  if (column.comment) {
+    definition += ` COMMENT ${literal(column.comment)}`;
+  }
+
+  return { sql: `ALTER TABLE ${table} MODIFY COLUMN ${quote(column.name, 'mysql')} ${definition}` };
+}
+
+function typeOf(column: TableColumn): string {
+  if (column.columnType) {
+    return column.columnType;
+  }
+  return column.maxLength ? `${column.dataType}(${column.maxLength})` : column.dataType;
+}
+
+// Length in characters, which is what varchar(n) counts
+function longestString(values: any[]): number {
+  return values.reduce((longest, value) => typeof value === 'string' ? Math.max(longest, [...value].length) : longest, 0);
+}
+
+function literal(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+}
+
+function quote(identifier: string, dialect: SqlDialect): string {
+  return dialect === 'postgresql'
+    ? `"${identifier.replace(/"/g, '""')}"`
+    : `\`${identifier.replace(/`/g, '``')}\``;
+}
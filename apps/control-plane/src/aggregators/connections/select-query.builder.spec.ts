@@ -0,0 +1,92 @@
+import { buildSelectQuery, parseOrderBy } from './select-query.builder';
+
+describe('buildSelectQuery', () => {
+  it('should project columns and bind filter values as parameters', () => {
+    const { sql, params } = buildSelectQuery(
+      {
+        tableName: 'customers',
+        columns: ['id', 'email'],
+        filters: [
+          { column: 'status', operator: 'eq', value: 'active' },
+          { column: 'country', operator: 'in', value: ['DE', 'FR'] },
+          { column: 'deleted_at', operator: 'isNull' },
+        ],
+        orderBy: [{ column: 'id', direction: 'desc' }],
+        limit: 100,
+        offset: 200,
+      },
+      'postgresql',
+    );
+
+    expect(sql).toBe(
+      'SELECT "id", "email" FROM "customers" WHERE "status" = $1 AND "country" IN ($2, $3) AND "deleted_at" IS NULL ' +
+      'ORDER BY "id" DESC LIMIT 100 OFFSET 200',
+    );
+    expect(params).toEqual(['active', 'DE', 'FR']);
+  });
+
+  it('should use MySQL quoting and placeholders', () => {
+    const { sql, params } = buildSelectQuery(
+      {
+        tableName: 'shop.orders',
+        columns: ['*'],
+        filters: [{ column: 'total', operator: 'gte', value: 10 }],
+        where: "channel <> 'test'",
+        offset: 50,
+      },
+      'mysql',
+    );
+
+    expect(sql).toBe(
+      "SELECT * FROM `shop`.`orders` WHERE `total` >= ? AND (channel <> 'test') LIMIT 18446744073709551615 OFFSET 50",
+    );
+    expect(params).toEqual([10]);
+  });
+
+  it('should continue after a keyset position with NULLs ordered alike on both dialects', () => {
+    const input = {
+      tableName: 'orders',
+      filters: [{ column: 'status', operator: 'eq' as const, value: 'open' }],
+      orderBy: [{ column: 'region', direction: 'asc' as const }, { column: 'id', direction: 'asc' as const }],
+      keyset: { after: ['eu', 41] },
+      limit: 100,
+    };
+
+    const postgres = buildSelectQuery(input, 'postgresql');
+    expect(postgres.sql).toBe(
+      'SELECT * FROM "orders" WHERE "status" = $1 AND ("region" > $2 OR ("region" = $3 AND ("id" > $4))) ' +
+      'ORDER BY "region" ASC NULLS FIRST, "id" ASC NULLS FIRST LIMIT 100',
+    );
+    expect(postgres.params).toEqual(['open', 'eu', 'eu', 41]);
+
+    // After a NULL region come the other NULL regions with a later id, then every region
+    const mysql = buildSelectQuery({ ...input, keyset: { after: [null, 41] } }, 'mysql');
+    expect(mysql.sql).toBe(
+      'SELECT * FROM `orders` WHERE `status` = ? AND ((`region` IS NULL AND (`id` > ?)) OR `region` IS NOT NULL) ' +
+      'ORDER BY `region` ASC, `id` ASC LIMIT 100',
+    );
+    expect(mysql.params).toEqual(['open', 41]);
+  });
+
+  it('should reject identifiers and values that would be interpolated unsafely', () => {
+    expect(() => buildSelectQuery({ tableName: 'users; DROP TABLE users' }, 'mysql')).toThrow('Invalid identifier');
+    expect(() => buildSelectQuery({ tableName: 'users', columns: ['name"--'] }, 'postgresql')).toThrow('Invalid identifier');
+    expect(() => buildSelectQuery({ tableName: 'users', where: '1=1; DELETE FROM users' }, 'mysql')).toThrow(
+      'statement separators',
+    );
+    expect(() => buildSelectQuery({ tableName: 'users', limit: 1.5 }, 'mysql')).toThrow('Invalid limit');
+    expect(() =>
+      buildSelectQuery({ tableName: 'users', filters: [{ column: 'id', operator: 'in', value: [] }] }, 'mysql'),
+    ).toThrow('non-empty array');
+  });
+});
+
+describe('parseOrderBy', () => {
+  it('should parse comma separated terms with optional directions', () => {
+    expect(parseOrderBy('created_at DESC, id')).toEqual([
+      { column: 'created_at', direction: 'desc' },
+      { column: 'id', direction: 'asc' },
+    ]);
+    expect(() => parseOrderBy('id; DROP')).toThrow('Invalid ORDER BY term');
+  });
+});
@@ -0,0 +1,188 @@
+import { QueryDataInput, QueryFilter, QueryOrderBy } from './connection-factory.service';
+
+export type SqlDialect = 'mysql' | 'postgresql';
+
+export interface BuiltQuery {
+  sql: string;
+  params: any[];
+}
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+const COMPARISON_OPERATORS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+};
+
+/**
+ * Builds a SELECT for QueryDataInput. Identifiers are validated and quoted for
+ * the dialect, filter values are bound as parameters and limit/offset must be
+ * non-negative integers, so nothing from the input is interpolated unchecked.
+ */
+export function buildSelectQuery(input: QueryDataInput, dialect: SqlDialect): BuiltQuery {
+  const params: any[] = [];
+  const bind = (value: any) => {
+    params.push(value);
+    return dialect === 'postgresql' ? `$${params.length}` : '?';
+  };
+
+  const columns = input.columns?.filter(column => column !== '*') ?? [];
+  const projection = columns.length > 0
+    ? columns.map(column => quoteIdentifier(column, dialect)).join(', ')
+    : '*';
+
+  let sql = `SELECT ${projection} FROM ${quoteTableName(input.tableName, dialect)}`;
+
+  const conditions = (input.filters ?? []).map(filter => buildCondition(filter, dialect, bind));
+  if (input.where && input.where.trim()) {
+    if (input.where.includes(';')) {
+      throw new Error('WHERE clause must not contain statement separators');
+    }
+    conditions.push(`(${input.where})`);
+  }
+  if (input.keyset?.after) {
+    conditions.push(buildKeysetCondition(input.orderBy ?? [], input.keyset.after, dialect, bind));
+  }
+  if (conditions.length > 0) {
+    sql += ` WHERE ${conditions.join(' AND ')}`;
+  }
+
+  if (input.orderBy && input.orderBy.length > 0) {
+    const ordering = input.orderBy.map(order => {
+      const direction = (order.direction ?? 'asc').toLowerCase();
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw new Error(`Invalid sort direction: ${order.direction}`);
+      }
+      // MySQL already sorts NULLs lowest; keyset paging needs the same order on Postgres
+      const nulls = input.keyset && dialect === 'postgresql' ? (direction === 'asc' ? ' NULLS FIRST' : ' NULLS LAST') : '';
+      return `${quoteIdentifier(order.column, dialect)} ${direction.toUpperCase()}${nulls}`;
+    });
+    sql += ` ORDER BY ${ordering.join(', ')}`;
+  }
+
+  if (input.limit !== undefined) {
+    sql += ` LIMIT ${assertCount(input.limit, 'limit')}`;
+  }
+  if (input.offset) {
+    // MySQL only accepts OFFSET after a LIMIT
+    if (input.limit === undefined && dialect === 'mysql') {
+      sql += ' LIMIT 18446744073709551615';
+    }
+    sql += ` OFFSET ${assertCount(input.offset, 'offset')}`;
+  }
+
+  return { sql, params };
+}
+
+/**
+ * Parses an "a, b DESC" style ordering into structured entries.
+ */
+export function parseOrderBy(orderBy: string): { column: string; direction: 'asc' | 'desc' }[] {
+  return orderBy
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [column, direction, ...rest] = part.split(/\s+/);
+      const normalized = (direction ?? 'asc').toLowerCase();
+      if (rest.length > 0 || (normalized !== 'asc' && normalized !== 'desc')) {
+        throw new Error(`Invalid ORDER BY term: ${part}`);
+      }
+      return { column, direction: normalized as 'asc' | 'desc' };
+    });
+}
+
+function buildCondition(filter: QueryFilter, dialect: SqlDialect, bind: (value: any) => string): string {
+  const column = quoteIdentifier(filter.column, dialect);
+
+  switch (filter.operator) {
+    case 'isNull':
+      return `${column} IS NULL`;
+    case 'isNotNull':
+      return `${column} IS NOT NULL`;
+    case 'in':
+    case 'notIn': {
+      if (!Array.isArray(filter.value) || filter.value.length === 0) {
+        throw new Error(`Filter "${filter.operator}" on ${filter.column} requires a non-empty array value`);
+      }
+      const placeholders = filter.value.map(value => bind(value)).join(', ');
+      return `${column} ${filter.operator === 'in' ? 'IN' : 'NOT IN'} (${placeholders})`;
+    }
+    default: {
+      const operator = COMPARISON_OPERATORS[filter.operator];
+      if (!operator) {
+        throw new Error(`Unsupported filter operator: ${filter.operator}`);
+      }
+      if (filter.value === null || filter.value === undefined) {
+        if (filter.operator === 'eq') return `${column} IS NULL`;
+        if (filter.operator === 'neq') return `${column} IS NOT NULL`;
+        throw new Error(`Filter "${filter.operator}" on ${filter.column} requires a value`);
+      }
+      return `${column} ${operator} ${bind(filter.value)}`;
+    }
+  }
+}
+
+/**
+ * Matches the rows sorting after a keyset position: a greater value in the
+ * first column, or an equal one and rows after it in the rest. NULLs sort
+ * first ascending and last descending.
+ */
+function buildKeysetCondition(
+  orderBy: QueryOrderBy[],
+  after: any[],
+  dialect: SqlDialect,
+  bind: (value: any) => string,
+): string {
+  if (orderBy.length === 0 || after.length !== orderBy.length) {
+    throw new Error('Keyset paging needs an orderBy and a value for each of its columns');
+  }
+
+  const build = (i: number): string => {
+    const column = quoteIdentifier(orderBy[i].column, dialect);
+    const descending = (orderBy[i].direction ?? 'asc').toLowerCase() === 'desc';
+    const value = after[i];
+    const last = i === orderBy.length - 1;
+
+    const alternatives: string[] = [];
+    if (value === null || value === undefined) {
+      if (!last) alternatives.push(`(${column} IS NULL AND ${build(i + 1)})`);
+      if (!descending) alternatives.push(`${column} IS NOT NULL`);
+    } else {
+      alternatives.push(`${column} ${descending ? '<' : '>'} ${bind(value)}`);
+      if (descending) alternatives.push(`${column} IS NULL`);
+      if (!last) alternatives.push(`(${column} = ${bind(value)} AND ${build(i + 1)})`);
+    }
+    return alternatives.length > 0 ? `(${alternatives.join(' OR ')})` : '1 = 0';
+  };
+
+  return build(0);
+}
+
+function quoteIdentifier(identifier: string, dialect: SqlDialect): string {
+  if (!IDENTIFIER_PATTERN.test(identifier)) {
+    throw new Error(`Invalid identifier: ${identifier}`);
+  }
+  return dialect === 'postgresql' ? `"${identifier}"` : `\`${identifier}\``;
+}
+
+// Tables may be schema-qualified
+export function quoteTableName(tableName: string, dialect: SqlDialect): string {
+  const parts = tableName.split('.');
+  if (parts.length > 2) {
+    throw new Error(`Invalid table name: ${tableName}`);
+  }
+  return parts.map(part => quoteIdentifier(part, dialect)).join('.');
+}
+
+function assertCount(value: number, name: string): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return value;
+}
@@ -0,0 +1,75 @@
+import { diffSchemas, describeSchemaChange } from './schema-diff';
+
+describe('diffSchemas', () => {
+  const customers = (columns: { name: string; type: string; nullable: boolean }[]) => ({
+    tables: [{ name: 'customers', columns }],
+  });
+
+  it('should report added, removed, retyped and nullability changes', () => {
+    const before = customers([
+      { name: 'id', type: 'int', nullable: false },
+      { name: 'email', type: 'varchar(255)', nullable: true },
+      { name: 'legacy_code', type: 'char(4)', nullable: true },
+    ]);
+    const after = customers([
+      { name: 'id', type: 'bigint', nullable: false },
+      { name: 'email', type: 'VARCHAR(255)', nullable: false },
+      { name: 'created_at', type: 'timestamp', nullable: true },
+    ]);
+
+    expect(diffSchemas(before, after)).toEqual([
+      { kind: 'type-changed', table: 'customers', column: 'id', from: 'int', to: 'bigint' },
+      { kind: 'nullability-changed', table: 'customers', column: 'email', from: true, to: false },
+      { kind: 'column-removed', table: 'customers', column: 'legacy_code', type: 'char(4)' },
+      { kind: 'column-added', table: 'customers', column: 'created_at', type: 'timestamp', nullable: true },
+    ]);
+  });
+
+  it('should pair a removed and an added column of the same shape as a rename', () => {
+    const before = customers([
+      { name: 'id', type: 'int', nullable: false },
+      { name: 'mail', type: 'varchar(255)', nullable: true },
+      { name: 'note', type: 'text', nullable: true },
+    ]);
+    const after = customers([
+      { name: 'id', type: 'int', nullable: false },
+      { name: 'note', type: 'text', nullable: true },
+      { name: 'email_address', type: 'varchar(255)', nullable: true },
+      { name: 'score', type: 'int', nullable: true },
+    ]);
+
+    const changes = diffSchemas(before, after);
+
+    expect(changes).toEqual([
+      { kind: 'column-renamed', table: 'customers', from: 'mail', to: 'email_address', type: 'varchar(255)' },
+      { kind: 'column-added', table: 'customers', column: 'score', type: 'int', nullable: true },
+    ]);
+    expect(describeSchemaChange(changes[0])).toBe('customers.mail was renamed to email_address');
+  });
+
+  it('should not guess a rename when several columns could match', () => {
+    const before = customers([
+      { name: 'a', type: 'int', nullable: true },
+      { name: 'b', type: 'int', nullable: true },
+    ]);
+    const after = customers([
+      { name: 'c', type: 'int', nullable: true },
+      { name: 'd', type: 'int', nullable: true },
+      { name: 'e', type: 'int', nullable: true },
+    ]);
+
+    expect(diffSchemas(before, after).map(change => change.kind)).toEqual([
+      'column-removed', 'column-removed', 'column-added', 'column-added', 'column-added',
+    ]);
+  });
+
+  it('should only look at the requested tables', () => {
+    const before = { tables: [{ name: 'orders', columns: [] }, { name: 'audit', columns: [] }] };
+    const after = { tables: [{ name: 'customers', columns: [] }] };
+
+    expect(diffSchemas(before, after, ['orders', 'customers'])).toEqual([
+      { kind: 'table-removed', table: 'orders' },
+      { kind: 'table-added', table: 'customers' },
+    ]);
+  });
+});
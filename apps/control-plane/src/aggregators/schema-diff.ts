@@ -0,0 +1,110 @@
+import { SchemaDiscoveryResult } from './connections/connection-factory.service';
+
+export type SchemaTable = SchemaDiscoveryResult['tables'][number];
+export type SchemaColumn = SchemaTable['columns'][number];
+
+export type SchemaChange =
+  | { kind: 'table-added'; table: string }
+  | { kind: 'table-removed'; table: string }
+  | { kind: 'column-added'; table: string; column: string; type: string; nullable: boolean }
+  | { kind: 'column-removed'; table: string; column: string; type: string }
+  | { kind: 'column-renamed'; table: string; from: string; to: string; type: string }
+  | { kind: 'type-changed'; table: string; column: string; from: string; to: string }
+  | { kind: 'nullability-changed'; table: string; column: string; from: boolean; to: boolean };
+
+/**
+ * Compares two discovered schemas. When only some tables matter, pass their
+ * names; a listed table that appears or disappears is reported as such.
+ */
+export function diffSchemas(
+  before: { tables?: SchemaTable[] } | null | undefined,
+  after: { tables?: SchemaTable[] } | null | undefined,
+  tableNames?: string[],
+): SchemaChange[] {
+  const beforeTables = new Map((before?.tables ?? []).map(table => [table.name, table]));
+  const afterTables = new Map((after?.tables ?? []).map(table => [table.name, table]));
+  const names = tableNames ?? [...new Set([...beforeTables.keys(), ...afterTables.keys()])];
+
+  const changes: SchemaChange[] = [];
+  for (const name of names) {
+    const previous = beforeTables.get(name);
+    const current = afterTables.get(name);
+    if (!previous && current) {
+      changes.push({ kind: 'table-added', table: name });
+    } else if (previous && !current) {
+      changes.push({ kind: 'table-removed', table: name });
+    } else if (previous && current) {
+      changes.push(...diffColumns(name, previous.columns ?? [], current.columns ?? []));
+    }
+  }
+  return changes;
+}
+
+/**
+ * Column changes of one table. Discovery cannot see renames, so a removed and
+ * an added column are reported as a rename when they are the only pair with
+ * the same type and nullability.
+ */
+export function diffColumns(table: string, before: SchemaColumn[], after: SchemaColumn[]): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const afterByName = new Map(after.map(column => [column.name, column]));
+  const beforeNames = new Set(before.map(column => column.name));
+
+  for (const previous of before) {
+    const current = afterByName.get(previous.name);
+    if (!current) continue;
+    if (normalizeType(previous.type) !== normalizeType(current.type)) {
+      changes.push({ kind: 'type-changed', table, column: previous.name, from: previous.type, to: current.type });
+    }
+    if (!!previous.nullable !== !!current.nullable) {
+      changes.push({ kind: 'nullability-changed', table, column: previous.name, from: !!previous.nullable, to: !!current.nullable });
+    }
+  }
+
+  let removed = before.filter(column => !afterByName.has(column.name));
+  let added = after.filter(column => !beforeNames.has(column.name));
+
+  const renames: [SchemaColumn, SchemaColumn][] = [];
+  for (const from of removed) {
+    const candidates = added.filter(column => sameShape(column, from));
+    if (candidates.length === 1 && removed.filter(column => sameShape(column, candidates[0])).length === 1) {
+      renames.push([from, candidates[0]]);
+    }
+  }
+  removed = removed.filter(column => !renames.some(([from]) => from === column));
+  added = added.filter(column => !renames.some(([, to]) => to === column));
+
+  changes.push(
+    ...renames.map(([from, to]): SchemaChange => ({ kind: 'column-renamed', table, from: from.name, to: to.name, type: to.type })),
+    ...removed.map((column): SchemaChange => ({ kind: 'column-removed', table, column: column.name, type: column.type })),
+    ...added.map((column): SchemaChange => ({ kind: 'column-added', table, column: column.name, type: column.type, nullable: !!column.nullable })),
+  );
+  return changes;
+}
+
+export function describeSchemaChange(change: SchemaChange): string {
+  switch (change.kind) {
+    case 'table-added':
+      return `table ${change.table} was added`;
+    case 'table-removed':
+      return `table ${change.table} was removed`;
+    case 'column-added':
+      return `${change.table}.${change.column} (${change.type}) was added`;
+    case 'column-removed':
+      return `${change.table}.${change.column} was removed`;
+    case 'column-renamed':
+      return `${change.table}.${change.from} was renamed to ${change.to}`;
+    case 'type-changed':
+      return `${change.table}.${change.column} changed type from ${change.from} to ${change.to}`;
+    case 'nullability-changed':
+      return `${change.table}.${change.column} became ${change.to ? 'nullable' : 'NOT NULL'}`;
+  }
+}
+
+function sameShape(a: SchemaColumn, b: SchemaColumn): boolean {
+  return normalizeType(a.type) === normalizeType(b.type) && !!a.nullable === !!b.nullable;
+}
+
+function normalizeType(type: string): string {
+  return (type ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
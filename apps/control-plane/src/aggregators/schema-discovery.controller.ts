@@ -6,11 +6,14 @@ import {
   Body,
   Query,
   NotFoundException,
+  ParseIntPipe,
   UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags, ApiProperty, ApiPropertyOptional, ApiResponse } from '@nestjs/swagger';
-import { IsOptional, IsNumber } from 'class-validator';
+import { IsOptional, IsNumber, IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
 import { SchemaDiscoveryService } from './schema-discovery.service';
+import { SchemaSnapshotService } from './schema-snapshot.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { TenantMemberGuard } from '../common/guards/tenant-member.guard';
 import { TenantId } from '../common/decorators/tenant-id.decorator';
@@ -22,6 +25,21 @@ class PreviewTableDto {
   limit?: number;
 }
 
+class SchemaDiffQueryDto {
+  @ApiProperty({ description: 'Version to compare from' })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @ApiPropertyOptional({ description: 'Version to compare to, defaults to the latest' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to?: number;
+}
+
 class SchemaDiscoveryResponseDto {
   @ApiProperty()
   success: boolean;
@@ -35,7 +53,10 @@ class SchemaDiscoveryResponseDto {
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, TenantMemberGuard)
 export class SchemaDiscoveryController {
-  constructor(private readonly schemaDiscoveryService: SchemaDiscoveryService) {}
+  constructor(
+    private readonly schemaDiscoveryService: SchemaDiscoveryService,
+    private readonly schemaSnapshotService: SchemaSnapshotService,
+  ) {}
 
   @Post(':id/discover')
   @ApiResponse({ status: 200, type: SchemaDiscoveryResponseDto })
@@ -49,6 +70,35 @@ export class SchemaDiscoveryController {
     return this.schemaDiscoveryService.getSchema(id, tenantId);
   }
 
+  @Get(':id/schema/snapshots')
+  @ApiResponse({ status: 200, type: SchemaDiscoveryResponseDto })
+  async getSnapshots(@Param('id') id: string, @TenantId() tenantId: string) {
+    const snapshots = await this.schemaSnapshotService.findAll(id, tenantId);
+    return { success: true, data: snapshots };
+  }
+
+  @Get(':id/schema/snapshots/diff')
+  @ApiResponse({ status: 200, type: SchemaDiscoveryResponseDto })
+  async diffSnapshots(
+    @Param('id') id: string,
+    @TenantId() tenantId: string,
+    @Query() query: SchemaDiffQueryDto
+  ) {
+    const diff = await this.schemaSnapshotService.diff(id, tenantId, query.from, query.to);
+    return { success: true, data: diff };
+  }
+
+  @Get(':id/schema/snapshots/:version')
+  @ApiResponse({ status: 200, type: SchemaDiscoveryResponseDto })
+  async getSnapshot(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @TenantId() tenantId: string
+  ) {
+    const snapshot = await this.schemaSnapshotService.findOne(id, tenantId, version);
+    return { success: true, data: snapshot };
+  }
+
   @Get(':id/schema/tables')
   @ApiResponse({ status: 200, type: SchemaDiscoveryResponseDto })
   async getTables(@Param('id') id: string, @TenantId() tenantId: string) {
@@ -2,6 +2,7 @@ import { Injectable, NotFoundException, BadRequestException } from '@nestjs/comm
 import { PrismaService } from '../prisma.service';
 import { EncryptionService } from '../common/services/encryption.service';
 import { ConnectionFactoryService, ConnectionHandler } from './connections/connection-factory.service';
+import { SchemaSnapshotService } from './schema-snapshot.service';
 
 @Injectable()
 export class SchemaDiscoveryService {
@@ -9,6 +10,7 @@ export class SchemaDiscoveryService {
     private prisma: PrismaService,
     private encryptionService: EncryptionService,
     private connectionFactory: ConnectionFactoryService,
+    private schemaSnapshots: SchemaSnapshotService,
   ) {}
 
   async discover(aggregatorInstanceId: string, tenantId: string) {
@@ -73,6 +75,9 @@ export class SchemaDiscoveryService {
       },
     });
 
+    // Keep the history so drift between runs can be measured
+    const snapshot = await this.schemaSnapshots.record(aggregatorInstanceId, tenantId, schemaResult);
+
     return {
       success: true,
       data: {
@@ -83,6 +88,7 @@ export class SchemaDiscoveryService {
         relationships: discoveredSchemaData.relationships,
         discoveredAt: discoveredSchemaData.discoveredAt,
         refreshedAt: discoveredSchemaData.refreshedAt,
+        schemaVersion: snapshot.version,
       },
     };
   }
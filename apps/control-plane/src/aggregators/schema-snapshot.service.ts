@@ -0,0 +1,109 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { SchemaDiscoveryResult } from './connections/connection-factory.service';
+import { SchemaChange, diffSchemas } from './schema-diff';
+
+@Injectable()
+export class SchemaSnapshotService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Stores a discovered schema as the instance's next version, unless it is
+   * identical to the latest one, which is then returned instead.
+   */
+  async record(aggregatorInstanceId: string, tenantId: string, schema: Pick<SchemaDiscoveryResult, 'tables' | 'relationships'>) {
+    const hash = hashSchema(schema);
+
+    for (;;) {
+      const latest = await this.prisma.schemaSnapshot.findFirst({
+        where: { aggregatorInstanceId },
+        orderBy: { version: 'desc' },
+      });
+      if (latest?.hash === hash) {
+        return latest;
+      }
+
+      try {
+        return await this.prisma.schemaSnapshot.create({
+          data: {
+            tenantId,
+            aggregatorInstanceId,
+            version: (latest?.version ?? 0) + 1,
+            schema: { tables: schema.tables, relationships: schema.relationships ?? [] } as any,
+            hash,
+            changes: latest ? diffSchemas(latest.schema as any, schema) as any : undefined,
+          },
+        });
+      } catch (error) {
+        // Another discovery took this version number; compare against it instead
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  async findAll(aggregatorInstanceId: string, tenantId: string) {
+    const snapshots = await this.prisma.schemaSnapshot.findMany({
+      where: { aggregatorInstanceId, tenantId },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, hash: true, changes: true, createdAt: true },
+    });
+
+    return snapshots.map(snapshot => ({
+      ...snapshot,
+      changeCount: Array.isArray(snapshot.changes) ? snapshot.changes.length : 0,
+    }));
+  }
+
+  async findOne(aggregatorInstanceId: string, tenantId: string, version: number) {
+    const snapshot = await this.prisma.schemaSnapshot.findFirst({
+      where: { aggregatorInstanceId, tenantId, version },
+    });
+    if (!snapshot) {
+      throw new NotFoundException(`Schema version ${version} not found for instance "${aggregatorInstanceId}"`);
+    }
+    return snapshot;
+  }
+
+  async findLatest(aggregatorInstanceId: string) {
+    return this.prisma.schemaSnapshot.findFirst({
+      where: { aggregatorInstanceId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Changes between two versions; `to` defaults to the latest
+   */
+  async diff(aggregatorInstanceId: string, tenantId: string, from: number, to?: number): Promise<{ from: number; to: number; changes: SchemaChange[] }> {
+    const before = await this.findOne(aggregatorInstanceId, tenantId, from);
+    const after = to !== undefined
+      ? await this.findOne(aggregatorInstanceId, tenantId, to)
+      : await this.findLatest(aggregatorInstanceId);
+
+    return {
+      from: before.version,
+      to: after!.version,
+      changes: diffSchemas(before.schema as any, after!.schema as any),
+    };
+  }
+}
+
+function hashSchema(schema: Pick<SchemaDiscoveryResult, 'tables' | 'relationships'>): string {
+  // Discovery order is not stable across runs; column order is part of the schema
+  const tables = [...schema.tables]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(table => ({
+      name: table.name,
+      columns: table.columns.map(({ name, type, nullable, primaryKey }) => ({ name, type, nullable: !!nullable, primaryKey: !!primaryKey })),
+    }));
+  const relationships = [...(schema.relationships ?? [])]
+    .map(({ fromTable, fromColumn, toTable, toColumn }) => `${fromTable}.${fromColumn}>${toTable}.${toColumn}`)
+    .sort();
+
+  return createHash('sha256').update(JSON.stringify({ tables, relationships })).digest('hex');
+}
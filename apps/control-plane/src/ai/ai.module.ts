@@ -11,9 +11,10 @@ import { WorkflowGeneratorService } from './workflow-generator.service';
 import { AIController } from './ai.controller';
 import { StorageModule } from '../storage/storage.module';
 import { PrismaService } from '../prisma.service';
+import { ControlsModule } from '../controls/controls.module';
 
 @Module({
-  imports: [ConfigModule, StorageModule],
+  imports: [ConfigModule, StorageModule, ControlsModule],
   controllers: [AIController],
   providers: [
     AIProviderService,
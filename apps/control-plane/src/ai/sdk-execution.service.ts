@@ -2,6 +2,7 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { StorageService } from '../storage/storage.service';
 import { PrismaService } from '../prisma.service';
 import { WasmCompilerService, SDKMethod } from './wasm-compiler.service';
+import { ControlFlagsService } from '../controls/services/control-flags.service';
 import { getQuickJS, QuickJSContext, isSuccess, newAsyncContext } from 'quickjs-emscripten';
 
 export interface SDKExecutionContext {
@@ -67,6 +68,7 @@ export class SDKExecutionService {
     private readonly storage: StorageService,
     private readonly prisma: PrismaService,
     private readonly wasmCompiler: WasmCompilerService,
+    private readonly controlFlags: ControlFlagsService,
   ) {}
 
   private getPotentialClassNames(extractedMethods?: SDKMethod[]): string[] {
@@ -133,6 +135,7 @@ export class SDKExecutionService {
       if (!aggregator) {
         throw new BadRequestException('SDK not found for this tenant or aggregator');
       }
+      await this.controlFlags.assertAllowed({ tenantId: aggregator.tenantId, sdkId: aggregator.id }, 'sdk');
       const storedCredentials = (aggregator?.credentials as SDKConfig) || {};
       const mergedConfig: SDKConfig = {
         baseUrl: config?.baseUrl || storedCredentials.baseUrl,
@@ -15,6 +15,11 @@ import { WebsocketModule } from './websocket/websocket.module';
 import { StorageModule } from './storage/storage.module';
 import { AIModule } from './ai/ai.module';
 import { MappingsModule } from './mappings/mappings.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { ControlsModule } from './controls/controls.module';
+import { WatermarksModule } from './watermarks/watermarks.module';
+import { QuarantineModule } from './quarantine/quarantine.module';
+import { SchemaDriftModule } from './schema-drift/schema-drift.module';
 
 @Module({
   imports: [
@@ -43,6 +48,11 @@ import { MappingsModule } from './mappings/mappings.module';
     StorageModule,
     AIModule,
     MappingsModule,
+    SchedulerModule,
+    ControlsModule,
+    WatermarksModule,
+    QuarantineModule,
+    SchemaDriftModule,
   ],
   providers: [PrismaService, LoggingInterceptor],
   exports: [PrismaService],
@@ -0,0 +1,15 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+
+@Injectable()
+export class AdminRoleGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (user?.role !== 'ADMIN') {
+      throw new ForbiddenException('Administrator role required');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { ControlFlagsService } from './services/control-flags.service';
+import { CreateControlFlagDto, ControlFlagResponseDto } from './dto/control-flag.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantMemberGuard } from '../common/guards/tenant-member.guard';
+import { AdminRoleGuard } from '../common/guards/admin-role.guard';
+import { TenantId } from '../common/decorators/tenant-id.decorator';
+
+@Controller('api/admin/control-flags')
+@ApiTags('Control Flags')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantMemberGuard, AdminRoleGuard)
+export class ControlFlagsController {
+  constructor(private readonly controlFlagsService: ControlFlagsService) {}
+
+  @Get()
+  @ApiResponse({ status: 200, type: [ControlFlagResponseDto] })
+  async findAll(
+    @TenantId() tenantId: string,
+    @Request() req: any,
+    @Query('includeInactive') includeInactive?: string,
+  ) {
+    const flags = await this.controlFlagsService.findAll(
+      tenantId,
+      this.controlFlagsService.isPlatformAdmin(req.user?.email),
+      includeInactive === 'true',
+    );
+    return { success: true, data: flags };
+  }
+
+  @Post()
+  @ApiResponse({ status: 201, type: ControlFlagResponseDto })
+  async create(
+    @TenantId() tenantId: string,
+    @Body() dto: CreateControlFlagDto,
+    @Request() req: any,
+  ) {
+    const flag = await this.controlFlagsService.create(
+      tenantId,
+      req.user.userId,
+      dto,
+      this.controlFlagsService.isPlatformAdmin(req.user?.email),
+    );
+    return { success: true, data: flag };
+  }
+
+  @Delete(':id')
+  @ApiResponse({ status: 200, type: ControlFlagResponseDto })
+  async clear(
+    @Param('id') id: string,
+    @TenantId() tenantId: string,
+    @Request() req: any,
+  ) {
+    const flag = await this.controlFlagsService.clear(
+      id,
+      tenantId,
+      req.user.userId,
+      this.controlFlagsService.isPlatformAdmin(req.user?.email),
+    );
+    return { success: true, data: flag };
+  }
+}
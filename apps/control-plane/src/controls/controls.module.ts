@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ControlFlagsController } from './control-flags.controller';
+import { ControlFlagsService } from './services/control-flags.service';
+import { PrismaService } from '../prisma.service';
+
+@Module({
+  controllers: [ControlFlagsController],
+  providers: [ControlFlagsService, PrismaService],
+  exports: [ControlFlagsService],
+})
+export class ControlsModule {}
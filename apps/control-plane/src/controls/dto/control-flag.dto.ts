@@ -0,0 +1,41 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, IsDateString } from 'class-validator';
+import { ControlFlagType, ControlScope } from '@prisma/client';
+
+export class CreateControlFlagDto {
+  @ApiProperty({ enum: ControlScope })
+  @IsEnum(ControlScope)
+  scope!: ControlScope;
+
+  @ApiPropertyOptional({ description: 'Workflow, SDK (aggregator) or connector ID; ignored for GLOBAL and TENANT' })
+  @IsOptional()
+  @IsString()
+  scopeId?: string;
+
+  @ApiProperty({ enum: ControlFlagType })
+  @IsEnum(ControlFlagType)
+  flagType!: ControlFlagType;
+
+  @ApiPropertyOptional({ description: 'Why the flag was set' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @ApiPropertyOptional({ description: 'Flag stops applying after this time' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class ControlFlagResponseDto {
+  @ApiProperty() id!: string;
+  @ApiProperty({ enum: ControlScope }) scope!: ControlScope;
+  @ApiPropertyOptional() scopeId?: string;
+  @ApiPropertyOptional() tenantId?: string;
+  @ApiProperty({ enum: ControlFlagType }) flagType!: ControlFlagType;
+  @ApiProperty() enabled!: boolean;
+  @ApiPropertyOptional() reason?: string;
+  @ApiProperty() setBy!: string;
+  @ApiPropertyOptional() expiresAt?: Date;
+  @ApiProperty() createdAt!: Date;
+}
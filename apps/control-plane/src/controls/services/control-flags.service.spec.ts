@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ControlFlagsService, ControlFlagBlockedException } from './control-flags.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('ControlFlagsService', () => {
+  let service: ControlFlagsService;
+
+  const mockPrismaService = {
+    systemControlFlag: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    workflowDefinition: { findFirst: jest.fn() },
+    aggregator: { findFirst: jest.fn() },
+    connector: { findFirst: jest.fn() },
+  };
+
+  const flag = (overrides: Record<string, any>) => ({
+    id: 'flag-1',
+    scope: 'TENANT',
+    scopeId: 'tenant-1',
+    tenantId: 'tenant-1',
+    flagType: 'PAUSE',
+    enabled: true,
+    reason: null,
+    setBy: 'user-1',
+    expiresAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ControlFlagsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<ControlFlagsService>(ControlFlagsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete process.env.PLATFORM_ADMIN_EMAILS;
+  });
+
+  describe('findBlockingFlag', () => {
+    it('should query every scope the targets belong to', async () => {
+      mockPrismaService.systemControlFlag.findMany.mockResolvedValueOnce([]);
+
+      await service.findBlockingFlag({ tenantId: 'tenant-1', workflowId: 'workflow-1' }, 'trigger');
+
+      const where = mockPrismaService.systemControlFlag.findMany.mock.calls[0][0].where;
+      expect(where.enabled).toBe(true);
+      expect(where.AND[1].OR).toEqual([
+        { scope: 'GLOBAL' },
+        { scope: 'TENANT', scopeId: 'tenant-1' },
+        { scope: 'WORKFLOW', scopeId: 'workflow-1' },
+      ]);
+    });
+
+    it('should report the most severe matching flag', async () => {
+      mockPrismaService.systemControlFlag.findMany.mockResolvedValueOnce([
+        flag({ id: 'pause', flagType: 'PAUSE' }),
+        flag({ id: 'emergency', scope: 'GLOBAL', scopeId: null, flagType: 'EMERGENCY' }),
+      ]);
+
+      const result = await service.findBlockingFlag({ tenantId: 'tenant-1' }, 'run');
+
+      expect(result?.id).toBe('emergency');
+    });
+
+    it('should only let READONLY block writes', async () => {
+      mockPrismaService.systemControlFlag.findMany.mockResolvedValue([flag({ flagType: 'READONLY' })]);
+
+      expect(await service.findBlockingFlag({ tenantId: 'tenant-1' }, 'trigger')).toBeNull();
+      expect(await service.findBlockingFlag({ tenantId: 'tenant-1' }, 'write')).not.toBeNull();
+    });
+  });
+
+  describe('assertAllowed', () => {
+    it('should throw a 403 carrying the flag', async () => {
+      mockPrismaService.systemControlFlag.findMany.mockResolvedValueOnce([
+        flag({ scope: 'SDK', scopeId: 'sdk-1', flagType: 'BLOCK', reason: 'vendor outage' }),
+      ]);
+
+      const error = await service.assertAllowed({ tenantId: 'tenant-1', sdkId: 'sdk-1' }, 'sdk').catch(e => e);
+
+      expect(error).toBeInstanceOf(ControlFlagBlockedException);
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect(error.message).toContain('vendor outage');
+      expect(error.flag.scopeId).toBe('sdk-1');
+    });
+  });
+
+  describe('create', () => {
+    it('should reject GLOBAL flags from tenant administrators', async () => {
+      await expect(
+        service.create('tenant-1', 'user-1', { scope: 'GLOBAL', flagType: 'EMERGENCY' }, false),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.systemControlFlag.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a workflow scope outside the tenant', async () => {
+      mockPrismaService.workflowDefinition.findFirst.mockResolvedValueOnce(null);
+
+      await expect(
+        service.create('tenant-1', 'user-1', { scope: 'WORKFLOW', scopeId: 'other', flagType: 'PAUSE' }, false),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should pin TENANT flags to the caller tenant', async () => {
+      mockPrismaService.systemControlFlag.create.mockImplementationOnce(async ({ data }) => flag(data));
+
+      await service.create('tenant-1', 'user-1', { scope: 'TENANT', scopeId: 'tenant-2', flagType: 'READONLY' }, false);
+
+      expect(mockPrismaService.systemControlFlag.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ scopeId: 'tenant-1', tenantId: 'tenant-1', setBy: 'user-1' }),
+      });
+    });
+  });
+
+  describe('isPlatformAdmin', () => {
+    it('should match emails from PLATFORM_ADMIN_EMAILS', () => {
+      process.env.PLATFORM_ADMIN_EMAILS = 'ops@example.com, Root@example.com';
+
+      expect(service.isPlatformAdmin('root@example.com')).toBe(true);
+      expect(service.isPlatformAdmin('admin@tenant.com')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  Injectable,
+  Logger,
+  ForbiddenException,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ControlFlagType, ControlScope, SystemControlFlag } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { CreateControlFlagDto } from '../dto/control-flag.dto';
+
+// Resources an operation touches; a flag applies when its scope matches any of them
+export interface ControlTargets {
+  tenantId?: string;
+  workflowId?: string;
+  sdkId?: string;
+  connectorId?: string;
+}
+
+export type ControlledOperation = 'trigger' | 'run' | 'write' | 'sdk' | 'connector';
+
+// Flag types that stop each operation
+const BLOCKING_FLAGS: Record<ControlledOperation, ControlFlagType[]> = {
+  trigger: ['EMERGENCY', 'BLOCK', 'PAUSE'],
+  run: ['EMERGENCY', 'BLOCK', 'PAUSE'],
+  write: ['EMERGENCY', 'BLOCK', 'READONLY'],
+  sdk: ['EMERGENCY', 'BLOCK', 'PAUSE'],
+  connector: ['EMERGENCY', 'BLOCK', 'PAUSE'],
+};
+
+// Most severe first - decides which flag is reported when several match
+const FLAG_SEVERITY: ControlFlagType[] = ['EMERGENCY', 'BLOCK', 'PAUSE', 'READONLY', 'RATE_LIMIT'];
+
+/**
+ * Raised when a kill switch refuses an operation. Maps to 403 over HTTP and is
+ * treated as non-retryable by the activity dispatcher.
+ */
+export class ControlFlagBlockedException extends ForbiddenException {
+  constructor(public readonly flag: SystemControlFlag, operation: ControlledOperation) {
+    super(
+      `${operation} blocked by ${flag.flagType} control flag on ${flag.scope}` +
+      `${flag.scopeId ? ` ${flag.scopeId}` : ''}${flag.reason ? `: ${flag.reason}` : ''}`,
+    );
+  }
+}
+
+@Injectable()
+export class ControlFlagsService {
+  private readonly logger = new Logger(ControlFlagsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getActiveFlags(targets: ControlTargets): Promise<SystemControlFlag[]> {
+    const scopes: { scope: ControlScope; scopeId?: string }[] = [{ scope: 'GLOBAL' }];
+    if (targets.tenantId) scopes.push({ scope: 'TENANT', scopeId: targets.tenantId });
+    if (targets.workflowId) scopes.push({ scope: 'WORKFLOW', scopeId: targets.workflowId });
+    if (targets.sdkId) scopes.push({ scope: 'SDK', scopeId: targets.sdkId });
+    if (targets.connectorId) scopes.push({ scope: 'CONNECTOR', scopeId: targets.connectorId });
+
+    const flags = await this.prisma.systemControlFlag.findMany({
+      where: {
+        enabled: true,
+        AND: [
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+          { OR: scopes },
+        ],
+      },
+    });
+
+    return flags.sort((a, b) => FLAG_SEVERITY.indexOf(a.flagType) - FLAG_SEVERITY.indexOf(b.flagType));
+  }
+
+  async findBlockingFlag(targets: ControlTargets, operation: ControlledOperation): Promise<SystemControlFlag | null> {
+    const flags = await this.getActiveFlags(targets);
+    return flags.find(flag => BLOCKING_FLAGS[operation].includes(flag.flagType)) ?? null;
+  }
+
+  async assertAllowed(targets: ControlTargets, operation: ControlledOperation): Promise<void> {
+    const flag = await this.findBlockingFlag(targets, operation);
+    if (flag) {
+      this.logger.warn(`Refused ${operation} for ${JSON.stringify(targets)} (flag ${flag.id})`);
+      throw new ControlFlagBlockedException(flag, operation);
+    }
+  }
+
+  async isRateLimited(targets: ControlTargets): Promise<boolean> {
+    const flags = await this.getActiveFlags(targets);
+    return flags.some(flag => flag.flagType === 'RATE_LIMIT');
+  }
+
+  async findAll(tenantId: string, includeGlobal: boolean, includeInactive = false) {
+    return this.prisma.systemControlFlag.findMany({
+      where: {
+        OR: [
+          { tenantId },
+          ...(includeGlobal ? [{ scope: 'GLOBAL' as ControlScope }] : []),
+        ],
+        ...(!includeInactive && {
+          enabled: true,
+          AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }],
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async create(tenantId: string, userId: string, dto: CreateControlFlagDto, isPlatformAdmin: boolean) {
+    if (dto.scope === 'GLOBAL' && !isPlatformAdmin) {
+      throw new ForbiddenException('Only platform administrators can set GLOBAL control flags');
+    }
+
+    const scopeId = await this.resolveScopeId(tenantId, dto);
+    if (dto.expiresAt && new Date(dto.expiresAt) <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const flag = await this.prisma.systemControlFlag.create({
+      data: {
+        scope: dto.scope,
+        scopeId,
+        tenantId: dto.scope === 'GLOBAL' ? null : tenantId,
+        flagType: dto.flagType,
+        reason: dto.reason,
+        setBy: userId,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+      },
+    });
+
+    this.logger.warn(`Control flag ${flag.flagType} set on ${flag.scope} ${flag.scopeId ?? ''} by ${userId}`);
+    return flag;
+  }
+
+  /**
+   * Disables a flag. Rows are kept as an audit trail of who stopped what.
+   */
+  async clear(id: string, tenantId: string, userId: string, isPlatformAdmin: boolean) {
+    const flag = await this.prisma.systemControlFlag.findFirst({
+      where: {
+        id,
+        OR: [{ tenantId }, ...(isPlatformAdmin ? [{ scope: 'GLOBAL' as ControlScope }] : [])],
+      },
+    });
+
+    if (!flag) {
+      throw new NotFoundException(`Control flag with ID "${id}" not found`);
+    }
+
+    const cleared = await this.prisma.systemControlFlag.update({
+      where: { id },
+      data: { enabled: false },
+    });
+
+    this.logger.warn(`Control flag ${flag.flagType} on ${flag.scope} ${flag.scopeId ?? ''} cleared by ${userId}`);
+    return cleared;
+  }
+
+  isPlatformAdmin(email?: string): boolean {
+    if (!email) return false;
+    const admins = (process.env.PLATFORM_ADMIN_EMAILS || '')
+      .split(',')
+      .map(entry => entry.trim().toLowerCase())
+      .filter(Boolean);
+    return admins.includes(email.toLowerCase());
+  }
+
+  private async resolveScopeId(tenantId: string, dto: CreateControlFlagDto): Promise<string | null> {
+    switch (dto.scope) {
+      case 'GLOBAL':
+        return null;
+      case 'TENANT':
+        return tenantId;
+      case 'WORKFLOW': {
+        const workflow = dto.scopeId && await this.prisma.workflowDefinition.findFirst({
+          where: { id: dto.scopeId, tenantId },
+        });
+        if (!workflow) throw new NotFoundException(`Workflow with ID "${dto.scopeId}" not found`);
+        return workflow.id;
+      }
+      case 'SDK': {
+        const aggregator = dto.scopeId && await this.prisma.aggregator.findFirst({
+          where: { id: dto.scopeId, tenantId },
+        });
+        if (!aggregator) throw new NotFoundException(`SDK with ID "${dto.scopeId}" not found`);
+        return aggregator.id;
+      }
+      case 'CONNECTOR': {
+        const connector = dto.scopeId && await this.prisma.connector.findFirst({
+          where: { id: dto.scopeId, tenantId },
+        });
+        if (!connector) throw new NotFoundException(`Connector with ID "${dto.scopeId}" not found`);
+        return connector.id;
+      }
+      default:
+        throw new BadRequestException(`Unsupported control scope: ${dto.scope}`);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { DeadLetterService } from './services/dead-letter.service';
+import {
+  DeadLetterQueryDto,
+  ReplayDeadLetterDto,
+  PurgeDeadLetterDto,
+  DeadLetterListResponseDto,
+} from './dto/dead-letter.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantMemberGuard } from '../common/guards/tenant-member.guard';
+import { TenantId } from '../common/decorators/tenant-id.decorator';
+
+@Controller('api/dead-letter')
+@ApiTags('Dead Letter Queue')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantMemberGuard)
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get()
+  @ApiResponse({ status: 200, type: DeadLetterListResponseDto })
+  async findAll(
+    @TenantId() tenantId: string,
+    @Query() query: DeadLetterQueryDto,
+  ) {
+    const result = await this.deadLetterService.findAll(tenantId, query);
+    return { success: true, ...result };
+  }
+
+  @Get(':entryId')
+  async findOne(
+    @Param('entryId') entryId: string,
+    @TenantId() tenantId: string,
+    @Request() req: any,
+  ) {
+    const entry = await this.deadLetterService.findOne(entryId, tenantId, req.user?.userId);
+    return { success: true, data: entry };
+  }
+
+  @Post('replay')
+  async replay(
+    @TenantId() tenantId: string,
+    @Body() dto: ReplayDeadLetterDto,
+    @Request() req: any,
+  ) {
+    const result = await this.deadLetterService.replay(dto.entryIds, tenantId, req.user?.userId);
+    return { success: true, data: result };
+  }
+
+  @Post(':entryId/replay')
+  async replayOne(
+    @Param('entryId') entryId: string,
+    @TenantId() tenantId: string,
+    @Request() req: any,
+  ) {
+    const result = await this.deadLetterService.replay([entryId], tenantId, req.user?.userId);
+    return { success: true, data: result };
+  }
+
+  @Post('purge')
+  async purge(
+    @TenantId() tenantId: string,
+    @Body() dto: PurgeDeadLetterDto,
+    @Request() req: any,
+  ) {
+    const result = await this.deadLetterService.purge(tenantId, dto.entryIds, req.user?.userId);
+    return { success: true, data: result };
+  }
+
+  @Delete(':entryId')
+  async remove(
+    @Param('entryId') entryId: string,
+    @TenantId() tenantId: string,
+    @Request() req: any,
+  ) {
+    const result = await this.deadLetterService.purge(tenantId, [entryId], req.user?.userId);
+    return { success: true, data: result };
+  }
+}
@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsString, IsOptional, ArrayNotEmpty, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class DeadLetterQueryDto {
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset: number = 0;
+}
+
+export class ReplayDeadLetterDto {
+  @ApiProperty({ type: [String], description: 'DLQ entry ids to replay onto their tier queue' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  entryIds!: string[];
+}
+
+export class PurgeDeadLetterDto {
+  @ApiPropertyOptional({ type: [String], description: 'DLQ entry ids to purge; purges every tenant entry when omitted' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  entryIds?: string[];
+}
+
+export class DeadLetterAttemptDto {
+  @ApiProperty() attempt!: number;
+  @ApiProperty() error!: string;
+}
+
+export class DeadLetterEntryDto {
+  @ApiProperty() id!: string;
+  @ApiProperty() executionId!: string;
+  @ApiProperty() workflowId!: string;
+  @ApiProperty() workflowVersion!: number;
+  @ApiProperty() originalQueue!: string;
+  @ApiPropertyOptional() failedReason?: string;
+  @ApiProperty() attemptsMade!: number;
+  @ApiProperty({ type: [DeadLetterAttemptDto] }) attempts!: DeadLetterAttemptDto[];
+  @ApiPropertyOptional() enqueuedAt?: string;
+  @ApiProperty() failedAt!: string;
+}
+
+export class DeadLetterListResponseDto {
+  @ApiProperty() success!: boolean;
+  @ApiProperty({ type: [DeadLetterEntryDto] }) data!: DeadLetterEntryDto[];
+  @ApiProperty({ description: 'Whether more entries follow this page' }) hasMore!: boolean;
+  @ApiProperty() limit!: number;
+  @ApiProperty() offset!: number;
+}
@@ -22,6 +22,15 @@ export class CancelExecutionDto {
   reason?: string;
 }
 
+export class RetryExecutionDto {
+  @ApiPropertyOptional({
+    description: 'Step to re-run from. It and every downstream step run again; defaults to the failed steps',
+  })
+  @IsOptional()
+  @IsString()
+  fromStepId?: string;
+}
+
 export class ExecutionControlResponseDto {
   @ApiProperty() success!: boolean;
   @ApiProperty() data!: {
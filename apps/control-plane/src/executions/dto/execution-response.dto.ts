@@ -26,6 +26,8 @@ export class ExecutionResponseDto {
   @ApiProperty() workflowVersion!: number;
   @ApiProperty() workflowHash!: string;
   @ApiProperty() status!: string;
+  @ApiPropertyOptional({ description: 'Definition as run, with filters pushed into their sources, and the pushdowns made' })
+  plan?: { definition: Record<string, any>; pushdowns: Record<string, any>[] };
   @ApiPropertyOptional() currentStepId?: string;
   @ApiProperty() activities!: ActivityExecutionResponseDto[];
   @ApiProperty() events!: ExecutionEventResponseDto[];
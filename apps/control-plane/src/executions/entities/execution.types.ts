@@ -1,3 +1,5 @@
+import { ExtractFilter, WorkflowDefinition } from '../../workflows/entities/workflow-definition.types';
+
 // Execution status workflow
 export type ExecutionStatus =
   | 'PENDING'
@@ -13,7 +15,8 @@ export type ActivityExecutionStatus =
   | 'RUNNING'
   | 'COMPLETED'
   | 'FAILED'
-  | 'CANCELLED';
+  | 'CANCELLED'
+  | 'SKIPPED';
 
 // Activity execution context
 export interface ActivityContext {
@@ -32,24 +35,63 @@ export interface ExecutionEvent {
   timestamp: Date;
   eventType:
     | 'EXECUTION_STARTED'
+    | 'EXECUTION_RETRIED'
     | 'STEP_STARTED'
     | 'STEP_COMPLETED'
     | 'STEP_FAILED'
+    | 'STEP_SKIPPED'
     | 'ACTIVITY_RETRY'
     | 'EXECUTION_PAUSED'
     | 'EXECUTION_RESUMED'
     | 'EXECUTION_CANCELLED'
     | 'EXECUTION_COMPLETED'
-    | 'EXECUTION_FAILED';
+    | 'EXECUTION_FAILED'
+    | 'DLQ_INSPECTED'
+    | 'DLQ_REPLAYED'
+    | 'DLQ_PURGED'
+    | 'QUARANTINE_RESUBMITTED'
+    | 'SCHEMA_DRIFT_DETECTED'
+    | 'SCHEMA_EVOLVED'
+    | 'SCHEMA_EVOLUTION_REFUSED';
   payload: Record<string, any>;
 }
 
+// Completed steps copied from a failed execution when it is retried
+export interface CarriedOverState {
+  sourceExecutionId: string;
+  completedSteps: string[];
+  stepOutputRefs: Record<string, string>;
+}
+
 // DAG traversal state
 export interface ExecutionState {
   currentStepId: string | null;
   completedSteps: string[];
   failedSteps: string[];
-  stepOutputs: Record<string, any>;
+  skippedSteps: string[];  // Not run: a condition did not hold, a switch took another branch or a dependency did not complete
+  stepOutputRefs: Record<string, string>;  // Inline JSON or storage URI, see StepOutputStoreService
+  stepAttempts: Record<string, number>;  // Latest attempt number per step
   startedAt: Date;
   lastActivityAt: Date;
 }
+
+// Work moved from a filter step into the extract feeding it
+export interface Pushdown {
+  filterStepId: string;
+  sourceStepId: string;
+  filters: ExtractFilter[];  // Conditions added to the source's filters
+  columns?: string[];  // The source's pruned column list, when it changed
+  retained: number;  // Conditions only the filter step evaluates
+}
+
+// What an execution actually runs; recorded on it when anything was rewritten
+export interface ExecutionPlan {
+  definition: WorkflowDefinition;
+  pushdowns: Pushdown[];
+}
+
+// How a source column compares in the database, from its discovered type
+export type ColumnKind = 'text' | 'number' | 'other';
+
+// Discovered column kinds of source activities, keyed by activity id, then column
+export type SourceColumnKinds = Record<string, Record<string, ColumnKind>>;
@@ -15,6 +15,7 @@ import {
   PauseExecutionDto,
   ResumeExecutionDto,
   CancelExecutionDto,
+  RetryExecutionDto,
   ExecutionControlResponseDto,
 } from './dto/execution-control.dto';
 import {
@@ -96,4 +97,15 @@ export class ExecutionsController {
     const result = await this.executionsService.cancelExecution(executionId, tenantId, dto);
     return { success: true, data: result };
   }
+
+  @Post('executions/:id/retry')
+  @ApiResponse({ status: 201, type: ExecutionTriggerResponseDto })
+  async retry(
+    @Param('id') executionId: string,
+    @TenantId() tenantId: string,
+    @Body() dto: RetryExecutionDto,
+  ) {
+    const result = await this.executionsService.retryExecution(executionId, tenantId, dto);
+    return { success: true, data: result };
+  }
 }
@@ -1,21 +1,36 @@
 import { Module } from '@nestjs/common';
 import { ExecutionsController } from './executions.controller';
+import { DeadLetterController } from './dead-letter.controller';
 import { ExecutionsService } from './executions.service';
 import { ActivityDispatcherService } from './services/activity-dispatcher.service';
 import { ExecutionStateService } from './services/execution-state.service';
 import { ExecutionOrchestratorService } from './services/execution-orchestrator.service';
+import { ExecutionQueueService } from './services/execution-queue.service';
+import { DeadLetterService } from './services/dead-letter.service';
+import { StepOutputStoreService } from './services/step-output-store.service';
+import { StepOutputRetentionService } from './services/step-output-retention.service';
 import { PrismaService } from '../prisma.service';
 import { ActivitiesModule } from '../activities/activities.module';
 import { WebsocketModule } from '../websocket/websocket.module';
+import { QueueModule } from '../queue/queue.module';
+import { ControlsModule } from '../controls/controls.module';
+import { WatermarksModule } from '../watermarks/watermarks.module';
+import { SchemaDriftModule } from '../schema-drift/schema-drift.module';
+import { StorageModule } from '../storage/storage.module';
+import { AggregatorsModule } from '../aggregators/aggregators.module';
 
 @Module({
-  imports: [ActivitiesModule, WebsocketModule],
-  controllers: [ExecutionsController],
+  imports: [ActivitiesModule, WebsocketModule, QueueModule, ControlsModule, StorageModule, WatermarksModule, SchemaDriftModule, AggregatorsModule],
+  controllers: [ExecutionsController, DeadLetterController],
   providers: [
     ExecutionsService,
     ActivityDispatcherService,
     ExecutionStateService,
     ExecutionOrchestratorService,
+    ExecutionQueueService,
+    DeadLetterService,
+    StepOutputStoreService,
+    StepOutputRetentionService,
     PrismaService,
   ],
   exports: [ExecutionsService, ExecutionStateService],
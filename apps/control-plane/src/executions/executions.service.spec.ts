@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionsService } from './executions.service';
+import { ExecutionStateService } from './services/execution-state.service';
+import { ExecutionQueueService } from './services/execution-queue.service';
+import { WatermarkService } from '../watermarks/services/watermark.service';
+import { PrismaService } from '../prisma.service';
+
+describe('ExecutionsService', () => {
+  let service: ExecutionsService;
+
+  const mockPrismaService = {
+    workflowExecution: { findFirst: jest.fn() },
+    workflowDefinition: { findFirst: jest.fn() },
+  };
+
+  const mockStateService = {
+    getExecutionState: jest.fn(),
+    createExecution: jest.fn(),
+    recordCarriedOverActivity: jest.fn(),
+    logEvent: jest.fn(),
+  };
+
+  const mockExecutionQueue = {
+    admit: jest.fn(),
+    enqueue: jest.fn(),
+  };
+
+  const mockWatermarks = {
+    carryOver: jest.fn(),
+  };
+
+  // extract -> transform -> load, failed at load
+  const definition = {
+    version: '1.0',
+    activities: [
+      { id: 'extract', type: 'extract', name: 'Extract', config: {} },
+      { id: 'transform', type: 'transform', name: 'Transform', config: {} },
+      { id: 'load', type: 'load', name: 'Load', config: {} },
+    ],
+    steps: [
+      { id: 'extract', activityId: 'extract', dependsOn: [] },
+      { id: 'transform', activityId: 'transform', dependsOn: ['extract'] },
+      { id: 'load', activityId: 'load', dependsOn: ['transform'] },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExecutionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: ExecutionQueueService, useValue: mockExecutionQueue },
+        { provide: WatermarkService, useValue: mockWatermarks },
+      ],
+    }).compile();
+
+    service = module.get<ExecutionsService>(ExecutionsService);
+
+    mockPrismaService.workflowExecution.findFirst.mockResolvedValue({
+      id: 'exec-1',
+      status: 'FAILED',
+      workflowId: 'workflow-1',
+      workflowVersion: 2,
+      workflowHash: 'hash',
+    });
+    mockPrismaService.workflowDefinition.findFirst.mockResolvedValue({ definition });
+    mockStateService.createExecution.mockResolvedValue({ id: 'exec-2', status: 'PENDING' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('retryExecution', () => {
+    it('should carry over completed steps with their outputs and re-run the rest', async () => {
+      mockStateService.getExecutionState.mockResolvedValue({
+        completedSteps: ['extract', 'transform'],
+        failedSteps: ['load'],
+        stepOutputRefs: { extract: 'blob://extract.json', transform: '[{"id":1}]' },
+      });
+
+      const result = await service.retryExecution('exec-1', 'tenant-1', {});
+
+      expect(result.carriedOverSteps).toEqual(['extract', 'transform']);
+      expect(mockStateService.recordCarriedOverActivity).toHaveBeenCalledWith('exec-2', 'tenant-1', 'extract', 'extract', 'blob://extract.json');
+      // The extract's staged mark now waits on the retry's load
+      expect(mockWatermarks.carryOver).toHaveBeenCalledWith('exec-1', 'exec-2', ['extract', 'transform']);
+    });
+
+    it('should re-run completed steps whose output is gone, and the steps after them', async () => {
+      mockStateService.getExecutionState.mockResolvedValue({
+        completedSteps: ['extract', 'transform'],
+        failedSteps: ['load'],
+        // The retention purge removed the transform output
+        stepOutputRefs: { extract: 'blob://extract.json' },
+      });
+
+      const result = await service.retryExecution('exec-1', 'tenant-1', {});
+
+      expect(result.carriedOverSteps).toEqual(['extract']);
+      expect(mockStateService.recordCarriedOverActivity).toHaveBeenCalledTimes(1);
+    });
+  });
+});
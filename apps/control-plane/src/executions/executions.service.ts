@@ -1,18 +1,20 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { ExecutionStateService } from './services/execution-state.service';
-import { ExecutionOrchestratorService } from './services/execution-orchestrator.service';
+import { ExecutionQueueService } from './services/execution-queue.service';
+import { WatermarkService } from '../watermarks/services/watermark.service';
 import { ExecuteWorkflowDto } from './dto/execute-workflow.dto';
 import { ExecutionQueryDto } from './dto/execution-query.dto';
-import { PauseExecutionDto, ResumeExecutionDto, CancelExecutionDto } from './dto/execution-control.dto';
-import { WorkflowDefinition } from '../workflows/entities/workflow-definition.types';
+import { PauseExecutionDto, ResumeExecutionDto, CancelExecutionDto, RetryExecutionDto } from './dto/execution-control.dto';
+import { WorkflowDefinition, WorkflowStep } from '../workflows/entities/workflow-definition.types';
 
 @Injectable()
 export class ExecutionsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly stateService: ExecutionStateService,
-    private readonly orchestrator: ExecutionOrchestratorService,
+    private readonly executionQueue: ExecutionQueueService,
+    private readonly watermarks: WatermarkService,
   ) {}
 
   async findAll(tenantId: string, query: ExecutionQueryDto) {
@@ -77,6 +79,8 @@ export class ExecutionsService {
       throw new ConflictException(`Workflow is not active (status: ${workflow.status})`);
     }
 
+    await this.executionQueue.admit(tenantId, workflowId);
+
     // Create execution record
     const execution = await this.stateService.createExecution(
       tenantId,
@@ -86,14 +90,17 @@ export class ExecutionsService {
       dto.triggerContext
     );
 
-    // Start orchestration (async - don't wait)
-    this.orchestrator.startExecution(
-      execution.id,
-      tenantId,
-      workflow.definition as unknown as WorkflowDefinition
-    ).catch(error => {
-      console.error(`Failed to start execution ${execution.id}:`, error);
-    });
+    // Hand off to the tenant's tier queue - a worker runs the orchestration
+    const delay = dto.scheduledFor ? Math.max(0, Date.parse(dto.scheduledFor) - Date.now()) : 0;
+    await this.executionQueue.enqueue(
+      {
+        executionId: execution.id,
+        tenantId,
+        workflowId,
+        workflowVersion: workflow.version,
+      },
+      { delay: Number.isNaN(delay) ? 0 : delay },
+    );
 
     return {
       executionId: execution.id,
@@ -150,26 +157,13 @@ export class ExecutionsService {
       payload: { context: dto.context },
     });
 
-    // Resume orchestration from current state
-    const state = await this.stateService.getExecutionState(executionId, tenantId);
-    if (state) {
-      // Get workflow definition from the execution's workflow relation
-      const workflowDef = await this.prisma.workflowDefinition.findFirst({
-        where: { 
-          id: execution.workflowId, 
-          version: execution.workflowVersion 
-        },
-      });
-      
-      if (workflowDef) {
-        this.orchestrator.processNextStep(
-          executionId,
-          tenantId,
-          workflowDef.definition as unknown as WorkflowDefinition,
-          state
-        ).catch(console.error);
-      }
-    }
+    // Resume orchestration from current state on the tier queue
+    await this.executionQueue.enqueue({
+      executionId,
+      tenantId,
+      workflowId: execution.workflowId,
+      workflowVersion: execution.workflowVersion,
+    });
 
     return {
       executionId,
@@ -207,4 +201,108 @@ export class ExecutionsService {
       message: 'Execution cancelled successfully',
     };
   }
+
+  async retryExecution(executionId: string, tenantId: string, dto: RetryExecutionDto) {
+    const execution = await this.findOne(executionId, tenantId);
+
+    if (execution.status !== 'FAILED') {
+      throw new ConflictException(`Cannot retry execution with status: ${execution.status}`);
+    }
+
+    // Re-run against the exact definition the failed execution used
+    const workflow = await this.prisma.workflowDefinition.findFirst({
+      where: { id: execution.workflowId, version: execution.workflowVersion, tenantId },
+    });
+    if (!workflow) {
+      throw new NotFoundException(
+        `Workflow "${execution.workflowId}" version ${execution.workflowVersion} not found`
+      );
+    }
+    const definition = workflow.definition as unknown as WorkflowDefinition;
+
+    const state = await this.stateService.getExecutionState(executionId, tenantId);
+    if (!state) {
+      throw new NotFoundException(`Execution state for "${executionId}" not found`);
+    }
+
+    if (dto.fromStepId && !definition.steps.some(step => step.id === dto.fromStepId)) {
+      throw new BadRequestException(`Step "${dto.fromStepId}" does not exist in workflow version ${execution.workflowVersion}`);
+    }
+
+    // Completed steps are reused unless they sit downstream of the retry point,
+    // or their output is gone, e.g. removed by the retention purge
+    const rerunFrom = [
+      ...(dto.fromStepId ? [dto.fromStepId] : state.failedSteps),
+      ...state.completedSteps.filter(stepId => state.stepOutputRefs[stepId] === undefined),
+    ];
+    const rerunSteps = this.collectDownstreamSteps(definition.steps, rerunFrom);
+    const carriedOverSteps = state.completedSteps.filter(stepId => !rerunSteps.has(stepId));
+
+    await this.executionQueue.admit(tenantId, execution.workflowId);
+
+    const retried = await this.stateService.createExecution(
+      tenantId,
+      execution.workflowId,
+      execution.workflowVersion,
+      execution.workflowHash,
+      { retryOf: executionId, fromStepId: dto.fromStepId }
+    );
+
+    for (const stepId of carriedOverSteps) {
+      const activityId = definition.steps.find(step => step.id === stepId)?.activityId;
+      const activityType = definition.activities.find(a => a.id === activityId)?.type ?? 'unknown';
+      await this.stateService.recordCarriedOverActivity(
+        retried.id,
+        tenantId,
+        stepId,
+        activityType,
+        state.stepOutputRefs[stepId],
+      );
+    }
+
+    // Marks the reused extracts staged are still waiting on loads the retry runs
+    const carriedOverActivityIds = carriedOverSteps
+      .map(stepId => definition.steps.find(step => step.id === stepId)?.activityId)
+      .filter((activityId): activityId is string => !!activityId);
+    await this.watermarks.carryOver(executionId, retried.id, carriedOverActivityIds);
+
+    await this.stateService.logEvent({
+      executionId,
+      timestamp: new Date(),
+      eventType: 'EXECUTION_RETRIED',
+      payload: { retryExecutionId: retried.id, fromStepId: dto.fromStepId, carriedOverSteps },
+    });
+
+    // The worker picks up the carried-over rows as the starting state
+    await this.executionQueue.enqueue({
+      executionId: retried.id,
+      tenantId,
+      workflowId: execution.workflowId,
+      workflowVersion: execution.workflowVersion,
+      retryOf: executionId,
+    });
+
+    return {
+      executionId: retried.id,
+      status: retried.status,
+      retryOf: executionId,
+      carriedOverSteps,
+      message: 'Execution retry triggered successfully',
+    };
+  }
+
+  private collectDownstreamSteps(steps: WorkflowStep[], fromStepIds: string[]): Set<string> {
+    const downstream = new Set<string>(fromStepIds);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const step of steps) {
+        if (!downstream.has(step.id) && step.dependsOn.some(depId => downstream.has(depId))) {
+          downstream.add(step.id);
+          changed = true;
+        }
+      }
+    }
+    return downstream;
+  }
 }
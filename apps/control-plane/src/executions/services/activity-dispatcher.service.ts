@@ -7,10 +7,27 @@ import {
   LoadConfig,
   ExtractConfig,
   TransformConfig,
+  IncrementalConfig,
+  SyncConfig,
+  SchemaDriftPolicy,
 } from '../../workflows/entities/workflow-definition.types';
 import { ActivityExecutorService } from '../../activities/services/activity-executor.service';
 import { CommandDispatcherService } from '../../websocket/services/command-dispatcher.service';
+import { ChunkedDatasetService } from '../../activities/datasets/chunked-dataset.service';
+import {
+  WatermarkService,
+  SYNC_POSITION_CURSOR,
+  maxCursorValue,
+  toCursorParam,
+} from '../../watermarks/services/watermark.service';
+import { SchemaDriftService } from '../../schema-drift/services/schema-drift.service';
+import { describeSchemaChange } from '../../aggregators/schema-diff';
 import { ExecutionStateService } from './execution-state.service';
+import { PrismaService } from '../../prisma.service';
+import {
+  ControlFlagsService,
+  ControlFlagBlockedException,
+} from '../../controls/services/control-flags.service';
 
 export interface DispatchActivityParams {
   executionId: string;
@@ -18,6 +35,23 @@ export interface DispatchActivityParams {
   step: WorkflowStep;
   activity: Activity;
   workflowDefinition: WorkflowDefinition;
+  attempt?: number;
+}
+
+/**
+ * Error raised when an activity fails, carrying the handler's error code and
+ * retryable flag so the orchestrator can apply the step's retry policy.
+ */
+export class ActivityDispatchError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly retryable: boolean,
+    public readonly details?: any,
+  ) {
+    super(message);
+    this.name = 'ActivityDispatchError';
+  }
 }
 
 @Injectable()
@@ -28,20 +62,36 @@ export class ActivityDispatcherService {
     private readonly activityExecutor: ActivityExecutorService,
     private readonly commandDispatcher: CommandDispatcherService,
     private readonly stateService: ExecutionStateService,
+    private readonly prisma: PrismaService,
+    private readonly controlFlags: ControlFlagsService,
+    private readonly datasets: ChunkedDatasetService,
+    private readonly watermarks: WatermarkService,
+    private readonly schemaDrift: SchemaDriftService,
   ) {}
 
   async dispatch(params: DispatchActivityParams): Promise<any> {
-    const { executionId, tenantId, step, activity, workflowDefinition } = params;
+    const { executionId, tenantId, step, activity, workflowDefinition, attempt = 1 } = params;
 
     switch (activity.type) {
       case 'extract':
       case 'transform':
       case 'load':
       case 'filter':
-      case 'join': {
-        // For load activities, inject source metadata from previous steps
+      case 'join':
+      case 'aggregate':
+      case 'dedupe':
+      case 'sync':
+      case 'multi-extract':
+      case 'multi-load':
+      case 'cloud-connector-source':
+      case 'cloud-connector-sink': {
         let activityConfig = activity.config;
         
+        if (['load', 'multi-load', 'cloud-connector-sink'].includes(activity.type)) {
+          await this.assertWriteAllowed(executionId, tenantId);
+        }
+
+        // For load activities, inject source metadata from previous steps
         if (activity.type === 'load') {
           const loadConfig = activityConfig as LoadConfig;
           // Only inject source metadata if not already provided
@@ -62,6 +112,50 @@ export class ActivityDispatcherService {
           }
         }
 
+        // Loads of an auto-evolving workflow change their destination unless told not to
+        if (activity.type === 'load' && workflowDefinition.schemaDrift?.onDrift === 'auto-evolve'
+          && (activityConfig as LoadConfig).autoEvolve === undefined) {
+          activityConfig = { ...(activityConfig as LoadConfig), autoEvolve: true };
+        }
+
+        // Tables changed since the step last ran are handled per the workflow's policy
+        if ((activity.type === 'extract' || activity.type === 'load') && workflowDefinition.schemaDrift) {
+          await this.checkSchemaDrift(executionId, tenantId, { ...activity, config: activityConfig }, workflowDefinition.schemaDrift);
+        }
+
+        // Incremental extracts only read rows past the stored watermark, in cursor order
+        let incrementalTarget: { workflowId: string; incremental: IncrementalConfig } | null = null;
+        if (activity.type === 'extract' && (activityConfig as ExtractConfig).incremental) {
+          const extractConfig = activityConfig as ExtractConfig;
+          const incremental = extractConfig.incremental!;
+          const workflowId = await this.getWorkflowId(executionId, tenantId);
+          const after = await this.watermarks.getStartValue(workflowId, activity.id, incremental);
+
+          activityConfig = {
+            ...extractConfig,
+            filters: [
+              ...(extractConfig.filters ?? []),
+              ...(after !== undefined
+                ? [{ column: incremental.cursorColumn, operator: 'gt' as const, value: toCursorParam(after) }]
+                : []),
+            ],
+            orderBy: [{ column: incremental.cursorColumn, direction: 'asc' }],
+          };
+          incrementalTarget = { workflowId, incremental };
+        }
+
+        // Change capture resumes after the last confirmed source position
+        if (activity.type === 'sync') {
+          const workflowId = await this.getWorkflowId(executionId, tenantId);
+          const incremental = { cursorColumn: SYNC_POSITION_CURSOR };
+          activityConfig = {
+            ...(activityConfig as SyncConfig),
+            position: await this.watermarks.getStartValue(workflowId, activity.id, incremental),
+            streamId: `${workflowId}_${activity.id}`,
+          } as SyncConfig;
+          incrementalTarget = { workflowId, incremental };
+        }
+
         // For transform activities, auto-inject mappingId if not provided but source/destination mapping exists
         if (activity.type === 'transform') {
           const transformConfig = activityConfig as TransformConfig;
@@ -91,13 +185,33 @@ export class ActivityDispatcherService {
           activityType: activity.type as any,
           config: activityConfig as any,
           inputs,
+          retryCount: attempt - 1,
+          maxRetries: activity.retry ? Math.max(0, activity.retry.maxAttempts - 1) : undefined,
         });
 
         if (!result.success) {
           const message = result.error?.message || 'Activity execution failed';
-          throw new Error(message);
+          throw new ActivityDispatchError(
+            message,
+            result.error?.code || 'ACTIVITY_FAILED',
+            result.error?.retryable ?? false,
+            result.error?.details,
+          );
         }
         
+        // The watermark only advances once the downstream loads commit
+        const reached = activity.type === 'sync' ? result.metadata?.position : result.metadata?.cursorValue;
+        if (incrementalTarget && reached !== undefined) {
+          await this.watermarks.stage({
+            tenantId,
+            workflowId: incrementalTarget.workflowId,
+            activityId: activity.id,
+            executionId,
+            cursorColumn: incrementalTarget.incremental.cursorColumn,
+            value: reached,
+          });
+        }
+
         // Add source metadata to output for downstream activities
         const output = result.data;
         
@@ -107,6 +221,17 @@ export class ActivityDispatcherService {
       case 'mini-connector-source': {
         const config = activity.config as MiniConnectorSourceConfig;
 
+        // Incremental sources ask the connector for rows past the stored watermark
+        let workflowId: string | undefined;
+        let incremental: { cursorColumn: string; after?: any } | undefined;
+        if (config.incremental) {
+          workflowId = await this.getWorkflowId(executionId, tenantId);
+          incremental = {
+            cursorColumn: config.incremental.cursorColumn,
+            after: await this.watermarks.getStartValue(workflowId, activity.id, config.incremental),
+          };
+        }
+
         // Build query payload for Mini Connector
         const payload = {
           // The Mini Connector selects its local DB connection; we route to the correct connector instance
@@ -114,18 +239,42 @@ export class ActivityDispatcherService {
             table: config.table,
             columns: Array.isArray(config.columns) ? config.columns : ['*'],
             where: config.where,
+            ...(config.filters?.length && { filters: config.filters }),
             limit: config.limit,
+            ...(incremental && { incremental }),
           },
         };
 
-        const TIMEOUT_MS = 30000;
-        const response = await this.commandDispatcher.dispatchCommandAndWait<any>(
-          tenantId,
-          'query',
-          payload,
-          TIMEOUT_MS,
-          config.connectorId,
-        );
+        // Rows stream in as chunks and are stored as they arrive, so the result
+        // set never has to fit in memory; the timeout restarts with every chunk
+        const IDLE_TIMEOUT_MS = 30000;
+        const writer = this.datasets.createWriter({ tenantId, executionId, stepId: step.id, retryCount: attempt - 1 });
+        let chunksReceived = 0;
+        let cursorValue: any;
+        let response: any;
+        try {
+          response = await this.commandDispatcher.dispatchStreamingCommandAndWait<any>(
+            tenantId,
+            'stream-query',
+            payload,
+            async (rows) => {
+              chunksReceived++;
+              if (incremental) {
+                for (const row of rows) cursorValue = maxCursorValue(cursorValue, row[incremental.cursorColumn]);
+              }
+              await writer.write(rows);
+            },
+            IDLE_TIMEOUT_MS,
+            config.connectorId,
+          );
+        } catch (error) {
+          if (error instanceof ControlFlagBlockedException) {
+            throw new ActivityDispatchError(error.message, 'CONTROL_FLAG_BLOCKED', false, { flagId: error.flag.id });
+          }
+          // Offline connectors and command timeouts are transient
+          const message = error instanceof Error ? error.message : String(error);
+          throw new ActivityDispatchError(`Mini connector unavailable: ${message}`, 'CONNECTOR_UNAVAILABLE', true);
+        }
 
         // Check if the response indicates an error from the connector
         // Mini connector may return { data: { error: "...", status: "failed" } }
@@ -137,22 +286,44 @@ export class ActivityDispatcherService {
           throw new Error(`Mini connector source error: ${response.error}`);
         }
 
-        // Wrap response with source metadata
-        return {
-          data: response.data || response,
-          rowCount: response.rowCount,
-          columns: response.columns || config.columns,
-          _sourceMetadata: {
-            tableName: config.table,
-            columns: config.columns,
-            database: config.database,
-          },
+        const summary = response?.data ?? response ?? {};
+        if (typeof summary.chunks === 'number' && summary.chunks !== chunksReceived) {
+          throw new ActivityDispatchError(
+            `Mini connector streamed ${summary.chunks} chunk(s) but ${chunksReceived} arrived`,
+            'STREAM_INCOMPLETE',
+            true,
+          );
+        }
+
+        if (incremental && cursorValue !== undefined) {
+          await this.watermarks.stage({
+            tenantId,
+            workflowId: workflowId!,
+            activityId: activity.id,
+            executionId,
+            cursorColumn: incremental.cursorColumn,
+            value: cursorValue,
+          });
+        }
+
+        const sourceMetadata = {
+          tableName: config.table,
+          columns: config.columns,
+          database: config.database,
         };
-      }
+        const columns = summary.columns || config.columns;
+        const data = await writer.finish({ columns, _sourceMetadata: sourceMetadata });
 
-      case 'cloud-connector-source':
-      case 'cloud-connector-sink': {
-        throw new Error(`Executor for activity type "${activity.type}" not implemented`);
+        // Small results keep the wrapped shape; large ones are a chunked dataset manifest
+        if (this.datasets.isChunked(data)) {
+          return data;
+        }
+        return {
+          data,
+          rowCount: data.length,
+          columns,
+          _sourceMetadata: sourceMetadata,
+        };
       }
 
       default:
@@ -160,6 +331,65 @@ export class ActivityDispatcherService {
     }
   }
 
+  /**
+   * Refuses writes while a READONLY, BLOCK or EMERGENCY flag covers the tenant or workflow
+   */
+  private async assertWriteAllowed(executionId: string, tenantId: string) {
+    const execution = await this.prisma.workflowExecution.findFirst({
+      where: { id: executionId, tenantId },
+      select: { workflowId: true },
+    });
+    const flag = await this.controlFlags.findBlockingFlag(
+      { tenantId, workflowId: execution?.workflowId },
+      'write',
+    );
+    if (flag) {
+      throw new ActivityDispatchError(
+        new ControlFlagBlockedException(flag, 'write').message,
+        'CONTROL_FLAG_BLOCKED',
+        false,
+        { flagId: flag.id },
+      );
+    }
+  }
+
+  /**
+   * Records drift of the step's table as an execution event; fails the step
+   * when the policy says so
+   */
+  private async checkSchemaDrift(executionId: string, tenantId: string, activity: Activity, policy: SchemaDriftPolicy) {
+    const workflowId = await this.getWorkflowId(executionId, tenantId);
+    const drift = await this.schemaDrift.check({ tenantId, workflowId, activity, policy });
+    if (!drift) {
+      return;
+    }
+
+    await this.stateService.logEvent({
+      executionId,
+      timestamp: new Date(),
+      eventType: 'SCHEMA_DRIFT_DETECTED',
+      payload: { activityId: activity.id, ...drift },
+    });
+
+    const message = `Schema of "${drift.table}" changed since the last run (v${drift.fromVersion} -> v${drift.toVersion}): ` +
+      drift.changes.map(describeSchemaChange).join('; ');
+    if (drift.action === 'fail') {
+      throw new ActivityDispatchError(message, 'SCHEMA_DRIFT', false, drift);
+    }
+    this.logger.warn(`${message} (activity ${activity.id}, execution ${executionId})`);
+  }
+
+  private async getWorkflowId(executionId: string, tenantId: string): Promise<string> {
+    const execution = await this.prisma.workflowExecution.findFirst({
+      where: { id: executionId, tenantId },
+      select: { workflowId: true },
+    });
+    if (!execution) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+    return execution.workflowId;
+  }
+
   /**
    * Extract source metadata from previous step outputs to inject into load activity
    */
@@ -170,11 +400,11 @@ export class ActivityDispatcherService {
     workflowDefinition: WorkflowDefinition,
   ): Promise<{ tableName?: string; columns?: string[]; schema?: Record<string, string> } | null> {
     const state = await this.stateService.getExecutionState(executionId, tenantId);
-    if (!state?.stepOutputs) return null;
+    if (!state) return null;
 
     // Get the first dependency's output
     for (const depStepId of dependsOn) {
-      const output = state.stepOutputs[depStepId];
+      const output = (await this.stateService.loadStepOutputs(state, [depStepId]))[depStepId];
       if (!output) continue;
 
       // Check if output has _sourceMetadata attached
@@ -229,12 +459,7 @@ export class ActivityDispatcherService {
     const state = await this.stateService.getExecutionState(executionId, tenantId);
     if (!state) return undefined;
 
-    const inputs: Record<string, any> = {};
-    for (const depStepId of step.dependsOn) {
-      if (state.stepOutputs && depStepId in state.stepOutputs) {
-        inputs[depStepId] = state.stepOutputs[depStepId];
-      }
-    }
+    const inputs = await this.stateService.loadStepOutputs(state, step.dependsOn);
     return Object.keys(inputs).length > 0 ? inputs : undefined;
   }
 
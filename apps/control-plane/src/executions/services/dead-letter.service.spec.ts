@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { DeadLetterService } from './dead-letter.service';
+import { ExecutionStateService } from './execution-state.service';
+import { ExecutionQueueService, EXECUTION_JOB_NAME } from './execution-queue.service';
+import { BullMQService } from '../../queue/services/bullmq.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('DeadLetterService', () => {
+  let service: DeadLetterService;
+
+  const mockPrismaService = {
+    activityExecution: { count: jest.fn() },
+    workflowExecution: { updateMany: jest.fn() },
+  };
+
+  const mockBullMQService = {
+    getJobs: jest.fn(),
+    getJob: jest.fn(),
+  };
+
+  const mockStateService = {
+    logEvent: jest.fn(),
+  };
+
+  const mockExecutionQueue = {
+    enqueue: jest.fn(),
+  };
+
+  const buildEntry = (id: string, tenantId: string, executionId: string) => ({
+    id,
+    name: EXECUTION_JOB_NAME,
+    timestamp: Date.now(),
+    remove: jest.fn(),
+    data: {
+      originalQueue: 'workflow-exec-free',
+      data: { executionId, tenantId, workflowId: 'workflow-1', workflowVersion: 1 },
+      failedReason: 'database unavailable',
+      attemptsMade: 3,
+      errorHistory: ['Error: timeout\n    at a', 'Error: timeout\n    at b', 'Error: database unavailable\n    at c'],
+      failedAt: new Date().toISOString(),
+    },
+  });
+
+  // Serves the entries as the DLQ waiting list, newest first; removed entries leave the list
+  const queueEntries = (entries: ReturnType<typeof buildEntry>[]) => {
+    const waiting = [...entries];
+    for (const entry of waiting) {
+      entry.remove.mockImplementation(async () => { waiting.splice(waiting.indexOf(entry), 1); });
+    }
+    mockBullMQService.getJobs.mockImplementation(async (_queue: string, [state]: string[], start: number, end: number) =>
+      state === 'waiting' ? waiting.slice(start, end + 1) : [],
+    );
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadLetterService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: BullMQService, useValue: mockBullMQService },
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: ExecutionQueueService, useValue: mockExecutionQueue },
+      ],
+    }).compile();
+
+    service = module.get<DeadLetterService>(DeadLetterService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should only list entries of the requesting tenant with their attempt history', async () => {
+      queueEntries([
+        buildEntry('1', 'tenant-1', 'exec-1'),
+        buildEntry('2', 'tenant-2', 'exec-2'),
+      ]);
+
+      const result = await service.findAll('tenant-1', { limit: 20, offset: 0 });
+
+      expect(result.hasMore).toBe(false);
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].executionId).toBe('exec-1');
+      expect(result.data[0].attempts).toEqual([
+        { attempt: 1, error: 'Error: timeout' },
+        { attempt: 2, error: 'Error: timeout' },
+        { attempt: 3, error: 'Error: database unavailable' },
+      ]);
+    });
+
+    it('should stop reading the queue once the page is filled', async () => {
+      queueEntries(Array.from({ length: 1200 }, (_, i) => buildEntry(String(i), `tenant-${i % 2}`, `exec-${i}`)));
+
+      const result = await service.findAll('tenant-1', { limit: 20, offset: 230 });
+
+      expect(result.data.map(entry => entry.id)).toEqual(Array.from({ length: 20 }, (_, i) => String(461 + 2 * i)));
+      expect(result.hasMore).toBe(true);
+      // The page ends in the second window of 500 jobs
+      expect(mockBullMQService.getJobs).toHaveBeenCalledTimes(2);
+      expect(mockBullMQService.getJobs).toHaveBeenLastCalledWith(expect.any(String), ['waiting'], 500, 999);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should hide entries of other tenants', async () => {
+      mockBullMQService.getJob.mockResolvedValue(buildEntry('2', 'tenant-2', 'exec-2'));
+
+      await expect(service.findOne('2', 'tenant-1')).rejects.toThrow(NotFoundException);
+      expect(mockStateService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should record the inspection as an execution event', async () => {
+      mockBullMQService.getJob.mockResolvedValue(buildEntry('1', 'tenant-1', 'exec-1'));
+
+      const entry = await service.findOne('1', 'tenant-1', 'user-1');
+
+      expect(entry.payload.executionId).toBe('exec-1');
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ executionId: 'exec-1', eventType: 'DLQ_INSPECTED' }),
+      );
+    });
+  });
+
+  describe('replay', () => {
+    it('should reopen the execution, requeue it and drop the entry', async () => {
+      const entry = buildEntry('1', 'tenant-1', 'exec-1');
+      mockBullMQService.getJob.mockResolvedValue(entry);
+      mockPrismaService.activityExecution.count.mockResolvedValue(2);
+      mockPrismaService.workflowExecution.updateMany.mockResolvedValue({ count: 1 });
+      mockExecutionQueue.enqueue.mockResolvedValue({ id: 'exec-1-replay' });
+
+      const result = await service.replay(['1'], 'tenant-1', 'user-1');
+
+      expect(mockPrismaService.workflowExecution.updateMany).toHaveBeenCalledWith({
+        where: { id: 'exec-1', tenantId: 'tenant-1' },
+        data: { status: 'RUNNING', completedAt: null },
+      });
+      expect(mockExecutionQueue.enqueue).toHaveBeenCalledWith(entry.data.data, expect.anything());
+      expect(entry.remove).toHaveBeenCalled();
+      expect(result.replayed).toHaveLength(1);
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'DLQ_REPLAYED' }),
+      );
+    });
+
+    it('should report entries that could not be replayed', async () => {
+      mockBullMQService.getJob.mockResolvedValue(undefined);
+
+      const result = await service.replay(['missing'], 'tenant-1');
+
+      expect(result.replayed).toHaveLength(0);
+      expect(result.failed).toEqual([{ entryId: 'missing', error: 'Dead-letter entry "missing" not found' }]);
+    });
+  });
+
+  describe('purge', () => {
+    it('should remove every entry of the tenant when no ids are given', async () => {
+      const own = buildEntry('1', 'tenant-1', 'exec-1');
+      const other = buildEntry('2', 'tenant-2', 'exec-2');
+      queueEntries([own, other]);
+
+      const result = await service.purge('tenant-1');
+
+      expect(result.purged).toBe(1);
+      expect(own.remove).toHaveBeenCalled();
+      expect(other.remove).not.toHaveBeenCalled();
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ executionId: 'exec-1', eventType: 'DLQ_PURGED' }),
+      );
+    });
+
+    it('should not skip entries that move up into an earlier window while purging', async () => {
+      const entries = Array.from({ length: 1200 }, (_, i) => buildEntry(String(i), `tenant-${i % 3 === 0 ? 1 : 2}`, `exec-${i}`));
+      queueEntries(entries);
+
+      const result = await service.purge('tenant-1');
+
+      expect(result.purged).toBe(400);
+      expect(entries.filter(entry => entry.data.data.tenantId === 'tenant-1').every(entry => entry.remove.mock.calls.length === 1)).toBe(true);
+      expect(entries.some(entry => entry.data.data.tenantId === 'tenant-2' && entry.remove.mock.calls.length > 0)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { PrismaService } from '../../prisma.service';
+import { BullMQService } from '../../queue/services/bullmq.service';
+import { QUEUE_CONFIG } from '../../queue/config/queue-topology.config';
+import { ExecutionStateService } from './execution-state.service';
+import { ExecutionQueueService, ExecutionJobData, EXECUTION_JOB_NAME } from './execution-queue.service';
+
+// Jobs read from the DLQ per request to Redis
+const SCAN_WINDOW = 500;
+
+interface DeadLetterPayload {
+  originalQueue: string;
+  originalJobId?: string;
+  data: ExecutionJobData;
+  failedReason?: string;
+  attemptsMade: number;
+  errorHistory?: string[];
+  enqueuedAt?: string;
+  failedAt: string;
+}
+
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+  private readonly queueName = QUEUE_CONFIG.deadLetterQueue.queueName;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly bullmq: BullMQService,
+    private readonly stateService: ExecutionStateService,
+    private readonly executionQueue: ExecutionQueueService,
+  ) {}
+
+  async findAll(tenantId: string, query: { limit: number; offset: number }) {
+    const data: ReturnType<DeadLetterService['toSummary']>[] = [];
+    let skipped = 0;
+    let hasMore = false;
+
+    // Reading stops at the first entry after the page
+    for await (const job of this.tenantEntries(tenantId)) {
+      if (skipped < query.offset) {
+        skipped++;
+      } else if (data.length < query.limit) {
+        data.push(this.toSummary(job));
+      } else {
+        hasMore = true;
+        break;
+      }
+    }
+
+    return { data, hasMore, limit: query.limit, offset: query.offset };
+  }
+
+  async findOne(entryId: string, tenantId: string, requestedBy?: string) {
+    const job = await this.getEntry(entryId, tenantId);
+    const payload = job.data as DeadLetterPayload;
+
+    await this.stateService.logEvent({
+      executionId: payload.data.executionId,
+      timestamp: new Date(),
+      eventType: 'DLQ_INSPECTED',
+      payload: { entryId, requestedBy },
+    });
+
+    return {
+      ...this.toSummary(job),
+      payload: payload.data,
+      errorHistory: payload.errorHistory ?? [],
+    };
+  }
+
+  async replay(entryIds: string[], tenantId: string, requestedBy?: string) {
+    const replayed: { entryId: string; executionId: string; jobId: string }[] = [];
+    const failed: { entryId: string; error: string }[] = [];
+
+    for (const entryId of entryIds) {
+      try {
+        const job = await this.getEntry(entryId, tenantId);
+        const { data } = job.data as DeadLetterPayload;
+
+        // Reopen the execution so the worker resumes it from its persisted state
+        const hasActivities = (await this.prisma.activityExecution.count({
+          where: { executionId: data.executionId },
+        })) > 0;
+        const { count } = await this.prisma.workflowExecution.updateMany({
+          where: { id: data.executionId, tenantId },
+          data: { status: hasActivities ? 'RUNNING' : 'PENDING', completedAt: null },
+        });
+        if (count === 0) {
+          throw new NotFoundException(`Execution "${data.executionId}" no longer exists`);
+        }
+
+        const requeued = await this.executionQueue.enqueue(data, {
+          jobId: `${data.executionId}-replay-${Date.now()}`,
+        });
+        await job.remove();
+
+        await this.stateService.logEvent({
+          executionId: data.executionId,
+          timestamp: new Date(),
+          eventType: 'DLQ_REPLAYED',
+          payload: { entryId, jobId: requeued.id, requestedBy },
+        });
+
+        replayed.push({ entryId, executionId: data.executionId, jobId: String(requeued.id) });
+      } catch (error) {
+        failed.push({ entryId, error: error.message });
+      }
+    }
+
+    this.logger.log(`Replayed ${replayed.length} DLQ entr(ies) for tenant ${tenantId}`);
+    return { replayed, failed };
+  }
+
+  /**
+   * Removes the given entries, or every entry of the tenant when no ids are passed.
+   */
+  async purge(tenantId: string, entryIds?: string[], requestedBy?: string) {
+    const jobs = entryIds?.length
+      ? await Promise.all(entryIds.map(entryId => this.getEntry(entryId, tenantId)))
+      : this.tenantEntries(tenantId, true);
+
+    let purged = 0;
+    for await (const job of jobs) {
+      const { data } = job.data as DeadLetterPayload;
+      await job.remove();
+      purged++;
+
+      await this.stateService.logEvent({
+        executionId: data.executionId,
+        timestamp: new Date(),
+        eventType: 'DLQ_PURGED',
+        payload: { entryId: job.id, requestedBy },
+      });
+    }
+
+    this.logger.log(`Purged ${purged} DLQ entr(ies) for tenant ${tenantId}`);
+    return { purged };
+  }
+
+  /**
+   * Entries of a tenant, newest first within each state. The DLQ is read
+   * SCAN_WINDOW jobs at a time, so only the window being scanned is held in
+   * memory. Pass removing when the caller removes every entry it is handed.
+   */
+  private async *tenantEntries(tenantId: string, removing = false): AsyncGenerator<Job> {
+    // The DLQ has no worker, so entries stay in the waiting list until replayed or purged
+    for (const state of ['waiting', 'paused', 'delayed'] as const) {
+      let start = 0;
+      for (;;) {
+        const jobs = await this.bullmq.getJobs(this.queueName, [state], start, start + SCAN_WINDOW - 1);
+        let handed = 0;
+        for (const job of jobs) {
+          if (job && job.name === EXECUTION_JOB_NAME && job.data?.data?.tenantId === tenantId) {
+            handed++;
+            yield job;
+          }
+        }
+        if (jobs.length < SCAN_WINDOW) break;
+        // Removed entries no longer take up a place in the list
+        start += jobs.length - (removing ? handed : 0);
+      }
+    }
+  }
+
+  private async getEntry(entryId: string, tenantId: string): Promise<Job> {
+    const job = await this.bullmq.getJob(this.queueName, entryId);
+
+    // Entries of other tenants are reported as missing
+    if (!job || job.data?.data?.tenantId !== tenantId) {
+      throw new NotFoundException(`Dead-letter entry "${entryId}" not found`);
+    }
+
+    return job;
+  }
+
+  private toSummary(job: Job) {
+    const payload = job.data as DeadLetterPayload;
+    return {
+      id: job.id,
+      executionId: payload.data.executionId,
+      workflowId: payload.data.workflowId,
+      workflowVersion: payload.data.workflowVersion,
+      originalQueue: payload.originalQueue,
+      failedReason: payload.failedReason,
+      attemptsMade: payload.attemptsMade,
+      // First line of each attempt's stack trace
+      attempts: (payload.errorHistory ?? []).map((trace, index) => ({
+        attempt: index + 1,
+        error: trace.split('\n')[0],
+      })),
+      enqueuedAt: payload.enqueuedAt,
+      failedAt: payload.failedAt,
+    };
+  }
+}
@@ -0,0 +1,593 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionOrchestratorService } from './execution-orchestrator.service';
+import { ExecutionStateService } from './execution-state.service';
+import { ActivityDispatcherService, ActivityDispatchError } from './activity-dispatcher.service';
+import { PrismaService } from '../../prisma.service';
+import { ControlFlagsService } from '../../controls/services/control-flags.service';
+import { WatermarkService } from '../../watermarks/services/watermark.service';
+import { ChunkedDatasetService } from '../../activities/datasets/chunked-dataset.service';
+import { StepOutputStoreService } from './step-output-store.service';
+import { SchemaSnapshotService } from '../../aggregators/schema-snapshot.service';
+import { Activity, RetryPolicy, WorkflowDefinition, WorkflowStep } from '../../workflows/entities/workflow-definition.types';
+
+describe('ExecutionOrchestratorService', () => {
+  let service: ExecutionOrchestratorService;
+
+  // In-memory activity execution rows keyed by step id
+  let activityRows: Map<string, { status: string; attempt: number; output?: any }>;
+
+  const mockPrismaService = {
+    workflowExecution: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    aggregatorInstance: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockStateService = {
+    logEvent: jest.fn(),
+    updateExecutionState: jest.fn(),
+    recordActivityExecution: jest.fn(),
+    getExecutionState: jest.fn(),
+    loadStepOutputs: jest.fn(),
+  };
+
+  const mockDispatcher = {
+    dispatch: jest.fn(),
+  };
+
+  const mockControlFlags = {
+    findBlockingFlag: jest.fn(),
+  };
+
+  const mockWatermarks = {
+    commitReady: jest.fn(),
+  };
+
+  const mockSchemaSnapshots = {
+    findLatest: jest.fn(),
+  };
+
+  const buildDefinition = (
+    steps: { id: string; dependsOn: string[] }[],
+    maxConcurrency?: number,
+    retry?: RetryPolicy,
+  ): WorkflowDefinition => ({
+    version: '1.0',
+    maxConcurrency,
+    activities: steps.map(step => ({
+      id: `act-${step.id}`,
+      type: 'extract' as const,
+      name: step.id,
+      config: { aggregatorInstanceId: 'instance-1', table: step.id, columns: ['id'] },
+      retry,
+    })),
+    steps: steps.map(step => ({ id: step.id, activityId: `act-${step.id}`, dependsOn: step.dependsOn })),
+  });
+
+  beforeEach(async () => {
+    activityRows = new Map();
+
+    mockPrismaService.workflowExecution.findFirst.mockResolvedValue({ status: 'RUNNING', workflowId: 'workflow-1' });
+    mockControlFlags.findBlockingFlag.mockResolvedValue(null);
+    mockPrismaService.workflowExecution.updateMany.mockResolvedValue({ count: 1 });
+    mockStateService.recordActivityExecution.mockImplementation(
+      async (_executionId, _tenantId, stepId, _type, attempt, status, output) => {
+        activityRows.set(stepId, { status, attempt, output });
+      },
+    );
+    mockStateService.getExecutionState.mockImplementation(async () => {
+      const completedSteps: string[] = [];
+      const failedSteps: string[] = [];
+      const skippedSteps: string[] = [];
+      const stepOutputRefs: Record<string, string> = {};
+      const stepAttempts: Record<string, number> = {};
+      for (const [stepId, row] of activityRows.entries()) {
+        if (row.status === 'COMPLETED') completedSteps.push(stepId);
+        if (row.status === 'FAILED') failedSteps.push(stepId);
+        if (row.status === 'SKIPPED') skippedSteps.push(stepId);
+        if (row.output !== undefined) stepOutputRefs[stepId] = JSON.stringify(row.output);
+        stepAttempts[stepId] = row.attempt;
+      }
+      return {
+        currentStepId: null,
+        completedSteps,
+        failedSteps,
+        skippedSteps,
+        stepOutputRefs,
+        stepAttempts,
+        startedAt: new Date(),
+        lastActivityAt: new Date(),
+      };
+    });
+    mockStateService.loadStepOutputs.mockImplementation(async (state, stepIds: string[]) =>
+      Object.fromEntries(
+        stepIds.filter(id => state.stepOutputRefs[id] !== undefined).map(id => [id, JSON.parse(state.stepOutputRefs[id])]),
+      ),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExecutionOrchestratorService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: ActivityDispatcherService, useValue: mockDispatcher },
+        { provide: ControlFlagsService, useValue: mockControlFlags },
+        { provide: WatermarkService, useValue: mockWatermarks },
+        { provide: StepOutputStoreService, useValue: {} },
+        ChunkedDatasetService,
+        { provide: SchemaSnapshotService, useValue: mockSchemaSnapshots },
+      ],
+    }).compile();
+
+    service = module.get<ExecutionOrchestratorService>(ExecutionOrchestratorService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const dispatchedStepIds = () =>
+    mockDispatcher.dispatch.mock.calls.map(([params]) => params.step.id);
+
+  describe('startExecution', () => {
+    it('should dispatch every root step and wait for all parents before a join', async () => {
+      mockDispatcher.dispatch.mockImplementation(async ({ step }) => [{ from: step.id }]);
+
+      const definition = buildDefinition([
+        { id: 'extract-a', dependsOn: [] },
+        { id: 'extract-b', dependsOn: [] },
+        { id: 'join', dependsOn: ['extract-a', 'extract-b'] },
+      ]);
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(dispatchedStepIds()).toEqual(['extract-a', 'extract-b', 'join']);
+      expect(mockDispatcher.dispatch).toHaveBeenCalledTimes(3);
+      expect(mockPrismaService.workflowExecution.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'COMPLETED' }) }),
+      );
+    });
+
+    it('should record the pushdown plan and dispatch the rewritten source', async () => {
+      mockDispatcher.dispatch.mockResolvedValue([]);
+      mockSchemaSnapshots.findLatest.mockResolvedValue({
+        schema: { tables: [{ name: 'orders', columns: [{ name: 'status', type: 'character varying', nullable: false }] }] },
+      });
+
+      const definition: WorkflowDefinition = {
+        version: '1.0',
+        activities: [
+          { id: 'orders', type: 'extract', name: 'orders', config: { aggregatorInstanceId: 'instance-1', table: 'orders', columns: ['*'] } },
+          {
+            id: 'open',
+            type: 'filter',
+            name: 'open',
+            config: { inputActivityId: 'orders', expression: { field: 'status', operator: 'eq', value: 'open' } },
+          },
+        ],
+        steps: [
+          { id: 'orders', activityId: 'orders', dependsOn: [] },
+          { id: 'open', activityId: 'open', dependsOn: ['orders'] },
+        ],
+      };
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(mockSchemaSnapshots.findLatest).toHaveBeenCalledWith('instance-1');
+      const pushed = [{ column: 'status', operator: 'eq', value: 'open' }];
+      expect(mockPrismaService.workflowExecution.update).toHaveBeenCalledWith({
+        where: { id: 'exec-1' },
+        data: { plan: expect.objectContaining({ pushdowns: [expect.objectContaining({ sourceStepId: 'orders', filters: pushed })] }) },
+      });
+      expect(mockDispatcher.dispatch.mock.calls[0][0].activity.config.filters).toEqual(pushed);
+      expect(dispatchedStepIds()).toEqual(['orders', 'open']);
+    });
+
+    it('should read the column types of a mini-connector source from the instance its connector serves', async () => {
+      mockDispatcher.dispatch.mockResolvedValue([]);
+      mockPrismaService.aggregatorInstance.findMany.mockResolvedValue([
+        { id: 'instance-crm', connectionParams: { database: 'crm' } },
+        { id: 'instance-erp', connectionParams: { database: 'erp' } },
+      ]);
+      mockSchemaSnapshots.findLatest.mockResolvedValue({
+        schema: { tables: [{ name: 'orders', columns: [{ name: 'total', type: 'numeric(12,2)', nullable: false }] }] },
+      });
+
+      const definition: WorkflowDefinition = {
+        version: '1.0',
+        activities: [
+          {
+            id: 'orders',
+            type: 'mini-connector-source',
+            name: 'orders',
+            config: { connectorId: 'connector-1', database: 'erp', table: 'orders', columns: ['*'] },
+          },
+          {
+            id: 'large',
+            type: 'filter',
+            name: 'large',
+            config: { inputActivityId: 'orders', expression: { field: 'total', operator: 'gt', value: 100 } },
+          },
+        ],
+        steps: [
+          { id: 'orders', activityId: 'orders', dependsOn: [] },
+          { id: 'large', activityId: 'large', dependsOn: ['orders'] },
+        ],
+      };
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(mockPrismaService.aggregatorInstance.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tenantId: 'tenant-1', connectorId: 'connector-1' } }),
+      );
+      expect(mockSchemaSnapshots.findLatest).toHaveBeenCalledWith('instance-erp');
+      expect(mockDispatcher.dispatch.mock.calls[0][0].activity.config.filters).toEqual([
+        { column: 'total', operator: 'gt', value: 100 },
+      ]);
+    });
+
+    it('should run independent branches concurrently', async () => {
+      const resolvers: Record<string, () => void> = {};
+      mockDispatcher.dispatch.mockImplementation(
+        ({ step }) => new Promise(resolve => { resolvers[step.id] = () => resolve([]); }),
+      );
+
+      const definition = buildDefinition([
+        { id: 'extract-a', dependsOn: [] },
+        { id: 'extract-b', dependsOn: [] },
+      ]);
+
+      const run = service.startExecution('exec-1', 'tenant-1', definition);
+      for (let i = 0; i < 10 && Object.keys(resolvers).length < 2; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      // Both extracts are in flight before either has finished
+      expect(Object.keys(resolvers).sort()).toEqual(['extract-a', 'extract-b']);
+
+      resolvers['extract-a']();
+      resolvers['extract-b']();
+      await run;
+
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'EXECUTION_COMPLETED' }),
+      );
+    });
+
+    it('should respect the per-execution concurrency cap', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      mockDispatcher.dispatch.mockImplementation(async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        return [];
+      });
+
+      const definition = buildDefinition(
+        [
+          { id: 'a', dependsOn: [] },
+          { id: 'b', dependsOn: [] },
+          { id: 'c', dependsOn: [] },
+          { id: 'd', dependsOn: [] },
+        ],
+        2,
+      );
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(mockDispatcher.dispatch).toHaveBeenCalledTimes(4);
+      expect(peak).toBe(2);
+    });
+
+    it('should not start a join when one parent fails', async () => {
+      mockDispatcher.dispatch.mockImplementation(async ({ step }) => {
+        if (step.id === 'extract-b') throw new Error('connection refused');
+        return [];
+      });
+
+      const definition = buildDefinition([
+        { id: 'extract-a', dependsOn: [] },
+        { id: 'extract-b', dependsOn: [] },
+        { id: 'join', dependsOn: ['extract-a', 'extract-b'] },
+      ]);
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(dispatchedStepIds()).not.toContain('join');
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'EXECUTION_FAILED' }),
+      );
+    });
+    it('should release a step whose start fails so a later job can dispatch it', async () => {
+      mockDispatcher.dispatch.mockResolvedValue([]);
+      mockStateService.logEvent.mockImplementation(async ({ eventType }) => {
+        if (eventType === 'STEP_STARTED' && mockDispatcher.dispatch.mock.calls.length === 0) {
+          throw new Error('database unavailable');
+        }
+      });
+
+      const definition = buildDefinition([{ id: 'extract-a', dependsOn: [] }]);
+
+      await expect(service.startExecution('exec-1', 'tenant-1', definition)).rejects.toThrow('database unavailable');
+      expect(mockDispatcher.dispatch).not.toHaveBeenCalled();
+
+      // The queue retries the job, which resets this process's scheduling first
+      mockStateService.logEvent.mockReset();
+      service.resetScheduling('exec-1');
+      const state = await mockStateService.getExecutionState('exec-1', 'tenant-1');
+      await service.processNextStep('exec-1', 'tenant-1', definition, state);
+
+      expect(dispatchedStepIds()).toEqual(['extract-a']);
+    });
+  });
+
+  describe('conditional steps', () => {
+    const activity = (id: string, type: Activity['type'] = 'transform', config: Record<string, any> = {}): Activity =>
+      ({ id, type, name: id, config } as Activity);
+
+    const skipped = () => mockStateService.logEvent.mock.calls
+      .map(([event]) => event)
+      .filter(event => event.eventType === 'STEP_SKIPPED')
+      .map(event => [event.payload.stepId, event.payload.reason]);
+
+    it('should skip a load and the steps after it when the extract returns no rows', async () => {
+      mockDispatcher.dispatch.mockResolvedValue([]);
+
+      const definition: WorkflowDefinition = {
+        version: '1.0',
+        activities: [activity('extract', 'extract'), activity('load', 'load'), activity('audit')],
+        steps: [
+          { id: 'extract', activityId: 'extract', dependsOn: [] },
+          {
+            id: 'load',
+            activityId: 'load',
+            dependsOn: ['extract'],
+            when: { field: 'extract.rowCount', operator: 'gt', value: 0 },
+          },
+          { id: 'audit', activityId: 'audit', dependsOn: ['load'] },
+        ],
+      };
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(dispatchedStepIds()).toEqual(['extract']);
+      expect(skipped()).toEqual([['load', 'condition'], ['audit', 'upstream']]);
+      expect(mockStateService.recordActivityExecution).toHaveBeenCalledWith(
+        'exec-1', 'tenant-1', 'load', 'load', 1, 'SKIPPED',
+      );
+      expect(mockPrismaService.workflowExecution.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'COMPLETED' }) }),
+      );
+      expect(mockWatermarks.commitReady).toHaveBeenLastCalledWith(
+        'exec-1', definition, ['extract'], ['load', 'audit'],
+      );
+    });
+
+    it('should run only the branch a switch takes', async () => {
+      mockDispatcher.dispatch.mockImplementation(async ({ step }) =>
+        step.id === 'extract' ? { data: [{ id: 1 }, { id: 2 }, { id: 3 }] } : [],
+      );
+
+      const steps: WorkflowStep[] = [
+        { id: 'extract', activityId: 'extract', dependsOn: [] },
+        { id: 'route', activityId: 'route', dependsOn: ['extract'] },
+        { id: 'bulk', activityId: 'bulk', dependsOn: ['route'] },
+        { id: 'trickle', activityId: 'trickle', dependsOn: ['route'] },
+        { id: 'notify', activityId: 'notify', dependsOn: ['route'], when: { field: 'route.branch', operator: 'eq', value: 'large' } },
+      ];
+      const definition: WorkflowDefinition = {
+        version: '1.0',
+        activities: [
+          activity('extract', 'extract'),
+          activity('route', 'switch', {
+            cases: [
+              { name: 'empty', when: { field: 'extract.rowCount', operator: 'eq', value: 0 }, steps: [] },
+              { name: 'large', when: { field: 'extract.rowCount', operator: 'gte', value: 2 }, steps: ['bulk'] },
+            ],
+            default: ['trickle'],
+          }),
+          activity('bulk', 'load'),
+          activity('trickle', 'load'),
+          activity('notify'),
+        ],
+        steps,
+      };
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      // The switch is evaluated in place, never dispatched
+      expect(dispatchedStepIds()).toEqual(['extract', 'bulk', 'notify']);
+      expect(activityRows.get('route')).toEqual(expect.objectContaining({
+        status: 'COMPLETED',
+        output: { branch: 'large', steps: ['bulk'] },
+      }));
+      expect(skipped()).toEqual([['trickle', 'branch']]);
+    });
+
+    it('should carry on past a failure a later step checks for', async () => {
+      mockDispatcher.dispatch.mockImplementation(async ({ step }) => {
+        if (step.id === 'extract') throw new Error('connection refused');
+        return [];
+      });
+
+      const definition: WorkflowDefinition = {
+        version: '1.0',
+        activities: [activity('extract', 'extract'), activity('load', 'load'), activity('alert')],
+        steps: [
+          { id: 'extract', activityId: 'extract', dependsOn: [] },
+          { id: 'load', activityId: 'load', dependsOn: ['extract'] },
+          {
+            id: 'alert',
+            activityId: 'alert',
+            dependsOn: ['extract'],
+            when: { field: 'extract.status', operator: 'eq', value: 'FAILED' },
+          },
+        ],
+      };
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(dispatchedStepIds()).toEqual(['extract', 'alert']);
+      expect(skipped()).toEqual([['load', 'upstream']]);
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'STEP_FAILED',
+        payload: expect.objectContaining({ stepId: 'extract', handled: true }),
+      }));
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'EXECUTION_COMPLETED' }),
+      );
+      // Loads skipped after a failure must not advance the source's watermark
+      expect(mockWatermarks.commitReady).toHaveBeenLastCalledWith('exec-1', definition, ['alert'], []);
+    });
+  });
+
+  describe('carried-over state', () => {
+    it('should only run steps that were not carried over from the failed execution', async () => {
+      mockDispatcher.dispatch.mockResolvedValue([]);
+      ['extract-a', 'extract-b'].forEach(stepId =>
+        activityRows.set(stepId, { status: 'COMPLETED', attempt: 1, output: [{ from: stepId }] }),
+      );
+
+      const definition = buildDefinition([
+        { id: 'extract-a', dependsOn: [] },
+        { id: 'extract-b', dependsOn: [] },
+        { id: 'join', dependsOn: ['extract-a', 'extract-b'] },
+        { id: 'load', dependsOn: ['join'] },
+      ]);
+
+      await service.startExecution('exec-2', 'tenant-1', definition, {
+        sourceExecutionId: 'exec-1',
+        completedSteps: ['extract-a', 'extract-b'],
+        stepOutputRefs: { 'extract-a': '[{"from":"extract-a"}]', 'extract-b': '[{"from":"extract-b"}]' },
+      });
+
+      expect(dispatchedStepIds()).toEqual(['join', 'load']);
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'EXECUTION_STARTED',
+          payload: expect.objectContaining({ retryOf: 'exec-1' }),
+        }),
+      );
+    });
+  });
+
+  describe('retry policies', () => {
+    const recordedAttempts = (status: string) =>
+      mockStateService.recordActivityExecution.mock.calls
+        .filter(call => call[5] === status)
+        .map(call => call[4]);
+
+    it('should retry a failed step with incrementing attempts until it succeeds', async () => {
+      let calls = 0;
+      mockDispatcher.dispatch.mockImplementation(async () => {
+        calls++;
+        if (calls < 3) throw new ActivityDispatchError('connection reset', 'CONNECTION_RESET', true);
+        return [];
+      });
+
+      const definition = buildDefinition([{ id: 'extract', dependsOn: [] }], undefined, {
+        maxAttempts: 3,
+        backoff: 'fixed',
+        initialDelayMs: 0,
+      });
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(mockDispatcher.dispatch.mock.calls.map(([params]) => params.attempt)).toEqual([1, 2, 3]);
+      expect(recordedAttempts('FAILED')).toEqual([1, 2]);
+      expect(recordedAttempts('COMPLETED')).toEqual([3]);
+      const retryEvents = mockStateService.logEvent.mock.calls.filter(
+        ([event]) => event.eventType === 'ACTIVITY_RETRY',
+      );
+      expect(retryEvents.map(([event]) => event.payload.attempt)).toEqual([2, 3]);
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'EXECUTION_COMPLETED' }),
+      );
+    });
+
+    it('should fail the execution once maxAttempts is exhausted', async () => {
+      mockDispatcher.dispatch.mockRejectedValue(
+        new ActivityDispatchError('connection reset', 'CONNECTION_RESET', true),
+      );
+
+      const definition = buildDefinition([{ id: 'extract', dependsOn: [] }], undefined, {
+        maxAttempts: 2,
+        initialDelayMs: 0,
+      });
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(mockDispatcher.dispatch).toHaveBeenCalledTimes(2);
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'EXECUTION_FAILED' }),
+      );
+    });
+
+    it('should not retry errors outside retryableErrors', async () => {
+      mockDispatcher.dispatch.mockRejectedValue(
+        new ActivityDispatchError('bad credentials', 'AUTH_FAILED', true),
+      );
+
+      const definition = buildDefinition([{ id: 'extract', dependsOn: [] }], undefined, {
+        maxAttempts: 5,
+        initialDelayMs: 0,
+        retryableErrors: ['ECONNRESET', 'CONNECTOR_UNAVAILABLE'],
+      });
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(mockDispatcher.dispatch).toHaveBeenCalledTimes(1);
+      expect(mockStateService.logEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'ACTIVITY_RETRY' }),
+      );
+    });
+  });
+
+  describe('control flags', () => {
+    const definition = buildDefinition([
+      { id: 'extract', dependsOn: [] },
+      { id: 'load', dependsOn: ['extract'] },
+    ]);
+
+    it('should pause the execution before the next batch when a PAUSE flag is set', async () => {
+      mockDispatcher.dispatch.mockResolvedValue([]);
+      mockControlFlags.findBlockingFlag
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'flag-1', flagType: 'PAUSE', scope: 'TENANT', reason: 'maintenance' });
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(dispatchedStepIds()).toEqual(['extract']);
+      expect(mockControlFlags.findBlockingFlag).toHaveBeenCalledWith(
+        { tenantId: 'tenant-1', workflowId: 'workflow-1' },
+        'run',
+      );
+      expect(mockPrismaService.workflowExecution.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'PAUSED' } }),
+      );
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'EXECUTION_PAUSED',
+          payload: expect.objectContaining({ reason: 'control_flag', flagId: 'flag-1', flagReason: 'maintenance' }),
+        }),
+      );
+    });
+
+    it('should cancel the execution under an EMERGENCY flag', async () => {
+      mockControlFlags.findBlockingFlag.mockResolvedValueOnce({ id: 'flag-2', flagType: 'EMERGENCY', scope: 'GLOBAL' });
+
+      await service.startExecution('exec-1', 'tenant-1', definition);
+
+      expect(mockDispatcher.dispatch).not.toHaveBeenCalled();
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'EXECUTION_CANCELLED' }),
+      );
+    });
+  });
+});
@@ -1,37 +1,97 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, SystemControlFlag } from '@prisma/client';
 import { PrismaService } from '../../prisma.service';
 import { ExecutionStateService } from './execution-state.service';
-import { ActivityDispatcherService } from './activity-dispatcher.service';
-import { WorkflowDefinition, WorkflowStep } from '../../workflows/entities/workflow-definition.types';
-import { ExecutionState } from '../entities/execution.types';
+import { ActivityDispatcherService, ActivityDispatchError } from './activity-dispatcher.service';
+import {
+  Activity,
+  ExtractConfig,
+  FilterExpression,
+  MiniConnectorSourceConfig,
+  RetryPolicy,
+  SwitchConfig,
+  WorkflowDefinition,
+  WorkflowStep,
+} from '../../workflows/entities/workflow-definition.types';
+import { CarriedOverState, ExecutionState, SourceColumnKinds } from '../entities/execution.types';
+import { ControlFlagsService } from '../../controls/services/control-flags.service';
+import { WatermarkService } from '../../watermarks/services/watermark.service';
+import { ChunkedDatasetService } from '../../activities/datasets/chunked-dataset.service';
+import { SchemaSnapshotService } from '../../aggregators/schema-snapshot.service';
+import { SchemaTable } from '../../aggregators/schema-diff';
+import {
+  StepFacts,
+  SwitchOutcome,
+  chooseSwitchCase,
+  conditionFacts,
+  evaluateCondition,
+  isFailureHandled,
+} from '../../workflows/services/step-conditions';
+import { columnKindOf, planExecution } from './execution-planner';
+
+const DEFAULT_MAX_CONCURRENT_STEPS = 4;
+const DEFAULT_RETRY_INITIAL_DELAY_MS = 1000;
+const DEFAULT_RETRY_MAX_DELAY_MS = 60000;
 
 @Injectable()
 export class ExecutionOrchestratorService {
   private readonly logger = new Logger(ExecutionOrchestratorService.name);
+  // Steps dispatched by this process, keyed by execution. A step stays claimed once
+  // dispatched so stale state snapshots from parallel branches can't start it twice.
+  private readonly scheduledSteps = new Map<string, Set<string>>();
+  // Steps currently in flight, keyed by execution (bounded by maxConcurrency)
+  private readonly runningSteps = new Map<string, Set<string>>();
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly stateService: ExecutionStateService,
     private readonly dispatcher: ActivityDispatcherService,
+    private readonly controlFlags: ControlFlagsService,
+    private readonly watermarks: WatermarkService,
+    private readonly datasets: ChunkedDatasetService,
+    private readonly schemaSnapshots: SchemaSnapshotService,
   ) {}
 
   async startExecution(
     executionId: string,
     tenantId: string,
-    workflowDefinition: WorkflowDefinition
+    definition: WorkflowDefinition,
+    carriedOver?: CarriedOverState
   ) {
+    this.resetScheduling(executionId);
+
+    // Filters are pushed into the sources they read; the rewritten definition is
+    // kept on the execution so resumed runs use the same plan
+    const plan = planExecution(definition, await this.sourceColumnKinds(tenantId, definition));
+    const workflowDefinition = plan.definition;
+    if (plan.pushdowns.length > 0) {
+      await this.prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: { plan: plan as unknown as Prisma.InputJsonValue },
+      });
+    }
+
     await this.stateService.logEvent({
       executionId,
       timestamp: new Date(),
       eventType: 'EXECUTION_STARTED',
-      payload: { workflowVersion: workflowDefinition.version },
+      payload: {
+        workflowVersion: workflowDefinition.version,
+        ...(plan.pushdowns.length > 0 && { pushdowns: plan.pushdowns }),
+        ...(carriedOver && {
+          retryOf: carriedOver.sourceExecutionId,
+          carriedOverSteps: carriedOver.completedSteps,
+        }),
+      },
     });
 
     const state: ExecutionState = {
       currentStepId: null,
-      completedSteps: [],
+      completedSteps: carriedOver ? [...carriedOver.completedSteps] : [],
       failedSteps: [],
-      stepOutputs: {},
+      skippedSteps: [],
+      stepOutputRefs: carriedOver ? { ...carriedOver.stepOutputRefs } : {},
+      stepAttempts: {},
       startedAt: new Date(),
       lastActivityAt: new Date(),
     };
@@ -45,14 +105,59 @@ export class ExecutionOrchestratorService {
       throw new Error('No root steps found in workflow');
     }
 
-    // Start with first root step
-    state.currentStepId = rootSteps[0].id;
     await this.stateService.updateExecutionState(executionId, tenantId, state);
 
-    // Begin DAG traversal
+    // Begin DAG traversal - every ready step (the roots, or the first steps after
+    // carried-over ones) is dispatched in parallel
     await this.processNextStep(executionId, tenantId, workflowDefinition, state);
   }
 
+  // Column types of the tables sources read, from the latest discovery of each instance
+  private async sourceColumnKinds(tenantId: string, definition: WorkflowDefinition): Promise<SourceColumnKinds> {
+    const kinds: SourceColumnKinds = {};
+    const schemas = new Map<string, SchemaTable[]>();
+
+    for (const activity of definition.activities) {
+      const source = await this.discoveredSource(tenantId, activity);
+      if (!source) continue;
+      const { aggregatorInstanceId, table } = source;
+
+      if (!schemas.has(aggregatorInstanceId)) {
+        const snapshot = await this.schemaSnapshots.findLatest(aggregatorInstanceId);
+        schemas.set(aggregatorInstanceId, (snapshot?.schema as { tables?: SchemaTable[] } | undefined)?.tables ?? []);
+      }
+      const columns = schemas.get(aggregatorInstanceId)!.find(candidate => candidate.name === table)?.columns;
+      if (columns) {
+        kinds[activity.id] = Object.fromEntries(columns.map(column => [column.name, columnKindOf(column.type)]));
+      }
+    }
+    return kinds;
+  }
+
+  // The instance whose discovery describes a source's table. A mini-connector source
+  // names its connector and database, which the instance served by that connector records
+  private async discoveredSource(
+    tenantId: string,
+    activity: Activity,
+  ): Promise<{ aggregatorInstanceId: string; table: string } | null> {
+    if (activity.type === 'extract') {
+      const { aggregatorInstanceId, table } = activity.config as ExtractConfig;
+      return aggregatorInstanceId && table ? { aggregatorInstanceId, table } : null;
+    }
+    if (activity.type !== 'mini-connector-source') return null;
+
+    const { connectorId, database, table } = activity.config as MiniConnectorSourceConfig;
+    if (!connectorId || !table) return null;
+    const instances = await this.prisma.aggregatorInstance.findMany({
+      where: { tenantId, connectorId },
+      select: { id: true, connectionParams: true },
+    });
+    const instance = instances.find(candidate =>
+      (candidate.connectionParams as { database?: string } | null)?.database === database,
+    );
+    return instance ? { aggregatorInstanceId: instance.id, table } : null;
+  }
+
   async processNextStep(
     executionId: string,
     tenantId: string,
@@ -61,12 +166,16 @@ export class ExecutionOrchestratorService {
   ) {
     const execution = await this.prisma.workflowExecution.findFirst({
       where: { id: executionId, tenantId },
-      select: { status: true },
+      select: { status: true, workflowId: true },
     });
     if (!execution) throw new Error('Execution not found');
     if (execution.status === 'PAUSED') return;
-    if (execution.status === 'CANCELLED' || execution.status === 'COMPLETED' || execution.status === 'FAILED') return;
+    if (execution.status === 'CANCELLED' || execution.status === 'COMPLETED' || execution.status === 'FAILED') {
+      if (!this.runningSteps.has(executionId)) this.clearScheduling(executionId);
+      return;
+    }
     if (execution.status === 'CANCELLING') {
+      if (!this.runningSteps.has(executionId)) this.clearScheduling(executionId);
       await this.prisma.workflowExecution.update({
         where: { id: executionId },
         data: { status: 'CANCELLED', completedAt: new Date() },
@@ -80,65 +189,183 @@ export class ExecutionOrchestratorService {
       return;
     }
 
-    const currentStep = workflowDefinition.steps.find(
-      s => s.id === state.currentStepId
-    );
+    const scheduled = this.scheduledSteps.get(executionId) ?? new Set<string>();
+    const readySteps = await this.routeReadySteps(executionId, tenantId, workflowDefinition, state, scheduled);
+    const running = this.runningSteps.get(executionId) ?? new Set<string>();
+
+    if (readySteps.length === 0) {
+      if (running.size > 0) return;
+
+      // A failure nothing handles ends the run, e.g. one recorded before a restart
+      const unhandled = state.failedSteps.filter(stepId => !isFailureHandled(stepId, workflowDefinition));
+      if (unhandled.length > 0) {
+        await this.failExecution(executionId, tenantId, state, `Steps failed: ${unhandled.join(', ')}`);
+      } else if (this.isExecutionComplete(workflowDefinition.steps, state)) {
+        await this.completeExecution(executionId, tenantId, state);
+      } else {
+        await this.stateService.updateExecutionState(executionId, tenantId, state);
+      }
+      return;
+    }
+
+    const maxConcurrency = workflowDefinition.maxConcurrency || DEFAULT_MAX_CONCURRENT_STEPS;
+    const batch = readySteps.slice(0, Math.max(0, maxConcurrency - running.size));
+
+    // Steps over the cap give up their claim and are routed again as others finish
+    for (const step of readySteps.slice(batch.length)) scheduled.delete(step.id);
+    if (batch.length === 0) return;
 
-    if (!currentStep) {
-      this.logger.warn(`Step ${state.currentStepId} not found, execution may be complete`);
-      await this.completeExecution(executionId, tenantId, state);
+    for (const step of batch) running.add(step.id);
+    this.runningSteps.set(executionId, running);
+
+    // Kill switches are checked before every new batch, so in-flight steps finish but nothing new starts
+    const flag = await this.controlFlags.findBlockingFlag(
+      { tenantId, workflowId: execution.workflowId },
+      'run',
+    );
+    if (flag) {
+      for (const step of batch) {
+        this.releaseStep(executionId, step.id);
+        this.scheduledSteps.get(executionId)?.delete(step.id);
+      }
+      await this.haltForControlFlag(executionId, flag);
       return;
     }
 
-    const activity = workflowDefinition.activities.find(
-      a => a.id === currentStep.activityId
+    state.currentStepId = batch[batch.length - 1].id;
+    await this.stateService.updateExecutionState(executionId, tenantId, state);
+
+    await Promise.all(
+      batch.map(step =>
+        // A step left PENDING by an interrupted retry resumes at its recorded attempt
+        this.executeStep(executionId, tenantId, step, workflowDefinition, state.stepAttempts?.[step.id] ?? 1)
+      )
     );
+  }
 
-    if (!activity) {
-      throw new Error(`Activity ${currentStep.activityId} not found`);
+  private async haltForControlFlag(executionId: string, flag: SystemControlFlag) {
+    const running = this.runningSteps.get(executionId);
+    if (!running || running.size === 0) this.clearScheduling(executionId);
+
+    const flagInfo = { flagId: flag.id, flagType: flag.flagType, scope: flag.scope, flagReason: flag.reason };
+
+    if (flag.flagType === 'EMERGENCY') {
+      const { count } = await this.prisma.workflowExecution.updateMany({
+        where: { id: executionId, status: { in: ['PENDING', 'RUNNING'] } },
+        data: { status: 'CANCELLED', completedAt: new Date() },
+      });
+      if (count === 0) return;
+
+      this.logger.warn(`Execution ${executionId} cancelled by emergency control flag ${flag.id}`);
+      await this.stateService.logEvent({
+        executionId,
+        timestamp: new Date(),
+        eventType: 'EXECUTION_CANCELLED',
+        payload: { reason: 'control_flag', ...flagInfo },
+      });
+      return;
     }
 
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: { in: ['PENDING', 'RUNNING'] } },
+      data: { status: 'PAUSED' },
+    });
+    if (count === 0) return;
+
+    this.logger.warn(`Execution ${executionId} paused by ${flag.flagType} control flag ${flag.id}`);
     await this.stateService.logEvent({
       executionId,
       timestamp: new Date(),
-      eventType: 'STEP_STARTED',
-      payload: { stepId: currentStep.id, activityId: activity.id, type: activity.type },
+      eventType: 'EXECUTION_PAUSED',
+      payload: { reason: 'control_flag', previousStatus: 'RUNNING', ...flagInfo },
     });
+  }
 
-    await this.stateService.recordActivityExecution(
-      executionId,
-      tenantId,
-      currentStep.id,
-      activity.type,
-      1,
-      'RUNNING',
+  private async executeStep(
+    executionId: string,
+    tenantId: string,
+    step: WorkflowStep,
+    workflowDefinition: WorkflowDefinition,
+    attempt: number
+  ) {
+    const activity = workflowDefinition.activities.find(
+      a => a.id === step.activityId
     );
 
-    try {
-      const output = await this.dispatcher.dispatch({
+    if (!activity) {
+      this.releaseStep(executionId, step.id);
+      await this.onActivityFailed(
         executionId,
         tenantId,
-        step: currentStep,
-        activity,
+        step.id,
+        new Error(`Activity ${step.activityId} not found`),
+        false,
         workflowDefinition,
+      );
+      return;
+    }
+
+    // The step is released however this ends, so a failed start can't hold its slot
+    // for good; onActivityCompleted/onActivityFailed release it before scheduling more
+    try {
+      await this.stateService.logEvent({
+        executionId,
+        timestamp: new Date(),
+        eventType: 'STEP_STARTED',
+        payload: { stepId: step.id, activityId: activity.id, type: activity.type, attempt },
       });
-      await this.onActivityCompleted(executionId, tenantId, currentStep.id, output, workflowDefinition);
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      await this.onActivityFailed(executionId, tenantId, currentStep.id, err, false, workflowDefinition);
+
+      await this.stateService.recordActivityExecution(
+        executionId,
+        tenantId,
+        step.id,
+        activity.type,
+        attempt,
+        'RUNNING',
+      );
+
+      let output: any;
+      try {
+        // Switches only choose a branch, so the orchestrator evaluates them itself
+        output = activity.type === 'switch'
+          ? await this.takeSwitch(executionId, tenantId, activity.config as SwitchConfig)
+          : await this.dispatcher.dispatch({
+            executionId,
+            tenantId,
+            step,
+            activity,
+            workflowDefinition,
+            attempt,
+          });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        const retryable = err instanceof ActivityDispatchError ? err.retryable : false;
+        await this.onActivityFailed(executionId, tenantId, step.id, err, retryable, workflowDefinition, attempt);
+        return;
+      }
+
+      await this.onActivityCompleted(executionId, tenantId, step.id, output, workflowDefinition, attempt);
+    } finally {
+      this.releaseStep(executionId, step.id);
     }
   }
 
+  private async takeSwitch(executionId: string, tenantId: string, config: SwitchConfig): Promise<SwitchOutcome> {
+    const state = await this.stateService.getExecutionState(executionId, tenantId);
+    if (!state) throw new Error('Execution state not found');
+
+    const facts = await this.factsFor(state, config.cases.map(candidate => candidate.when));
+    return chooseSwitchCase(config, facts);
+  }
+
   async onActivityCompleted(
     executionId: string,
     tenantId: string,
     stepId: string,
     output: any,
-    workflowDefinition: WorkflowDefinition
+    workflowDefinition: WorkflowDefinition,
+    attempt = 1
   ) {
-    const state = await this.stateService.getExecutionState(executionId, tenantId);
-    if (!state) throw new Error('Execution state not found');
-
     const activityId = workflowDefinition.steps.find(s => s.id === stepId)?.activityId;
     const activityType = workflowDefinition.activities.find(a => a.id === activityId)?.type ?? 'unknown';
     await this.stateService.recordActivityExecution(
@@ -146,14 +373,15 @@ export class ExecutionOrchestratorService {
       tenantId,
       stepId,
       activityType,
-      1,
+      attempt,
       'COMPLETED',
       output,
     );
 
-    // Record completion
-    if (!state.completedSteps.includes(stepId)) state.completedSteps.push(stepId);
-    state.stepOutputs[stepId] = output;
+    // Read state after persisting this completion so that of two parents finishing
+    // together, at least the later one sees both and can start their join
+    const state = await this.stateService.getExecutionState(executionId, tenantId);
+    if (!state) throw new Error('Execution state not found');
 
     await this.stateService.logEvent({
       executionId,
@@ -162,21 +390,13 @@ export class ExecutionOrchestratorService {
       payload: { stepId, activityId },
     });
 
-    // Find next steps (depend on this step)
-    const nextSteps = workflowDefinition.steps.filter(
-      step => step.dependsOn.includes(stepId) && this.canExecuteStep(step, state)
-    );
+    // Incremental sources whose downstream loads have all committed can advance
+    await this.commitWatermarks(executionId, workflowDefinition, state);
 
-    if (nextSteps.length > 0) {
-      state.currentStepId = nextSteps[0].id;
-      await this.stateService.updateExecutionState(executionId, tenantId, state);
-      await this.processNextStep(executionId, tenantId, workflowDefinition, state);
-    } else if (this.isExecutionComplete(workflowDefinition.steps, state)) {
-      await this.completeExecution(executionId, tenantId, state);
-    } else {
-      // More steps but none ready - may be parallel branches or stuck
-      await this.stateService.updateExecutionState(executionId, tenantId, state);
-    }
+    this.releaseStep(executionId, stepId);
+
+    // Schedule every step whose dependencies are now satisfied
+    await this.processNextStep(executionId, tenantId, workflowDefinition, state);
   }
 
   async onActivityFailed(
@@ -185,71 +405,343 @@ export class ExecutionOrchestratorService {
     stepId: string,
     error: Error,
     retryable: boolean,
-    workflowDefinition: WorkflowDefinition
+    workflowDefinition: WorkflowDefinition,
+    attempt = 1
   ) {
     const state = await this.stateService.getExecutionState(executionId, tenantId);
     if (!state) throw new Error('Execution state not found');
 
-    const activityId = workflowDefinition.steps.find(s => s.id === stepId)?.activityId;
-    const activityType = workflowDefinition.activities.find(a => a.id === activityId)?.type ?? 'unknown';
+    const step = workflowDefinition.steps.find(s => s.id === stepId);
+    const activity = workflowDefinition.activities.find(a => a.id === step?.activityId);
+    const activityType = activity?.type ?? 'unknown';
+    const errorCode = error instanceof ActivityDispatchError ? error.code : undefined;
     await this.stateService.recordActivityExecution(
       executionId,
       tenantId,
       stepId,
       activityType,
-      1,
+      attempt,
       'FAILED',
       undefined,
       { message: error.message, retryable },
     );
 
-    if (!state.failedSteps.includes(stepId)) state.failedSteps.push(stepId);
+    const willRetry = !!step && this.shouldRetry(activity?.retry, error, retryable, attempt);
+    // A step after this one checks its status, so the run carries on without it
+    const handled = !willRetry && !!step && isFailureHandled(stepId, workflowDefinition);
 
     await this.stateService.logEvent({
       executionId,
       timestamp: new Date(),
       eventType: 'STEP_FAILED',
-      payload: { stepId, error: error.message, retryable },
+      payload: { stepId, attempt, error: error.message, code: errorCode, retryable, willRetry, handled },
     });
 
-    if (!retryable) {
-      await this.failExecution(executionId, tenantId, state, error.message);
+    if (willRetry && step && activity?.retry) {
+      await this.retryStep(executionId, tenantId, step, workflowDefinition, activity.retry, attempt, error);
       return;
     }
 
-    // TODO: Implement retry logic
-    await this.stateService.updateExecutionState(executionId, tenantId, state);
+    if (!state.failedSteps.includes(stepId)) state.failedSteps.push(stepId);
+    this.releaseStep(executionId, stepId);
+    if (handled) {
+      await this.processNextStep(executionId, tenantId, workflowDefinition, state);
+      return;
+    }
+    await this.failExecution(executionId, tenantId, state, error.message);
   }
 
-  private canExecuteStep(step: WorkflowStep, state: ExecutionState): boolean {
-    return step.dependsOn.every(depId => state.completedSteps.includes(depId));
+  private async retryStep(
+    executionId: string,
+    tenantId: string,
+    step: WorkflowStep,
+    workflowDefinition: WorkflowDefinition,
+    policy: RetryPolicy,
+    failedAttempt: number,
+    error: Error
+  ) {
+    const nextAttempt = failedAttempt + 1;
+    const delayMs = this.getRetryDelay(policy, failedAttempt);
+    const activityType = workflowDefinition.activities.find(a => a.id === step.activityId)?.type ?? 'unknown';
+
+    // The pending row makes the next attempt visible in state, so a resumed
+    // execution picks the step up again at the right attempt number
+    await this.stateService.recordActivityExecution(
+      executionId,
+      tenantId,
+      step.id,
+      activityType,
+      nextAttempt,
+      'PENDING',
+    );
+
+    await this.stateService.logEvent({
+      executionId,
+      timestamp: new Date(),
+      eventType: 'ACTIVITY_RETRY',
+      payload: { stepId: step.id, attempt: nextAttempt, maxAttempts: policy.maxAttempts, delayMs, error: error.message },
+    });
+
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    // The execution may have been paused or cancelled while backing off
+    const execution = await this.prisma.workflowExecution.findFirst({
+      where: { id: executionId, tenantId },
+      select: { status: true },
+    });
+    if (!execution || (execution.status !== 'RUNNING' && execution.status !== 'PENDING')) {
+      this.releaseStep(executionId, step.id);
+      this.scheduledSteps.get(executionId)?.delete(step.id);
+      if (!execution) return;
+
+      const state = await this.stateService.getExecutionState(executionId, tenantId);
+      if (state) await this.processNextStep(executionId, tenantId, workflowDefinition, state);
+      return;
+    }
+
+    await this.executeStep(executionId, tenantId, step, workflowDefinition, nextAttempt);
   }
 
-  private isExecutionComplete(steps: WorkflowStep[], state: ExecutionState): boolean {
-    return steps.every(step =>
-      state.completedSteps.includes(step.id) || state.failedSteps.includes(step.id)
+  private shouldRetry(
+    policy: RetryPolicy | undefined,
+    error: Error,
+    retryable: boolean,
+    attempt: number
+  ): boolean {
+    if (!policy || attempt >= policy.maxAttempts) return false;
+
+    // An explicit list of error codes takes precedence over the handler's retryable flag
+    if (policy.retryableErrors && policy.retryableErrors.length > 0) {
+      const code = error instanceof ActivityDispatchError ? error.code : undefined;
+      return policy.retryableErrors.some(
+        match => match === code || error.message.includes(match)
+      );
+    }
+
+    return retryable;
+  }
+
+  private getRetryDelay(policy: RetryPolicy, failedAttempt: number): number {
+    const initialDelay = policy.initialDelayMs ?? DEFAULT_RETRY_INITIAL_DELAY_MS;
+    const maxDelay = policy.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+
+    let delay: number;
+    switch (policy.backoff ?? 'exponential') {
+      case 'fixed':
+        delay = initialDelay;
+        break;
+      case 'linear':
+        delay = initialDelay * failedAttempt;
+        break;
+      case 'exponential':
+      default:
+        delay = initialDelay * Math.pow(2, failedAttempt - 1);
+        break;
+    }
+
+    return Math.min(delay, maxDelay);
+  }
+
+  /**
+   * Claims the steps whose dependencies have settled and returns those to run.
+   * Steps ruled out by their condition, by a switch that took another branch,
+   * or by a dependency that did not complete are recorded as SKIPPED instead.
+   * A skip settles the steps after it in turn, so routing repeats until
+   * nothing more is skipped.
+   */
+  private async routeReadySteps(
+    executionId: string,
+    tenantId: string,
+    workflowDefinition: WorkflowDefinition,
+    state: ExecutionState,
+    scheduled: Set<string>
+  ): Promise<WorkflowStep[]> {
+    const runnable: WorkflowStep[] = [];
+
+    for (;;) {
+      const ready = workflowDefinition.steps.filter(
+        step => !scheduled.has(step.id) && this.canExecuteStep(step, state, workflowDefinition)
+      );
+      if (ready.length === 0) return runnable;
+
+      // Claim the steps synchronously so concurrent completions don't route them twice
+      for (const step of ready) scheduled.add(step.id);
+      this.scheduledSteps.set(executionId, scheduled);
+
+      let skipped = false;
+      for (const step of ready) {
+        const reason = await this.skipReason(step, workflowDefinition, state);
+        if (!reason) {
+          runnable.push(step);
+          continue;
+        }
+
+        const activityType = workflowDefinition.activities.find(a => a.id === step.activityId)?.type ?? 'unknown';
+        await this.stateService.recordActivityExecution(
+          executionId,
+          tenantId,
+          step.id,
+          activityType,
+          state.stepAttempts?.[step.id] ?? 1,
+          'SKIPPED',
+        );
+        await this.stateService.logEvent({
+          executionId,
+          timestamp: new Date(),
+          eventType: 'STEP_SKIPPED',
+          payload: { stepId: step.id, activityId: step.activityId, reason },
+        });
+        state.skippedSteps.push(step.id);
+        skipped = true;
+      }
+      if (!skipped) return runnable;
+
+      // Parallel branches may have skipped steps meanwhile, which can settle a join
+      const latest = await this.stateService.getExecutionState(executionId, tenantId);
+      if (latest) Object.assign(state, latest);
+      await this.commitWatermarks(executionId, workflowDefinition, state);
+    }
+  }
+
+  // Skipped loads only count as done when no failure caused the skip
+  private async commitWatermarks(executionId: string, workflowDefinition: WorkflowDefinition, state: ExecutionState) {
+    await this.watermarks.commitReady(
+      executionId,
+      workflowDefinition,
+      state.completedSteps,
+      state.failedSteps.length === 0 ? state.skippedSteps : [],
+    );
+  }
+
+  private async skipReason(
+    step: WorkflowStep,
+    workflowDefinition: WorkflowDefinition,
+    state: ExecutionState
+  ): Promise<'branch' | 'condition' | 'upstream' | null> {
+    for (const depId of step.dependsOn) {
+      if (!state.completedSteps.includes(depId) || !this.routedBy(depId, workflowDefinition).has(step.id)) continue;
+      const outputs = await this.stateService.loadStepOutputs(state, [depId]);
+      const outcome = outputs[depId] as SwitchOutcome | undefined;
+      if (!outcome?.steps?.includes(step.id)) return 'branch';
+    }
+
+    if (step.when) {
+      const facts = await this.factsFor(state, [step.when]);
+      return evaluateCondition(step.when, facts) ? null : 'condition';
+    }
+    return step.dependsOn.every(depId => state.completedSteps.includes(depId)) ? null : 'upstream';
+  }
+
+  // The steps a switch step routes between; steps after it that no case names always run
+  private routedBy(stepId: string, workflowDefinition: WorkflowDefinition): Set<string> {
+    const step = workflowDefinition.steps.find(s => s.id === stepId);
+    const activity = workflowDefinition.activities.find(a => a.id === step?.activityId);
+    if (activity?.type !== 'switch') return new Set();
+
+    const config = activity.config as SwitchConfig;
+    return new Set([...config.cases.flatMap(candidate => candidate.steps), ...(config.default ?? [])]);
+  }
+
+  // The facts the conditions read, loading only the outputs they need
+  private async factsFor(state: ExecutionState, conditions: FilterExpression[]): Promise<StepFacts> {
+    const reads = conditions.flatMap(conditionFacts);
+    const outputs = await this.stateService.loadStepOutputs(
+      state,
+      [...new Set(reads.filter(read => read.fact !== 'status').map(read => read.stepId))],
+    );
+
+    const facts: StepFacts = {};
+    for (const { stepId, fact } of reads) {
+      const key = `${stepId}.${fact}`;
+      if (fact === 'status') facts[key] = this.statusOf(stepId, state);
+      else if (fact === 'branch') facts[key] = outputs[stepId]?.branch ?? null;
+      else facts[key] = this.rowCountOf(outputs[stepId]);
+    }
+    return facts;
+  }
+
+  private statusOf(stepId: string, state: ExecutionState): string | null {
+    if (state.completedSteps.includes(stepId)) return 'COMPLETED';
+    if (state.failedSteps.includes(stepId)) return 'FAILED';
+    if (state.skippedSteps.includes(stepId)) return 'SKIPPED';
+    return null;
+  }
+
+  // Outputs that are not rows, such as a load's summary, have no row count
+  private rowCountOf(output: any): number | null {
+    if (output === undefined) return null;
+    try {
+      return this.datasets.rowCount(this.datasets.resolve(output));
+    } catch {
+      return null;
+    }
+  }
+
+  // Failed dependencies only settle a step when a later step handles the failure
+  private canExecuteStep(step: WorkflowStep, state: ExecutionState, workflowDefinition: WorkflowDefinition): boolean {
+    if (this.isSettled(step.id, state)) return false;
+    return step.dependsOn.every(depId =>
+      state.completedSteps.includes(depId) ||
+      state.skippedSteps.includes(depId) ||
+      (state.failedSteps.includes(depId) && isFailureHandled(depId, workflowDefinition))
     );
   }
 
+  private isSettled(stepId: string, state: ExecutionState): boolean {
+    return state.completedSteps.includes(stepId) ||
+      state.failedSteps.includes(stepId) ||
+      state.skippedSteps.includes(stepId);
+  }
+
+  private releaseStep(executionId: string, stepId: string) {
+    const running = this.runningSteps.get(executionId);
+    if (!running) return;
+    running.delete(stepId);
+    if (running.size === 0) this.runningSteps.delete(executionId);
+  }
+
+  /**
+   * Drops the scheduling this process kept for an execution that has nothing in flight
+   * here, so a job picking the execution up again re-routes steps whose start failed
+   * instead of treating them as already dispatched.
+   */
+  resetScheduling(executionId: string) {
+    if (!this.runningSteps.has(executionId)) this.clearScheduling(executionId);
+  }
+
+  private clearScheduling(executionId: string) {
+    this.scheduledSteps.delete(executionId);
+    this.runningSteps.delete(executionId);
+  }
+
+  private isExecutionComplete(steps: WorkflowStep[], state: ExecutionState): boolean {
+    return steps.every(step => this.isSettled(step.id, state));
+  }
+
   private async completeExecution(
     executionId: string,
     tenantId: string,
     state: ExecutionState
   ) {
-    await this.prisma.workflowExecution.update({
-      where: { id: executionId },
+    // Parallel branches can finish together - only the first one completes the execution
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { id: executionId, completedAt: null },
       data: {
         status: 'COMPLETED',
         currentStep: null,
         completedAt: new Date(),
       },
     });
+    if (count === 0) return;
+    this.clearScheduling(executionId);
 
     await this.stateService.logEvent({
       executionId,
       timestamp: new Date(),
       eventType: 'EXECUTION_COMPLETED',
-      payload: { completedSteps: state.completedSteps },
+      payload: { completedSteps: state.completedSteps, skippedSteps: state.skippedSteps },
     });
 
     this.logger.log(`Execution ${executionId} completed`);
@@ -261,14 +753,16 @@ export class ExecutionOrchestratorService {
     state: ExecutionState,
     errorMessage: string
   ) {
-    await this.prisma.workflowExecution.update({
-      where: { id: executionId },
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { id: executionId, completedAt: null },
       data: {
         status: 'FAILED',
         currentStep: null,
         completedAt: new Date(),
       },
     });
+    if (count === 0) return;
+    this.clearScheduling(executionId);
 
     await this.stateService.logEvent({
       executionId,
@@ -0,0 +1,232 @@
+import { columnKindOf, planExecution } from './execution-planner';
+import { Activity, WorkflowDefinition } from '../../workflows/entities/workflow-definition.types';
+import { SourceColumnKinds } from '../entities/execution.types';
+
+describe('planExecution', () => {
+  const extract = (config: Record<string, any> = {}): Activity => ({
+    id: 'orders',
+    type: 'extract',
+    name: 'Orders',
+    config: {
+      aggregatorInstanceId: 'erp',
+      table: 'orders',
+      columns: ['id', 'region', 'status', 'total', 'customer', 'notes', 'placed_at'],
+      ...config,
+    } as any,
+  });
+
+  const filter = (config: Record<string, any>): Activity => ({
+    id: 'open-orders',
+    type: 'filter',
+    name: 'Open orders',
+    config: { inputActivityId: 'orders', ...config } as any,
+  });
+
+  const aggregate: Activity = {
+    id: 'revenue',
+    type: 'aggregate',
+    name: 'Revenue',
+    config: {
+      inputActivityId: 'open-orders',
+      groupBy: ['region'],
+      aggregates: [{ function: 'sum', column: 'total', as: 'revenue' }, { function: 'count', as: 'orders' }],
+    },
+  };
+
+  const load: Activity = {
+    id: 'warehouse',
+    type: 'load',
+    name: 'Warehouse',
+    config: { aggregatorInstanceId: 'dwh', table: 'open_orders', mode: 'insert' },
+  };
+
+  // Steps share their activity's id, and run in the order given
+  const pipeline = (...activities: Activity[]): WorkflowDefinition => ({
+    version: '1.0',
+    activities,
+    steps: activities.map((activity, i) => ({
+      id: activity.id,
+      activityId: activity.id,
+      dependsOn: i === 0 ? [] : [activities[i - 1].id],
+    })),
+  });
+
+  // As discovered: id is an integer, code a varchar holding numbers, placed_at a timestamp
+  const kinds: SourceColumnKinds = {
+    orders: Object.fromEntries(Object.entries({
+      id: 'integer',
+      code: 'varchar(10)',
+      region: 'character varying',
+      status: 'varchar(20)',
+      total: 'numeric(12,2)',
+      customer: 'text',
+      notes: 'text',
+      placed_at: 'timestamp with time zone',
+    }).map(([column, type]) => [column, columnKindOf(type)])),
+  };
+
+  const configOf = (definition: WorkflowDefinition, id: string) =>
+    definition.activities.find(activity => activity.id === id)!.config as any;
+
+  it('should push mappable conditions and the columns read downstream into the extract', () => {
+    const definition = pipeline(
+      extract(),
+      filter({
+        expression: {
+          and: [
+            { field: 'status', operator: 'in', value: ['open', 'pending'] },
+            { field: 'total', operator: 'between', value: [10, 500] },
+            { field: 'customer', operator: 'regex', value: '^acme' },
+            { or: [{ field: 'region', operator: 'eq', value: 'eu' }, { field: 'region', operator: 'eq', value: 'us' }] },
+          ],
+        },
+      }),
+      aggregate,
+    );
+
+    const plan = planExecution(definition, kinds);
+
+    expect(configOf(plan.definition, 'orders')).toEqual(expect.objectContaining({
+      filters: [
+        { column: 'status', operator: 'in', value: ['open', 'pending'] },
+        { column: 'total', operator: 'gte', value: 10 },
+        { column: 'total', operator: 'lte', value: 500 },
+      ],
+      columns: ['region', 'status', 'total', 'customer'],
+    }));
+    expect(plan.pushdowns).toEqual([{
+      filterStepId: 'open-orders',
+      sourceStepId: 'orders',
+      filters: configOf(plan.definition, 'orders').filters,
+      columns: ['region', 'status', 'total', 'customer'],
+      retained: 2,
+    }]);
+    // The filter still checks every row, and the stored definition is untouched
+    expect(configOf(plan.definition, 'open-orders')).toEqual(configOf(definition, 'open-orders'));
+    expect(configOf(definition, 'orders').filters).toBeUndefined();
+  });
+
+  it('should push text matches only into text columns', () => {
+    const plan = planExecution(pipeline(
+      extract(),
+      filter({
+        expression: {
+          and: [
+            { field: 'customer', operator: 'startsWith', value: 'ACME' },
+            { field: 'id', operator: 'contains', value: '5' },
+            { field: 'notes', operator: 'contains', value: 'urgent', caseInsensitive: true },
+            { field: 'placed_at', operator: 'gte', value: 'today-7d', type: 'date' },
+          ],
+        },
+      }),
+      load,
+    ), kinds);
+
+    // LIKE on the integer id would be a type error on Postgres
+    expect(configOf(plan.definition, 'orders').filters).toEqual([{ column: 'customer', operator: 'like', value: 'ACME%' }]);
+    expect(plan.pushdowns[0].retained).toBe(3);
+  });
+
+  it('should keep comparisons the database would make as text but the filter makes as numbers', () => {
+    const plan = planExecution(pipeline(
+      extract(),
+      filter({
+        expression: {
+          and: [
+            { field: 'code', operator: 'gt', value: '9' },
+            { field: 'code', operator: 'eq', value: '01' },
+            { field: 'code', operator: 'in', value: ['A1', '7'] },
+            { field: 'total', operator: 'gt', value: '9' },
+          ],
+        },
+      }),
+      load,
+    ), kinds);
+
+    // As text '10' < '9' and '1' != '01'; the filter step compares them as numbers
+    expect(configOf(plan.definition, 'orders').filters).toEqual([{ column: 'total', operator: 'gt', value: 9 }]);
+    expect(plan.pushdowns[0].retained).toBe(3);
+  });
+
+  it('should only push null checks into sources without discovered types', () => {
+    const source: Activity = {
+      id: 'orders',
+      type: 'mini-connector-source',
+      name: 'Orders',
+      config: { connectorId: 'c-1', database: 'erp', table: 'orders', columns: ['*'] },
+    };
+
+    const plan = planExecution(pipeline(
+      source,
+      filter({
+        expression: {
+          and: [
+            { field: 'status', operator: 'eq', value: 'open' },
+            { field: 'customer', operator: 'isNotNull' },
+          ],
+        },
+      }),
+      load,
+    ));
+
+    expect(configOf(plan.definition, 'orders')).toEqual({
+      ...source.config,
+      filters: [{ column: 'customer', operator: 'isNotNull' }],
+    });
+  });
+
+  it('should push comparisons into a mini-connector source whose connector reported types', () => {
+    const source: Activity = {
+      id: 'orders',
+      type: 'mini-connector-source',
+      name: 'Orders',
+      config: { connectorId: 'c-1', database: 'erp', table: 'orders', columns: ['*'] },
+    };
+
+    const plan = planExecution(pipeline(
+      source,
+      filter({
+        expression: {
+          and: [
+            { field: 'status', operator: 'eq', value: 'open' },
+            { field: 'total', operator: 'gt', value: 100 },
+          ],
+        },
+      }),
+      load,
+    ), kinds);
+
+    expect(configOf(plan.definition, 'orders').filters).toEqual([
+      { column: 'status', operator: 'eq', value: 'open' },
+      { column: 'total', operator: 'gt', value: 100 },
+    ]);
+  });
+
+  it('should select only the needed columns when the source selects all and keep the cursor', () => {
+    const plan = planExecution(pipeline(
+      extract({ columns: ['*'], incremental: { cursorColumn: 'updated_at' } }),
+      filter({ expression: { field: 'notes', operator: 'isNotNull' } }),
+      aggregate,
+    ));
+
+    expect(configOf(plan.definition, 'orders').columns).toEqual(['notes', 'region', 'total', 'updated_at']);
+  });
+
+  it('should leave sources alone when pushing could change what is read', () => {
+    const expression = { field: 'status', operator: 'eq', value: 'open' };
+    const sharedSource = pipeline(extract(), filter({ expression }));
+    sharedSource.activities.push(load);
+    sharedSource.steps.push({ id: 'warehouse', activityId: 'warehouse', dependsOn: ['orders'] });
+
+    for (const definition of [
+      sharedSource,
+      pipeline(extract({ limit: 100 }), filter({ expression })),
+      pipeline(extract(), filter({ condition: "row.status === 'open'" })),
+      pipeline(extract(), filter({ expression: { field: 'status', operator: 'like', value: 'open' } })),
+    ]) {
+      const plan = planExecution(definition);
+      expect(plan.pushdowns).toEqual([]);
+      expect(plan.definition).toBe(definition);
+    }
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  Activity,
+  AggregateConfig,
+  ExtractConfig,
+  ExtractFilter,
+  FilterConfig,
+  FilterExpression,
+  FilterOperator,
+  MiniConnectorSourceConfig,
+  WorkflowDefinition,
+  WorkflowStep,
+} from '../../workflows/entities/workflow-definition.types';
+import { validateFilterConfig } from '../../activities/datasets/filter-expression';
+import { validateAggregateConfig } from '../../activities/datasets/aggregation';
+import { ColumnKind, ExecutionPlan, Pushdown, SourceColumnKinds } from '../entities/execution.types';
+
+type SourceConfig = ExtractConfig | MiniConnectorSourceConfig;
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const NUMBER_TYPE_PATTERN = /^((tiny|small|medium|big)?int(eger)?\d*|(small|big)?serial\d*|decimal|numeric|number|real|float\d*|double)\b/i;
+const TEXT_TYPE_PATTERN = /^((national )?(var)?char(acter)?|n?varchar|nchar|(tiny|medium|long)?text|ntext|citext|clob)\b/i;
+
+/**
+ * Rewrites a definition so that a filter step reading straight from an extract
+ * or mini-connector source has the source do the work: the filter's top-level
+ * AND conditions that map onto source filters are added to the source's
+ * filters, and when every step after the filter names the columns it reads,
+ * the source only selects those.
+ *
+ * The filter step itself is kept. It evaluates the whole expression over the
+ * rows that arrive, so conditions the database matches more loosely (case
+ * insensitive collations, LIKE wildcards in a value) still give the same
+ * result. Comparisons with a value depend on the column's type, so they are
+ * only pushed for columns whose discovered kind is given. Sources with a
+ * limit, sources another step also reads, and JavaScript conditions are left
+ * alone.
+ */
+export function planExecution(definition: WorkflowDefinition, columnKinds: SourceColumnKinds = {}): ExecutionPlan {
+  const activities = new Map(definition.activities.map(activity => [activity.id, activity]));
+  const pushdowns: Pushdown[] = [];
+
+  for (const step of definition.steps) {
+    const expression = expressionOf(activities.get(step.activityId));
+    if (!expression || step.dependsOn.length !== 1) continue;
+
+    const source = definition.steps.find(candidate => candidate.id === step.dependsOn[0]);
+    const sourceActivity = source && activities.get(source.activityId);
+    if (!source || !sourceActivity || !isPushdownTarget(source, sourceActivity, definition)) continue;
+
+    const sourceConfig = sourceActivity.config as SourceConfig;
+    const conditions = conjuncts(expression);
+    const kinds = columnKinds[sourceActivity.id] ?? {};
+    const pushed = conditions.map(condition => toSourceFilters(condition, kinds));
+    const filters = pushed.flatMap(converted => converted ?? []);
+    const columns = prunedColumns(sourceConfig, step, expression, definition, activities);
+    if (filters.length === 0 && !columns) continue;
+
+    activities.set(sourceActivity.id, {
+      ...sourceActivity,
+      config: {
+        ...sourceConfig,
+        ...(filters.length > 0 && { filters: [...(sourceConfig.filters ?? []), ...filters] }),
+        ...(columns && { columns }),
+      },
+    });
+    pushdowns.push({
+      filterStepId: step.id,
+      sourceStepId: source.id,
+      filters,
+      ...(columns && { columns }),
+      retained: pushed.filter(converted => converted === null).length,
+    });
+  }
+
+  if (pushdowns.length === 0) {
+    return { definition, pushdowns };
+  }
+  return {
+    definition: { ...definition, activities: definition.activities.map(activity => activities.get(activity.id)!) },
+    pushdowns,
+  };
+}
+
+// Rewriting the source must not change what any other step reads
+function isPushdownTarget(source: WorkflowStep, activity: Activity, definition: WorkflowDefinition): boolean {
+  if (activity.type !== 'extract' && activity.type !== 'mini-connector-source') return false;
+  // The limit applies before the filter, so a pushed filter would return other rows
+  if ((activity.config as SourceConfig).limit !== undefined) return false;
+
+  const readers = definition.steps.filter(step => step.dependsOn.includes(source.id));
+  const sharing = definition.steps.filter(step => step.activityId === activity.id);
+  return readers.length === 1 && sharing.length === 1;
+}
+
+function conjuncts(expression: FilterExpression): FilterExpression[] {
+  return 'and' in expression ? expression.and.flatMap(conjuncts) : [expression];
+}
+
+/**
+ * How a discovered column type compares: numbers by value, text as strings.
+ * Anything else, dates included, only has its null checks pushed.
+ */
+export function columnKindOf(type: string): ColumnKind {
+  if (NUMBER_TYPE_PATTERN.test(type.trim())) return 'number';
+  if (TEXT_TYPE_PATTERN.test(type.trim())) return 'text';
+  return 'other';
+}
+
+/**
+ * The source filters matching a condition at least as loosely, or null when it
+ * has to stay with the filter step. The filter step compares numeric strings
+ * as numbers, so a number column takes numeric values and a text column only
+ * equality with text that does not look like a number. Ordering text depends
+ * on the collation, so ranges over text stay, as do dates, since the database
+ * may read the value in another time zone.
+ */
+function toSourceFilters(expression: FilterExpression, kinds: Record<string, ColumnKind>): ExtractFilter[] | null {
+  if ('and' in expression || 'or' in expression || 'not' in expression) return null;
+  const { field: column, operator, value } = expression;
+  if (expression.type === 'date' || expression.caseInsensitive || !IDENTIFIER_PATTERN.test(column)) return null;
+  if (operator === 'isNull' || operator === 'isNotNull') return [{ column, operator }];
+
+  switch (kinds[column]) {
+    case 'number':
+      return toNumberFilters(column, operator, value);
+    case 'text':
+      return toTextFilters(column, operator, value);
+    default:
+      return null;
+  }
+}
+
+function toNumberFilters(column: string, operator: FilterOperator, value: any): ExtractFilter[] | null {
+  switch (operator) {
+    case 'in':
+    case 'notIn':
+      return value.every(isNumeric) ? [{ column, operator, value: value.map(Number) }] : null;
+    case 'between':
+      return value.every(isNumeric)
+        ? [{ column, operator: 'gte', value: Number(value[0]) }, { column, operator: 'lte', value: Number(value[1]) }]
+        : null;
+    case 'eq':
+    case 'neq':
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return isNumeric(value) ? [{ column, operator, value: Number(value) }] : null;
+    default:
+      return null;
+  }
+}
+
+function toTextFilters(column: string, operator: FilterOperator, value: any): ExtractFilter[] | null {
+  switch (operator) {
+    case 'eq':
+      return isPlainText(value) ? [{ column, operator, value }] : null;
+    case 'in':
+      return value.every(isPlainText) ? [{ column, operator, value }] : null;
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith': {
+      // % and _ in the value only widen the pattern, but escapes and brackets could narrow it
+      if (/[\\[\]]/.test(value)) return null;
+      const pattern = `${operator === 'startsWith' ? '' : '%'}${value}${operator === 'endsWith' ? '' : '%'}`;
+      return [{ column, operator: 'like', value: pattern }];
+    }
+    default:
+      return null;
+  }
+}
+
+// The source's columns narrowed to those the filter and the steps after it read
+function prunedColumns(
+  config: SourceConfig,
+  step: WorkflowStep,
+  expression: FilterExpression,
+  definition: WorkflowDefinition,
+  activities: Map<string, Activity>,
+): string[] | undefined {
+  const downstream = columnsReadAfter(step, definition, activities);
+  if (!downstream) return undefined;
+
+  const needed = new Set([...fieldsOf(expression), ...downstream]);
+  // Incremental reads take the watermark from the rows
+  if (config.incremental) needed.add(config.incremental.cursorColumn);
+
+  const current = Array.isArray(config.columns) ? config.columns : [];
+  const selectsAll = current.length === 0 || current.includes('*');
+  const columns = selectsAll ? [...needed] : current.filter(column => needed.has(column));
+  if (columns.length === 0 || !columns.every(column => IDENTIFIER_PATTERN.test(column))) return undefined;
+  if (!selectsAll && columns.length === current.length) return undefined;
+  return columns;
+}
+
+/**
+ * The columns the steps reading a step's output use, or null when one of them
+ * may use any column. Only aggregates and expression filters say what they
+ * read; a step nothing reads is the workflow's result and keeps every column.
+ */
+function columnsReadAfter(
+  step: WorkflowStep,
+  definition: WorkflowDefinition,
+  activities: Map<string, Activity>,
+): string[] | null {
+  const readers = definition.steps.filter(candidate => candidate.dependsOn.includes(step.id));
+  if (readers.length === 0) return null;
+
+  const columns: string[] = [];
+  for (const reader of readers) {
+    const activity = activities.get(reader.activityId);
+    if (!activity || reader.dependsOn.length !== 1) return null;
+
+    const expression = expressionOf(activity);
+    if (activity.type === 'aggregate' && validateAggregateConfig(activity.config).length === 0) {
+      const config = activity.config as AggregateConfig;
+      columns.push(...(config.groupBy ?? []));
+      for (const measure of config.aggregates) {
+        if (measure.column !== undefined) columns.push(measure.column);
+      }
+      if (config.window) columns.push(config.window.column);
+    } else if (expression) {
+      const after = columnsReadAfter(reader, definition, activities);
+      if (!after) return null;
+      columns.push(...fieldsOf(expression), ...after);
+    } else {
+      return null;
+    }
+  }
+  return columns;
+}
+
+// Filters with an invalid config are left for the filter step to reject
+function expressionOf(activity: Activity | undefined): FilterExpression | undefined {
+  if (activity?.type !== 'filter' || validateFilterConfig(activity.config).length > 0) return undefined;
+  return (activity.config as FilterConfig).expression;
+}
+
+function fieldsOf(expression: FilterExpression): string[] {
+  if ('and' in expression) return expression.and.flatMap(fieldsOf);
+  if ('or' in expression) return expression.or.flatMap(fieldsOf);
+  if ('not' in expression) return fieldsOf(expression.not);
+  return [expression.field];
+}
+
+// Numbers, and strings the filter step reads as numbers
+function isNumeric(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+// Text the filter step also compares as text
+function isPlainText(value: unknown): value is string {
+  return typeof value === 'string' && !isNumeric(value);
+}
@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ExecutionQueueService, EXECUTION_JOB_NAME } from './execution-queue.service';
+import { ExecutionOrchestratorService } from './execution-orchestrator.service';
+import { ExecutionStateService } from './execution-state.service';
+import { BullMQService } from '../../queue/services/bullmq.service';
+import { BackpressureService } from '../../queue/services/backpressure.service';
+import { PrismaService } from '../../prisma.service';
+import { ControlFlagsService, ControlFlagBlockedException } from '../../controls/services/control-flags.service';
+
+describe('ExecutionQueueService', () => {
+  let service: ExecutionQueueService;
+  let processJob: (job: any) => Promise<any>;
+
+  const mockPrismaService = {
+    tenant: { findUnique: jest.fn() },
+    activityExecution: { count: jest.fn() },
+    workflowExecution: { findFirst: jest.fn(), updateMany: jest.fn() },
+    workflowDefinition: { findFirst: jest.fn() },
+  };
+
+  const mockBullMQService = {
+    registerProcessor: jest.fn(),
+    addJob: jest.fn(),
+  };
+
+  const mockBackpressureService = {
+    checkBeforeEnqueue: jest.fn(),
+    enforceRateLimit: jest.fn(),
+    getTenantCapacity: jest.fn(),
+  };
+
+  const mockControlFlags = {
+    assertAllowed: jest.fn(),
+    isRateLimited: jest.fn(),
+  };
+
+  const mockOrchestrator = {
+    startExecution: jest.fn(),
+    processNextStep: jest.fn(),
+    resetScheduling: jest.fn(),
+  };
+
+  const mockStateService = {
+    getExecutionState: jest.fn(),
+    logEvent: jest.fn(),
+  };
+
+  const jobData = {
+    executionId: 'exec-1',
+    tenantId: 'tenant-1',
+    workflowId: 'workflow-1',
+    workflowVersion: 2,
+  };
+
+  const emptyState = {
+    currentStepId: null,
+    completedSteps: [],
+    failedSteps: [],
+    stepOutputRefs: {},
+    stepAttempts: {},
+    startedAt: new Date(),
+    lastActivityAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExecutionQueueService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: BullMQService, useValue: mockBullMQService },
+        { provide: BackpressureService, useValue: mockBackpressureService },
+        { provide: ExecutionOrchestratorService, useValue: mockOrchestrator },
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: ControlFlagsService, useValue: mockControlFlags },
+      ],
+    }).compile();
+
+    service = module.get<ExecutionQueueService>(ExecutionQueueService);
+    service.onModuleInit();
+    processJob = mockBullMQService.registerProcessor.mock.calls[0][1];
+
+    mockPrismaService.workflowDefinition.findFirst.mockResolvedValue({ definition: { steps: [], activities: [] } });
+    mockPrismaService.workflowExecution.updateMany.mockResolvedValue({ count: 1 });
+    mockStateService.getExecutionState.mockResolvedValue(emptyState);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('admit', () => {
+    it('should reject with 429 when the tenant is over its hourly limit', async () => {
+      mockBackpressureService.enforceRateLimit.mockResolvedValueOnce(false);
+
+      await expect(service.admit('tenant-1', 'workflow-1')).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+    });
+
+    it('should reject with 503 when the tier queue is saturated', async () => {
+      mockBackpressureService.checkBeforeEnqueue.mockRejectedValueOnce(new Error('System at capacity'));
+
+      await expect(service.admit('tenant-1', 'workflow-1')).rejects.toThrow(HttpException);
+      expect(mockBackpressureService.enforceRateLimit).not.toHaveBeenCalled();
+    });
+
+    it('should refuse with 403 while a control flag blocks the workflow', async () => {
+      mockControlFlags.assertAllowed.mockRejectedValueOnce(
+        new ControlFlagBlockedException(
+          { id: 'flag-1', scope: 'WORKFLOW', scopeId: 'workflow-1', flagType: 'PAUSE', reason: 'maintenance' } as any,
+          'trigger',
+        ),
+      );
+
+      await expect(service.admit('tenant-1', 'workflow-1')).rejects.toMatchObject({
+        status: HttpStatus.FORBIDDEN,
+      });
+      expect(mockBackpressureService.checkBeforeEnqueue).not.toHaveBeenCalled();
+    });
+
+    it('should cut the hourly limit to a tenth under a RATE_LIMIT flag', async () => {
+      mockControlFlags.isRateLimited.mockResolvedValueOnce(true);
+      mockBackpressureService.getTenantCapacity.mockResolvedValueOnce({ maxJobsPerHour: 100, jobsThisHour: 10 });
+
+      await expect(service.admit('tenant-1', 'workflow-1')).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should add the job to the queue of the tenant tier', async () => {
+      mockPrismaService.tenant.findUnique.mockResolvedValue({ tier: 'STANDARD' });
+      mockPrismaService.activityExecution.count.mockResolvedValue(0);
+      mockBullMQService.addJob.mockResolvedValue({ id: 'exec-1' });
+
+      await service.enqueue(jobData);
+
+      expect(mockBullMQService.addJob).toHaveBeenCalledWith(
+        'workflow-exec-standard',
+        EXECUTION_JOB_NAME,
+        jobData,
+        expect.objectContaining({ jobId: 'exec-1' }),
+      );
+    });
+  });
+
+  describe('processJob', () => {
+    it('should start a PENDING execution', async () => {
+      mockPrismaService.workflowExecution.findFirst.mockResolvedValue({ status: 'PENDING' });
+
+      await processJob({ id: 'exec-1', data: jobData, opts: { attempts: 3 }, attemptsMade: 0 });
+
+      expect(mockOrchestrator.startExecution).toHaveBeenCalledWith('exec-1', 'tenant-1', expect.anything(), undefined);
+      expect(mockOrchestrator.processNextStep).not.toHaveBeenCalled();
+    });
+
+    it('should resume a RUNNING execution from persisted state', async () => {
+      mockPrismaService.workflowExecution.findFirst.mockResolvedValue({ status: 'RUNNING' });
+
+      await processJob({ id: 'exec-1', data: jobData, opts: { attempts: 3 }, attemptsMade: 1 });
+
+      expect(mockOrchestrator.resetScheduling).toHaveBeenCalledWith('exec-1');
+      expect(mockOrchestrator.processNextStep).toHaveBeenCalledWith('exec-1', 'tenant-1', expect.anything(), emptyState);
+      expect(mockOrchestrator.startExecution).not.toHaveBeenCalled();
+    });
+
+    it('should fail the execution when the last attempt throws', async () => {
+      mockPrismaService.workflowExecution.findFirst.mockResolvedValue({ status: 'PENDING' });
+      mockOrchestrator.startExecution.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(
+        processJob({ id: 'exec-1', data: jobData, opts: { attempts: 3 }, attemptsMade: 2 }),
+      ).rejects.toThrow('database unavailable');
+
+      expect(mockStateService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'EXECUTION_FAILED' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable, Logger, OnModuleInit, HttpException, HttpStatus } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { PrismaService } from '../../prisma.service';
+import { BullMQService } from '../../queue/services/bullmq.service';
+import { BackpressureService } from '../../queue/services/backpressure.service';
+import { getQueueForTier } from '../../queue/config/queue-topology.config';
+import { ExecutionOrchestratorService } from './execution-orchestrator.service';
+import { ExecutionStateService } from './execution-state.service';
+import { ControlFlagsService } from '../../controls/services/control-flags.service';
+import { WorkflowDefinition } from '../../workflows/entities/workflow-definition.types';
+import { ExecutionPlan } from '../entities/execution.types';
+
+export const EXECUTION_JOB_NAME = 'run-execution';
+
+// Share of the hourly limit left while a RATE_LIMIT control flag is active
+const RATE_LIMIT_FLAG_FACTOR = 0.1;
+
+export interface ExecutionJobData {
+  executionId: string;
+  tenantId: string;
+  workflowId: string;
+  workflowVersion: number;
+  retryOf?: string;  // Source execution when re-running a failed one
+}
+
+/**
+ * Runs executions on the tier queues. A job either starts a PENDING execution or
+ * continues one from its persisted state, so a job picked up again after a pod
+ * dies (BullMQ stalled-job recovery) resumes instead of starting over.
+ */
+@Injectable()
+export class ExecutionQueueService implements OnModuleInit {
+  private readonly logger = new Logger(ExecutionQueueService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly bullmq: BullMQService,
+    private readonly backpressure: BackpressureService,
+    private readonly orchestrator: ExecutionOrchestratorService,
+    private readonly stateService: ExecutionStateService,
+    private readonly controlFlags: ControlFlagsService,
+  ) {}
+
+  onModuleInit() {
+    this.bullmq.registerProcessor(EXECUTION_JOB_NAME, job => this.processJob(job));
+  }
+
+  /**
+   * Applies control flags, queue backpressure and the tenant's hourly limit before a
+   * new execution is created. A RATE_LIMIT flag cuts the hourly limit to a tenth.
+   */
+  async admit(tenantId: string, workflowId: string) {
+    await this.controlFlags.assertAllowed({ tenantId, workflowId }, 'trigger');
+
+    try {
+      await this.backpressure.checkBeforeEnqueue(tenantId);
+    } catch (error) {
+      throw new HttpException(error.message, HttpStatus.SERVICE_UNAVAILABLE);
+    }
+
+    if (await this.controlFlags.isRateLimited({ tenantId, workflowId })) {
+      const capacity = await this.backpressure.getTenantCapacity(tenantId);
+      const throttledLimit = Math.max(1, Math.floor(capacity.maxJobsPerHour * RATE_LIMIT_FLAG_FACTOR));
+      if (capacity.jobsThisHour >= throttledLimit) {
+        throw new HttpException(
+          `Executions are rate limited by a control flag (${throttledLimit} per hour)`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    const allowed = await this.backpressure.enforceRateLimit(tenantId);
+    if (!allowed) {
+      throw new HttpException('Hourly execution limit reached for tenant', HttpStatus.TOO_MANY_REQUESTS);
+    }
+  }
+
+  async enqueue(data: ExecutionJobData, options?: { delay?: number; jobId?: string }) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: data.tenantId },
+      select: { tier: true },
+    });
+    const queueName = getQueueForTier(tenant?.tier ?? 'FREE');
+
+    // Resumes enqueue again for the same execution, so only the first job uses the execution id
+    const existing = await this.prisma.activityExecution.count({ where: { executionId: data.executionId } });
+    const jobId = options?.jobId ?? (existing === 0 ? data.executionId : `${data.executionId}-${Date.now()}`);
+
+    const job = await this.bullmq.addJob(queueName, EXECUTION_JOB_NAME, data, { jobId, delay: options?.delay });
+    this.logger.log(`Execution ${data.executionId} enqueued on ${queueName} (job ${job.id})`);
+    return job;
+  }
+
+  private async processJob(job: Job<ExecutionJobData>) {
+    const { executionId, tenantId, workflowId, workflowVersion, retryOf } = job.data;
+
+    try {
+      const execution = await this.prisma.workflowExecution.findFirst({
+        where: { id: executionId, tenantId },
+        select: { status: true, plan: true },
+      });
+      if (!execution) {
+        this.logger.warn(`Execution ${executionId} no longer exists, dropping job ${job.id}`);
+        return { skipped: true };
+      }
+      if (['PAUSED', 'COMPLETED', 'FAILED', 'CANCELLED'].includes(execution.status)) {
+        return { skipped: true, status: execution.status };
+      }
+
+      const workflow = await this.prisma.workflowDefinition.findFirst({
+        where: { id: workflowId, version: workflowVersion },
+      });
+      if (!workflow) {
+        throw new Error(`Workflow ${workflowId} version ${workflowVersion} not found`);
+      }
+      const definition = workflow.definition as unknown as WorkflowDefinition;
+
+      const state = await this.stateService.getExecutionState(executionId, tenantId);
+      if (!state) throw new Error('Execution state not found');
+
+      if (execution.status === 'PENDING') {
+        // Steps already recorded on a PENDING execution were carried over from a retried one
+        const carriedOver = retryOf
+          ? { sourceExecutionId: retryOf, completedSteps: state.completedSteps, stepOutputRefs: state.stepOutputRefs }
+          : undefined;
+        await this.orchestrator.startExecution(executionId, tenantId, definition, carriedOver);
+      } else {
+        // A started execution carries on with the plan it was started with
+        this.orchestrator.resetScheduling(executionId);
+        const plan = execution.plan as unknown as ExecutionPlan | null;
+        await this.orchestrator.processNextStep(executionId, tenantId, plan?.definition ?? definition, state);
+      }
+
+      return { executionId };
+    } catch (error) {
+      const attempts = job.opts.attempts ?? 1;
+      if (job.attemptsMade + 1 >= attempts) {
+        await this.markFailed(executionId, error);
+      }
+      throw error;
+    }
+  }
+
+  private async markFailed(executionId: string, error: Error) {
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { id: executionId, completedAt: null },
+      data: { status: 'FAILED', currentStep: null, completedAt: new Date() },
+    });
+    if (count === 0) return;
+
+    await this.stateService.logEvent({
+      executionId,
+      timestamp: new Date(),
+      eventType: 'EXECUTION_FAILED',
+      payload: { error: error.message, reason: 'queue attempts exhausted' },
+    });
+  }
+}
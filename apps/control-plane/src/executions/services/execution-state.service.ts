@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma.service';
 import { ExecutionState, ExecutionEvent } from '../entities/execution.types';
+import { StepOutputStoreService } from './step-output-store.service';
 
 // Type aliases for Prisma enums
 const ExecutionStatus = {
@@ -20,6 +21,7 @@ const ActivityStatus = {
   FAILED: 'FAILED',
   CANCELLED: 'CANCELLED',
   TIMEOUT: 'TIMEOUT',
+  SKIPPED: 'SKIPPED',
 } as const;
 
 type ExecutionStatusType = typeof ExecutionStatus[keyof typeof ExecutionStatus];
@@ -27,7 +29,10 @@ type ActivityStatusType = typeof ActivityStatus[keyof typeof ActivityStatus];
 
 @Injectable()
 export class ExecutionStateService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outputStore: StepOutputStoreService,
+  ) {}
 
   async createExecution(
     tenantId: string,
@@ -69,19 +74,18 @@ export class ExecutionStateService {
 
     const completedSteps: string[] = [];
     const failedSteps: string[] = [];
-    const stepOutputs: Record<string, any> = {};
+    const skippedSteps: string[] = [];
+    const stepOutputRefs: Record<string, string> = {};
+    const stepAttempts: Record<string, number> = {};
     let lastActivityAt = execution.startedAt;
 
     for (const [stepId, activity] of latestByStep.entries()) {
       if (activity.status === 'COMPLETED') completedSteps.push(stepId);
       if (activity.status === 'FAILED') failedSteps.push(stepId);
-      if (activity.outputRef) {
-        try {
-          stepOutputs[stepId] = JSON.parse(activity.outputRef);
-        } catch {
-          stepOutputs[stepId] = activity.outputRef;
-        }
-      }
+      if (activity.status === 'SKIPPED') skippedSteps.push(stepId);
+      stepAttempts[stepId] = activity.attempt;
+      // Outputs are only resolved when a downstream step asks for them
+      if (activity.outputRef) stepOutputRefs[stepId] = activity.outputRef;
       const activityTimestamp = activity.completedAt ?? activity.startedAt;
       if (activityTimestamp > lastActivityAt) lastActivityAt = activityTimestamp;
     }
@@ -90,12 +94,28 @@ export class ExecutionStateService {
       currentStepId: execution.currentStep || null,
       completedSteps,
       failedSteps,
-      stepOutputs,
+      skippedSteps,
+      stepOutputRefs,
+      stepAttempts,
       startedAt: execution.startedAt,
       lastActivityAt,
     };
   }
 
+  /**
+   * Resolves the outputs of the given steps, downloading offloaded ones from storage.
+   */
+  async loadStepOutputs(state: ExecutionState, stepIds: string[]): Promise<Record<string, any>> {
+    const outputs: Record<string, any> = {};
+    for (const stepId of stepIds) {
+      const outputRef = state.stepOutputRefs[stepId];
+      if (outputRef !== undefined) {
+        outputs[stepId] = await this.outputStore.load(outputRef);
+      }
+    }
+    return outputs;
+  }
+
   async updateExecutionState(
     executionId: string,
     tenantId: string,
@@ -139,19 +159,26 @@ export class ExecutionStateService {
     output?: any,
     error?: { message: string; retryable: boolean }
   ) {
+    const outputRef = output !== undefined
+      ? await this.outputStore.save({ tenantId, executionId, stepId, attempt }, output)
+      : undefined;
+
     const existing = await this.prisma.activityExecution.findFirst({
       where: { executionId, tenantId, activityId: stepId, attempt },
     });
+    const completedAt = status === 'COMPLETED' || status === 'FAILED' || status === 'CANCELLED' || status === 'SKIPPED'
+      ? new Date()
+      : undefined;
 
     if (existing) {
       return this.prisma.activityExecution.update({
         where: { id: existing.id },
         data: {
           status,
-          outputRef: output !== undefined ? JSON.stringify(output) : undefined,
+          outputRef,
           errorMessage: error?.message,
           errorRetryable: error?.retryable,
-          completedAt: status === 'COMPLETED' || status === 'FAILED' || status === 'CANCELLED' ? new Date() : undefined,
+          completedAt,
         },
       });
     }
@@ -164,15 +191,42 @@ export class ExecutionStateService {
         activityType,
         attempt,
         status,
-        outputRef: output !== undefined ? JSON.stringify(output) : undefined,
+        outputRef,
         errorMessage: error?.message,
         errorRetryable: error?.retryable,
+        completedAt,
+      },
+    });
+  }
+
+  /**
+   * Records a step reused from a retried execution. The output reference is copied
+   * as-is, so offloaded outputs are shared rather than duplicated.
+   */
+  async recordCarriedOverActivity(
+    executionId: string,
+    tenantId: string,
+    stepId: string,
+    activityType: string,
+    outputRef?: string
+  ) {
+    return this.prisma.activityExecution.create({
+      data: {
+        executionId,
+        activityId: stepId,
+        tenantId,
+        activityType,
+        attempt: 1,
+        status: ActivityStatus.COMPLETED,
+        outputRef,
+        completedAt: new Date(),
       },
     });
   }
 
+  // Failed steps do not decide the status: a failure a later step handles
+  // keeps the execution running, and the orchestrator fails it otherwise
   private determineStatus(state: ExecutionState): ExecutionStatusType {
-    if (state.failedSteps.length > 0) return ExecutionStatus.FAILED;
     if (state.currentStepId) return ExecutionStatus.RUNNING;
     if (state.completedSteps.length > 0) return ExecutionStatus.RUNNING;
     return ExecutionStatus.PENDING;
@@ -0,0 +1,46 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Queue, Worker } from 'bullmq';
+import { StepOutputStoreService } from './step-output-store.service';
+import { QUEUE_CONFIG } from '../../queue/config/queue-topology.config';
+
+const RETENTION_QUEUE = 'step-output-retention';
+const RETENTION_JOB_NAME = 'purge-expired-outputs';
+const RETENTION_SWEEP_INTERVAL_MS = 3600000; // 1 hour
+
+/**
+ * Runs the hourly sweep that drops offloaded step outputs past their tier's retention.
+ */
+@Injectable()
+export class StepOutputRetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StepOutputRetentionService.name);
+  private queue?: Queue;
+  private worker?: Worker;
+
+  constructor(private readonly outputStore: StepOutputStoreService) {}
+
+  async onModuleInit() {
+    const connection = {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+    };
+
+    this.queue = new Queue(RETENTION_QUEUE, { connection });
+    this.worker = new Worker(RETENTION_QUEUE, () => this.outputStore.purgeExpired(), { connection, concurrency: 1 });
+
+    // One scheduler shared by all replicas - BullMQ runs each sweep once
+    this.queue
+      .upsertJobScheduler(
+        RETENTION_JOB_NAME,
+        { every: RETENTION_SWEEP_INTERVAL_MS },
+        { name: RETENTION_JOB_NAME, opts: QUEUE_CONFIG.jobOptions },
+      )
+      .catch(error => {
+        this.logger.error(`Failed to register step output retention sweep: ${error.message}`);
+      });
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    await this.queue?.close();
+  }
+}
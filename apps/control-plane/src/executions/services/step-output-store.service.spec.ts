@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { StepOutputStoreService, STORED_OUTPUT_PREFIX } from './step-output-store.service';
+import { PrismaService } from '../../prisma.service';
+import { StorageService } from '../../storage/storage.service';
+
+describe('StepOutputStoreService', () => {
+  let service: StepOutputStoreService;
+
+  const mockPrismaService = {
+    activityExecution: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockStorageService = {
+    upload: jest.fn(),
+    downloadFile: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const location = { tenantId: 'tenant-1', executionId: 'exec-1', stepId: 'extract', attempt: 2 };
+
+  beforeEach(async () => {
+    process.env.STEP_OUTPUT_INLINE_MAX_BYTES = '64';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StepOutputStoreService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: StorageService, useValue: mockStorageService },
+      ],
+    }).compile();
+
+    service = module.get<StepOutputStoreService>(StepOutputStoreService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete process.env.STEP_OUTPUT_INLINE_MAX_BYTES;
+  });
+
+  const largeOutput = Array.from({ length: 10 }, (_, id) => ({ id, name: `row-${id}` }));
+
+  describe('save', () => {
+    it('should keep small outputs inline', async () => {
+      const outputRef = await service.save(location, [{ id: 1 }]);
+
+      expect(outputRef).toBe('[{"id":1}]');
+      expect(mockStorageService.upload).not.toHaveBeenCalled();
+    });
+
+    it('should offload outputs above the threshold under a tenant/execution/attempt key', async () => {
+      mockStorageService.upload.mockResolvedValueOnce({ success: true });
+
+      const outputRef = await service.save(location, largeOutput);
+
+      expect(outputRef).toBe(`${STORED_OUTPUT_PREFIX}step-outputs/tenant-1/exec-1/extract/attempt-2.json`);
+      expect(mockStorageService.upload).toHaveBeenCalledWith(
+        'step-outputs/tenant-1/exec-1/extract/attempt-2.json',
+        JSON.stringify(largeOutput),
+        'application/json',
+      );
+    });
+
+    it('should fall back to inline when storage is unavailable', async () => {
+      mockStorageService.upload.mockResolvedValueOnce({ success: false, error: 'Storage not configured' });
+
+      const outputRef = await service.save(location, largeOutput);
+
+      expect(JSON.parse(outputRef)).toEqual(largeOutput);
+    });
+  });
+
+  describe('load', () => {
+    it('should parse inline outputs without touching storage', async () => {
+      expect(await service.load('{"rows":3}')).toEqual({ rows: 3 });
+      expect(mockStorageService.downloadFile).not.toHaveBeenCalled();
+    });
+
+    it('should download offloaded outputs', async () => {
+      mockStorageService.downloadFile.mockResolvedValueOnce(JSON.stringify(largeOutput));
+
+      const output = await service.load(`${STORED_OUTPUT_PREFIX}step-outputs/tenant-1/exec-1/extract/attempt-2.json`);
+
+      expect(output).toEqual(largeOutput);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    // Expired rows are served once for the FREE tier; liveRefs are still referenced by a younger execution
+    const serveRows = (expired: { id: string; outputRef: string }[], liveRefs: string[] = []) => {
+      let served = false;
+      mockPrismaService.activityExecution.findMany.mockImplementation(async ({ where }) => {
+        if (where.execution.OR) {
+          return liveRefs.filter(ref => where.outputRef.in.includes(ref)).map(outputRef => ({ outputRef }));
+        }
+        if (served || where.execution.tenant.tier !== 'FREE') return [];
+        served = true;
+        return expired;
+      });
+      mockPrismaService.activityExecution.updateMany.mockImplementation(async ({ where }) => ({
+        count: expired.filter(row => where.outputRef.in.includes(row.outputRef)).length,
+      }));
+    };
+
+    it('should delete expired blobs and clear their references', async () => {
+      const outputRef = `${STORED_OUTPUT_PREFIX}step-outputs/tenant-1/exec-1/extract/attempt-1.json`;
+      serveRows([{ id: 'activity-1', outputRef }]);
+      mockStorageService.delete.mockResolvedValue({ success: true });
+
+      const result = await service.purgeExpired(new Date('2026-01-31T00:00:00Z'));
+
+      expect(result.purged).toBe(1);
+      expect(mockStorageService.delete).toHaveBeenCalledWith(outputRef);
+      expect(mockPrismaService.activityExecution.updateMany).toHaveBeenCalledWith({
+        where: { outputRef: { in: [outputRef] } },
+        data: { outputRef: null },
+      });
+      // FREE tier keeps outputs for 7 days
+      expect(mockPrismaService.activityExecution.findMany.mock.calls[0][0].where.execution).toEqual({
+        completedAt: { lt: new Date('2026-01-24T00:00:00Z') },
+        tenant: { tier: 'FREE' },
+      });
+    });
+
+    it('should keep blobs a younger retry still refers to', async () => {
+      const shared = `${STORED_OUTPUT_PREFIX}step-outputs/tenant-1/exec-1/extract/attempt-1.json`;
+      const own = `${STORED_OUTPUT_PREFIX}step-outputs/tenant-1/exec-1/load/attempt-1.json`;
+      serveRows([{ id: 'activity-1', outputRef: shared }, { id: 'activity-2', outputRef: own }], [shared]);
+      mockStorageService.delete.mockResolvedValue({ success: true });
+
+      const result = await service.purgeExpired(new Date('2026-01-31T00:00:00Z'));
+
+      expect(result.purged).toBe(1);
+      expect(mockStorageService.delete).toHaveBeenCalledTimes(1);
+      expect(mockStorageService.delete).toHaveBeenCalledWith(own);
+      expect(mockPrismaService.activityExecution.updateMany).toHaveBeenCalledWith({
+        where: { outputRef: { in: [own] } },
+        data: { outputRef: null },
+      });
+      // Running executions and those inside the retention window hold on to their outputs
+      expect(mockPrismaService.activityExecution.findMany.mock.calls[1][0].where.execution).toEqual({
+        OR: [{ completedAt: null }, { completedAt: { gte: new Date('2026-01-24T00:00:00Z') } }],
+      });
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma.service';
+import { StorageService } from '../../storage/storage.service';
+import { QUEUE_CONFIG, getStepOutputRetentionDaysForTier } from '../../queue/config/queue-topology.config';
+import { CHUNKED_DATASET_FORMAT, isChunkedDataset, isMultiDataset } from '../../activities/datasets/chunked-dataset.types';
+
+// outputRef values with this prefix point at object storage; anything else is inline JSON
+export const STORED_OUTPUT_PREFIX = 'blob://';
+
+const DEFAULT_INLINE_MAX_BYTES = 256 * 1024;
+const RETENTION_BATCH_SIZE = 500;
+
+export interface StepOutputLocation {
+  tenantId: string;
+  executionId: string;
+  stepId: string;
+  attempt: number;
+  /** Separates the chunks of steps that write several datasets, e.g. one per table */
+  dataset?: string;
+}
+
+/**
+ * Decides where a step output lives. Small outputs stay inline in
+ * ActivityExecution.outputRef; larger ones go to object storage under a
+ * tenant/execution/step/attempt key and outputRef keeps only the URI.
+ */
+@Injectable()
+export class StepOutputStoreService {
+  private readonly logger = new Logger(StepOutputStoreService.name);
+  private readonly inlineMaxBytes = parseInt(
+    process.env.STEP_OUTPUT_INLINE_MAX_BYTES || String(DEFAULT_INLINE_MAX_BYTES),
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+  ) {}
+
+  /**
+   * Serializes an output and returns the value to store in outputRef.
+   */
+  async save(location: StepOutputLocation, output: any): Promise<string> {
+    const serialized = JSON.stringify(output);
+    const size = Buffer.byteLength(serialized);
+    if (size <= this.inlineMaxBytes) return serialized;
+
+    const key = this.buildKey(location);
+    const result = await this.storage.upload(key, serialized, 'application/json');
+    if (!result.success) {
+      // Keep the execution going - an oversized row beats a failed step
+      this.logger.warn(
+        `Could not offload ${size} byte output of step ${location.stepId} (${result.error}), storing inline`,
+      );
+      return serialized;
+    }
+
+    this.logger.log(`Offloaded ${size} byte output of step ${location.stepId} to ${key}`);
+    return `${STORED_OUTPUT_PREFIX}${key}`;
+  }
+
+  /**
+   * Stores one chunk of a chunked dataset. Chunks always go to storage so the
+   * manifest kept in outputRef stays small, whatever the dataset size.
+   */
+  async saveChunk(location: StepOutputLocation, index: number, rows: any[]): Promise<string> {
+    const serialized = JSON.stringify(rows);
+    const chunk = `chunk-${String(index).padStart(5, '0')}`;
+    const key = this.buildKey(location, location.dataset ? `${encodeURIComponent(location.dataset)}/${chunk}` : chunk);
+    const result = await this.storage.upload(key, serialized, 'application/json');
+    if (!result.success) {
+      this.logger.warn(`Could not offload chunk ${index} of step ${location.stepId} (${result.error}), storing inline`);
+      return serialized;
+    }
+    return `${STORED_OUTPUT_PREFIX}${key}`;
+  }
+
+  async load(outputRef: string): Promise<any> {
+    if (!this.isStored(outputRef)) {
+      try {
+        return JSON.parse(outputRef);
+      } catch {
+        return outputRef;
+      }
+    }
+
+    const content = await this.storage.downloadFile(outputRef);
+    return JSON.parse(content);
+  }
+
+  isStored(outputRef: string | null | undefined): boolean {
+    return !!outputRef && outputRef.startsWith(STORED_OUTPUT_PREFIX);
+  }
+
+  /**
+   * Deletes stored outputs of executions that finished longer ago than the
+   * retention of their tenant's tier, and clears the dangling references.
+   * Retries share their source's outputs, so an output is only deleted once
+   * every execution referring to it is past the cutoff.
+   */
+  async purgeExpired(now = new Date()) {
+    let purged = 0;
+
+    for (const tier of Object.keys(QUEUE_CONFIG.tiers)) {
+      const cutoff = new Date(now.getTime() - getStepOutputRetentionDaysForTier(tier) * 86400000);
+      let after: string | undefined;
+
+      for (;;) {
+        const expired = await this.prisma.activityExecution.findMany({
+          where: {
+            OR: [
+              { outputRef: { startsWith: STORED_OUTPUT_PREFIX } },
+              { outputRef: { contains: CHUNKED_DATASET_FORMAT } },
+            ],
+            execution: { completedAt: { lt: cutoff }, tenant: { tier: tier as any } },
+            ...(after && { id: { gt: after } }),
+          },
+          select: { id: true, outputRef: true },
+          orderBy: { id: 'asc' },
+          take: RETENTION_BATCH_SIZE,
+        });
+        if (expired.length === 0) break;
+        after = expired[expired.length - 1].id;
+
+        // Outputs still referenced by a running or recent execution are kept
+        const refs = [...new Set(expired.map(row => row.outputRef!))];
+        const live = await this.prisma.activityExecution.findMany({
+          where: {
+            outputRef: { in: refs },
+            execution: { OR: [{ completedAt: null }, { completedAt: { gte: cutoff } }] },
+          },
+          select: { outputRef: true },
+          distinct: ['outputRef'],
+        });
+        const liveRefs = new Set(live.map(row => row.outputRef));
+        const deletable = refs.filter(ref => !liveRefs.has(ref));
+        if (deletable.length === 0) continue;
+
+        for (const outputRef of deletable) {
+          for (const ref of this.storedRefsOf(outputRef)) {
+            const result = await this.storage.delete(ref);
+            if (!result.success) {
+              this.logger.warn(`Failed to delete expired step output ${ref}: ${result.error}`);
+            }
+          }
+        }
+
+        const { count } = await this.prisma.activityExecution.updateMany({
+          where: { outputRef: { in: deletable } },
+          data: { outputRef: null },
+        });
+        purged += count;
+      }
+    }
+
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired step output(s)`);
+    }
+    return { purged };
+  }
+
+  // Blobs behind an outputRef: the offloaded output itself or the chunks of its dataset manifests
+  private storedRefsOf(outputRef: string): string[] {
+    if (this.isStored(outputRef)) return [outputRef];
+    try {
+      const manifest = JSON.parse(outputRef);
+      const manifests = isMultiDataset(manifest) ? manifest.datasets.map(dataset => dataset.data) : [manifest];
+      return manifests
+        .filter(isChunkedDataset)
+        .flatMap(dataset => dataset.chunks.map(chunk => chunk.ref))
+        .filter(ref => this.isStored(ref));
+    } catch {
+      // Not JSON - nothing stored
+    }
+    return [];
+  }
+
+  private buildKey({ tenantId, executionId, stepId, attempt }: StepOutputLocation, name?: string): string {
+    const base = `step-outputs/${tenantId}/${executionId}/${encodeURIComponent(stepId)}/attempt-${attempt}`;
+    return name ? `${base}/${name}.json` : `${base}.json`;
+  }
+}
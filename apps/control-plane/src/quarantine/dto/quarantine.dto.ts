@@ -0,0 +1,142 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsString,
+  IsOptional,
+  IsIn,
+  IsInt,
+  IsObject,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QuarantineFilterDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  executionId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  stepId?: string;
+
+  @ApiPropertyOptional({ enum: ['QUARANTINED', 'RESUBMITTING', 'RESUBMITTED'] })
+  @IsOptional()
+  @IsIn(['QUARANTINED', 'RESUBMITTING', 'RESUBMITTED'])
+  status?: 'QUARANTINED' | 'RESUBMITTING' | 'RESUBMITTED';
+}
+
+export class QuarantineQueryDto extends QuarantineFilterDto {
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit: number = 50;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset: number = 0;
+}
+
+export class QuarantineDownloadDto extends QuarantineFilterDto {
+  @ApiPropertyOptional({ enum: ['csv', 'jsonl'], default: 'jsonl' })
+  @IsOptional()
+  @IsIn(['csv', 'jsonl'])
+  format: 'csv' | 'jsonl' = 'jsonl';
+}
+
+export class FixQuarantinedRowDto {
+  @ApiProperty({ description: 'Corrected row; resubmitting loads it instead of the original' })
+  @IsObject()
+  row!: Record<string, any>;
+}
+
+export class ResubmitLoadOverridesDto {
+  @ApiPropertyOptional({ description: 'Required when the rows were not quarantined by a load step' })
+  @IsOptional()
+  @IsString()
+  aggregatorInstanceId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  table?: string;
+
+  @ApiPropertyOptional({ enum: ['insert', 'upsert'] })
+  @IsOptional()
+  @IsIn(['insert', 'upsert'])
+  mode?: 'insert' | 'upsert';
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsString({ each: true })
+  conflictKey?: string | string[];
+
+  @ApiPropertyOptional({ enum: ['replace', 'merge', 'skip'] })
+  @IsOptional()
+  @IsIn(['replace', 'merge', 'skip'])
+  conflictResolution?: 'replace' | 'merge' | 'skip';
+
+  @ApiPropertyOptional({ description: 'Stored field mapping to apply to the rows' })
+  @IsOptional()
+  @IsString()
+  mappingId?: string;
+}
+
+export class ResubmitQuarantineDto {
+  @ApiPropertyOptional({ type: [String], description: 'Quarantined rows to resubmit; all from one step' })
+  @ValidateIf(dto => !dto.executionId)
+  @IsArray()
+  @IsString({ each: true })
+  ids?: string[];
+
+  @ApiPropertyOptional({ description: 'Resubmit every quarantined row of this execution step instead' })
+  @ValidateIf(dto => !dto.ids)
+  @IsString()
+  executionId?: string;
+
+  @ApiPropertyOptional()
+  @ValidateIf(dto => !dto.ids)
+  @IsString()
+  stepId?: string;
+
+  @ApiPropertyOptional({ type: ResubmitLoadOverridesDto, description: 'Changes to the load the rows are resubmitted into' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ResubmitLoadOverridesDto)
+  load?: ResubmitLoadOverridesDto;
+}
+
+export class QuarantinedRowDto {
+  @ApiProperty() id!: string;
+  @ApiProperty() executionId!: string;
+  @ApiProperty() stepId!: string;
+  @ApiProperty() activityId!: string;
+  @ApiProperty({ enum: ['TRANSFORM', 'MAPPING', 'LOAD'] }) stage!: string;
+  @ApiPropertyOptional({ description: 'Position of the row in the step input' }) rowIndex?: number;
+  @ApiProperty({ description: 'Row as it arrived at the step' }) row!: any;
+  @ApiPropertyOptional() fixedRow?: any;
+  @ApiProperty() error!: string;
+  @ApiPropertyOptional({ description: 'Mapping rule or constraint the row failed' }) rule?: string;
+  @ApiProperty({ enum: ['QUARANTINED', 'RESUBMITTING', 'RESUBMITTED'] }) status!: string;
+  @ApiPropertyOptional() resubmittedAt?: Date;
+  @ApiPropertyOptional() resubmitStepId?: string;
+  @ApiProperty() createdAt!: Date;
+}
+
+export class QuarantineListResponseDto {
+  @ApiProperty() success!: boolean;
+  @ApiProperty({ type: [QuarantinedRowDto] }) data!: QuarantinedRowDto[];
+  @ApiProperty() total!: number;
+  @ApiProperty() limit!: number;
+  @ApiProperty() offset!: number;
+}
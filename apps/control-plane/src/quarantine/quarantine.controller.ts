@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Logger,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Request,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { Response } from 'express';
+import { QuarantineService } from './services/quarantine.service';
+import { QuarantineResubmitService } from './services/quarantine-resubmit.service';
+import {
+  QuarantineQueryDto,
+  QuarantineDownloadDto,
+  FixQuarantinedRowDto,
+  ResubmitQuarantineDto,
+  QuarantinedRowDto,
+  QuarantineListResponseDto,
+} from './dto/quarantine.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantMemberGuard } from '../common/guards/tenant-member.guard';
+import { TenantId } from '../common/decorators/tenant-id.decorator';
+
+@Controller('api/quarantine')
+@ApiTags('Quarantine')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantMemberGuard)
+export class QuarantineController {
+  private readonly logger = new Logger(QuarantineController.name);
+
+  constructor(
+    private readonly quarantineService: QuarantineService,
+    private readonly resubmitService: QuarantineResubmitService,
+  ) {}
+
+  @Get()
+  @ApiResponse({ status: 200, type: QuarantineListResponseDto })
+  async findAll(
+    @TenantId() tenantId: string,
+    @Query() query: QuarantineQueryDto,
+  ) {
+    const result = await this.quarantineService.findAll(tenantId, query);
+    return { success: true, ...result };
+  }
+
+  @Get('download')
+  @ApiResponse({ status: 200, description: 'Quarantined rows as CSV or JSON Lines' })
+  async download(
+    @TenantId() tenantId: string,
+    @Query() query: QuarantineDownloadDto,
+    @Res() res: Response,
+  ) {
+    const { format, ...filter } = query;
+    const name = ['quarantine', filter.executionId, filter.stepId].filter(Boolean).join('-');
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${name}.${format}"`);
+    try {
+      for await (const chunk of this.quarantineService.export(tenantId, filter, format)) {
+        // Stops reading the rows when the client has gone away
+        if (!res.write(chunk) && !(await drained(res))) return;
+      }
+      res.end();
+    } catch (error) {
+      // The headers are sent, so a cut connection is the only way left to report the failure
+      this.logger.error(`Quarantine download failed: ${error.message}`, error.stack);
+      res.destroy(error);
+    }
+  }
+
+  @Patch(':id')
+  @ApiResponse({ status: 200, type: QuarantinedRowDto })
+  async fix(
+    @Param('id') id: string,
+    @TenantId() tenantId: string,
+    @Body() dto: FixQuarantinedRowDto,
+  ) {
+    const row = await this.quarantineService.fix(tenantId, id, dto.row);
+    return { success: true, data: row };
+  }
+
+  @Post('resubmit')
+  async resubmit(
+    @TenantId() tenantId: string,
+    @Body() dto: ResubmitQuarantineDto,
+    @Request() req: any,
+  ) {
+    const result = await this.resubmitService.resubmit(tenantId, dto, req.user?.userId);
+    return { success: true, data: result };
+  }
+}
+
+/**
+ * Resolves with true once the response takes writes again, or false once it closes
+ */
+function drained(res: Response): Promise<boolean> {
+  return new Promise(resolve => {
+    const settle = (writable: boolean) => () => {
+      res.off('drain', onDrain);
+      res.off('close', onClose);
+      resolve(writable);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { QuarantineController } from './quarantine.controller';
+import { QuarantineService } from './services/quarantine.service';
+import { QuarantineResubmitService } from './services/quarantine-resubmit.service';
+import { ExecutionStateService } from '../executions/services/execution-state.service';
+import { StepOutputStoreService } from '../executions/services/step-output-store.service';
+import { PrismaService } from '../prisma.service';
+import { ActivitiesModule } from '../activities/activities.module';
+import { ControlsModule } from '../controls/controls.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [ActivitiesModule, ControlsModule, StorageModule],
+  controllers: [QuarantineController],
+  providers: [
+    QuarantineService,
+    QuarantineResubmitService,
+    ExecutionStateService,
+    StepOutputStoreService,
+    PrismaService,
+  ],
+  exports: [QuarantineService],
+})
+export class QuarantineModule {}
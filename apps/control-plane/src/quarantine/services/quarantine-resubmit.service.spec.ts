@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { QuarantineResubmitService } from './quarantine-resubmit.service';
+import { QuarantineService } from './quarantine.service';
+import { LoadHandlerService } from '../../activities/services/load-handler.service';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { ControlFlagsService } from '../../controls/services/control-flags.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('QuarantineResubmitService', () => {
+  let service: QuarantineResubmitService;
+
+  const mockQuarantineService = {
+    findByIds: jest.fn(),
+    findQuarantined: jest.fn(),
+    claimForResubmit: jest.fn(),
+    releaseClaim: jest.fn(),
+    markResubmitted: jest.fn(),
+  };
+  const mockLoadHandler = { execute: jest.fn() };
+  const mockStateService = { logEvent: jest.fn() };
+  const mockControlFlags = { assertAllowed: jest.fn() };
+  const mockPrismaService = {
+    workflowExecution: { findFirst: jest.fn() },
+  };
+
+  const definition = {
+    activities: [
+      { id: 'shape', type: 'transform', name: 'Shape', config: { code: 'return input;' } },
+      { id: 'store', type: 'load', name: 'Store', config: { aggregatorInstanceId: 'instance-2', table: 'orders', mode: 'create', commitMode: 'transaction' } },
+    ],
+    steps: [],
+  };
+
+  const quarantined = (id: string, overrides: Record<string, any> = {}) => ({
+    id,
+    executionId: 'exec-1',
+    stepId: 'load',
+    activityId: 'store',
+    status: 'QUARANTINED',
+    row: { id, total: 'n/a' },
+    fixedRow: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.workflowExecution.findFirst.mockResolvedValue({ workflowId: 'workflow-1', workflow: { definition } });
+    mockLoadHandler.execute.mockResolvedValue({ success: true, data: { rowsProcessed: 2, rowsLoaded: 1, rowsFailed: 1 } });
+    mockQuarantineService.claimForResubmit.mockImplementation(async (_tenantId, ids: string[]) => ids.length);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuarantineResubmitService,
+        { provide: QuarantineService, useValue: mockQuarantineService },
+        { provide: LoadHandlerService, useValue: mockLoadHandler },
+        { provide: ExecutionStateService, useValue: mockStateService },
+        { provide: ControlFlagsService, useValue: mockControlFlags },
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<QuarantineResubmitService>(QuarantineResubmitService);
+  });
+
+  it('should load fixed rows through the original load step as a new step', async () => {
+    mockQuarantineService.findQuarantined.mockResolvedValue([
+      quarantined('row-1', { fixedRow: { id: 'row-1', total: 10 } }),
+      quarantined('row-2'),
+    ]);
+
+    const result = await service.resubmit('tenant-1', { executionId: 'exec-1', stepId: 'load' }, 'user-1');
+
+    const [context, config, inputs] = mockLoadHandler.execute.mock.calls[0];
+    expect(context).toMatchObject({ executionId: 'exec-1', tenantId: 'tenant-1', activityId: 'store' });
+    expect(context.stepId).toMatch(/^load~resubmit-/);
+    // A create load would empty the table again
+    expect(config).toMatchObject({ aggregatorInstanceId: 'instance-2', table: 'orders', mode: 'insert', commitMode: 'batch', errorThreshold: 2 });
+    expect(inputs).toEqual({ quarantine: [{ id: 'row-1', total: 10 }, { id: 'row-2', total: 'n/a' }] });
+
+    expect(mockQuarantineService.claimForResubmit).toHaveBeenCalledWith('tenant-1', ['row-1', 'row-2'], context.stepId);
+    expect(mockQuarantineService.markResubmitted).toHaveBeenCalledWith('tenant-1', ['row-1', 'row-2'], context.stepId);
+    expect(mockStateService.logEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'QUARANTINE_RESUBMITTED' }));
+    expect(result).toMatchObject({ rowsResubmitted: 2, rowsLoaded: 1, rowsQuarantined: 1 });
+  });
+
+  it('should keep the rows quarantined when the load fails', async () => {
+    mockQuarantineService.findByIds.mockResolvedValue([quarantined('row-1')]);
+    mockLoadHandler.execute.mockResolvedValue({ success: false, error: { code: 'LOAD_ERROR', message: 'connection refused', retryable: true } });
+
+    const result = await service.resubmit('tenant-1', { ids: ['row-1'] });
+
+    expect(mockQuarantineService.markResubmitted).not.toHaveBeenCalled();
+    expect(mockQuarantineService.releaseClaim).toHaveBeenCalledWith('tenant-1', ['row-1'], expect.stringMatching(/^load~resubmit-/));
+    expect(result.error?.code).toBe('LOAD_ERROR');
+  });
+
+  it('should not load rows a concurrent resubmit claimed first', async () => {
+    mockQuarantineService.findByIds.mockResolvedValue([quarantined('row-1'), quarantined('row-2')]);
+    mockQuarantineService.claimForResubmit.mockResolvedValueOnce(1);
+
+    await expect(service.resubmit('tenant-1', { ids: ['row-1', 'row-2'] })).rejects.toThrow(ConflictException);
+
+    const resubmitStepId = mockQuarantineService.claimForResubmit.mock.calls[0][2];
+    expect(mockQuarantineService.releaseClaim).toHaveBeenCalledWith('tenant-1', ['row-1', 'row-2'], resubmitStepId);
+    expect(mockLoadHandler.execute).not.toHaveBeenCalled();
+  });
+
+  it('should hand the rows back when the resubmit is refused after claiming them', async () => {
+    mockQuarantineService.findByIds.mockResolvedValue([quarantined('row-1')]);
+    mockControlFlags.assertAllowed.mockRejectedValueOnce(new ConflictException('Writes are blocked'));
+
+    await expect(service.resubmit('tenant-1', { ids: ['row-1'] })).rejects.toThrow('Writes are blocked');
+
+    expect(mockQuarantineService.releaseClaim).toHaveBeenCalledTimes(1);
+    expect(mockLoadHandler.execute).not.toHaveBeenCalled();
+  });
+
+  it('should need a destination for rows quarantined by a transform', async () => {
+    mockQuarantineService.findByIds.mockResolvedValue([quarantined('row-1', { stepId: 'transform', activityId: 'shape' })]);
+
+    await expect(service.resubmit('tenant-1', { ids: ['row-1'] })).rejects.toThrow(BadRequestException);
+
+    await service.resubmit('tenant-1', { ids: ['row-1'], load: { aggregatorInstanceId: 'instance-2', table: 'orders' } });
+    expect(mockLoadHandler.execute.mock.calls[0][1]).toMatchObject({ table: 'orders', mode: 'insert' });
+  });
+
+  it('should refuse rows that were already resubmitted or span several steps', async () => {
+    mockQuarantineService.findByIds.mockResolvedValueOnce([quarantined('row-1', { status: 'RESUBMITTED' })]);
+    await expect(service.resubmit('tenant-1', { ids: ['row-1'] })).rejects.toThrow(ConflictException);
+
+    mockQuarantineService.findByIds.mockResolvedValueOnce([quarantined('row-1'), quarantined('row-2', { stepId: 'other' })]);
+    await expect(service.resubmit('tenant-1', { ids: ['row-1', 'row-2'] })).rejects.toThrow(BadRequestException);
+
+    expect(mockLoadHandler.execute).not.toHaveBeenCalled();
+  });
+});
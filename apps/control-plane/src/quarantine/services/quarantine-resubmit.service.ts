@@ -0,0 +1,154 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { QuarantinedRow } from '@prisma/client';
+import { LoadHandlerService } from '../../activities/services/load-handler.service';
+import { ActivityExecutionResult, ExecutionContext } from '../../activities/entities/activity-result.types';
+import { ExecutionStateService } from '../../executions/services/execution-state.service';
+import { ControlFlagsService } from '../../controls/services/control-flags.service';
+import { PrismaService } from '../../prisma.service';
+import { LoadConfig, WorkflowDefinition } from '../../workflows/entities/workflow-definition.types';
+import { ResubmitQuarantineDto } from '../dto/quarantine.dto';
+import { QuarantineService } from './quarantine.service';
+
+@Injectable()
+export class QuarantineResubmitService {
+  private readonly logger = new Logger(QuarantineResubmitService.name);
+
+  constructor(
+    private readonly quarantine: QuarantineService,
+    private readonly loadHandler: LoadHandlerService,
+    private readonly stateService: ExecutionStateService,
+    private readonly controlFlags: ControlFlagsService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Loads quarantined rows, corrected ones in their fixed form, as a new step
+   * of their original execution. The load is the step's own when the rows came
+   * from a load, otherwise it must be given in the request. Rows that fail
+   * again are quarantined under the new step. The originals are claimed
+   * before loading and marked resubmitted once the load has run, or handed
+   * back to quarantine when it fails.
+   */
+  async resubmit(tenantId: string, dto: ResubmitQuarantineDto, requestedBy?: string) {
+    const rows = dto.ids?.length
+      ? await this.quarantine.findByIds(tenantId, dto.ids)
+      : await this.quarantine.findQuarantined(tenantId, { executionId: dto.executionId, stepId: dto.stepId });
+
+    if (rows.length === 0) {
+      throw new NotFoundException('No quarantined rows to resubmit');
+    }
+    const resubmitted = rows.filter(row => row.status !== 'QUARANTINED');
+    if (resubmitted.length > 0) {
+      throw new ConflictException(`Rows already resubmitted or being resubmitted: ${resubmitted.map(row => row.id).join(', ')}`);
+    }
+    const { executionId, stepId } = rows[0];
+    if (rows.some(row => row.executionId !== executionId || row.stepId !== stepId)) {
+      throw new BadRequestException('Rows resubmitted together must come from the same execution step');
+    }
+
+    // The claim keeps a concurrent resubmit of the same rows from loading them twice
+    const ids = rows.map(row => row.id);
+    const resubmitStepId = `${stepId}~resubmit-${Date.now().toString(36)}`;
+    const claimed = await this.quarantine.claimForResubmit(tenantId, ids, resubmitStepId);
+    if (claimed !== rows.length) {
+      await this.quarantine.releaseClaim(tenantId, ids, resubmitStepId);
+      throw new ConflictException('Some of the rows are already being resubmitted');
+    }
+
+    let result: ActivityExecutionResult;
+    try {
+      result = await this.loadClaimed(tenantId, dto, rows, resubmitStepId);
+    } catch (error) {
+      await this.quarantine.releaseClaim(tenantId, ids, resubmitStepId);
+      throw error;
+    }
+
+    if (result.success) {
+      await this.quarantine.markResubmitted(tenantId, ids, resubmitStepId);
+    } else {
+      await this.quarantine.releaseClaim(tenantId, ids, resubmitStepId);
+    }
+
+    await this.stateService.logEvent({
+      executionId,
+      timestamp: new Date(),
+      eventType: 'QUARANTINE_RESUBMITTED',
+      payload: {
+        stepId,
+        resubmitStepId,
+        rows: rows.length,
+        rowsLoaded: result.data?.rowsLoaded ?? 0,
+        success: result.success,
+        requestedBy,
+      },
+    });
+
+    this.logger.log(`Resubmitted ${rows.length} quarantined row(s) of step ${stepId} as ${resubmitStepId}`);
+    return {
+      resubmitStepId,
+      rowsResubmitted: rows.length,
+      rowsLoaded: result.data?.rowsLoaded ?? 0,
+      rowsQuarantined: result.data?.rowsFailed ?? 0,
+      ...(result.error && { error: result.error }),
+    };
+  }
+
+  private async loadClaimed(
+    tenantId: string,
+    dto: ResubmitQuarantineDto,
+    rows: QuarantinedRow[],
+    resubmitStepId: string,
+  ): Promise<ActivityExecutionResult> {
+    const { executionId, activityId } = rows[0];
+    const execution = await this.prisma.workflowExecution.findFirst({
+      where: { id: executionId, tenantId },
+      select: { workflowId: true, workflow: { select: { definition: true } } },
+    });
+    if (!execution) {
+      throw new NotFoundException(`Execution "${executionId}" not found`);
+    }
+    await this.controlFlags.assertAllowed({ tenantId, workflowId: execution.workflowId }, 'write');
+
+    const config = this.resolveLoadConfig(
+      execution.workflow.definition as unknown as WorkflowDefinition,
+      activityId,
+      dto,
+    );
+
+    const context: ExecutionContext = {
+      executionId,
+      tenantId,
+      activityId,
+      stepId: resubmitStepId,
+      startTime: new Date(),
+      retryCount: 0,
+      maxRetries: 0,
+    };
+
+    // Every row is committed on its own merits; failures go back to quarantine
+    return this.loadHandler.execute(
+      context,
+      { ...config, commitMode: 'batch', errorThreshold: rows.length },
+      { quarantine: rows.map(row => row.fixedRow ?? row.row) },
+    );
+  }
+
+  private resolveLoadConfig(definition: WorkflowDefinition, activityId: string, dto: ResubmitQuarantineDto) {
+    const activity = definition?.activities?.find(candidate => candidate.id === activityId);
+    const base = activity?.type === 'load' ? activity.config as LoadConfig : undefined;
+
+    const config = {
+      ...base,
+      ...dto.load,
+      // Recreating the table would wipe out the rows the original load wrote
+      mode: dto.load?.mode ?? (base?.mode === 'upsert' ? 'upsert' : 'insert'),
+    } as LoadConfig & { mappingId?: string };
+
+    if (!config.aggregatorInstanceId || !(config.table || config.sourceMetadata?.tableName)) {
+      throw new BadRequestException(
+        `No destination table is known for activity "${activityId}"; provide load.aggregatorInstanceId and load.table`
+      );
+    }
+    return config;
+  }
+}
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuarantineService } from './quarantine.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('QuarantineService', () => {
+  let service: QuarantineService;
+
+  const mockPrismaService = {
+    quarantinedRow: {
+      count: jest.fn(),
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const location = { tenantId: 'tenant-1', executionId: 'exec-1', stepId: 'load', activityId: 'store' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.quarantinedRow.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuarantineService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<QuarantineService>(QuarantineService);
+  });
+
+  it('should store rejected rows until the step is full', async () => {
+    mockPrismaService.quarantinedRow.count.mockResolvedValue(9999);
+
+    const stored = await service.add({ ...location, startTime: new Date() } as any, 'LOAD', [
+      { row: { id: 1 }, rowIndex: 4, error: 'duplicate key', rule: 'orders_pkey' },
+      { row: { id: 2 }, rowIndex: 5, error: 'duplicate key', rule: 'orders_pkey' },
+    ]);
+
+    expect(stored).toBe(1);
+    expect(mockPrismaService.quarantinedRow.createMany).toHaveBeenCalledWith({
+      data: [{ ...location, stage: 'LOAD', rowIndex: 4, row: { id: 1 }, error: 'duplicate key', rule: 'orders_pkey' }],
+    });
+  });
+
+  it('should export rows as CSV with the fixed version when there is one', async () => {
+    mockPrismaService.quarantinedRow.findMany
+      .mockResolvedValueOnce([
+        { id: 'q1', stepId: 'load', stage: 'MAPPING', rowIndex: 0, rule: 'string-to-number: total -> total', error: '"n/a" is not a number', row: { id: 1, total: 'n/a' }, fixedRow: null },
+        { id: 'q2', stepId: 'load', stage: 'LOAD', rowIndex: 3, rule: null, error: 'bad, "quoted"', row: { id: 2, total: 1 }, fixedRow: { id: 2, total: 2, tags: ['a'] } },
+      ])
+      .mockResolvedValueOnce([]);
+
+    const lines: string[] = [];
+    for await (const line of service.export('tenant-1', { executionId: 'exec-1' }, 'csv')) {
+      lines.push(line);
+    }
+
+    expect(lines.join('')).toBe(
+      '_id,_stepId,_stage,_rowIndex,_rule,_error,id,total,tags\n' +
+      'q1,load,MAPPING,0,string-to-number: total -> total,"""n/a"" is not a number",1,n/a,\n' +
+      'q2,load,LOAD,3,,"bad, ""quoted""",2,2,"[""a""]"\n'
+    );
+    expect(mockPrismaService.quarantinedRow.findMany.mock.calls[1][0]).toMatchObject({ cursor: { id: 'q2' }, skip: 1 });
+  });
+});
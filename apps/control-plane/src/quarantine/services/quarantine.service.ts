@@ -0,0 +1,221 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, QuarantineStage, QuarantineStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+
+export interface RejectedRow {
+  row: any;
+  rowIndex?: number;
+  error: string;
+  rule?: string;
+}
+
+export interface QuarantineLocation {
+  tenantId: string;
+  executionId: string;
+  stepId: string;
+  activityId: string;
+}
+
+export interface QuarantineFilter {
+  executionId?: string;
+  stepId?: string;
+  status?: QuarantineStatus;
+}
+
+// Keeps one broken source from filling the table
+const DEFAULT_MAX_ROWS_PER_STEP = 10000;
+const EXPORT_PAGE_SIZE = 1000;
+
+@Injectable()
+export class QuarantineService {
+  private readonly logger = new Logger(QuarantineService.name);
+  private readonly maxRowsPerStep = parseInt(process.env.QUARANTINE_MAX_ROWS_PER_STEP || String(DEFAULT_MAX_ROWS_PER_STEP));
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Stores rejected rows for a step. Rows past the per-step cap are counted
+   * but not kept. Returns the number of rows stored.
+   */
+  async add(location: QuarantineLocation, stage: QuarantineStage, rejected: RejectedRow[]): Promise<number> {
+    if (rejected.length === 0) {
+      return 0;
+    }
+
+    const stored = await this.prisma.quarantinedRow.count({
+      where: { tenantId: location.tenantId, executionId: location.executionId, stepId: location.stepId },
+    });
+    const room = Math.max(0, this.maxRowsPerStep - stored);
+    if (room < rejected.length) {
+      this.logger.warn(
+        `Quarantine for step ${location.stepId} of execution ${location.executionId} is full; ` +
+        `${rejected.length - room} rejected row(s) were not kept`
+      );
+    }
+    if (room === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.quarantinedRow.createMany({
+      data: rejected.slice(0, room).map(rejection => ({
+        tenantId: location.tenantId,
+        executionId: location.executionId,
+        stepId: location.stepId,
+        activityId: location.activityId,
+        stage,
+        rowIndex: rejection.rowIndex,
+        // Rows may come back from the transform sandbox as proxies
+        row: JSON.parse(JSON.stringify(rejection.row ?? null)) ?? Prisma.JsonNull,
+        error: rejection.error,
+        rule: rejection.rule,
+      })),
+    });
+    return count;
+  }
+
+  async findAll(tenantId: string, filter: QuarantineFilter & { limit: number; offset: number }) {
+    const where = this.whereOf(tenantId, filter);
+    const [data, total] = await Promise.all([
+      this.prisma.quarantinedRow.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { rowIndex: 'asc' }],
+        take: filter.limit,
+        skip: filter.offset,
+      }),
+      this.prisma.quarantinedRow.count({ where }),
+    ]);
+
+    return { data, total, limit: filter.limit, offset: filter.offset };
+  }
+
+  async findByIds(tenantId: string, ids: string[]) {
+    const rows = await this.prisma.quarantinedRow.findMany({
+      where: { tenantId, id: { in: ids } },
+      orderBy: [{ createdAt: 'asc' }, { rowIndex: 'asc' }],
+    });
+    if (rows.length !== new Set(ids).size) {
+      const found = new Set(rows.map(row => row.id));
+      throw new NotFoundException(`Quarantined rows not found: ${ids.filter(id => !found.has(id)).join(', ')}`);
+    }
+    return rows;
+  }
+
+  async findQuarantined(tenantId: string, filter: QuarantineFilter) {
+    return this.prisma.quarantinedRow.findMany({
+      where: this.whereOf(tenantId, { ...filter, status: 'QUARANTINED' }),
+      orderBy: [{ createdAt: 'asc' }, { rowIndex: 'asc' }],
+    });
+  }
+
+  /**
+   * Records the corrected version of a row; the original is kept
+   */
+  async fix(tenantId: string, id: string, fixedRow: Record<string, any>) {
+    const { count } = await this.prisma.quarantinedRow.updateMany({
+      where: { id, tenantId },
+      data: { fixedRow },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`Quarantined row "${id}" not found`);
+    }
+    return this.prisma.quarantinedRow.findUnique({ where: { id } });
+  }
+
+  /**
+   * Claims quarantined rows for a resubmit, keyed by its step id. Rows another
+   * resubmit already holds or finished are left alone; returns how many were claimed.
+   */
+  async claimForResubmit(tenantId: string, ids: string[], resubmitStepId: string) {
+    const { count } = await this.prisma.quarantinedRow.updateMany({
+      where: { tenantId, id: { in: ids }, status: 'QUARANTINED' },
+      data: { status: 'RESUBMITTING', resubmitStepId },
+    });
+    return count;
+  }
+
+  /**
+   * Hands the rows a resubmit claimed back to quarantine
+   */
+  async releaseClaim(tenantId: string, ids: string[], resubmitStepId: string) {
+    const { count } = await this.prisma.quarantinedRow.updateMany({
+      where: { tenantId, id: { in: ids }, status: 'RESUBMITTING', resubmitStepId },
+      data: { status: 'QUARANTINED', resubmitStepId: null },
+    });
+    return count;
+  }
+
+  async markResubmitted(tenantId: string, ids: string[], resubmitStepId: string) {
+    const { count } = await this.prisma.quarantinedRow.updateMany({
+      where: { tenantId, id: { in: ids }, status: 'RESUBMITTING', resubmitStepId },
+      data: { status: 'RESUBMITTED', resubmittedAt: new Date() },
+    });
+    return count;
+  }
+
+  /**
+   * Quarantined rows as CSV or JSON Lines, read a page at a time. CSV has the
+   * quarantine fields first, prefixed with an underscore, then one column per
+   * row field; the column set comes from the first page.
+   */
+  async *export(tenantId: string, filter: QuarantineFilter, format: 'csv' | 'jsonl'): AsyncGenerator<string> {
+    const where = this.whereOf(tenantId, filter);
+    let columns: string[] | undefined;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const page = await this.prisma.quarantinedRow.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        take: EXPORT_PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (page.length === 0) break;
+      cursor = page[page.length - 1].id;
+
+      if (format === 'jsonl') {
+        yield page.map(entry => JSON.stringify({
+          id: entry.id,
+          executionId: entry.executionId,
+          stepId: entry.stepId,
+          stage: entry.stage,
+          rowIndex: entry.rowIndex,
+          rule: entry.rule,
+          error: entry.error,
+          status: entry.status,
+          row: entry.row,
+          fixedRow: entry.fixedRow,
+        }) + '\n').join('');
+        continue;
+      }
+
+      if (!columns) {
+        columns = [...new Set(page.flatMap(entry => Object.keys((entry.fixedRow ?? entry.row ?? {}) as object)))];
+        yield toCsvLine(['_id', '_stepId', '_stage', '_rowIndex', '_rule', '_error', ...columns]);
+      }
+      for (const entry of page) {
+        const row = (entry.fixedRow ?? entry.row ?? {}) as Record<string, any>;
+        yield toCsvLine([
+          entry.id, entry.stepId, entry.stage, entry.rowIndex, entry.rule, entry.error,
+          ...columns.map(column => row[column]),
+        ]);
+      }
+    }
+  }
+
+  private whereOf(tenantId: string, filter: QuarantineFilter): Prisma.QuarantinedRowWhereInput {
+    return {
+      tenantId,
+      ...(filter.executionId && { executionId: filter.executionId }),
+      ...(filter.stepId && { stepId: filter.stepId }),
+      ...(filter.status && { status: filter.status }),
+    };
+  }
+}
+
+function toCsvLine(values: any[]): string {
+  return values.map(value => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\n';
+}
@@ -6,6 +6,8 @@ export const QUEUE_CONFIG = {
       maxJobsPerHour: 100,
       maxQueueDepth: 50,
       priority: 'low',
+      minScheduleIntervalSeconds: 900, // 15 minutes
+      stepOutputRetentionDays: 7,
     },
     STANDARD: {
       queueName: 'workflow-exec-standard',
@@ -13,6 +15,8 @@ export const QUEUE_CONFIG = {
       maxJobsPerHour: 1000,
       maxQueueDepth: 200,
       priority: 'medium',
+      minScheduleIntervalSeconds: 60,
+      stepOutputRetentionDays: 30,
     },
     ENTERPRISE: {
       queueName: 'workflow-exec-enterprise',
@@ -20,6 +24,8 @@ export const QUEUE_CONFIG = {
       maxJobsPerHour: 10000,
       maxQueueDepth: 1000,
       priority: 'high',
+      minScheduleIntervalSeconds: 10,
+      stepOutputRetentionDays: 90,
     },
   },
   retry: {
@@ -54,3 +60,13 @@ export const getConcurrencyForTier = (tier: string): number => {
   const config = QUEUE_CONFIG.tiers[tier as keyof typeof QUEUE_CONFIG.tiers];
   return config?.concurrency || QUEUE_CONFIG.tiers.FREE.concurrency;
 };
+
+export const getMinScheduleIntervalForTier = (tier: string): number => {
+  const config = QUEUE_CONFIG.tiers[tier as keyof typeof QUEUE_CONFIG.tiers];
+  return config?.minScheduleIntervalSeconds || QUEUE_CONFIG.tiers.FREE.minScheduleIntervalSeconds;
+};
+
+export const getStepOutputRetentionDaysForTier = (tier: string): number => {
+  const config = QUEUE_CONFIG.tiers[tier as keyof typeof QUEUE_CONFIG.tiers];
+  return config?.stepOutputRetentionDays || QUEUE_CONFIG.tiers.FREE.stepOutputRetentionDays;
+};
@@ -1,12 +1,17 @@
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, JobType } from 'bullmq';
 import { PrismaService } from '../../prisma.service';
+import { QUEUE_CONFIG, getConcurrencyForTier } from '../config/queue-topology.config';
+
+export type JobProcessor = (job: Job) => Promise<any>;
 
 @Injectable()
 export class BullMQService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(BullMQService.name);
   private queues: Map<string, Queue> = new Map();
   private workers: Map<string, Worker> = new Map();
+  // Job handlers registered by feature modules, keyed by job name
+  private processors: Map<string, JobProcessor> = new Map();
 
   constructor(private readonly prisma: PrismaService) {}
 
@@ -21,11 +26,10 @@ export class BullMQService implements OnModuleInit, OnModuleDestroy {
   }
 
   private async initializeQueues() {
-    const queues = [
-      'workflow-exec-free',
-      'workflow-exec-standard',
-      'workflow-exec-enterprise',
-    ];
+    const queues = Object.values(QUEUE_CONFIG.tiers).map(tier => tier.queueName);
+    if (QUEUE_CONFIG.deadLetterQueue.enabled) {
+      queues.push(QUEUE_CONFIG.deadLetterQueue.queueName);
+    }
 
     for (const queueName of queues) {
       const queue = new Queue(queueName, {
@@ -48,31 +52,30 @@ export class BullMQService implements OnModuleInit, OnModuleDestroy {
       },
     };
 
-    // Free tier: 5 workers
-    const freeWorker = new Worker('workflow-exec-free', this.processJob.bind(this), {
-      ...workerConfig,
-      concurrency: 5,
-    });
-
-    // Standard tier: 20 workers
-    const standardWorker = new Worker('workflow-exec-standard', this.processJob.bind(this), {
-      ...workerConfig,
-      concurrency: 20,
-    });
+    for (const [tier, config] of Object.entries(QUEUE_CONFIG.tiers)) {
+      const worker = new Worker(config.queueName, this.processJob.bind(this), {
+        ...workerConfig,
+        concurrency: getConcurrencyForTier(tier),
+      });
 
-    // Enterprise tier: 100 workers
-    const enterpriseWorker = new Worker('workflow-exec-enterprise', this.processJob.bind(this), {
-      ...workerConfig,
-      concurrency: 100,
-    });
+      worker.on('failed', (job, error) => {
+        if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+          this.moveToDeadLetter(config.queueName, job, error).catch(dlqError => {
+            this.logger.error(`Failed to dead-letter job ${job.id}: ${dlqError.message}`);
+          });
+        }
+      });
 
-    this.workers.set('free', freeWorker);
-    this.workers.set('standard', standardWorker);
-    this.workers.set('enterprise', enterpriseWorker);
+      this.workers.set(tier.toLowerCase(), worker);
+    }
 
     this.logger.log('Workers initialized');
   }
 
+  registerProcessor(jobName: string, processor: JobProcessor) {
+    this.processors.set(jobName, processor);
+  }
+
   async addJob(
     queueName: string,
     jobName: string,
@@ -84,7 +87,30 @@ export class BullMQService implements OnModuleInit, OnModuleDestroy {
       throw new Error(`Queue not found: ${queueName}`);
     }
 
-    return queue.add(jobName, data, options);
+    return queue.add(jobName, data, {
+      attempts: QUEUE_CONFIG.retry.attempts,
+      backoff: QUEUE_CONFIG.retry.backoff,
+      ...QUEUE_CONFIG.jobOptions,
+      ...options,
+    });
+  }
+
+  async getJobs(queueName: string, types: JobType[], start = 0, end = -1): Promise<Job[]> {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new Error(`Queue not found: ${queueName}`);
+    }
+
+    return queue.getJobs(types, start, end);
+  }
+
+  async getJob(queueName: string, jobId: string): Promise<Job | undefined> {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new Error(`Queue not found: ${queueName}`);
+    }
+
+    return queue.getJob(jobId);
   }
 
   async getJobCounts(queueName: string): Promise<any> {
@@ -115,21 +141,43 @@ export class BullMQService implements OnModuleInit, OnModuleDestroy {
   private async processJob(job: Job): Promise<any> {
     this.logger.log(`Processing job ${job.id}: ${job.name}`);
 
-    try {
-      // TODO: Execute activity based on job data
-      const result = {
-        success: true,
-        data: job.data,
-      };
-
-      return result;
+    const processor = this.processors.get(job.name);
+    if (!processor) {
+      throw new Error(`No processor registered for job: ${job.name}`);
+    }
 
+    try {
+      return await processor(job);
     } catch (error) {
       this.logger.error(`Job ${job.id} failed: ${error.message}`, error.stack);
       throw error;
     }
   }
 
+  private async moveToDeadLetter(queueName: string, job: Job, error: Error) {
+    if (!QUEUE_CONFIG.deadLetterQueue.enabled) return;
+
+    const dlq = this.queues.get(QUEUE_CONFIG.deadLetterQueue.queueName);
+    if (!dlq) return;
+
+    await dlq.add(job.name, {
+      originalQueue: queueName,
+      originalJobId: job.id,
+      data: job.data,
+      failedReason: error?.message ?? job.failedReason,
+      attemptsMade: job.attemptsMade,
+      // One stack trace per failed attempt, oldest first
+      errorHistory: job.stacktrace ?? [],
+      enqueuedAt: new Date(job.timestamp).toISOString(),
+      failedAt: new Date().toISOString(),
+    }, {
+      removeOnComplete: false,
+      removeOnFail: false,
+    });
+
+    this.logger.warn(`Job ${job.id} exhausted ${job.attemptsMade} attempt(s), moved to ${dlq.name}`);
+  }
+
   private async closeAll() {
     for (const [name, queue] of this.queues.entries()) {
       await queue.close();
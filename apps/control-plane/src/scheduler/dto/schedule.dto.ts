@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class UpcomingFireTimesQueryDto {
+  @ApiPropertyOptional({ description: 'Number of upcoming fire times to return', default: 5 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  count: number = 5;
+}
+
+export class ScheduleResponseDto {
+  @ApiProperty() id!: string;
+  @ApiProperty() workflowId!: string;
+  @ApiProperty() cron!: string;
+  @ApiProperty() timezone!: string;
+  @ApiProperty({ enum: ['ACTIVE', 'PAUSED'] }) status!: string;
+  @ApiPropertyOptional() lastFiredAt?: Date;
+  @ApiPropertyOptional() lastExecutionId?: string;
+  @ApiPropertyOptional({ description: 'Next fire time (null while paused)' }) nextFireAt?: Date | null;
+}
+
+export class ScheduleDetailResponseDto extends ScheduleResponseDto {
+  @ApiProperty({ type: [Date] }) upcoming!: Date[];
+}
+
+export class ScheduleListResponseDto {
+  @ApiProperty() success!: boolean;
+  @ApiProperty({ type: [ScheduleResponseDto] }) data!: ScheduleResponseDto[];
+}
@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { WorkflowSchedulerService } from './services/workflow-scheduler.service';
+import {
+  UpcomingFireTimesQueryDto,
+  ScheduleResponseDto,
+  ScheduleDetailResponseDto,
+  ScheduleListResponseDto,
+} from './dto/schedule.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantMemberGuard } from '../common/guards/tenant-member.guard';
+import { TenantId } from '../common/decorators/tenant-id.decorator';
+
+@Controller('api')
+@ApiTags('Schedules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantMemberGuard)
+export class SchedulerController {
+  constructor(private readonly schedulerService: WorkflowSchedulerService) {}
+
+  @Get('schedules')
+  @ApiResponse({ status: 200, type: ScheduleListResponseDto })
+  async findAll(@TenantId() tenantId: string) {
+    const schedules = await this.schedulerService.findAll(tenantId);
+    return { success: true, data: schedules };
+  }
+
+  @Get('workflows/:id/schedule')
+  @ApiResponse({ status: 200, type: ScheduleDetailResponseDto })
+  async findOne(
+    @Param('id') workflowId: string,
+    @TenantId() tenantId: string,
+    @Query() query: UpcomingFireTimesQueryDto,
+  ) {
+    const schedule = await this.schedulerService.findOne(workflowId, tenantId, query.count);
+    return { success: true, data: schedule };
+  }
+
+  @Post('workflows/:id/schedule/pause')
+  @ApiResponse({ status: 200, type: ScheduleResponseDto })
+  async pause(@Param('id') workflowId: string, @TenantId() tenantId: string) {
+    const schedule = await this.schedulerService.pause(workflowId, tenantId);
+    return { success: true, data: schedule };
+  }
+
+  @Post('workflows/:id/schedule/resume')
+  @ApiResponse({ status: 200, type: ScheduleResponseDto })
+  async resume(@Param('id') workflowId: string, @TenantId() tenantId: string) {
+    const schedule = await this.schedulerService.resume(workflowId, tenantId);
+    return { success: true, data: schedule };
+  }
+}
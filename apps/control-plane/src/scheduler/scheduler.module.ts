@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SchedulerController } from './scheduler.controller';
+import { WorkflowSchedulerService } from './services/workflow-scheduler.service';
+import { PrismaService } from '../prisma.service';
+import { ExecutionsModule } from '../executions/executions.module';
+
+@Module({
+  imports: [ExecutionsModule],
+  controllers: [SchedulerController],
+  providers: [WorkflowSchedulerService, PrismaService],
+  exports: [WorkflowSchedulerService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { WorkflowSchedulerService } from './workflow-scheduler.service';
+import { PrismaService } from '../../prisma.service';
+import { ExecutionsService } from '../../executions/executions.service';
+
+jest.mock('bullmq');
+
+describe('WorkflowSchedulerService', () => {
+  let service: WorkflowSchedulerService;
+  let queue: { upsertJobScheduler: jest.Mock; removeJobScheduler: jest.Mock; getJobSchedulers: jest.Mock };
+
+  const mockPrismaService = {
+    workflowDefinition: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    workflowSchedule: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockExecutionsService = {
+    triggerWorkflow: jest.fn(),
+  };
+
+  const activeSchedule = {
+    id: 'schedule-1',
+    tenantId: 'tenant-1',
+    workflowId: 'workflow-1',
+    cron: '0 9 * * *',
+    timezone: 'America/New_York',
+    status: 'ACTIVE',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowSchedulerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ExecutionsService, useValue: mockExecutionsService },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowSchedulerService>(WorkflowSchedulerService);
+
+    mockPrismaService.workflowDefinition.findMany.mockResolvedValue([]);
+    mockPrismaService.workflowSchedule.findMany.mockResolvedValue([]);
+    await service.onModuleInit();
+    queue = (service as any).queue;
+    queue.getJobSchedulers.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getFireTimes', () => {
+    it('should evaluate the cron in the schedule timezone', () => {
+      const times = service.getFireTimes(
+        '0 9 * * *',
+        'America/New_York',
+        2,
+        new Date('2024-01-15T00:00:00Z'),
+      );
+
+      // 09:00 EST is 14:00 UTC
+      expect(times.map(t => t.toISOString())).toEqual([
+        '2024-01-15T14:00:00.000Z',
+        '2024-01-16T14:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('syncWorkflow', () => {
+    it('should register a job scheduler for an active scheduled workflow', async () => {
+      mockPrismaService.workflowDefinition.findFirst.mockResolvedValue({
+        id: 'workflow-1',
+        status: 'ACTIVE',
+        definition: { schedule: '0 9 * * *', scheduleTimezone: 'America/New_York' },
+      });
+      mockPrismaService.workflowSchedule.upsert.mockResolvedValue(activeSchedule);
+
+      await service.syncWorkflow('workflow-1', 'tenant-1');
+
+      expect(queue.upsertJobScheduler).toHaveBeenCalledWith(
+        'workflow:workflow-1',
+        { pattern: '0 9 * * *', tz: 'America/New_York' },
+        expect.objectContaining({ data: { workflowId: 'workflow-1', tenantId: 'tenant-1' } }),
+      );
+    });
+
+    it('should keep a paused schedule out of Redis', async () => {
+      mockPrismaService.workflowDefinition.findFirst.mockResolvedValue({
+        id: 'workflow-1',
+        status: 'ACTIVE',
+        definition: { schedule: '0 9 * * *' },
+      });
+      mockPrismaService.workflowSchedule.upsert.mockResolvedValue({ ...activeSchedule, status: 'PAUSED' });
+
+      await service.syncWorkflow('workflow-1', 'tenant-1');
+
+      expect(queue.upsertJobScheduler).not.toHaveBeenCalled();
+      expect(queue.removeJobScheduler).toHaveBeenCalledWith('workflow:workflow-1');
+    });
+
+    it('should remove the schedule when the workflow is no longer active', async () => {
+      mockPrismaService.workflowDefinition.findFirst.mockResolvedValue({
+        id: 'workflow-1',
+        status: 'DEPRECATED',
+        definition: { schedule: '0 9 * * *' },
+      });
+
+      await service.syncWorkflow('workflow-1', 'tenant-1');
+
+      expect(queue.removeJobScheduler).toHaveBeenCalledWith('workflow:workflow-1');
+      expect(mockPrismaService.workflowSchedule.deleteMany).toHaveBeenCalledWith({
+        where: { workflowId: 'workflow-1' },
+      });
+    });
+  });
+
+  describe('pause / resume', () => {
+    it('should pause an active schedule', async () => {
+      mockPrismaService.workflowSchedule.findFirst.mockResolvedValue(activeSchedule);
+      mockPrismaService.workflowSchedule.update.mockResolvedValue({ ...activeSchedule, status: 'PAUSED' });
+
+      const result = await service.pause('workflow-1', 'tenant-1');
+
+      expect(result.status).toBe('PAUSED');
+      expect(queue.removeJobScheduler).toHaveBeenCalledWith('workflow:workflow-1');
+    });
+
+    it('should reject resuming a schedule that is not paused', async () => {
+      mockPrismaService.workflowSchedule.findFirst.mockResolvedValue(activeSchedule);
+
+      await expect(service.resume('workflow-1', 'tenant-1')).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw NotFoundException for a workflow without a schedule', async () => {
+      mockPrismaService.workflowSchedule.findFirst.mockResolvedValue(null);
+
+      await expect(service.pause('workflow-1', 'tenant-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('fire', () => {
+    it('should trigger the workflow and record the run', async () => {
+      mockPrismaService.workflowSchedule.findUnique.mockResolvedValue(activeSchedule);
+      mockExecutionsService.triggerWorkflow.mockResolvedValue({ executionId: 'exec-1', status: 'PENDING' });
+
+      await (service as any).fire({
+        data: { workflowId: 'workflow-1', tenantId: 'tenant-1' },
+        timestamp: Date.parse('2024-01-15T14:00:00Z'),
+        opts: {},
+      });
+
+      expect(mockExecutionsService.triggerWorkflow).toHaveBeenCalledWith(
+        'workflow-1',
+        'tenant-1',
+        expect.objectContaining({ triggerContext: expect.objectContaining({ source: 'schedule' }) }),
+      );
+      expect(mockPrismaService.workflowSchedule.update).toHaveBeenCalledWith({
+        where: { id: 'schedule-1' },
+        data: { lastFiredAt: new Date('2024-01-15T14:00:00Z'), lastExecutionId: 'exec-1' },
+      });
+    });
+
+    it('should skip slots fired after the schedule was paused', async () => {
+      mockPrismaService.workflowSchedule.findUnique.mockResolvedValue({ ...activeSchedule, status: 'PAUSED' });
+
+      await (service as any).fire({ data: { workflowId: 'workflow-1', tenantId: 'tenant-1' }, timestamp: Date.now(), opts: {} });
+
+      expect(mockExecutionsService.triggerWorkflow).not.toHaveBeenCalled();
+    });
+  });
+});
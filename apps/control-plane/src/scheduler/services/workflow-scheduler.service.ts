@@ -0,0 +1,266 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { Queue, Worker, Job } from 'bullmq';
+import { PrismaService } from '../../prisma.service';
+import { ExecutionsService } from '../../executions/executions.service';
+import { WorkflowDefinition } from '../../workflows/entities/workflow-definition.types';
+import { getNextFireTimes, normalizeCronExpression } from '../../workflows/services/cron-expression';
+import { QUEUE_CONFIG } from '../../queue/config/queue-topology.config';
+
+const SCHEDULER_QUEUE = 'workflow-schedules';
+const FIRE_JOB_NAME = 'fire-workflow';
+
+interface ScheduledFireJob {
+  workflowId: string;
+  tenantId: string;
+}
+
+/**
+ * Registers the cron of every ACTIVE workflow as a BullMQ job scheduler.
+ *
+ * Schedulers live in Redis, so they survive restarts, and BullMQ derives one job id
+ * per fire slot - every replica runs a worker but each slot is processed once.
+ * Pause state is kept in the workflow_schedules table, which is the source of truth
+ * reconciled into Redis on startup.
+ */
+@Injectable()
+export class WorkflowSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WorkflowSchedulerService.name);
+  private queue!: Queue<ScheduledFireJob>;
+  private worker!: Worker<ScheduledFireJob>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly executionsService: ExecutionsService,
+  ) {}
+
+  async onModuleInit() {
+    const connection = {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+    };
+
+    this.queue = new Queue<ScheduledFireJob>(SCHEDULER_QUEUE, { connection });
+    this.worker = new Worker<ScheduledFireJob>(SCHEDULER_QUEUE, this.fire.bind(this), {
+      connection,
+      concurrency: 5,
+    });
+
+    // Don't hold up bootstrap on Redis - upserts are idempotent across replicas
+    this.reconcileAll().catch(error => {
+      this.logger.error(`Failed to reconcile workflow schedules: ${error.message}`, error.stack);
+    });
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    await this.queue?.close();
+  }
+
+  async reconcileAll() {
+    const workflows = await this.prisma.workflowDefinition.findMany({
+      where: { status: 'ACTIVE' },
+      select: { id: true, tenantId: true },
+    });
+
+    for (const workflow of workflows) {
+      try {
+        await this.syncWorkflow(workflow.id, workflow.tenantId);
+      } catch (error) {
+        this.logger.error(`Failed to sync schedule for workflow ${workflow.id}: ${error.message}`);
+      }
+    }
+
+    // Drop schedules whose workflow is no longer active
+    const activeIds = new Set(workflows.map(w => w.id));
+    const stale = await this.prisma.workflowSchedule.findMany({
+      where: { workflowId: { notIn: [...activeIds] } },
+      select: { workflowId: true },
+    });
+    for (const schedule of stale) {
+      await this.removeWorkflow(schedule.workflowId);
+    }
+
+    // Drop schedulers left in Redis without a backing row
+    const registered = await this.queue.getJobSchedulers();
+    const known = new Set(
+      (await this.prisma.workflowSchedule.findMany({ where: { status: 'ACTIVE' }, select: { workflowId: true } }))
+        .map(s => this.schedulerKey(s.workflowId))
+    );
+    for (const scheduler of registered) {
+      if (!known.has(scheduler.key)) {
+        await this.queue.removeJobScheduler(scheduler.key);
+      }
+    }
+
+    this.logger.log(`Reconciled schedules for ${workflows.length} active workflow(s)`);
+  }
+
+  /**
+   * Brings the schedule of a workflow in line with its status and definition.schedule.
+   */
+  async syncWorkflow(workflowId: string, tenantId: string) {
+    const workflow = await this.prisma.workflowDefinition.findFirst({
+      where: { id: workflowId, tenantId },
+    });
+    const definition = workflow?.definition as unknown as WorkflowDefinition | undefined;
+
+    if (!workflow || workflow.status !== 'ACTIVE' || !definition?.schedule) {
+      await this.removeWorkflow(workflowId);
+      return null;
+    }
+
+    const cron = normalizeCronExpression(definition.schedule);
+    const timezone = definition.scheduleTimezone || 'UTC';
+    const schedule = await this.prisma.workflowSchedule.upsert({
+      where: { workflowId },
+      create: { tenantId, workflowId, cron, timezone },
+      update: { cron, timezone },
+    });
+
+    if (schedule.status === 'ACTIVE') {
+      await this.register(schedule.workflowId, schedule.tenantId, schedule.cron, schedule.timezone);
+    } else {
+      await this.queue.removeJobScheduler(this.schedulerKey(workflowId));
+    }
+
+    return schedule;
+  }
+
+  async removeWorkflow(workflowId: string) {
+    await this.queue.removeJobScheduler(this.schedulerKey(workflowId));
+    await this.prisma.workflowSchedule.deleteMany({ where: { workflowId } });
+  }
+
+  async findAll(tenantId: string) {
+    const schedules = await this.prisma.workflowSchedule.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return schedules.map(schedule => ({
+      ...schedule,
+      nextFireAt: schedule.status === 'ACTIVE'
+        ? this.getFireTimes(schedule.cron, schedule.timezone, 1)[0] ?? null
+        : null,
+    }));
+  }
+
+  async findOne(workflowId: string, tenantId: string, count: number) {
+    const schedule = await this.getSchedule(workflowId, tenantId);
+    const upcoming = schedule.status === 'ACTIVE'
+      ? this.getFireTimes(schedule.cron, schedule.timezone, count)
+      : [];
+
+    return { ...schedule, nextFireAt: upcoming[0] ?? null, upcoming };
+  }
+
+  async pause(workflowId: string, tenantId: string) {
+    const schedule = await this.getSchedule(workflowId, tenantId);
+    if (schedule.status === 'PAUSED') {
+      throw new ConflictException(`Schedule for workflow "${workflowId}" is already paused`);
+    }
+
+    const updated = await this.prisma.workflowSchedule.update({
+      where: { id: schedule.id },
+      data: { status: 'PAUSED' },
+    });
+    await this.queue.removeJobScheduler(this.schedulerKey(workflowId));
+
+    this.logger.log(`Paused schedule for workflow ${workflowId}`);
+    return { ...updated, nextFireAt: null };
+  }
+
+  async resume(workflowId: string, tenantId: string) {
+    const schedule = await this.getSchedule(workflowId, tenantId);
+    if (schedule.status === 'ACTIVE') {
+      throw new ConflictException(`Schedule for workflow "${workflowId}" is not paused`);
+    }
+
+    const updated = await this.prisma.workflowSchedule.update({
+      where: { id: schedule.id },
+      data: { status: 'ACTIVE' },
+    });
+    await this.register(updated.workflowId, updated.tenantId, updated.cron, updated.timezone);
+
+    this.logger.log(`Resumed schedule for workflow ${workflowId}`);
+    return {
+      ...updated,
+      nextFireAt: this.getFireTimes(updated.cron, updated.timezone, 1)[0] ?? null,
+    };
+  }
+
+  getFireTimes(cron: string, timezone: string, count: number, from: Date = new Date()): Date[] {
+    return getNextFireTimes(cron, timezone, count, from);
+  }
+
+  private async fire(job: Job<ScheduledFireJob>) {
+    const { workflowId, tenantId } = job.data;
+
+    // The scheduler may fire a slot that was queued just before a pause
+    const schedule = await this.prisma.workflowSchedule.findUnique({ where: { workflowId } });
+    if (!schedule || schedule.status !== 'ACTIVE') {
+      this.logger.log(`Skipping scheduled run of workflow ${workflowId} (schedule inactive)`);
+      return { skipped: true };
+    }
+
+    const scheduledFor = new Date(job.timestamp + (job.opts.delay ?? 0));
+    let result: Awaited<ReturnType<ExecutionsService['triggerWorkflow']>>;
+    try {
+      result = await this.executionsService.triggerWorkflow(workflowId, tenantId, {
+        triggerContext: { source: 'schedule', scheduleId: schedule.id, cron: schedule.cron },
+        scheduledFor: scheduledFor.toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ConflictException) {
+        // Workflow was deleted or deactivated without the schedule being synced
+        this.logger.warn(`Scheduled run of workflow ${workflowId} rejected: ${error.message}`);
+        await this.syncWorkflow(workflowId, tenantId);
+        return { skipped: true };
+      }
+      throw error;
+    }
+
+    await this.prisma.workflowSchedule.update({
+      where: { id: schedule.id },
+      data: { lastFiredAt: scheduledFor, lastExecutionId: result.executionId },
+    });
+
+    this.logger.log(`Scheduled run of workflow ${workflowId} started execution ${result.executionId}`);
+    return result;
+  }
+
+  private async register(workflowId: string, tenantId: string, cron: string, timezone: string) {
+    await this.queue.upsertJobScheduler(
+      this.schedulerKey(workflowId),
+      { pattern: cron, tz: timezone },
+      {
+        name: FIRE_JOB_NAME,
+        data: { workflowId, tenantId },
+        opts: QUEUE_CONFIG.jobOptions,
+      },
+    );
+  }
+
+  private async getSchedule(workflowId: string, tenantId: string) {
+    const schedule = await this.prisma.workflowSchedule.findFirst({
+      where: { workflowId, tenantId },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(`Workflow "${workflowId}" has no schedule`);
+    }
+
+    return schedule;
+  }
+
+  private schedulerKey(workflowId: string): string {
+    return `workflow:${workflowId}`;
+  }
+}
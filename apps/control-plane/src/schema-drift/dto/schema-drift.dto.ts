@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SchemaBaselineResponseDto {
+  @ApiProperty() id!: string;
+  @ApiProperty() tenantId!: string;
+  @ApiProperty() workflowId!: string;
+  @ApiProperty() activityId!: string;
+  @ApiProperty() snapshotId!: string;
+  @ApiProperty() aggregatorInstanceId!: string;
+  @ApiProperty({ description: 'Schema version the activity last ran against' }) schemaVersion!: number;
+  @ApiProperty() schemaCapturedAt!: Date;
+  @ApiProperty() createdAt!: Date;
+  @ApiProperty() updatedAt!: Date;
+}
@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { SchemaDriftService } from './services/schema-drift.service';
+import { SchemaBaselineResponseDto } from './dto/schema-drift.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantMemberGuard } from '../common/guards/tenant-member.guard';
+import { TenantId } from '../common/decorators/tenant-id.decorator';
+
+@Controller('api/workflows/:workflowId/schema-baselines')
+@ApiTags('Schema Drift')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantMemberGuard)
+export class SchemaDriftController {
+  constructor(private readonly schemaDriftService: SchemaDriftService) {}
+
+  @Get()
+  @ApiResponse({ status: 200, type: [SchemaBaselineResponseDto] })
+  async findAll(
+    @Param('workflowId') workflowId: string,
+    @TenantId() tenantId: string,
+  ) {
+    const baselines = await this.schemaDriftService.findAll(tenantId, workflowId);
+    return { success: true, data: baselines };
+  }
+
+  @Delete(':activityId')
+  async reset(
+    @Param('workflowId') workflowId: string,
+    @Param('activityId') activityId: string,
+    @TenantId() tenantId: string,
+  ) {
+    const result = await this.schemaDriftService.reset(tenantId, workflowId, activityId);
+    return { success: true, data: result };
+  }
+}
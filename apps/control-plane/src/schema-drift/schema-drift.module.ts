@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SchemaDriftController } from './schema-drift.controller';
+import { SchemaDriftService } from './services/schema-drift.service';
+import { PrismaService } from '../prisma.service';
+import { AggregatorsModule } from '../aggregators/aggregators.module';
+
+@Module({
+  imports: [AggregatorsModule],
+  controllers: [SchemaDriftController],
+  providers: [SchemaDriftService, PrismaService],
+  exports: [SchemaDriftService],
+})
+export class SchemaDriftModule {}
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SchemaDriftService } from './schema-drift.service';
+import { PrismaService } from '../../prisma.service';
+import { SchemaDiscoveryService } from '../../aggregators/schema-discovery.service';
+import { SchemaSnapshotService } from '../../aggregators/schema-snapshot.service';
+import { Activity } from '../../workflows/entities/workflow-definition.types';
+
+describe('SchemaDriftService', () => {
+  let service: SchemaDriftService;
+
+  const mockPrismaService = {
+    schemaBaseline: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+  const mockDiscovery = { discover: jest.fn() };
+  const mockSnapshots = { findLatest: jest.fn() };
+
+  const extract: Activity = {
+    id: 'orders',
+    type: 'extract',
+    name: 'Orders',
+    config: { aggregatorInstanceId: 'instance-1', table: 'orders', columns: ['id', 'total'] },
+  };
+
+  const snapshot = (id: string, version: number, columns: { name: string; type: string; nullable: boolean }[]) => ({
+    id,
+    version,
+    aggregatorInstanceId: 'instance-1',
+    schema: {
+      tables: [
+        { name: 'orders', columns },
+        { name: 'unrelated', columns: [{ name: 'x', type: 'int', nullable: true }] },
+      ],
+    },
+  });
+
+  const v1 = snapshot('snap-1', 1, [
+    { name: 'id', type: 'int', nullable: false },
+    { name: 'total', type: 'decimal(10,2)', nullable: true },
+  ]);
+  const v2 = snapshot('snap-2', 2, [
+    { name: 'id', type: 'int', nullable: false },
+    { name: 'amount', type: 'decimal(10,2)', nullable: true },
+    { name: 'currency', type: 'char(3)', nullable: false },
+  ]);
+
+  const check = (onDrift: 'fail' | 'warn' | 'auto-evolve', ignore?: any[]) =>
+    service.check({ tenantId: 'tenant-1', workflowId: 'workflow-1', activity: extract, policy: { onDrift, ignore } });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockSnapshots.findLatest.mockResolvedValue(v2);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchemaDriftService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SchemaDiscoveryService, useValue: mockDiscovery },
+        { provide: SchemaSnapshotService, useValue: mockSnapshots },
+      ],
+    }).compile();
+
+    service = module.get<SchemaDriftService>(SchemaDriftService);
+  });
+
+  it('should adopt the current schema on the first run', async () => {
+    mockPrismaService.schemaBaseline.findUnique.mockResolvedValue(null);
+
+    await expect(check('fail')).resolves.toBeNull();
+
+    expect(mockDiscovery.discover).toHaveBeenCalledWith('instance-1', 'tenant-1');
+    expect(mockPrismaService.schemaBaseline.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { tenantId: 'tenant-1', workflowId: 'workflow-1', activityId: 'orders', snapshotId: 'snap-2' },
+    }));
+  });
+
+  it('should report changes to the step table and keep the baseline when failing', async () => {
+    mockPrismaService.schemaBaseline.findUnique.mockResolvedValue({ snapshotId: 'snap-1', snapshot: v1 });
+
+    const drift = await check('fail');
+
+    expect(drift).toEqual({
+      action: 'fail',
+      aggregatorInstanceId: 'instance-1',
+      table: 'orders',
+      fromVersion: 1,
+      toVersion: 2,
+      changes: [
+        { kind: 'column-renamed', table: 'orders', from: 'total', to: 'amount', type: 'decimal(10,2)' },
+        { kind: 'column-added', table: 'orders', column: 'currency', type: 'char(3)', nullable: false },
+      ],
+    });
+    expect(mockPrismaService.schemaBaseline.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should move the baseline on when only warning', async () => {
+    mockPrismaService.schemaBaseline.findUnique.mockResolvedValue({ snapshotId: 'snap-1', snapshot: v1 });
+
+    const drift = await check('warn', ['column-added']);
+
+    expect(drift?.changes.map(change => change.kind)).toEqual(['column-renamed']);
+    expect(mockPrismaService.schemaBaseline.upsert).toHaveBeenCalledWith(expect.objectContaining({ update: { snapshotId: 'snap-2' } }));
+  });
+
+  it('should skip the check when the instance cannot be discovered', async () => {
+    mockDiscovery.discover.mockRejectedValueOnce(new Error('Instance must be configured with credentials'));
+
+    await expect(check('fail')).resolves.toBeNull();
+    expect(mockPrismaService.schemaBaseline.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma.service';
+import { SchemaDiscoveryService } from '../../aggregators/schema-discovery.service';
+import { SchemaSnapshotService } from '../../aggregators/schema-snapshot.service';
+import { SchemaChange, diffSchemas } from '../../aggregators/schema-diff';
+import {
+  Activity,
+  ExtractConfig,
+  LoadConfig,
+  SchemaDriftPolicy,
+} from '../../workflows/entities/workflow-definition.types';
+
+export interface SchemaDriftCheck {
+  tenantId: string;
+  workflowId: string;
+  activity: Activity;
+  policy: SchemaDriftPolicy;
+}
+
+export interface SchemaDriftResult {
+  action: SchemaDriftPolicy['onDrift'];
+  aggregatorInstanceId: string;
+  table: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: SchemaChange[];
+}
+
+/**
+ * Detects schema drift between runs. Each extract and load activity has a
+ * baseline: the schema snapshot of its instance it last ran against. Before
+ * the step runs the instance is rediscovered and the step's table compared
+ * with the baseline. The baseline moves on to the new snapshot unless the
+ * policy fails the step; a failing workflow keeps failing until the baseline
+ * is reset.
+ */
+@Injectable()
+export class SchemaDriftService {
+  private readonly logger = new Logger(SchemaDriftService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schemaDiscovery: SchemaDiscoveryService,
+    private readonly schemaSnapshots: SchemaSnapshotService,
+  ) {}
+
+  async findAll(tenantId: string, workflowId: string) {
+    await this.getWorkflow(tenantId, workflowId);
+    const baselines = await this.prisma.schemaBaseline.findMany({
+      where: { tenantId, workflowId },
+      orderBy: { activityId: 'asc' },
+      include: { snapshot: { select: { aggregatorInstanceId: true, version: true, createdAt: true } } },
+    });
+
+    return baselines.map(({ snapshot, ...baseline }) => ({
+      ...baseline,
+      aggregatorInstanceId: snapshot.aggregatorInstanceId,
+      schemaVersion: snapshot.version,
+      schemaCapturedAt: snapshot.createdAt,
+    }));
+  }
+
+  /**
+   * Forgets an activity's baseline; its next run adopts whatever schema it finds
+   */
+  async reset(tenantId: string, workflowId: string, activityId: string) {
+    await this.getWorkflow(tenantId, workflowId);
+    const { count } = await this.prisma.schemaBaseline.deleteMany({
+      where: { tenantId, workflowId, activityId },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`No schema baseline for activity "${activityId}"`);
+    }
+    return { workflowId, activityId, reset: true };
+  }
+
+  /**
+   * Compares the table an extract or load activity touches with its baseline.
+   * Returns null when there is nothing to report, including when the table
+   * cannot be determined or the instance does not support discovery.
+   */
+  async check({ tenantId, workflowId, activity, policy }: SchemaDriftCheck): Promise<SchemaDriftResult | null> {
+    const target = this.targetOf(activity);
+    if (!target) {
+      return null;
+    }
+
+    try {
+      await this.schemaDiscovery.discover(target.aggregatorInstanceId, tenantId);
+    } catch (error) {
+      this.logger.warn(`Skipping schema drift check of activity "${activity.id}": discovery failed: ${error.message}`);
+      return null;
+    }
+    const latest = await this.schemaSnapshots.findLatest(target.aggregatorInstanceId);
+    if (!latest) {
+      return null;
+    }
+
+    const baseline = await this.prisma.schemaBaseline.findUnique({
+      where: { workflowId_activityId: { workflowId, activityId: activity.id } },
+      include: { snapshot: true },
+    });
+    if (baseline?.snapshotId === latest.id) {
+      return null;
+    }
+
+    // A table appearing is the normal first run of a load that creates it
+    const ignored = new Set<string>(['table-added', ...(policy.ignore ?? [])]);
+    const changes = baseline && baseline.snapshot.aggregatorInstanceId === target.aggregatorInstanceId
+      ? diffSchemas(baseline.snapshot.schema as any, latest.schema as any, [target.table])
+        .filter(change => !ignored.has(change.kind))
+      : [];
+
+    if (changes.length === 0 || policy.onDrift !== 'fail') {
+      await this.prisma.schemaBaseline.upsert({
+        where: { workflowId_activityId: { workflowId, activityId: activity.id } },
+        create: { tenantId, workflowId, activityId: activity.id, snapshotId: latest.id },
+        update: { snapshotId: latest.id },
+      });
+    }
+    if (changes.length === 0) {
+      return null;
+    }
+
+    return {
+      action: policy.onDrift,
+      aggregatorInstanceId: target.aggregatorInstanceId,
+      table: target.table,
+      fromVersion: baseline!.snapshot.version,
+      toVersion: latest.version,
+      changes,
+    };
+  }
+
+  private targetOf(activity: Activity): { aggregatorInstanceId: string; table: string } | null {
+    if (activity.type === 'extract') {
+      const config = activity.config as ExtractConfig;
+      return config.aggregatorInstanceId && config.table
+        ? { aggregatorInstanceId: config.aggregatorInstanceId, table: config.table }
+        : null;
+    }
+    if (activity.type === 'load') {
+      const config = activity.config as LoadConfig;
+      const table = config.table || config.sourceMetadata?.tableName;
+      // SDK loads have no database table to compare
+      return config.aggregatorInstanceId && !config.aggregatorInstanceId.startsWith('sdk-') && table
+        ? { aggregatorInstanceId: config.aggregatorInstanceId, table }
+        : null;
+    }
+    return null;
+  }
+
+  private async getWorkflow(tenantId: string, workflowId: string) {
+    const workflow = await this.prisma.workflowDefinition.findFirst({
+      where: { id: workflowId, tenantId },
+      select: { id: true },
+    });
+    if (!workflow) {
+      throw new NotFoundException(`Workflow with ID "${workflowId}" not found`);
+    }
+    return workflow;
+  }
+}
@@ -73,8 +73,9 @@ export class StorageService {
 
   private getKey(keyOrUri: string): string {
     if (!keyOrUri) return keyOrUri;
-    if (keyOrUri.startsWith('s3://')) {
-      let key = keyOrUri.slice(5);
+    const scheme = ['s3://', 'blob://'].find(prefix => keyOrUri.startsWith(prefix));
+    if (scheme) {
+      let key = keyOrUri.slice(scheme.length);
       if (key.startsWith('/')) key = key.slice(1);
       return key;
     }
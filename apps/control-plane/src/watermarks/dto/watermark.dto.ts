@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDefined } from 'class-validator';
+
+export class OverrideWatermarkDto {
+  @ApiProperty({ description: 'Cursor value the next run reads after, e.g. a timestamp or id' })
+  @IsDefined()
+  value!: any;
+}
+
+export class WatermarkResponseDto {
+  @ApiProperty() id!: string;
+  @ApiProperty() tenantId!: string;
+  @ApiProperty() workflowId!: string;
+  @ApiProperty() activityId!: string;
+  @ApiProperty() cursorColumn!: string;
+  @ApiPropertyOptional({ description: 'Last committed cursor value' }) value?: any;
+  @ApiPropertyOptional({ description: 'Cursor reached by a run whose loads have not committed yet' }) pendingValue?: any;
+  @ApiPropertyOptional() pendingExecutionId?: string;
+  @ApiPropertyOptional() committedAt?: Date;
+  @ApiProperty() createdAt!: Date;
+  @ApiProperty() updatedAt!: Date;
+}
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { WatermarkService, maxCursorValue, toCursorParam } from './watermark.service';
+import { PrismaService } from '../../prisma.service';
+import { WorkflowDefinition } from '../../workflows/entities/workflow-definition.types';
+
+describe('WatermarkService', () => {
+  let service: WatermarkService;
+
+  const mockPrismaService = {
+    extractWatermark: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    workflowDefinition: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  // extract -> transform -> load, plus an audit step hanging off the extract
+  const definition: WorkflowDefinition = {
+    version: '1.0',
+    activities: [
+      {
+        id: 'orders',
+        type: 'extract',
+        name: 'Orders',
+        config: {
+          aggregatorInstanceId: 'instance-1',
+          table: 'orders',
+          columns: ['id'],
+          incremental: { cursorColumn: 'updated_at' },
+        },
+      },
+      { id: 'shape', type: 'transform', name: 'Shape', config: { code: 'return input;' } },
+      { id: 'store', type: 'load', name: 'Store', config: { aggregatorInstanceId: 'instance-2', table: 'orders', mode: 'upsert' } },
+      { id: 'audit', type: 'transform', name: 'Audit', config: { code: 'return input;' } },
+    ],
+    steps: [
+      { id: 'extract', activityId: 'orders', dependsOn: [] },
+      { id: 'transform', activityId: 'shape', dependsOn: ['extract'] },
+      { id: 'load', activityId: 'store', dependsOn: ['transform'] },
+      { id: 'audit', activityId: 'audit', dependsOn: ['extract'] },
+    ],
+  };
+
+  const pendingWatermark = {
+    id: 'wm-1',
+    workflowId: 'workflow-1',
+    activityId: 'orders',
+    cursorColumn: 'updated_at',
+    pendingValue: '2024-05-01T00:00:00.000Z',
+    pendingExecutionId: 'exec-1',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WatermarkService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<WatermarkService>(WatermarkService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getStartValue', () => {
+    it('should fall back to the initial value until a watermark is committed', async () => {
+      mockPrismaService.extractWatermark.findUnique.mockResolvedValueOnce(null);
+
+      await expect(
+        service.getStartValue('workflow-1', 'orders', { cursorColumn: 'id', initialValue: 100 }),
+      ).resolves.toBe(100);
+    });
+
+    it('should ignore a watermark recorded for another cursor column', async () => {
+      mockPrismaService.extractWatermark.findUnique.mockResolvedValueOnce({ cursorColumn: 'id', value: 500 });
+
+      await expect(
+        service.getStartValue('workflow-1', 'orders', { cursorColumn: 'updated_at' }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('commitReady', () => {
+    it('should wait for the downstream load, not for unrelated steps', async () => {
+      mockPrismaService.extractWatermark.findMany.mockResolvedValue([pendingWatermark]);
+
+      await service.commitReady('exec-1', definition, ['extract', 'transform']);
+      expect(mockPrismaService.extractWatermark.updateMany).not.toHaveBeenCalled();
+
+      await service.commitReady('exec-1', definition, ['extract', 'transform', 'load']);
+      expect(mockPrismaService.extractWatermark.updateMany).toHaveBeenCalledWith({
+        where: { id: 'wm-1', pendingExecutionId: 'exec-1' },
+        data: expect.objectContaining({ value: '2024-05-01T00:00:00.000Z', pendingExecutionId: null }),
+      });
+    });
+  });
+
+  describe('carryOver', () => {
+    it('should commit a reused extract mark once the retry loads it', async () => {
+      mockPrismaService.extractWatermark.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      await service.carryOver('exec-1', 'exec-2', ['orders']);
+      expect(mockPrismaService.extractWatermark.updateMany).toHaveBeenCalledWith({
+        where: { pendingExecutionId: 'exec-1', activityId: { in: ['orders'] } },
+        data: { pendingExecutionId: 'exec-2' },
+      });
+
+      mockPrismaService.extractWatermark.findMany.mockResolvedValue([{ ...pendingWatermark, pendingExecutionId: 'exec-2' }]);
+      await service.commitReady('exec-2', definition, ['extract', 'transform', 'load']);
+
+      expect(mockPrismaService.extractWatermark.findMany).toHaveBeenCalledWith({ where: { pendingExecutionId: 'exec-2' } });
+      expect(mockPrismaService.extractWatermark.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'wm-1', pendingExecutionId: 'exec-2' },
+        data: expect.objectContaining({ value: '2024-05-01T00:00:00.000Z', pendingExecutionId: null }),
+      });
+    });
+  });
+
+  describe('override', () => {
+    it('should reject activities that are not incremental', async () => {
+      mockPrismaService.workflowDefinition.findFirst.mockResolvedValueOnce({ id: 'workflow-1', definition });
+
+      await expect(service.override('tenant-1', 'workflow-1', 'shape', 5)).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.extractWatermark.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cursor helpers', () => {
+    it('should compare numbers numerically and timestamps as instants', () => {
+      expect(maxCursorValue(9, '10')).toBe('10');
+      expect(maxCursorValue(new Date('2024-01-02'), '2024-01-01T00:00:00Z')).toEqual(new Date('2024-01-02'));
+      expect(maxCursorValue('b', undefined)).toBe('b');
+    });
+
+    it('should bind stored ISO timestamps as dates', () => {
+      expect(toCursorParam('2024-05-01T00:00:00.000Z')).toEqual(new Date('2024-05-01T00:00:00.000Z'));
+      expect(toCursorParam(42)).toBe(42);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { Activity, IncrementalConfig, WorkflowDefinition } from '../../workflows/entities/workflow-definition.types';
+
+// Activity types whose completion means data was committed to a destination
+const SINK_ACTIVITY_TYPES = ['load', 'multi-load', 'cloud-connector-sink'];
+
+/** Cursor column recorded for sync activities, whose watermark is a source log position */
+export const SYNC_POSITION_CURSOR = '$position';
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+export interface StageWatermarkInput {
+  tenantId: string;
+  workflowId: string;
+  activityId: string;
+  executionId: string;
+  cursorColumn: string;
+  value: any;
+}
+
+/**
+ * Returns the larger of two cursor values. Dates and ISO timestamps compare as
+ * instants, numbers and numeric strings numerically, anything else as text.
+ */
+export function maxCursorValue(current: any, candidate: any): any {
+  if (candidate === null || candidate === undefined) return current;
+  if (current === null || current === undefined) return candidate;
+  return compareCursorValues(candidate, current) > 0 ? candidate : current;
+}
+
+function compareCursorValues(a: any, b: any): number {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a).getTime() - new Date(b).getTime();
+  }
+  const numericA = typeof a === 'number' || (typeof a === 'string' && a.trim() !== '' && !isNaN(Number(a)));
+  const numericB = typeof b === 'number' || (typeof b === 'string' && b.trim() !== '' && !isNaN(Number(b)));
+  if (numericA && numericB) {
+    return Number(a) - Number(b);
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+/**
+ * Converts a stored cursor value back into a query parameter. Timestamps are
+ * stored as ISO strings and bound as dates so drivers compare them as such.
+ */
+export function toCursorParam(value: any): any {
+  return typeof value === 'string' && ISO_TIMESTAMP.test(value) ? new Date(value) : value;
+}
+
+/**
+ * Tracks the high-water marks of incremental extracts. An extract stages the
+ * highest cursor it read; the mark only becomes the starting point of the next
+ * run once every load downstream of the extract has completed. Sync activities
+ * record the source log position they reached the same way.
+ */
+@Injectable()
+export class WatermarkService {
+  private readonly logger = new Logger(WatermarkService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(tenantId: string, workflowId: string) {
+    await this.getWorkflow(tenantId, workflowId);
+    return this.prisma.extractWatermark.findMany({
+      where: { tenantId, workflowId },
+      orderBy: { activityId: 'asc' },
+    });
+  }
+
+  /**
+   * The cursor value an incremental read starts after, or undefined to read everything.
+   */
+  async getStartValue(workflowId: string, activityId: string, incremental: IncrementalConfig): Promise<any> {
+    const watermark = await this.prisma.extractWatermark.findUnique({
+      where: { workflowId_activityId: { workflowId, activityId } },
+    });
+
+    if (watermark && watermark.cursorColumn !== incremental.cursorColumn) {
+      // A mark on another column says nothing about this one
+      this.logger.warn(
+        `Cursor column of ${workflowId}/${activityId} changed from ${watermark.cursorColumn} to ${incremental.cursorColumn}, ignoring stored watermark`,
+      );
+      return incremental.initialValue;
+    }
+
+    const value = watermark?.value ?? incremental.initialValue;
+    return value === null ? undefined : value;
+  }
+
+  /**
+   * Records the cursor an execution reached. It is committed by commitReady.
+   */
+  async stage(input: StageWatermarkInput) {
+    const value = (input.value instanceof Date ? input.value.toISOString() : input.value) as Prisma.InputJsonValue;
+
+    await this.prisma.extractWatermark.upsert({
+      where: { workflowId_activityId: { workflowId: input.workflowId, activityId: input.activityId } },
+      create: {
+        tenantId: input.tenantId,
+        workflowId: input.workflowId,
+        activityId: input.activityId,
+        cursorColumn: input.cursorColumn,
+        pendingValue: value,
+        pendingExecutionId: input.executionId,
+      },
+      update: {
+        cursorColumn: input.cursorColumn,
+        pendingValue: value,
+        pendingExecutionId: input.executionId,
+      },
+    });
+  }
+
+  /**
+   * Hands the marks staged by an execution's carried-over extracts to the retry
+   * that reuses their output, so they commit once the retry's loads complete.
+   */
+  async carryOver(fromExecutionId: string, toExecutionId: string, activityIds: string[]) {
+    if (activityIds.length === 0) return;
+
+    const { count } = await this.prisma.extractWatermark.updateMany({
+      where: { pendingExecutionId: fromExecutionId, activityId: { in: activityIds } },
+      data: { pendingExecutionId: toExecutionId },
+    });
+    if (count > 0) {
+      this.logger.log(`Carried ${count} staged watermark(s) over from execution ${fromExecutionId} to ${toExecutionId}`);
+    }
+  }
+
+  /**
+   * Commits the staged watermarks of an execution whose downstream loads have
+   * all completed. Sources without a downstream load commit once every step
+   * that depends on them has completed. Skipped steps count as done, so the
+   * caller only passes them when no failure caused the skips.
+   */
+  async commitReady(
+    executionId: string,
+    workflowDefinition: WorkflowDefinition,
+    completedSteps: string[],
+    skippedSteps: string[] = [],
+  ) {
+    const pending = await this.prisma.extractWatermark.findMany({
+      where: { pendingExecutionId: executionId },
+    });
+    if (pending.length === 0) return;
+
+    const completed = new Set(completedSteps);
+    const done = new Set([...completedSteps, ...skippedSteps]);
+
+    for (const watermark of pending) {
+      const sourceSteps = workflowDefinition.steps.filter(step => step.activityId === watermark.activityId);
+      const ready = sourceSteps.length > 0 && sourceSteps.every(step =>
+        completed.has(step.id) && this.stepsAwaitedBy(step.id, workflowDefinition).every(id => done.has(id)),
+      );
+      if (!ready) continue;
+
+      await this.prisma.extractWatermark.updateMany({
+        where: { id: watermark.id, pendingExecutionId: executionId },
+        data: {
+          value: watermark.pendingValue ?? Prisma.DbNull,
+          pendingValue: Prisma.DbNull,
+          pendingExecutionId: null,
+          committedAt: new Date(),
+        },
+      });
+      this.logger.log(`Committed watermark of ${watermark.workflowId}/${watermark.activityId}: ${JSON.stringify(watermark.pendingValue)}`);
+    }
+  }
+
+  /**
+   * Sets the watermark by hand, e.g. to backfill from an earlier point.
+   */
+  async override(tenantId: string, workflowId: string, activityId: string, cursorValue: any) {
+    const activity = await this.getIncrementalActivity(tenantId, workflowId, activityId);
+    const cursorColumn = this.cursorColumnOf(activity);
+    if (cursorColumn === SYNC_POSITION_CURSOR && typeof cursorValue !== 'string') {
+      throw new BadRequestException('The watermark of a sync activity is a source position such as "0/16B3748" or "binlog.000042:1234"');
+    }
+    const value = cursorValue as Prisma.InputJsonValue;
+
+    return this.prisma.extractWatermark.upsert({
+      where: { workflowId_activityId: { workflowId, activityId } },
+      create: { tenantId, workflowId, activityId, cursorColumn, value, committedAt: new Date() },
+      update: {
+        cursorColumn,
+        value,
+        pendingValue: Prisma.DbNull,
+        pendingExecutionId: null,
+        committedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Clears the watermark so the next run reads from the configured initial value.
+   * A sync activity restarts from its replication slot, or the current binlog position.
+   */
+  async reset(tenantId: string, workflowId: string, activityId: string) {
+    await this.getIncrementalActivity(tenantId, workflowId, activityId);
+
+    const watermark = await this.prisma.extractWatermark.findUnique({
+      where: { workflowId_activityId: { workflowId, activityId } },
+    });
+    if (!watermark) {
+      throw new NotFoundException(`No watermark recorded for activity "${activityId}"`);
+    }
+
+    return this.prisma.extractWatermark.update({
+      where: { id: watermark.id },
+      data: {
+        value: Prisma.DbNull,
+        pendingValue: Prisma.DbNull,
+        pendingExecutionId: null,
+        committedAt: new Date(),
+      },
+    });
+  }
+
+  // Sinks downstream of a step, or every downstream step when there is no sink
+  private stepsAwaitedBy(stepId: string, workflowDefinition: WorkflowDefinition): string[] {
+    const downstream: string[] = [];
+    const queue = [stepId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const step of workflowDefinition.steps) {
+        if (step.dependsOn?.includes(current) && !downstream.includes(step.id)) {
+          downstream.push(step.id);
+          queue.push(step.id);
+        }
+      }
+    }
+
+    const sinks = downstream.filter(id => {
+      const step = workflowDefinition.steps.find(s => s.id === id);
+      const activity = workflowDefinition.activities.find(a => a.id === step?.activityId);
+      return !!activity && SINK_ACTIVITY_TYPES.includes(activity.type);
+    });
+    return sinks.length > 0 ? sinks : downstream;
+  }
+
+  private async getIncrementalActivity(tenantId: string, workflowId: string, activityId: string): Promise<Activity> {
+    const workflow = await this.getWorkflow(tenantId, workflowId);
+    const definition = workflow.definition as unknown as WorkflowDefinition;
+    const activity = definition.activities?.find(a => a.id === activityId);
+
+    if (!activity) {
+      throw new NotFoundException(`Activity "${activityId}" not found in workflow "${workflowId}"`);
+    }
+    if (!this.cursorColumnOf(activity)) {
+      throw new BadRequestException(`Activity "${activityId}" is not an incremental extract`);
+    }
+    return activity;
+  }
+
+  private cursorColumnOf(activity: Activity): string | undefined {
+    return activity.type === 'sync' ? SYNC_POSITION_CURSOR : (activity.config as any)?.incremental?.cursorColumn;
+  }
+
+  private async getWorkflow(tenantId: string, workflowId: string) {
+    const workflow = await this.prisma.workflowDefinition.findFirst({
+      where: { id: workflowId, tenantId },
+    });
+    if (!workflow) {
+      throw new NotFoundException(`Workflow with ID "${workflowId}" not found`);
+    }
+    return workflow;
+  }
+}
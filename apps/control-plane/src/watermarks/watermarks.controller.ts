@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { WatermarkService } from './services/watermark.service';
+import { OverrideWatermarkDto, WatermarkResponseDto } from './dto/watermark.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { TenantMemberGuard } from '../common/guards/tenant-member.guard';
+import { TenantId } from '../common/decorators/tenant-id.decorator';
+
+@Controller('api/workflows/:workflowId/watermarks')
+@ApiTags('Watermarks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantMemberGuard)
+export class WatermarksController {
+  constructor(private readonly watermarkService: WatermarkService) {}
+
+  @Get()
+  @ApiResponse({ status: 200, type: [WatermarkResponseDto] })
+  async findAll(
+    @Param('workflowId') workflowId: string,
+    @TenantId() tenantId: string,
+  ) {
+    const watermarks = await this.watermarkService.findAll(tenantId, workflowId);
+    return { success: true, data: watermarks };
+  }
+
+  @Put(':activityId')
+  @ApiResponse({ status: 200, type: WatermarkResponseDto })
+  async override(
+    @Param('workflowId') workflowId: string,
+    @Param('activityId') activityId: string,
+    @TenantId() tenantId: string,
+    @Body() dto: OverrideWatermarkDto,
+  ) {
+    const watermark = await this.watermarkService.override(tenantId, workflowId, activityId, dto.value);
+    return { success: true, data: watermark };
+  }
+
+  @Delete(':activityId')
+  @ApiResponse({ status: 200, type: WatermarkResponseDto })
+  async reset(
+    @Param('workflowId') workflowId: string,
+    @Param('activityId') activityId: string,
+    @TenantId() tenantId: string,
+  ) {
+    const watermark = await this.watermarkService.reset(tenantId, workflowId, activityId);
+    return { success: true, data: watermark };
+  }
+}
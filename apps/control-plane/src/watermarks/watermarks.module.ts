@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WatermarksController } from './watermarks.controller';
+import { WatermarkService } from './services/watermark.service';
+import { PrismaService } from '../prisma.service';
+
+@Module({
+  controllers: [WatermarksController],
+  providers: [WatermarkService, PrismaService],
+  exports: [WatermarkService],
+})
+export class WatermarksModule {}
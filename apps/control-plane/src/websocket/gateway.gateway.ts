@@ -101,6 +101,24 @@ export class ConnectorGateway implements OnGatewayConnection, OnGatewayDisconnec
     };
   }
 
+  @SubscribeMessage('command:chunk')
+  async handleCommandChunk(
+    @MessageBody() data: any,
+    @ConnectedSocket() client: Socket,
+  ) {
+    // The acknowledgement is sent only once the chunk has been stored, which
+    // keeps the connector from streaming faster than we can persist
+    const acknowledged = await this.commandDispatcher.handleChunk(data.commandId, data.sequence, data.rows);
+
+    if (!acknowledged) {
+      this.logger.warn(`Chunk ${data.sequence} of ${data.commandId} from ${client.id} rejected`);
+    }
+
+    return {
+      acknowledged,
+    };
+  }
+
   @SubscribeMessage('schema:discovered')
   async handleSchemaDiscovered(
     @MessageBody() data: any,
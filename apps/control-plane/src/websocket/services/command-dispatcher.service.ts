@@ -1,6 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConnectionManagerService } from './connection-manager.service';
 import { CommandQueueService } from './command-queue.service';
+import {
+  ControlFlagsService,
+  ControlFlagBlockedException,
+} from '../../controls/services/control-flags.service';
 
 interface PendingCommand {
   id: string;
@@ -17,12 +21,14 @@ export class CommandDispatcherService {
   private readonly logger = new Logger(CommandDispatcherService.name);
   private readonly pendingCommands = new Map<string, PendingCommand>();
   private readonly responseEmitters = new Map<string, (response: any) => void>();
+  private readonly chunkHandlers = new Map<string, (sequence: number, rows: any[]) => Promise<void>>();
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 5000; // 5 seconds
 
   constructor(
     private readonly connectionManager: ConnectionManagerService,
     private readonly commandQueue: CommandQueueService,
+    private readonly controlFlags: ControlFlagsService,
   ) {}
 
   async dispatchCommand(
@@ -41,6 +47,12 @@ export class CommandDispatcherService {
       connection = this.connectionManager.getConnectionByTenant(tenantId);
     }
 
+    // Refused outright rather than queued - a kill switch must not replay later by surprise
+    await this.controlFlags.assertAllowed(
+      { tenantId, connectorId: connectorId ?? connection?.connectorId },
+      'connector',
+    );
+
     if (!connection) {
       // Queue command for later
       this.logger.log(`Connector offline, queuing command ${commandId}`);
@@ -148,6 +160,84 @@ export class CommandDispatcherService {
     });
   }
 
+  /**
+   * Dispatches a command whose result arrives as a series of chunks followed by
+   * a final response. Each chunk is handed to onChunk before it is acknowledged,
+   * so the connector never runs more than one chunk ahead. The timeout is an
+   * idle timeout - it restarts with every chunk received.
+   */
+  async dispatchStreamingCommandAndWait<T>(
+    tenantId: string,
+    command: string,
+    payload: any,
+    onChunk: (rows: any[], sequence: number) => Promise<void>,
+    idleTimeoutMs: number = 30000,
+    connectorId?: string
+  ): Promise<T> {
+    const result = await this.dispatchCommand(tenantId, command, payload, connectorId);
+
+    if (!result.success) {
+      throw new Error(`Failed to dispatch command: ${result.commandId}`);
+    }
+
+    const { commandId } = result;
+
+    return new Promise((resolve, reject) => {
+      let timeout: NodeJS.Timeout;
+      const cleanup = () => {
+        clearTimeout(timeout);
+        this.responseEmitters.delete(commandId);
+        this.chunkHandlers.delete(commandId);
+      };
+      const armTimeout = () => {
+        clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          cleanup();
+          reject(new Error(`Command ${commandId} timed out waiting for data`));
+        }, idleTimeoutMs);
+      };
+
+      this.chunkHandlers.set(commandId, async (sequence, rows) => {
+        armTimeout();
+        try {
+          await onChunk(rows, sequence);
+        } catch (error) {
+          cleanup();
+          reject(error);
+          throw error;
+        }
+        armTimeout();
+      });
+
+      this.responseEmitters.set(commandId, (response) => {
+        cleanup();
+        resolve(response);
+      });
+
+      armTimeout();
+    });
+  }
+
+  /**
+   * Hands a streamed chunk to the command waiting for it. Returns whether the
+   * chunk was accepted; the connector aborts the stream when it was not.
+   */
+  async handleChunk(commandId: string, sequence: number, rows: any[]): Promise<boolean> {
+    const handler = this.chunkHandlers.get(commandId);
+    if (!handler) {
+      this.logger.warn(`Received chunk ${sequence} for unknown command: ${commandId}`);
+      return false;
+    }
+
+    try {
+      await handler(sequence, Array.isArray(rows) ? rows : []);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to process chunk ${sequence} of command ${commandId}: ${error.message}`);
+      return false;
+    }
+  }
+
   async retryFailedCommands(): Promise<void> {
     const now = Date.now();
 
@@ -175,7 +265,16 @@ export class CommandDispatcherService {
       // Retry command
       this.logger.log(`Retrying command ${commandId} (attempt ${command.attempts + 1})`);
 
-      const result = await this.dispatchCommand(command.tenantId, command.command, command.payload);
+      let result: { success: boolean; commandId: string };
+      try {
+        result = await this.dispatchCommand(command.tenantId, command.command, command.payload);
+      } catch (error) {
+        if (!(error instanceof ControlFlagBlockedException)) throw error;
+        this.logger.warn(`Command ${commandId} dropped: ${error.message}`);
+        command.status = 'failed';
+        this.pendingCommands.set(commandId, command);
+        continue;
+      }
 
       if (result.success) {
         command.attempts++;
@@ -191,7 +290,19 @@ export class CommandDispatcherService {
     for (const queued of queuedCommands) {
       this.logger.log(`Processing queued command ${queued.commandId}`);
 
-      const result = await this.dispatchCommand(tenantId, queued.command, queued.payload);
+      let result: { success: boolean; commandId: string };
+      try {
+        result = await this.dispatchCommand(tenantId, queued.command, queued.payload);
+      } catch (error) {
+        if (!(error instanceof ControlFlagBlockedException)) throw error;
+        // Paused connectors keep their backlog; blocked ones drop it
+        if (error.flag.flagType === 'PAUSE') {
+          await this.commandQueue.enqueue(tenantId, queued.commandId, queued.command, queued.payload);
+        } else {
+          this.logger.warn(`Queued command ${queued.commandId} dropped: ${error.message}`);
+        }
+        continue;
+      }
 
       if (!result.success) {
         // Re-queue
@@ -4,8 +4,10 @@ import { ConnectionManagerService } from './services/connection-manager.service'
 import { CommandDispatcherService } from './services/command-dispatcher.service';
 import { CommandQueueService } from './services/command-queue.service';
 import { PrismaService } from '../prisma.service';
+import { ControlsModule } from '../controls/controls.module';
 
 @Module({
+  imports: [ControlsModule],
   providers: [
     ConnectorGateway,
     ConnectionManagerService,
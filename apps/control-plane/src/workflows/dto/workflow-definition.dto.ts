@@ -1,13 +1,104 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsArray, IsOptional, IsIn, ValidateNested, IsObject } from 'class-validator';
+import { IsString, IsArray, IsOptional, IsIn, ValidateNested, IsObject, IsInt, Min, IsBoolean } from 'class-validator';
 import { Type } from 'class-transformer';
 
+const EXTRACT_FILTER_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'like', 'isNull', 'isNotNull'];
+
+class ExtractFilterDto {
+  @ApiProperty() @IsString() column!: string;
+  @ApiProperty({ enum: EXTRACT_FILTER_OPERATORS }) @IsIn(EXTRACT_FILTER_OPERATORS) operator!: string;
+  @ApiPropertyOptional({ description: 'Compared value, bound as a query parameter; an array for in/notIn' }) @IsOptional() value?: any;
+}
+
+class IncrementalConfigDto {
+  @ApiProperty({ description: 'Cursor column, e.g. updated_at or a monotonically increasing id' }) @IsString() cursorColumn!: string;
+  @ApiPropertyOptional({ description: 'Start point while no watermark is stored' }) @IsOptional() initialValue?: any;
+}
+
 class ExtractConfigDto {
   @ApiProperty() @IsString() aggregatorInstanceId!: string;
   @ApiProperty() @IsString() table!: string;
   @ApiProperty({ type: [String] }) @IsArray() @IsString({ each: true }) columns!: string[];
-  @ApiPropertyOptional() @IsOptional() @IsString() where?: string;
+  @ApiPropertyOptional({ type: [ExtractFilterDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExtractFilterDto)
+  filters?: ExtractFilterDto[];
+  @ApiPropertyOptional({ description: 'Raw SQL condition; prefer filters' }) @IsOptional() @IsString() where?: string;
+  @ApiPropertyOptional({ description: 'Ordering such as "created_at DESC, id"' }) @IsOptional() orderBy?: string | { column: string; direction?: 'asc' | 'desc' }[];
   @ApiPropertyOptional() @IsOptional() limit?: number;
+  @ApiPropertyOptional({ description: 'Rows fetched per page from the connector' }) @IsOptional() @IsInt() @Min(1) batchSize?: number;
+  @ApiPropertyOptional({ type: [String], description: 'Unique columns to page by; defaults to the discovered primary key' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  keyColumns?: string[];
+  @ApiPropertyOptional({ type: IncrementalConfigDto, description: 'Only read rows past the stored watermark' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IncrementalConfigDto)
+  incremental?: IncrementalConfigDto;
+}
+
+class MultiExtractConfigDto {
+  @ApiProperty() @IsString() aggregatorInstanceId!: string;
+  @ApiPropertyOptional({ type: [String] }) @IsOptional() @IsArray() @IsString({ each: true }) tables?: string[];
+  @ApiPropertyOptional({ description: 'Glob matched against the discovered schema, e.g. "sales_*"' }) @IsOptional() @IsString() tablePattern?: string;
+  @ApiPropertyOptional({ type: [String], description: 'Globs of tables to leave out' }) @IsOptional() @IsArray() @IsString({ each: true }) exclude?: string[];
+  @ApiPropertyOptional({ description: 'Per-table row limit' }) @IsOptional() @IsInt() @Min(1) limit?: number;
+  @ApiPropertyOptional() @IsOptional() @IsInt() @Min(1) batchSize?: number;
+}
+
+class MultiLoadConfigDto {
+  @ApiProperty() @IsString() aggregatorInstanceId!: string;
+  @ApiProperty({ enum: ['insert', 'upsert', 'create'] }) @IsIn(['insert', 'upsert', 'create']) mode!: 'insert' | 'upsert' | 'create';
+  @ApiPropertyOptional({ description: 'Conflict key for every table, or an object of keys per source table' }) @IsOptional() conflictKey?: string | string[] | Record<string, string | string[]>;
+  @ApiPropertyOptional({ enum: ['replace', 'merge', 'skip'] }) @IsOptional() @IsIn(['replace', 'merge', 'skip']) conflictResolution?: 'replace' | 'merge' | 'skip';
+  @ApiPropertyOptional({ description: 'Destination table per source table' }) @IsOptional() @IsObject() tableMapping?: Record<string, string>;
+  @ApiPropertyOptional() @IsOptional() @IsString() tablePrefix?: string;
+  @ApiPropertyOptional({ type: [String] }) @IsOptional() @IsArray() @IsString({ each: true }) tables?: string[];
+  @ApiPropertyOptional() @IsOptional() @IsInt() @Min(1) batchSize?: number;
+  @ApiPropertyOptional({ enum: ['batch', 'transaction', 'staging'], default: 'batch', description: 'Commit mode of each table\'s load, as for load activities' }) @IsOptional() @IsIn(['batch', 'transaction', 'staging']) commitMode?: 'batch' | 'transaction' | 'staging';
+  @ApiPropertyOptional({ description: 'Rejected rows tolerated per table before its load fails and rolls back' }) @IsOptional() @IsInt() @Min(0) errorThreshold?: number;
+}
+
+class SyncConfigDto {
+  @ApiProperty() @IsString() aggregatorInstanceId!: string;
+  @ApiProperty({ type: [String], description: 'Captured tables, optionally schema-qualified' }) @IsArray() @IsString({ each: true }) tables!: string[];
+  @ApiPropertyOptional({ description: 'Changes read per run', default: 10000 }) @IsOptional() @IsInt() @Min(1) maxEvents?: number;
+  @ApiPropertyOptional({ description: 'PostgreSQL replication slot' }) @IsOptional() @IsString() slotName?: string;
+  @ApiPropertyOptional({ description: 'PostgreSQL publication, created for the tables when missing' }) @IsOptional() @IsString() publicationName?: string;
+  @ApiPropertyOptional({ description: 'MySQL replica server id, unique among the server\'s replicas' }) @IsOptional() @IsInt() @Min(1) serverId?: number;
+}
+
+class SdkConfigDto {
+  @ApiPropertyOptional() @IsOptional() @IsString() baseUrl?: string;
+  @ApiPropertyOptional() @IsOptional() @IsString() apiKey?: string;
+  @ApiPropertyOptional() @IsOptional() @IsString() bearerToken?: string;
+  @ApiPropertyOptional() @IsOptional() @IsInt() @Min(1) timeout?: number;
+}
+
+class CloudConnectorSourceConfigDto {
+  @ApiProperty() @IsString() aggregatorInstanceId!: string;
+  @ApiProperty({ description: 'API object to read, e.g. "contacts"' }) @IsString() resource!: string;
+  @ApiProperty({ enum: ['query', 'scan'] }) @IsIn(['query', 'scan']) operation!: 'query' | 'scan';
+  @ApiPropertyOptional({ description: 'Query in the connector\'s query language; required for the query operation' }) @IsOptional() @IsString() query?: string;
+  @ApiPropertyOptional({ description: 'Records requested per page', default: 100 }) @IsOptional() @IsInt() @Min(1) pageSize?: number;
+  @ApiPropertyOptional({ description: 'Pages to read at most; reaching the default fails the step, an explicit cap marks the output truncated', default: 1000 }) @IsOptional() @IsInt() @Min(1) maxPages?: number;
+  @ApiPropertyOptional() @IsOptional() @IsInt() @Min(1) limit?: number;
+  @ApiPropertyOptional({ description: 'SDK method for AI SDK aggregators, defaults to the operation' }) @IsOptional() @IsString() sdkMethod?: string;
+  @ApiPropertyOptional({ type: SdkConfigDto }) @IsOptional() @ValidateNested() @Type(() => SdkConfigDto) sdkConfig?: SdkConfigDto;
+}
+
+class CloudConnectorSinkConfigDto {
+  @ApiProperty() @IsString() aggregatorInstanceId!: string;
+  @ApiProperty({ description: 'API object to write, e.g. "Contact"' }) @IsString() resource!: string;
+  @ApiProperty({ enum: ['insert', 'upsert', 'update'] }) @IsIn(['insert', 'upsert', 'update']) mode!: 'insert' | 'upsert' | 'update';
+  @ApiPropertyOptional({ description: 'Records per API call', default: 100 }) @IsOptional() @IsInt() @Min(1) batchSize?: number;
+  @ApiPropertyOptional({ description: 'Field matching existing records; required for upsert and update' }) @IsOptional() @IsString() keyField?: string;
+  @ApiPropertyOptional({ description: 'SDK method for AI SDK aggregators, defaults to create, upsert or update' }) @IsOptional() @IsString() sdkMethod?: string;
+  @ApiPropertyOptional({ type: SdkConfigDto }) @IsOptional() @ValidateNested() @Type(() => SdkConfigDto) sdkConfig?: SdkConfigDto;
 }
 
 class TransformConfigDto {
@@ -16,6 +107,39 @@ class TransformConfigDto {
   code!: string;
 }
 
+const FILTER_OPERATORS = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'notIn',
+  'isNull', 'isNotNull', 'contains', 'startsWith', 'endsWith', 'regex',
+];
+
+class FilterConditionDto {
+  @ApiProperty() @IsString() field!: string;
+  @ApiProperty({ enum: FILTER_OPERATORS }) @IsIn(FILTER_OPERATORS) operator!: string;
+  @ApiPropertyOptional({ description: 'Compared value; a [low, high] pair for between, an array for in/notIn, a pattern for regex' })
+  @IsOptional()
+  value?: any;
+  @ApiPropertyOptional({ enum: ['date'], description: 'Compare as dates; values may be ISO dates or relative such as "today-7d"' })
+  @IsOptional()
+  @IsIn(['date'])
+  type?: 'date';
+  @ApiPropertyOptional() @IsOptional() @IsBoolean() caseInsensitive?: boolean;
+}
+
+class FilterConfigDto {
+  @ApiProperty() @IsString() inputActivityId!: string;
+  @ApiPropertyOptional({
+    type: FilterConditionDto,
+    description: 'A condition, or a group of them as { and: [...] }, { or: [...] } or { not: ... }; checked when the workflow is validated',
+  })
+  @IsOptional()
+  @IsObject()
+  expression?: FilterConditionDto | Record<string, any>;
+  @ApiPropertyOptional({ description: 'Escape hatch: JavaScript expression over `row` returning a boolean; use instead of expression' })
+  @IsOptional()
+  @IsString()
+  condition?: string;
+}
+
 class LoadConfigDto {
   @ApiProperty() @IsString() aggregatorInstanceId!: string;
   @ApiProperty() @IsString() table!: string;
@@ -31,6 +155,88 @@ class LoadConfigDto {
   @IsOptional()
   @IsIn(['replace', 'merge', 'skip'])
   conflictResolution?: 'replace' | 'merge' | 'skip';
+
+  @ApiPropertyOptional() @IsOptional() @IsInt() @Min(1) batchSize?: number;
+
+  @ApiPropertyOptional({ enum: ['batch', 'transaction', 'staging'], default: 'batch', description: 'Commit every batch, the whole load in one transaction, or through a staging table merged in at the end; staging create loads refuse tables referenced by foreign keys' })
+  @IsOptional()
+  @IsIn(['batch', 'transaction', 'staging'])
+  commitMode?: 'batch' | 'transaction' | 'staging';
+
+  @ApiPropertyOptional({ description: 'Rejected rows tolerated before the load fails and rolls back' }) @IsOptional() @IsInt() @Min(0) errorThreshold?: number;
+
+  @ApiPropertyOptional({ description: 'Add columns the data brings and widen integer and varchar columns too small for it' })
+  @IsOptional()
+  @IsBoolean()
+  autoEvolve?: boolean;
+}
+
+class JoinConfigDto {
+  @ApiProperty({ description: 'Step whose output is the left side' }) @IsString() leftActivityId!: string;
+  @ApiProperty({ description: 'Step whose output is the right side' }) @IsString() rightActivityId!: string;
+
+  @ApiProperty({ enum: ['inner', 'left', 'right', 'full', 'semi', 'anti'] })
+  @IsIn(['inner', 'left', 'right', 'full', 'semi', 'anti'])
+  joinType!: 'inner' | 'left' | 'right' | 'full' | 'semi' | 'anti';
+
+  @ApiProperty({ description: 'Key column, or columns of a composite key' }) leftKey!: string | string[];
+  @ApiPropertyOptional({ description: 'Right key columns paired with leftKey by position; defaults to leftKey' }) @IsOptional() rightKey?: string | string[];
+  @ApiPropertyOptional({ default: 'left_', description: 'Prefix for left columns the right side also has' }) @IsOptional() @IsString() leftPrefix?: string;
+  @ApiPropertyOptional({ default: 'right_', description: 'Prefix for right columns the left side also has' }) @IsOptional() @IsString() rightPrefix?: string;
+  @ApiPropertyOptional({ description: 'Right rows joined in memory before both sides spill to disk' }) @IsOptional() @IsInt() @Min(1) maxMemoryRows?: number;
+}
+
+const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max', 'countDistinct', 'first', 'last'];
+
+class AggregateMeasureDto {
+  @ApiProperty({ enum: AGGREGATE_FUNCTIONS }) @IsIn(AGGREGATE_FUNCTIONS) function!: string;
+  @ApiPropertyOptional({ description: 'Input column; count without one counts rows' }) @IsOptional() @IsString() column?: string;
+  @ApiProperty({ description: 'Output column' }) @IsString() as!: string;
+}
+
+class AggregateWindowDto {
+  @ApiProperty({ description: 'Timestamp column rows are bucketed by' }) @IsString() column!: string;
+  @ApiProperty({ enum: ['second', 'minute', 'hour', 'day', 'week', 'month'] })
+  @IsIn(['second', 'minute', 'hour', 'day', 'week', 'month'])
+  unit!: 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month';
+  @ApiPropertyOptional({ default: 1, description: 'Window length in units' }) @IsOptional() @IsInt() @Min(1) every?: number;
+}
+
+class AggregateConfigDto {
+  @ApiProperty() @IsString() inputActivityId!: string;
+  @ApiPropertyOptional({ type: [String] }) @IsOptional() @IsArray() @IsString({ each: true }) groupBy?: string[];
+  @ApiProperty({ type: [AggregateMeasureDto] }) @IsArray() @ValidateNested({ each: true }) @Type(() => AggregateMeasureDto) aggregates!: AggregateMeasureDto[];
+  @ApiPropertyOptional({ type: AggregateWindowDto, description: 'Tumbling UTC windows over a timestamp column' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AggregateWindowDto)
+  window?: AggregateWindowDto;
+}
+
+class DedupeConfigDto {
+  @ApiProperty() @IsString() inputActivityId!: string;
+  @ApiProperty({ type: [String], description: 'Columns identifying duplicates' }) @IsArray() @IsString({ each: true }) keys!: string[];
+  @ApiProperty({ enum: ['first', 'last', 'merge'], description: 'Keep the first row, the last row, or merge non-null fields with later values winning' })
+  @IsIn(['first', 'last', 'merge'])
+  survivorship!: 'first' | 'last' | 'merge';
+  @ApiPropertyOptional({ description: 'Sort column deciding which row is first or last; defaults to input order' }) @IsOptional() @IsString() orderBy?: string;
+}
+
+class SwitchCaseDto {
+  @ApiProperty({ description: 'Branch name, readable by later steps as <step>.branch' }) @IsString() name!: string;
+  @ApiProperty({ type: FilterConditionDto, description: 'Condition over <step>.status, <step>.rowCount and <step>.branch of the switch\'s dependencies' })
+  @IsObject()
+  when!: FilterConditionDto | Record<string, any>;
+  @ApiProperty({ type: [String], description: 'Steps after the switch that run on this branch' }) @IsArray() @IsString({ each: true }) steps!: string[];
+}
+
+class SwitchConfigDto {
+  @ApiProperty({ type: [SwitchCaseDto], description: 'Checked in order; the first case that holds is taken' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SwitchCaseDto)
+  cases!: SwitchCaseDto[];
+  @ApiPropertyOptional({ type: [String], description: 'Steps that run when no case holds' }) @IsOptional() @IsArray() @IsString({ each: true }) default?: string[];
 }
 
 const WORKFLOW_ACTIVITY_TYPES = [
@@ -39,6 +245,9 @@ const WORKFLOW_ACTIVITY_TYPES = [
   'load',
   'filter',
   'join',
+  'aggregate',
+  'dedupe',
+  'switch',
   'multi-extract',
   'multi-load',
   'sync',
@@ -47,6 +256,48 @@ const WORKFLOW_ACTIVITY_TYPES = [
   'cloud-connector-sink',
 ] as const;
 
+class RetryPolicyDto {
+  @ApiProperty({ description: 'Total attempts including the first run' })
+  @IsInt()
+  @Min(1)
+  maxAttempts!: number;
+
+  @ApiPropertyOptional({ enum: ['fixed', 'linear', 'exponential'], default: 'exponential' })
+  @IsOptional()
+  @IsIn(['fixed', 'linear', 'exponential'])
+  backoff?: 'fixed' | 'linear' | 'exponential';
+
+  @ApiPropertyOptional({ default: 1000 }) @IsOptional() @IsInt() @Min(0) initialDelayMs?: number;
+  @ApiPropertyOptional({ default: 60000 }) @IsOptional() @IsInt() @Min(0) maxDelayMs?: number;
+
+  @ApiPropertyOptional({ type: [String], description: 'Error codes to retry; defaults to errors the activity reports as retryable' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  retryableErrors?: string[];
+}
+
+const SCHEMA_CHANGE_KINDS = [
+  'table-removed',
+  'column-added',
+  'column-removed',
+  'column-renamed',
+  'type-changed',
+  'nullability-changed',
+] as const;
+
+class SchemaDriftPolicyDto {
+  @ApiProperty({ enum: ['fail', 'warn', 'auto-evolve'], description: 'Action when a step\'s table changed since its last run' })
+  @IsIn(['fail', 'warn', 'auto-evolve'])
+  onDrift!: 'fail' | 'warn' | 'auto-evolve';
+
+  @ApiPropertyOptional({ enum: SCHEMA_CHANGE_KINDS, isArray: true, description: 'Changes that never count as drift' })
+  @IsOptional()
+  @IsArray()
+  @IsIn(SCHEMA_CHANGE_KINDS as unknown as string[], { each: true })
+  ignore?: (typeof SCHEMA_CHANGE_KINDS)[number][];
+}
+
 class ActivityDto {
   @ApiProperty() @IsString() id!: string;
   @ApiProperty({ enum: WORKFLOW_ACTIVITY_TYPES })
@@ -54,12 +305,25 @@ class ActivityDto {
   type!: (typeof WORKFLOW_ACTIVITY_TYPES)[number];
   @ApiProperty() @IsString() name!: string;
   @ApiProperty() @IsObject() config!: Record<string, any>;
+
+  @ApiPropertyOptional({ type: RetryPolicyDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RetryPolicyDto)
+  retry?: RetryPolicyDto;
 }
 
 class WorkflowStepDto {
   @ApiProperty() @IsString() id!: string;
   @ApiProperty() @IsString() activityId!: string;
   @ApiProperty({ type: [String] }) @IsArray() @IsString({ each: true }) dependsOn!: string[];
+  @ApiPropertyOptional({
+    type: FilterConditionDto,
+    description: 'Runs the step only if this holds, e.g. { field: "extract.rowCount", operator: "gt", value: 0 }; fields are <step>.status, <step>.rowCount or <step>.branch of its dependencies',
+  })
+  @IsOptional()
+  @IsObject()
+  when?: FilterConditionDto | Record<string, any>;
 }
 
 export class WorkflowDefinitionDto {
@@ -79,4 +343,21 @@ export class WorkflowDefinitionDto {
   @IsOptional()
   @IsString()
   schedule?: string;
+
+  @ApiPropertyOptional({ description: 'IANA timezone the schedule is evaluated in', default: 'UTC' })
+  @IsOptional()
+  @IsString()
+  scheduleTimezone?: string;
+
+  @ApiPropertyOptional({ description: 'Max steps dispatched in parallel per execution', default: 4 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxConcurrency?: number;
+
+  @ApiPropertyOptional({ type: SchemaDriftPolicyDto, description: 'Checked before extract and load steps run' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SchemaDriftPolicyDto)
+  schemaDrift?: SchemaDriftPolicyDto;
 }
@@ -58,6 +58,7 @@ export class WorkflowValidationDataDto {
   @ApiProperty({ type: [String] }) warnings!: string[];
   @ApiProperty() activitiesChecked!: number;
   @ApiProperty({ type: [String] }) aggregatorsVerified!: string[];
+  @ApiPropertyOptional({ type: [Date], description: 'Next fire times of the schedule' }) nextFireTimes?: Date[];
 }
 
 export class WorkflowValidationResponseDto {
@@ -5,12 +5,15 @@ export type ActivityType =
   | 'load' 
   | 'filter' 
   | 'join' 
+  | 'aggregate'
+  | 'dedupe'
   | 'multi-extract' 
   | 'multi-load' 
   | 'sync'
   | 'mini-connector-source'
   | 'cloud-connector-source'
-  | 'cloud-connector-sink';
+  | 'cloud-connector-sink'
+  | 'switch';
 
 // Base activity interface
 export interface Activity {
@@ -18,15 +21,81 @@ export interface Activity {
   type: ActivityType;
   name: string;
   config: ActivityConfig;
+  retry?: RetryPolicy;
+}
+
+// Step-level retry policy
+export type BackoffType = 'fixed' | 'linear' | 'exponential';
+
+export interface RetryPolicy {
+  maxAttempts: number;  // Total attempts including the first run
+  backoff?: BackoffType;  // Defaults to exponential
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /**
+   * Error codes (or message fragments such as "ECONNRESET") that should be retried.
+   * When omitted, only errors the activity reports as retryable are retried.
+   */
+  retryableErrors?: string[];
 }
 
 // Activity-specific configurations
+export interface ExtractFilter {
+  column: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'notIn' | 'like' | 'isNull' | 'isNotNull';
+  value?: any;  // Bound as a query parameter
+}
+
+export interface IncrementalConfig {
+  cursorColumn: string;  // updated_at or a monotonically increasing id
+  initialValue?: any;  // Start point while no watermark is stored; omitted = read everything
+}
+
 export interface ExtractConfig {
   aggregatorInstanceId: string;
   table: string;
   columns: string[];
-  where?: string;
+  filters?: ExtractFilter[];  // Parameterized conditions, ANDed together
+  where?: string;  // Raw SQL condition - prefer filters
+  orderBy?: string | { column: string; direction?: 'asc' | 'desc' }[];
   limit?: number;
+  batchSize?: number;  // Rows fetched per page; results beyond one chunk are stored as a chunked dataset
+  keyColumns?: string[];  // Unique columns pages follow each other by; defaults to the discovered primary key
+  incremental?: IncrementalConfig;  // Only read rows past the stored watermark
+}
+
+export interface MultiExtractConfig {
+  aggregatorInstanceId: string;
+  tables?: string[];  // Explicit table list
+  tablePattern?: string;  // Glob against the instance's discovered schema, e.g. "sales_*"
+  exclude?: string[];  // Globs of tables to leave out
+  limit?: number;  // Per-table row limit
+  batchSize?: number;
+}
+
+export interface MultiLoadConfig {
+  aggregatorInstanceId: string;
+  mode: 'insert' | 'upsert' | 'create';
+  conflictKey?: string | string[] | Record<string, string | string[]>;  // Per source table when an object
+  conflictResolution?: 'replace' | 'merge' | 'skip';
+  tableMapping?: Record<string, string>;  // Source table -> destination table; unmapped tables keep their name
+  tablePrefix?: string;  // Prepended to unmapped destination names
+  tables?: string[];  // Only load these source tables
+  batchSize?: number;
+  commitMode?: 'batch' | 'transaction' | 'staging';  // Per table, as for load
+  errorThreshold?: number;  // Rejected rows tolerated per table; transaction and staging loads default to none
+}
+
+// Change data capture from a PostgreSQL (pgoutput) or MySQL (binlog) aggregator
+export interface SyncConfig {
+  aggregatorInstanceId: string;
+  tables: string[];  // Captured tables, optionally schema-qualified
+  maxEvents?: number;  // Changes read per run, default 10000
+  slotName?: string;  // PostgreSQL replication slot, default derived from workflow and activity
+  publicationName?: string;  // PostgreSQL publication, created for the tables when missing
+  serverId?: number;  // MySQL replica server id, default derived from workflow and activity
+  position?: string;  // Set at dispatch from the stored watermark
+  streamId?: string;  // Set at dispatch
 }
 
 export interface MiniConnectorSourceConfig {
@@ -34,8 +103,18 @@ export interface MiniConnectorSourceConfig {
   database: string;
   table: string;
   columns: string[];
+  filters?: ExtractFilter[];  // ANDed with where; the connector renders them for its database
   where?: string;
   limit?: number;
+  incremental?: IncrementalConfig;
+}
+
+// Credentials and endpoint overrides for AI-generated SDK aggregators
+export interface SdkConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  bearerToken?: string;
+  timeout?: number;
 }
 
 export interface CloudConnectorSourceConfig {
@@ -43,13 +122,21 @@ export interface CloudConnectorSourceConfig {
   resource: string;
   operation: 'query' | 'scan';
   query?: string;
+  pageSize?: number;  // Records requested per page, default 100
+  maxPages?: number;  // Stop after this many pages; reaching the default 1000 fails the step
+  limit?: number;  // Stop after this many records
+  sdkMethod?: string;  // SDK aggregators only; defaults to the operation
+  sdkConfig?: SdkConfig;
 }
 
 export interface CloudConnectorSinkConfig {
   aggregatorInstanceId: string;
   resource: string;
   mode: 'insert' | 'upsert' | 'update';
-  batchSize?: number;
+  batchSize?: number;  // Records per API call, default 100
+  keyField?: string;  // Matches existing records; required for upsert and update
+  sdkMethod?: string;  // SDK aggregators only; defaults to create, upsert or update
+  sdkConfig?: SdkConfig;
 }
 
 export interface TransformConfig {
@@ -66,6 +153,10 @@ export interface LoadConfig {
   conflictKey?: string | string[];
   conflictResolution?: 'replace' | 'merge' | 'skip';
   columnMappings?: { source: string; destination: string }[];
+  batchSize?: number;
+  commitMode?: 'batch' | 'transaction' | 'staging';  // Per batch (default), one transaction, or staging table then merge
+  errorThreshold?: number;  // Rejected rows tolerated; transaction and staging loads default to none
+  autoEvolve?: boolean;  // Add new columns and widen int/varchar columns in the destination as needed
   /**
    * Source metadata to infer table name when not explicitly provided.
    * This enables automatic table name resolution from source activity.
@@ -80,17 +171,87 @@ export interface LoadConfig {
   };
 }
 
+export type FilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'in' | 'notIn' | 'isNull' | 'isNotNull'
+  | 'contains' | 'startsWith' | 'endsWith' | 'regex';
+
+/**
+ * One test of a row field. A missing or null field fails every operator
+ * except isNull, as in SQL.
+ */
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value?: any;  // An array for in/notIn, [low, high] for between (inclusive)
+  type?: 'date';  // Compare as dates; values may also be now, today, now-7d, today+1d (units s, m, h, d, w)
+  caseInsensitive?: boolean;  // Applies to string values, including regex
+}
+
+export type FilterExpression =
+  | FilterCondition
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression };
+
 export interface FilterConfig {
-  condition: string;  // JavaScript expression returning boolean
   inputActivityId: string;  // Which activity's output to filter
+  expression?: FilterExpression;  // Rows matching it are kept
+  condition?: string;  // Escape hatch: JavaScript expression over `row` returning boolean; use instead of expression
 }
 
+/**
+ * Semi and anti joins keep the left rows that do, or do not, have a match,
+ * with the left columns only
+ */
+export type JoinType = 'inner' | 'left' | 'right' | 'full' | 'semi' | 'anti';
+
 export interface JoinConfig {
-  leftActivityId: string;
+  leftActivityId: string;  // Step whose output is the left side
   rightActivityId: string;
-  joinType: 'inner' | 'left' | 'right';
-  leftKey: string;
-  rightKey: string;
+  joinType: JoinType;
+  leftKey: string | string[];  // Composite keys pair with rightKey by position
+  rightKey?: string | string[];  // Defaults to leftKey
+  leftPrefix?: string;  // For columns both sides have, other than a shared key; default "left_"
+  rightPrefix?: string;  // Default "right_"
+  maxMemoryRows?: number;  // Right rows joined in memory before both sides spill to disk
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'countDistinct' | 'first' | 'last';
+
+export interface AggregateMeasure {
+  function: AggregateFunction;
+  column?: string;  // Required except for count, which then counts rows
+  as: string;  // Output column
+}
+
+/**
+ * Tumbling windows over a timestamp column, aligned to the UTC epoch; weeks
+ * start on Monday. Each output row gets window_start and window_end.
+ */
+export interface AggregateWindow {
+  column: string;
+  unit: 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month';
+  every?: number;  // Window length in units, default 1
+}
+
+export interface AggregateConfig {
+  inputActivityId: string;  // Which activity's output to summarize
+  groupBy?: string[];  // Unset = one group over all rows (per window)
+  aggregates: AggregateMeasure[];
+  window?: AggregateWindow;
+}
+
+/**
+ * Which row survives among rows sharing the key columns: the first, the last,
+ * or one row merging the non-null fields of all of them, where later values
+ * win. "Later" follows orderBy when set, otherwise input order.
+ */
+export interface DedupeConfig {
+  inputActivityId: string;  // Which activity's output to deduplicate
+  keys: string[];
+  survivorship: 'first' | 'last' | 'merge';
+  orderBy?: string;  // Sort column deciding first and last; rows without a value sort first
 }
 
 export type ActivityConfig = 
@@ -99,15 +260,46 @@ export type ActivityConfig =
   | LoadConfig 
   | FilterConfig 
   | JoinConfig
+  | AggregateConfig
+  | DedupeConfig
+  | MultiExtractConfig
+  | MultiLoadConfig
+  | SyncConfig
   | MiniConnectorSourceConfig
   | CloudConnectorSourceConfig
-  | CloudConnectorSinkConfig;
+  | CloudConnectorSinkConfig
+  | SwitchConfig;
+
+/**
+ * Routes a workflow to one branch. The orchestrator takes the first case whose
+ * condition holds and runs the steps it names; the steps named by the other
+ * cases are skipped. Steps after the switch that no case names always run.
+ */
+export interface SwitchConfig {
+  cases: SwitchCase[];
+  default?: string[];  // Steps to run when no case holds; none when omitted
+}
+
+export interface SwitchCase {
+  name: string;  // Reported as the switch step's branch fact
+  when: FilterExpression;  // Over the facts of the steps the switch depends on, like WorkflowStep.when
+  steps: string[];  // Steps depending on the switch that run on this branch
+}
 
 // DAG step definition
 export interface WorkflowStep {
   id: string;
   activityId: string;
   dependsOn: string[];  // Step IDs this depends on
+  /**
+   * Runs the step only if this holds once every dependency has finished, and
+   * lets it run after a failed or skipped dependency. Fields name a fact of a
+   * dependency: "<stepId>.status" (COMPLETED, FAILED or SKIPPED),
+   * "<stepId>.rowCount" or "<stepId>.branch" of a switch. Without it a step
+   * runs only if all its dependencies completed. A failure read by a
+   * dependent's condition does not fail the execution.
+   */
+  when?: FilterExpression;
 }
 
 // Complete workflow definition
@@ -116,4 +308,25 @@ export interface WorkflowDefinition {
   activities: Activity[];
   steps: WorkflowStep[];
   schedule?: string;  // Cron expression
+  scheduleTimezone?: string;  // IANA timezone for schedule, defaults to UTC
+  maxConcurrency?: number;  // Max steps dispatched in parallel per execution
+  schemaDrift?: SchemaDriftPolicy;  // Checked before extract and load steps run; unset = no check
 }
+
+/**
+ * What to do when the table an extract or load step touches changed since the
+ * step last ran: fail the step, log a warning, or carry on and let loads
+ * evolve their destination
+ */
+export interface SchemaDriftPolicy {
+  onDrift: 'fail' | 'warn' | 'auto-evolve';
+  ignore?: SchemaChangeKind[];  // Changes that never count as drift, e.g. column-added
+}
+
+export type SchemaChangeKind =
+  | 'table-removed'
+  | 'column-added'
+  | 'column-removed'
+  | 'column-renamed'
+  | 'type-changed'
+  | 'nullability-changed';
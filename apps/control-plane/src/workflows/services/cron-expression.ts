@@ -0,0 +1,83 @@
+import { CronExpression, parseExpression } from 'cron-parser';
+
+// Macros expanded before parsing (cron-parser only knows some of them)
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Fire times sampled when measuring the shortest gap between runs
+const INTERVAL_SAMPLE_SIZE = 100;
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronExpressionError';
+  }
+}
+
+/**
+ * Expands macros and checks the field count. Five fields are standard cron,
+ * six fields add a leading seconds field.
+ */
+export function normalizeCronExpression(expression: string): string {
+  const trimmed = expression.trim();
+  if (trimmed.startsWith('@')) {
+    const expanded = CRON_MACROS[trimmed.toLowerCase()];
+    if (!expanded) {
+      throw new CronExpressionError(`Unsupported cron macro "${trimmed}"`);
+    }
+    return expanded;
+  }
+
+  const fields = trimmed.split(/\s+/);
+  if (fields.length < 5 || fields.length > 6) {
+    throw new CronExpressionError('Invalid cron expression format');
+  }
+  return fields.join(' ');
+}
+
+/**
+ * Parses a cron expression (ranges, steps, lists, month/day names, L and #)
+ * and returns the next fire times in the given timezone.
+ */
+export function getNextFireTimes(
+  expression: string,
+  timezone: string,
+  count: number,
+  from: Date = new Date(),
+): Date[] {
+  const normalized = normalizeCronExpression(expression);
+
+  let interval: CronExpression;
+  try {
+    interval = parseExpression(normalized, { tz: timezone, currentDate: from });
+  } catch (error) {
+    throw new CronExpressionError(`Invalid cron expression: ${(error as Error).message}`);
+  }
+
+  const times: Date[] = [];
+  while (times.length < count && interval.hasNext()) {
+    times.push(interval.next().toDate());
+  }
+  return times;
+}
+
+/**
+ * Shortest gap between consecutive fire times, in milliseconds. Returns null
+ * for expressions that fire at most once.
+ */
+export function getMinimumIntervalMs(expression: string, timezone: string, from: Date = new Date()): number | null {
+  const times = getNextFireTimes(expression, timezone, INTERVAL_SAMPLE_SIZE, from);
+  let minimum: number | null = null;
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i].getTime() - times[i - 1].getTime();
+    if (minimum === null || gap < minimum) minimum = gap;
+  }
+  return minimum;
+}
@@ -0,0 +1,133 @@
+import {
+  FilterExpression,
+  SwitchCase,
+  SwitchConfig,
+  WorkflowDefinition,
+  WorkflowStep,
+} from '../entities/workflow-definition.types';
+import { compileFilterExpression, validateFilterExpression } from '../../activities/datasets/filter-expression';
+
+export type StepFact = 'status' | 'rowCount' | 'branch';
+
+const STEP_FACTS: StepFact[] = ['status', 'rowCount', 'branch'];
+
+/** Facts about finished steps, keyed "<stepId>.<fact>" */
+export type StepFacts = Record<string, any>;
+
+/** The branch a switch step took, stored as its output */
+export interface SwitchOutcome {
+  branch: string | null;  // The case's name, "default", or null when nothing ran
+  steps: string[];
+}
+
+/**
+ * The facts a condition reads, by step
+ */
+export function conditionFacts(expression: FilterExpression): { stepId: string; fact: StepFact }[] {
+  return fieldsOf(expression).flatMap(field => parseFact(field) ?? []);
+}
+
+export function evaluateCondition(expression: FilterExpression, facts: StepFacts): boolean {
+  return compileFilterExpression(expression)(facts);
+}
+
+/**
+ * Takes the first case whose condition holds, else the default
+ */
+export function chooseSwitchCase(config: SwitchConfig, facts: StepFacts): SwitchOutcome {
+  const chosen = config.cases.find(candidate => evaluateCondition(candidate.when, facts));
+  if (chosen) return { branch: chosen.name, steps: chosen.steps };
+  return config.default ? { branch: 'default', steps: config.default } : { branch: null, steps: [] };
+}
+
+/**
+ * Whether a step's failure is handled: a step after it has a condition, or is
+ * a switch with a case, that reads its status
+ */
+export function isFailureHandled(stepId: string, definition: WorkflowDefinition): boolean {
+  return definition.steps.some(step => {
+    if (!step.dependsOn.includes(stepId)) return false;
+    const activity = definition.activities.find(candidate => candidate.id === step.activityId);
+    const conditions = [
+      ...(step.when ? [step.when] : []),
+      ...(activity?.type === 'switch' ? ((activity.config as SwitchConfig).cases ?? []).map(c => c.when) : []),
+    ];
+    return conditions.some(condition =>
+      conditionFacts(condition).some(fact => fact.stepId === stepId && fact.fact === 'status'),
+    );
+  });
+}
+
+/**
+ * Lists what is wrong with a step's condition
+ */
+export function validateStepCondition(step: WorkflowStep): string[] {
+  return step.when === undefined ? [] : validateCondition(step.when, step, 'when');
+}
+
+/**
+ * Lists what is wrong with the cases of a switch, as run by the given step
+ */
+export function validateSwitchConfig(config: SwitchConfig, step: WorkflowStep, definition: WorkflowDefinition): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(config?.cases) || config.cases.length === 0) {
+    return ['cases is required and must be a non-empty array'];
+  }
+
+  // Routed steps must come straight after the switch
+  const followers = new Set(definition.steps.filter(other => other.dependsOn.includes(step.id)).map(other => other.id));
+  const checkSteps = (steps: unknown, path: string) => {
+    if (!Array.isArray(steps) || !steps.every(id => typeof id === 'string')) {
+      errors.push(`${path} must be an array of step ids`);
+      return;
+    }
+    for (const id of steps) {
+      if (!followers.has(id)) errors.push(`${path} names "${id}", which does not depend on this step`);
+    }
+  };
+
+  const names = new Set<string>();
+  config.cases.forEach((candidate: SwitchCase, i: number) => {
+    const path = `cases[${i}]`;
+    if (typeof candidate?.name !== 'string' || candidate.name.length === 0 || candidate.name === 'default') {
+      errors.push(`${path}.name is required and cannot be "default"`);
+    } else if (names.has(candidate.name)) {
+      errors.push(`${path}.name "${candidate.name}" is used by another case`);
+    } else {
+      names.add(candidate.name);
+    }
+    errors.push(...validateCondition(candidate?.when, step, `${path}.when`));
+    checkSteps(candidate?.steps, `${path}.steps`);
+  });
+  if (config.default !== undefined) checkSteps(config.default, 'default');
+
+  return errors;
+}
+
+function validateCondition(expression: any, step: WorkflowStep, path: string): string[] {
+  const errors = validateFilterExpression(expression, path);
+  if (errors.length > 0) return errors;
+
+  for (const field of fieldsOf(expression)) {
+    const fact = parseFact(field);
+    if (!fact || !step.dependsOn.includes(fact.stepId)) {
+      errors.push(`${path} reads "${field}"; fields must be <step>.<fact> of a step this one depends on, with fact one of: ${STEP_FACTS.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+// Step ids may contain dots, the fact never does
+function parseFact(field: string): { stepId: string; fact: StepFact } | null {
+  const dot = field.lastIndexOf('.');
+  const fact = field.slice(dot + 1) as StepFact;
+  if (dot <= 0 || !STEP_FACTS.includes(fact)) return null;
+  return { stepId: field.slice(0, dot), fact };
+}
+
+function fieldsOf(expression: FilterExpression): string[] {
+  if ('and' in expression) return expression.and.flatMap(fieldsOf);
+  if ('or' in expression) return expression.or.flatMap(fieldsOf);
+  if ('not' in expression) return fieldsOf(expression.not);
+  return [expression.field];
+}
@@ -10,6 +10,9 @@ describe('WorkflowValidationService', () => {
     aggregatorInstance: {
       findFirst: jest.fn(),
     },
+    tenant: {
+      findUnique: jest.fn(),
+    },
   };
 
   beforeEach(async () => {
@@ -186,6 +189,48 @@ describe('WorkflowValidationService', () => {
       );
     });
 
+    it('should check that conditions and switch cases read the steps they depend on', async () => {
+      const definition = {
+        version: '1.0',
+        activities: [
+          { id: 'orders', type: 'transform', name: 'Orders', config: {} },
+          {
+            id: 'route',
+            type: 'switch',
+            name: 'Route',
+            config: {
+              cases: [
+                { name: 'default', when: { field: 'orders.rowCount', operator: 'gt', value: 0 }, steps: ['load'] },
+                { name: 'late', when: { field: 'orders.finishedAt', operator: 'isNotNull' }, steps: ['archive'] },
+              ],
+            },
+          },
+          { id: 'load', type: 'transform', name: 'Load', config: {} },
+        ],
+        steps: [
+          { id: 'orders', activityId: 'orders', dependsOn: [] },
+          { id: 'route', activityId: 'route', dependsOn: ['orders'] },
+          { id: 'load', activityId: 'load', dependsOn: ['route'], when: { field: 'orders.rowCount', operator: 'gt', value: 0 } },
+        ],
+      };
+
+      const result = await service.validate('tenant-123', definition as any);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        { field: 'activities.route.config', message: 'cases[0].name is required and cannot be "default"' },
+        {
+          field: 'activities.route.config',
+          message: 'cases[1].when reads "orders.finishedAt"; fields must be <step>.<fact> of a step this one depends on, with fact one of: status, rowCount, branch',
+        },
+        { field: 'activities.route.config', message: 'cases[1].steps names "archive", which does not depend on this step' },
+        {
+          field: 'steps.load.when',
+          message: 'when reads "orders.rowCount"; fields must be <step>.<fact> of a step this one depends on, with fact one of: status, rowCount, branch',
+        },
+      ]);
+    });
+
     it('should validate cron expression format', async () => {
       const definition = {
         version: '1.0' as const,
@@ -202,5 +247,53 @@ describe('WorkflowValidationService', () => {
         message: 'Invalid cron expression format',
       });
     });
+
+    it('should reject cron fields that are not valid values', async () => {
+      const definition = { version: '1.0', activities: [], steps: [], schedule: 'a b c d e' };
+
+      const result = await service.validate('tenant-123', definition as any);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('schedule');
+      expect(result.errors[0].message).toContain('Invalid cron expression');
+    });
+
+    it('should accept macros and return a fire time preview', async () => {
+      mockPrismaService.tenant.findUnique.mockResolvedValue({ tier: 'FREE' });
+      const definition = {
+        version: '1.0',
+        activities: [],
+        steps: [],
+        schedule: '@daily',
+        scheduleTimezone: 'Europe/Berlin',
+      };
+
+      const result = await service.validate('tenant-123', definition as any, 3);
+
+      expect(result.valid).toBe(true);
+      expect(result.nextFireTimes).toHaveLength(3);
+      // Midnight in Berlin is 22:00 or 23:00 UTC
+      expect([22, 23]).toContain(result.nextFireTimes![0].getUTCHours());
+    });
+
+    it('should enforce the minimum schedule interval of the tenant tier', async () => {
+      mockPrismaService.tenant.findUnique.mockResolvedValue({ tier: 'FREE' });
+      const definition = { version: '1.0', activities: [], steps: [], schedule: '* * * * * *' };
+
+      const result = await service.validate('tenant-123', definition as any);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toContain('FREE tier allows at most once every 900s');
+      expect(result.nextFireTimes).toBeUndefined();
+    });
+
+    it('should allow sub-minute schedules on the ENTERPRISE tier', async () => {
+      mockPrismaService.tenant.findUnique.mockResolvedValue({ tier: 'ENTERPRISE' });
+      const definition = { version: '1.0', activities: [], steps: [], schedule: '*/30 * * * * *' };
+
+      const result = await service.validate('tenant-123', definition as any);
+
+      expect(result.valid).toBe(true);
+    });
   });
 });
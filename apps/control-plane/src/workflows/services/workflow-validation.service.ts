@@ -1,6 +1,15 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma.service';
-import { WorkflowDefinition } from '../entities/workflow-definition.types';
+import { SwitchConfig, WorkflowDefinition } from '../entities/workflow-definition.types';
+import { getMinScheduleIntervalForTier } from '../../queue/config/queue-topology.config';
+import {
+  CronExpressionError,
+  getMinimumIntervalMs,
+  getNextFireTimes,
+} from './cron-expression';
+import { validateStepCondition, validateSwitchConfig } from './step-conditions';
+
+const DEFAULT_FIRE_TIME_PREVIEW = 5;
 
 export interface ValidationResult {
   valid: boolean;
@@ -8,6 +17,7 @@ export interface ValidationResult {
   warnings: string[];
   activitiesChecked: number;
   aggregatorsVerified: string[];
+  nextFireTimes?: Date[];  // Preview of upcoming runs when a valid schedule is set
 }
 
 export interface ValidationError {
@@ -22,10 +32,12 @@ export class WorkflowValidationService {
   async validate(
     tenantId: string,
     definition: WorkflowDefinition,
+    fireTimePreview: number = DEFAULT_FIRE_TIME_PREVIEW,
   ): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
     const warnings: string[] = [];
     const aggregatorsVerified: string[] = [];
+    let nextFireTimes: Date[] | undefined;
 
     // 1. Validate DAG structure (no cycles)
     const cycleError = this.detectCycle(definition.steps);
@@ -61,7 +73,7 @@ export class WorkflowValidationService {
 
     // 4. Validate aggregator instances exist and are accessible
     for (const activity of definition.activities) {
-      if (activity.type === 'extract' || activity.type === 'load') {
+      if (['extract', 'load', 'sync', 'multi-extract', 'multi-load', 'cloud-connector-source', 'cloud-connector-sink'].includes(activity.type)) {
         const config = activity.config as { aggregatorInstanceId: string };
         const instance = await this.prisma.aggregatorInstance.findFirst({
           where: {
@@ -80,21 +92,106 @@ export class WorkflowValidationService {
           aggregatorsVerified.push(instance.aggregator.name);
 
           // Check capabilities
-          if (activity.type === 'load' && !instance.aggregator.capabilities.includes('write')) {
+          if (['load', 'multi-load', 'cloud-connector-sink'].includes(activity.type) && !instance.aggregator.capabilities.includes('write')) {
             warnings.push(`Aggregator "${instance.aggregator.name}" does not have 'write' capability`);
           }
         }
       }
     }
 
-    // 5. Validate schedule format if provided
-    if (definition.schedule) {
-      const cronValid = this.validateCron(definition.schedule);
-      if (!cronValid) {
+    // 5. Validate retry policies
+    for (const activity of definition.activities) {
+      const retry = activity.retry;
+      if (!retry) continue;
+
+      if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+        errors.push({
+          field: `activities.${activity.id}.retry.maxAttempts`,
+          message: 'maxAttempts must be a positive integer',
+        });
+      }
+      if ((retry.initialDelayMs ?? 0) < 0 || (retry.maxDelayMs ?? 0) < 0) {
+        errors.push({
+          field: `activities.${activity.id}.retry`,
+          message: 'Retry delays must not be negative',
+        });
+      }
+      if (
+        retry.initialDelayMs !== undefined &&
+        retry.maxDelayMs !== undefined &&
+        retry.maxDelayMs < retry.initialDelayMs
+      ) {
+        errors.push({
+          field: `activities.${activity.id}.retry.maxDelayMs`,
+          message: 'maxDelayMs must be greater than or equal to initialDelayMs',
+        });
+      }
+    }
+
+    // 6. Validate incremental extract settings
+    for (const activity of definition.activities) {
+      const incremental = (activity.config as { incremental?: { cursorColumn?: string } })?.incremental;
+      if (!incremental) continue;
+
+      if (activity.type !== 'extract' && activity.type !== 'mini-connector-source') {
+        errors.push({
+          field: `activities.${activity.id}.config.incremental`,
+          message: 'Incremental reads are only supported by extract and mini-connector-source activities',
+        });
+      } else if (!incremental.cursorColumn || !/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(incremental.cursorColumn)) {
+        errors.push({
+          field: `activities.${activity.id}.config.incremental.cursorColumn`,
+          message: 'cursorColumn must be a plain column name',
+        });
+      }
+    }
+
+    // 7. Validate change capture settings
+    for (const activity of definition.activities) {
+      if (activity.type !== 'sync') continue;
+      const tables = (activity.config as { tables?: unknown }).tables;
+
+      if (!Array.isArray(tables) || tables.length === 0) {
         errors.push({
-          field: 'schedule',
-          message: 'Invalid cron expression format',
+          field: `activities.${activity.id}.config.tables`,
+          message: 'Sync activities need at least one table to capture',
         });
+      } else if (tables.some(table => typeof table !== 'string' || !/^([a-zA-Z_][a-zA-Z0-9_]*\.)?[a-zA-Z_][a-zA-Z0-9_]*$/.test(table))) {
+        errors.push({
+          field: `activities.${activity.id}.config.tables`,
+          message: 'Tables must be plain or schema-qualified table names',
+        });
+      }
+    }
+
+    // 8. Validate step conditions and switch routing
+    for (const step of definition.steps) {
+      for (const message of validateStepCondition(step)) {
+        errors.push({ field: `steps.${step.id}.when`, message });
+      }
+
+      const activity = definition.activities.find(a => a.id === step.activityId);
+      if (activity?.type !== 'switch') continue;
+      for (const message of validateSwitchConfig(activity.config as SwitchConfig, step, definition)) {
+        errors.push({ field: `activities.${activity.id}.config`, message });
+      }
+    }
+
+    // 9. Validate schedule if provided
+    const timezone = definition.scheduleTimezone || 'UTC';
+    const timezoneValid = this.isValidTimezone(timezone);
+    if (!timezoneValid) {
+      errors.push({
+        field: 'scheduleTimezone',
+        message: `Unknown timezone "${definition.scheduleTimezone}"`,
+      });
+    }
+
+    if (definition.schedule && timezoneValid) {
+      const scheduleErrors = await this.validateSchedule(tenantId, definition.schedule, timezone);
+      errors.push(...scheduleErrors);
+      if (scheduleErrors.length === 0) {
+        nextFireTimes = getNextFireTimes(definition.schedule, timezone, fireTimePreview);
       }
     }
 
@@ -104,6 +201,7 @@ export class WorkflowValidationService {
       warnings,
       activitiesChecked: definition.activities.length,
       aggregatorsVerified: [...new Set(aggregatorsVerified)],
+      ...(nextFireTimes && { nextFireTimes }),
     };
   }
 
@@ -147,9 +245,48 @@ export class WorkflowValidationService {
     return null;
   }
 
-  private validateCron(cron: string): boolean {
-    // Basic cron validation (5-6 parts)
-    const parts = cron.trim().split(/\s+/);
-    return parts.length >= 5 && parts.length <= 6;
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async validateSchedule(
+    tenantId: string,
+    schedule: string,
+    timezone: string,
+  ): Promise<ValidationError[]> {
+    let minimumIntervalMs: number | null;
+    try {
+      minimumIntervalMs = getMinimumIntervalMs(schedule, timezone);
+    } catch (error) {
+      if (error instanceof CronExpressionError) {
+        return [{ field: 'schedule', message: error.message }];
+      }
+      throw error;
+    }
+
+    if (minimumIntervalMs === null) {
+      return [{ field: 'schedule', message: 'Cron expression does not fire on a recurring basis' }];
+    }
+
+    // Keep schedules within what the tenant's tier can actually run
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { tier: true },
+    });
+    const tier = tenant?.tier ?? 'FREE';
+    const minimumSeconds = getMinScheduleIntervalForTier(tier);
+    if (minimumIntervalMs < minimumSeconds * 1000) {
+      return [{
+        field: 'schedule',
+        message: `Schedule fires every ${minimumIntervalMs / 1000}s; ${tier} tier allows at most once every ${minimumSeconds}s`,
+      }];
+    }
+
+    return [];
   }
 }
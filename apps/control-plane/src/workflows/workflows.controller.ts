@@ -83,10 +83,12 @@ export class WorkflowsController {
   async validate(
     @TenantId() tenantId: string,
     @Body() definition: WorkflowDefinitionDto,
+    @Query('previewCount') previewCount?: string,
   ) {
     const result = await this.workflowsService.validate(
       tenantId,
       definition as any,
+      previewCount ? Math.min(Math.max(parseInt(previewCount, 10) || 5, 1), 100) : undefined,
     );
     return {
       success: true,
@@ -96,6 +98,7 @@ export class WorkflowsController {
         warnings: result.warnings,
         activitiesChecked: result.activitiesChecked,
         aggregatorsVerified: result.aggregatorsVerified,
+        nextFireTimes: result.nextFireTimes,
       },
     };
   }
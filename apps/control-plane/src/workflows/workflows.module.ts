@@ -3,8 +3,10 @@ import { WorkflowsController } from './workflows.controller';
 import { WorkflowsService } from './workflows.service';
 import { WorkflowValidationService } from './services/workflow-validation.service';
 import { PrismaService } from '../prisma.service';
+import { SchedulerModule } from '../scheduler/scheduler.module';
 
 @Module({
+  imports: [SchedulerModule],
   controllers: [WorkflowsController],
   providers: [WorkflowsService, WorkflowValidationService, PrismaService],
   exports: [WorkflowsService, WorkflowValidationService],
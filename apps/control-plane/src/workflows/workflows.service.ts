@@ -1,6 +1,7 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { WorkflowValidationService } from './services/workflow-validation.service';
+import { WorkflowSchedulerService } from '../scheduler/services/workflow-scheduler.service';
 import { CreateWorkflowDto } from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
 import { WorkflowDefinition } from './entities/workflow-definition.types';
@@ -8,9 +9,12 @@ import { createHash } from 'crypto';
 
 @Injectable()
 export class WorkflowsService {
+  private readonly logger = new Logger(WorkflowsService.name);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly validationService: WorkflowValidationService,
+    private readonly scheduler: WorkflowSchedulerService,
   ) {}
 
   async findAll(tenantId: string, filters?: { status?: string }) {
@@ -116,10 +120,19 @@ export class WorkflowsService {
     if (dto.isActive !== undefined) {
       data.status = dto.isActive ? 'ACTIVE' : 'INACTIVE';
     }
-    return this.prisma.workflowDefinition.update({
+    const updated = await this.prisma.workflowDefinition.update({
       where: { id },
       data,
     });
+
+    // Activation changes register or drop the workflow's cron schedule
+    if (dto.isActive !== undefined) {
+      this.scheduler.syncWorkflow(id, tenantId).catch(error => {
+        this.logger.error(`Failed to sync schedule for workflow ${id}: ${error.message}`);
+      });
+    }
+
+    return updated;
   }
 
   async delete(id: string, tenantId: string) {
@@ -139,14 +152,18 @@ export class WorkflowsService {
       );
     }
 
+    this.scheduler.removeWorkflow(id).catch(error => {
+      this.logger.error(`Failed to remove schedule for workflow ${id}: ${error.message}`);
+    });
+
     return this.prisma.workflowDefinition.delete({
       where: { id },
     });
   }
 
-  async validate(tenantId: string, definition: WorkflowDefinition | any) {
+  async validate(tenantId: string, definition: WorkflowDefinition | any, fireTimePreview?: number) {
     const normalized = this.normalizeDefinition(definition as any);
-    return this.validationService.validate(tenantId, normalized);
+    return this.validationService.validate(tenantId, normalized, fireTimePreview);
   }
 
   private normalizeDefinition(definition: WorkflowDefinition | any): WorkflowDefinition {
@@ -88,7 +88,7 @@ export class CommandOrchestratorService extends EventEmitter {
         let result;
         const operation = command.operation || 'query';
 
-        if (operation === 'query') {
+        if (operation === 'query' || operation === 'stream-query') {
             this.emit('command:start', { commandId, executionId, activityId, query: payload.query });
         }
 
@@ -104,6 +104,9 @@ export class CommandOrchestratorService extends EventEmitter {
           case 'get-columns':
             result = await this.queryExecutorService.getColumns(dbConfig, payload.database, payload.table);
             break;
+          case 'stream-query':
+            result = await this.streamQuery(commandId, dbConfig, payload.query);
+            break;
           case 'query':
           default:
              result = await this.queryExecutorService.executeQuery(dbConfig, payload.query);
@@ -119,7 +122,7 @@ export class CommandOrchestratorService extends EventEmitter {
         console.log('[CommandOrchestrator] Sending response for command:', commandId);
         this.webSocketService.sendCommandResponse(commandId, result);
         
-        if (operation === 'query') {
+        if (operation === 'query' || operation === 'stream-query') {
             this.emit('command:success', { commandId, duration, rowCount: (result as any).rowCount });
         }
 
@@ -150,6 +153,27 @@ export class CommandOrchestratorService extends EventEmitter {
     }
   }
 
+  /**
+   * Streams a query to the cloud chunk by chunk. Each chunk is acknowledged
+   * before the next batch is read, so memory use stays at one batch.
+   */
+  private async streamQuery(commandId: string, dbConfig: any, query: any) {
+    let chunks = 0;
+    let rowCount = 0;
+    let columns: string[] | undefined;
+
+    await this.queryExecutorService.streamQuery(dbConfig, query, async (rows) => {
+      if (!columns && rows.length > 0) {
+        columns = Object.keys(rows[0]);
+      }
+      await this.webSocketService.sendCommandChunk(commandId, chunks, rows);
+      chunks++;
+      rowCount += rows.length;
+    });
+
+    return { streamed: true, chunks, rowCount, columns: columns || query.columns };
+  }
+
   private async processOfflineQueue() {
     console.log('[CommandOrchestrator] Processing offline queue...');
     const queued = this.offlineQueueService.getQueuedResults();
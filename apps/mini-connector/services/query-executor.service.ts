@@ -19,6 +19,29 @@ interface QueryResult {
   columns: string[];
 }
 
+// Watermark of an incremental read; rows with a cursor above `after` are returned
+interface IncrementalQuery {
+  cursorColumn: string;
+  after?: string | number;
+}
+
+// Conditions pushed down from the control plane, ANDed with where
+interface QueryFilter {
+  column: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'notIn' | 'like' | 'isNull' | 'isNotNull';
+  value?: string | number | Array<string | number>;
+}
+
+const FILTER_OPERATORS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+};
+
 interface SchemaInfo {
   tables: Array<{
     name: string;
@@ -86,6 +109,8 @@ export class QueryExecutorService {
     where?: string;
     limit?: number;
     orderBy?: string;
+    incremental?: IncrementalQuery;
+    filters?: QueryFilter[];
   }): Promise<QueryResult> {
     // Build SQL
     const sql = this.buildQuery(query, config.type);
@@ -220,54 +245,99 @@ export class QueryExecutorService {
   }
 
   /**
-   * Stream query results
+   * Stream query results over a single server-side read, so every batch comes
+   * from the same snapshot without paging by offset. onBatch is awaited before
+   * the next batch is read, so a slow consumer holds the stream back instead of
+   * letting batches pile up.
    */
   async streamQuery(
     config: DatabaseConfig, 
-    query: { table: string; columns: string[]; where?: string; orderBy?: string },
-    onBatch: (rows: any[]) => void
+    query: { table: string; columns: string[]; where?: string; orderBy?: string; limit?: number; incremental?: IncrementalQuery; filters?: QueryFilter[] },
+    onBatch: (rows: any[]) => void | Promise<void>
   ): Promise<void> {
     const BATCH_SIZE = 1000;
-    const baseSql = this.buildQuery(query, config.type);
-    let offset = 0;
-    let hasMore = true;
-
-    while (hasMore) {
-      let sql = baseSql;
+    const sql = this.buildQuery(query, config.type);
+    this.enforceReadOnly(sql, config.type);
 
-      if (config.type === 'mysql' || config.type === 'postgresql') {
-        sql += ` LIMIT ${BATCH_SIZE} OFFSET ${offset}`;
-      } else if (config.type === 'mssql') {
-        if (!/order\s+by/i.test(sql)) {
-          throw new Error('Streaming for MSSQL requires an ORDER BY clause');
-        }
-        sql += ` OFFSET ${offset} ROWS FETCH NEXT ${BATCH_SIZE} ROWS ONLY`;
+    let batch: any[] = [];
+    for await (const row of this.streamRows(config, sql, BATCH_SIZE)) {
+      batch.push(row);
+      if (batch.length === BATCH_SIZE) {
+        await onBatch(batch);
+        batch = [];
       }
+    }
+    if (batch.length > 0) {
+      await onBatch(batch);
+    }
+  }
 
-      this.enforceReadOnly(sql, config.type);
+  /**
+   * Rows of a query as the driver reads them: a cursor on PostgreSQL, a result
+   * stream paused while the consumer is busy on MySQL and MSSQL
+   */
+  private streamRows(config: DatabaseConfig, sql: string, batchSize: number): AsyncIterable<any> {
+    if (config.type === 'mysql') {
+      return this.streamMySQLRows(config, sql, batchSize);
+    } else if (config.type === 'postgresql') {
+      return this.streamPostgreSQLRows(config, sql, batchSize);
+    } else if (config.type === 'mssql') {
+      return this.streamMSSQLRows(config, sql, batchSize);
+    } else {
+      throw new Error(`Unsupported database type: ${config.type}`);
+    }
+  }
 
-      let rows: any[] = [];
-      if (config.type === 'mysql') {
-        const res = await this.executeMySQLQuery(config, sql, query.columns);
-        rows = res.data;
-      } else if (config.type === 'postgresql') {
-        const res = await this.executePostgreSQLQuery(config, sql, query.columns);
-        rows = res.data;
-      } else if (config.type === 'mssql') {
-        const res = await this.executeMSSQLQuery(config, sql, query.columns);
-        rows = res.data;
+  private async *streamMySQLRows(config: DatabaseConfig, sql: string, batchSize: number): AsyncGenerator<any> {
+    const connection = await this.getMySQLPool(config).getConnection();
+    let finished = false;
+    try {
+      yield* connection.connection.query(sql).stream({ highWaterMark: batchSize });
+      finished = true;
+    } finally {
+      // A result left half read would still be arriving on the connection
+      if (finished) {
+        connection.release();
+      } else {
+        connection.destroy();
       }
+    }
+  }
 
-      if (rows.length === 0) {
-        hasMore = false;
-        continue;
+  private async *streamPostgreSQLRows(config: DatabaseConfig, sql: string, batchSize: number): AsyncGenerator<any> {
+    const client = await this.getPostgreSQLPool(config).connect();
+    let open = false;
+    try {
+      await client.query('BEGIN TRANSACTION READ ONLY'); // Layer 3 enforcement
+      open = true;
+      await client.query(`DECLARE stream_cursor NO SCROLL CURSOR FOR ${sql}`);
+      let fetched: number;
+      do {
+        const result = await client.query(`FETCH FORWARD ${batchSize} FROM stream_cursor`);
+        fetched = result.rows.length;
+        yield* result.rows;
+      } while (fetched === batchSize);
+      await client.query('COMMIT');
+      open = false;
+    } finally {
+      if (open) {
+        await client.query('ROLLBACK').catch(() => undefined);
       }
+      client.release();
+    }
+  }
 
-      onBatch(rows);
-      offset += rows.length;
-
-      if (rows.length < BATCH_SIZE) {
-        hasMore = false;
+  private async *streamMSSQLRows(config: DatabaseConfig, sql: string, batchSize: number): AsyncGenerator<any> {
+    const request = (await this.getMSSQLPool(config)).request();
+    const rows = request.toReadableStream({ highWaterMark: batchSize });
+    request.query(sql);
+    let finished = false;
+    try {
+      yield* rows;
+      finished = true;
+    } finally {
+      if (!finished) {
+        request.cancel();
       }
     }
   }
@@ -405,6 +475,16 @@ export class QueryExecutorService {
    * Execute MySQL query
    */
   private async executeMySQLQuery(config: DatabaseConfig, sql: string, columns: string[]): Promise<QueryResult> {
+    const [rows] = await this.getMySQLPool(config).execute(sql);
+
+    return {
+      data: rows as any[],
+      rowCount: (rows as any[]).length,
+      columns: columns,
+    };
+  }
+
+  private getMySQLPool(config: DatabaseConfig): mysql.Pool {
     const poolKey = this.getPoolKey(config);
     let pool = this.pools.get(poolKey) as mysql.Pool | undefined;
 
@@ -427,19 +507,28 @@ export class QueryExecutorService {
       this.pools.set(poolKey, pool);
     }
 
-    const [rows] = await pool.execute(sql);
-
-    return {
-      data: rows as any[],
-      rowCount: (rows as any[]).length,
-      columns: columns,
-    };
+    return pool;
   }
 
   /**
    * Execute PostgreSQL query
    */
   private async executePostgreSQLQuery(config: DatabaseConfig, sql: string, columns: string[]): Promise<QueryResult> {
+    const client = await this.getPostgreSQLPool(config).connect();
+    try {
+      await client.query('SET SESSION CHARACTERISTICS AS TRANSACTION READ ONLY'); // Layer 3 enforcement
+      const result = await client.query(sql);
+      return {
+        data: result.rows,
+        rowCount: result.rowCount || 0,
+        columns: columns,
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  private getPostgreSQLPool(config: DatabaseConfig): Pool {
     const poolKey = this.getPoolKey(config);
     let pool = this.pools.get(poolKey) as Pool | undefined;
 
@@ -456,24 +545,23 @@ export class QueryExecutorService {
       this.pools.set(poolKey, pool);
     }
 
-    const client = await pool.connect();
-    try {
-      await client.query('SET SESSION CHARACTERISTICS AS TRANSACTION READ ONLY'); // Layer 3 enforcement
-      const result = await client.query(sql);
-      return {
-        data: result.rows,
-        rowCount: result.rowCount || 0,
-        columns: columns,
-      };
-    } finally {
-      client.release();
-    }
+    return pool;
   }
 
   /**
    * Execute MSSQL query
    */
   private async executeMSSQLQuery(config: DatabaseConfig, sql: string, columns: string[]): Promise<QueryResult> {
+    const result = await (await this.getMSSQLPool(config)).query(sql);
+
+    return {
+      data: result.recordset,
+      rowCount: result.rowsAffected[0] || 0,
+      columns: columns,
+    };
+  }
+
+  private async getMSSQLPool(config: DatabaseConfig): Promise<mssql.ConnectionPool> {
     const poolKey = this.getPoolKey(config);
     let pool = this.pools.get(poolKey) as mssql.ConnectionPool | undefined;
 
@@ -493,13 +581,7 @@ export class QueryExecutorService {
       this.pools.set(poolKey, pool);
     }
 
-    const result = await pool.query(sql);
-
-    return {
-      data: result.recordset,
-      rowCount: result.rowsAffected[0] || 0,
-      columns: columns,
-    };
+    return pool;
   }
 
   /**
@@ -707,28 +789,52 @@ export class QueryExecutorService {
     where?: string;
     limit?: number;
     orderBy?: string;
+    incremental?: IncrementalQuery;
+    filters?: QueryFilter[];
   }, type?: 'mysql' | 'postgresql' | 'mssql'): string {
     // Quote columns and table names to preserve case
     const columns = this.quoteColumns(query.columns, type);
     const table = this.quoteIdentifier(query.table, type);
+
+    let where = query.where;
+    let orderBy = query.orderBy;
+    if (query.filters && query.filters.length > 0) {
+      const conditions = query.filters.map(filter => this.buildFilter(filter, type));
+      if (where) conditions.unshift(`(${where})`);
+      where = conditions.join(' AND ');
+    }
+
+    // Incremental reads only return rows past the watermark, in cursor order
+    if (query.incremental) {
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(query.incremental.cursorColumn)) {
+        throw new Error(`Invalid cursor column: ${query.incremental.cursorColumn}`);
+      }
+      const cursor = this.quoteIdentifier(query.incremental.cursorColumn, type);
+      const after = query.incremental.after;
+      if (after !== undefined && after !== null) {
+        const condition = `${cursor} > ${this.toSqlLiteral(after, type)}`;
+        where = where ? `(${where}) AND ${condition}` : condition;
+      }
+      orderBy = `${cursor} ASC`;
+    }
     
     // MSSQL TOP syntax
     if (type === 'mssql' && query.limit) {
       let sql = `SELECT TOP ${query.limit} ${columns} FROM ${table}`;
-      if (query.where) sql += ` WHERE ${query.where}`;
-      if (query.orderBy) sql += ` ORDER BY ${query.orderBy}`;
+      if (where) sql += ` WHERE ${where}`;
+      if (orderBy) sql += ` ORDER BY ${orderBy}`;
       console.log(`[QueryExecutor] Built SQL (${type}): ${sql}`);
       return sql;
     }
 
     let sql = `SELECT ${columns} FROM ${table}`;
 
-    if (query.where) {
-      sql += ` WHERE ${query.where}`;
+    if (where) {
+      sql += ` WHERE ${where}`;
     }
 
-    if (query.orderBy) {
-      sql += ` ORDER BY ${query.orderBy}`;
+    if (orderBy) {
+      sql += ` ORDER BY ${orderBy}`;
     }
 
     if (query.limit) {
@@ -739,6 +845,55 @@ export class QueryExecutorService {
     return sql;
   }
 
+  /**
+   * Render one pushed-down filter as a SQL condition
+   */
+  private buildFilter(filter: QueryFilter, type?: 'mysql' | 'postgresql' | 'mssql'): string {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(filter.column)) {
+      throw new Error(`Invalid filter column: ${filter.column}`);
+    }
+    const column = this.quoteIdentifier(filter.column, type);
+
+    switch (filter.operator) {
+      case 'isNull':
+        return `${column} IS NULL`;
+      case 'isNotNull':
+        return `${column} IS NOT NULL`;
+      case 'in':
+      case 'notIn': {
+        if (!Array.isArray(filter.value) || filter.value.length === 0) {
+          throw new Error(`Filter ${filter.operator} on ${filter.column} needs a non-empty list`);
+        }
+        const values = filter.value.map(value => this.toSqlLiteral(value, type)).join(', ');
+        return `${column} ${filter.operator === 'in' ? 'IN' : 'NOT IN'} (${values})`;
+      }
+      default: {
+        const operator = FILTER_OPERATORS[filter.operator];
+        if (!operator) throw new Error(`Unsupported filter operator: ${filter.operator}`);
+        return `${column} ${operator} ${this.toSqlLiteral(filter.value, type)}`;
+      }
+    }
+  }
+
+  /**
+   * Render a watermark or filter value as a SQL literal. Only numbers and
+   * strings are accepted; quotes (and backslashes on MySQL) are escaped.
+   */
+  private toSqlLiteral(value: any, type?: 'mysql' | 'postgresql' | 'mssql'): string {
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) throw new Error(`Invalid literal value: ${value}`);
+      return String(value);
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`Unsupported literal value type: ${typeof value}`);
+    }
+    let escaped = value.replace(/'/g, "''");
+    if (type === 'mysql') {
+      escaped = escaped.replace(/\\/g, '\\\\');
+    }
+    return `'${escaped}'`;
+  }
+
   /**
    * Quote identifier based on database type
    * PostgreSQL: double quotes preserve case
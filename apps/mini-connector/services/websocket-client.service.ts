@@ -179,6 +179,26 @@ export class WebSocketService extends EventEmitter {
     });
   }
 
+  /**
+   * Sends one chunk of a streamed result and waits for the cloud to store it
+   */
+  async sendCommandChunk(commandId: string, sequence: number, rows: any[]) {
+    if (!this.socket || !this.socket.connected) {
+      throw new Error('Not connected to cloud');
+    }
+
+    const ack = await this.socket.timeout(60000).emitWithAck('command:chunk', {
+      commandId,
+      sequence,
+      rows,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (!ack?.acknowledged) {
+      throw new Error(`Chunk ${sequence} of command ${commandId} was rejected`);
+    }
+  }
+
   sendSchema(schema: any) {
     if (!this.socket || !this.socket.connected) {
       throw new Error('Not connected to cloud');